@@ -1,26 +1,15 @@
 import React, { useState } from 'react';
-import { db } from '../lib/firebase';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
-
-interface HiringManager {
-  id: string;
-  name: string;
-  role: string;
-  email?: string;
-  linkedinProfile?: string;
-  company: string;
-  notes?: string;
-  lastContactDate?: any;
-  nextFollowUpDate?: any;
-  createdAt: any;
-  updatedAt: any;
-}
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from './AuthProvider';
+import { HiringManagerInput } from '../lib/domain';
+import { hiringManagerRepository } from '../lib/repositories';
 
 interface AddHiringManagerFormProps {
   onManagerAdded: () => void;
 }
 
 export default function AddHiringManagerForm({ onManagerAdded }: AddHiringManagerFormProps) {
+  const { user } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
@@ -52,20 +41,18 @@ export default function AddHiringManagerForm({ onManagerAdded }: AddHiringManage
     setIsSubmitting(true);
 
     try {
-      const hiringManagerData = {
+      const hiringManagerData: HiringManagerInput = {
         name: formData.name.trim(),
         role: formData.role.trim(),
         email: formData.email.trim() || null,
         linkedinProfile: formData.linkedinProfile.trim() || null,
         company: formData.company.trim(),
         notes: formData.notes.trim() || null,
-        lastContactDate: formData.lastContactDate ? new Date(formData.lastContactDate) : null,
-        nextFollowUpDate: formData.nextFollowUpDate ? new Date(formData.nextFollowUpDate) : null,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        lastContactDate: formData.lastContactDate ? Timestamp.fromDate(new Date(formData.lastContactDate)) : null,
+        nextFollowUpDate: formData.nextFollowUpDate ? Timestamp.fromDate(new Date(formData.nextFollowUpDate)) : null
       };
 
-      await addDoc(collection(db, 'hiringManagers'), hiringManagerData);
+      await hiringManagerRepository.create(user.uid, hiringManagerData);
       
       // Reset form
       setFormData({
@@ -1,59 +1,63 @@
-import { useState, useEffect } from 'react';
-import { db } from '../lib/firebase';
-import { collection, addDoc, onSnapshot, query, orderBy } from 'firebase/firestore';
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from './AuthProvider';
+import { Application, ApplicationStatus, CustomFieldValue, DEFAULT_STATUS, Resume } from '../lib/domain';
+import { applicationRepository, descriptionSnapshotRepository, resumeRepository } from '../lib/repositories';
+import { cleanCustomFieldValues } from '../lib/customFields';
+import { describeDuplicateReasons, findDuplicates } from '../lib/duplicates';
+import { JOB_POSTING_SOURCE_LABELS, ParsedJobPosting, parseJobPosting } from '../lib/jobPosting';
+import { MAX_SNAPSHOT_LENGTH, prepareDescription } from '../lib/jobDescriptions';
+import { getResumeAssignment } from '../lib/resumeVersions';
+import { usePipeline } from './PipelineProvider';
+import CustomFieldInputs from './CustomFieldInputs';
+import ResumeMatch from './ResumeMatch';
 
 interface ApplicationFormProps {
   onApplicationAdded?: () => void;
+  applications?: Application[]; // Existing applications, checked for duplicates
+  onOpenApplication?: (application: Application) => void;
 }
 
-interface Resume {
-  id: string;
-  name: string;
-}
+const emptyFormData = {
+  jobTitle: '',
+  company: '',
+  location: '',
+  jobLink: '',
+  status: '' as ApplicationStatus, // Empty until picked: new applications start in the first stage
+  notes: '',
+  description: '',
+  resumeId: '',
+  deadline: '',
+  tags: [] as string[],
+  customFields: {} as Record<string, CustomFieldValue>
+};
 
-export default function ApplicationForm({ onApplicationAdded }: ApplicationFormProps) {
+export default function ApplicationForm({ onApplicationAdded, applications = [], onOpenApplication }: ApplicationFormProps) {
+  const { user } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [resumes, setResumes] = useState<Resume[]>([]);
-  const [formData, setFormData] = useState({
-    jobTitle: '',
-    company: '',
-    location: '',
-    jobLink: '',
-    status: 'saved',
-    notes: '',
-    resumeId: ''
-  });
-
-  // Industry-standard status pipeline following Huntr/Teal patterns  
-  const statusOptions = [
-    { value: 'saved', label: 'Saved', bgColor: 'bg-slate-50', textColor: 'text-slate-700', dotColor: 'bg-slate-400' },
-    { value: 'applied', label: 'Applied', bgColor: 'bg-blue-50', textColor: 'text-blue-700', dotColor: 'bg-blue-500' },
-    { value: 'phone-screen', label: 'Phone Screen', bgColor: 'bg-purple-50', textColor: 'text-purple-700', dotColor: 'bg-purple-500' },
-    { value: 'interview', label: 'Interview', bgColor: 'bg-amber-50', textColor: 'text-amber-700', dotColor: 'bg-amber-500' },
-    { value: 'offer', label: 'Offer', bgColor: 'bg-emerald-50', textColor: 'text-emerald-700', dotColor: 'bg-emerald-500' },
-    { value: 'rejected', label: 'Rejected', bgColor: 'bg-red-50', textColor: 'text-red-700', dotColor: 'bg-red-500' }
-  ];
+  const [formData, setFormData] = useState(emptyFormData);
+  // Paste job posting mode: the raw HTML or text, and what was filled from it
+  const [isPasting, setIsPasting] = useState(false);
+  const [pastedPosting, setPastedPosting] = useState('');
+  const [importSummary, setImportSummary] = useState('');
+  const { statusOptions, getStatusOption } = usePipeline();
+  const status = formData.status || statusOptions[0]?.value || DEFAULT_STATUS;
+
+  // Existing applications that look like the job being added
+  const duplicateMatches = useMemo(
+    () => findDuplicates(formData, applications),
+    [formData, applications]
+  );
 
   // Fetch resumes on component mount
   useEffect(() => {
-    const q = query(collection(db, 'resumes'), orderBy('uploadDate', 'desc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const resumeData: Resume[] = [];
-      snapshot.forEach((doc) => {
-        resumeData.push({
-          id: doc.id,
-          name: doc.data().name
-        });
-      });
-      setResumes(resumeData);
-    }, (error) => {
-      console.error('Error fetching resumes:', error);
-    });
+    if (!user) return;
+
+    const unsubscribe = resumeRepository.subscribe(user.uid, setResumes);
 
     return () => unsubscribe();
-  }, []);
+  }, [user]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({
@@ -62,28 +66,68 @@ export default function ApplicationForm({ onApplicationAdded }: ApplicationFormP
     });
   };
 
+  // Fill the form from a pasted posting, keeping anything already typed where nothing was found
+  const handleFillFromPosting = () => {
+    let posting: ParsedJobPosting;
+    try {
+      posting = parseJobPosting(pastedPosting);
+    } catch (error) {
+      console.error('Error reading job posting:', error);
+      alert('Failed to read the job posting. Try pasting the posting text instead.');
+      return;
+    }
+    const filled = {
+      jobTitle: posting.jobTitle,
+      company: posting.company,
+      location: posting.location,
+      jobLink: posting.jobLink,
+      description: posting.description,
+      deadline: posting.deadline
+    };
+    const found = Object.entries(filled).filter(([, value]) => value);
+
+    if (found.length === 0) {
+      setImportSummary('Nothing recognizable was found. Try pasting the whole page source.');
+      return;
+    }
+
+    setFormData({ ...formData, ...Object.fromEntries(found) });
+    const labels = found.map(([field]) => (field === 'jobTitle' ? 'title' : field === 'jobLink' ? 'link' : field));
+    setImportSummary(`Filled ${labels.join(', ')} from ${JOB_POSTING_SOURCE_LABELS[posting.source]}. Check them before saving.`);
+    setIsPasting(false);
+    setPastedPosting('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const [likelyMatch] = duplicateMatches;
+    if (likelyMatch && !window.confirm(
+      `This looks like "${likelyMatch.application.jobTitle}" at ${likelyMatch.application.company}, which you already track (${describeDuplicateReasons(likelyMatch.reasons)}). Add it anyway?`
+    )) {
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      await addDoc(collection(db, 'applications'), {
+      // The application keeps the description's text; the description itself becomes its first snapshot
+      const description = prepareDescription(formData.description);
+      const applicationId = await applicationRepository.create(user.uid, {
         ...formData,
-        resumeId: formData.resumeId || null, // Store null if no resume selected
-        createdAt: new Date(),
-        updatedAt: new Date()
+        description: description?.text || '',
+        status,
+        ...getResumeAssignment(resumes, formData.resumeId || null), // Store null if no resume selected
+        deadline: formData.deadline || null,
+        customFields: cleanCustomFieldValues(formData.customFields)
       });
+      if (description) {
+        await descriptionSnapshotRepository.create(user.uid, applicationId, description.snapshot, description.text);
+      }
 
       // Reset form
-      setFormData({
-        jobTitle: '',
-        company: '',
-        location: '',
-        jobLink: '',
-        status: 'to-apply',
-        notes: '',
-        resumeId: ''
-      });
+      setFormData(emptyFormData);
+      setImportSummary('');
 
       setIsOpen(false);
       
@@ -108,15 +152,10 @@ export default function ApplicationForm({ onApplicationAdded }: ApplicationFormP
 
   const handleCancel = () => {
     setIsOpen(false);
-    setFormData({
-      jobTitle: '',
-      company: '',
-      location: '',
-      jobLink: '',
-      status: 'to-apply',
-      notes: '',
-      resumeId: ''
-    });
+    setFormData(emptyFormData);
+    setIsPasting(false);
+    setPastedPosting('');
+    setImportSummary('');
   };
 
   return (
@@ -153,6 +192,48 @@ export default function ApplicationForm({ onApplicationAdded }: ApplicationFormP
 
             {/* Enhanced Modal Body */}
             <form onSubmit={handleSubmit} className="px-8 py-8 space-y-8">
+              {/* Paste Job Posting */}
+              <div className="p-4 rounded-lg bg-slate-50 border border-slate-200">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                    Have the posting open? Paste it to fill in the details.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setIsPasting(!isPasting)}
+                    className="btn-secondary px-4 py-2 text-sm font-medium"
+                  >
+                    {isPasting ? 'Cancel paste' : 'Paste job posting'}
+                  </button>
+                </div>
+                {isPasting && (
+                  <div className="mt-4 space-y-3">
+                    <textarea
+                      value={pastedPosting}
+                      onChange={(e) => setPastedPosting(e.target.value)}
+                      rows={8}
+                      className="input-modern w-full px-4 py-3 text-sm font-mono focus-ring resize-y"
+                      placeholder="Paste the page source (Ctrl+U, select all, copy) or the posting text"
+                      aria-label="Job posting HTML or text"
+                      autoFocus
+                    />
+                    <div className="flex justify-end">
+                      <button
+                        type="button"
+                        onClick={handleFillFromPosting}
+                        disabled={!pastedPosting.trim()}
+                        className="btn-primary px-4 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Fill form
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {importSummary && !isPasting && (
+                  <p className="mt-3 text-sm text-blue-700" role="status">{importSummary}</p>
+                )}
+              </div>
+
               {/* Job Title */}
               <div>
                 <label htmlFor="jobTitle" className="block text-sm font-semibold mb-3" style={{ color: 'var(--color-text-primary)' }}>
@@ -222,6 +303,52 @@ export default function ApplicationForm({ onApplicationAdded }: ApplicationFormP
                 </div>
               </div>
 
+              {/* Duplicate Warning */}
+              {duplicateMatches.length > 0 && (
+                <div className="p-4 rounded-lg bg-amber-50 border border-amber-200" role="status">
+                  <p className="text-sm font-semibold text-amber-800">
+                    Possible duplicate{duplicateMatches.length === 1 ? '' : 's'} of an application you already track
+                  </p>
+                  <ul className="mt-2 space-y-1">
+                    {duplicateMatches.slice(0, 3).map(({ application, reasons }) => (
+                      <li key={application.id} className="flex flex-wrap items-center gap-2 text-sm text-amber-900">
+                        <span className="font-medium">{application.jobTitle} at {application.company}</span>
+                        <span className="text-amber-700">
+                          · {getStatusOption(application.status).label} · {describeDuplicateReasons(reasons)}
+                        </span>
+                        {onOpenApplication && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              handleCancel();
+                              onOpenApplication(application);
+                            }}
+                            className="text-blue-700 hover:text-blue-900 font-medium"
+                          >
+                            Open it instead
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Application Deadline */}
+              <div>
+                <label htmlFor="deadline" className="block text-sm font-semibold mb-3" style={{ color: 'var(--color-text-primary)' }}>
+                  Application Deadline <span className="text-sm font-normal" style={{ color: 'var(--color-text-secondary)' }}>(Optional)</span>
+                </label>
+                <input
+                  type="date"
+                  id="deadline"
+                  name="deadline"
+                  value={formData.deadline}
+                  onChange={handleInputChange}
+                  className="input-modern w-full md:w-1/2 px-4 py-3 text-lg focus-ring"
+                />
+              </div>
+
               {/* Enhanced Status */}
               <div>
                 <label htmlFor="status" className="block text-sm font-semibold mb-3" style={{ color: 'var(--color-text-primary)' }}>
@@ -230,7 +357,7 @@ export default function ApplicationForm({ onApplicationAdded }: ApplicationFormP
                 <select
                   id="status"
                   name="status"
-                  value={formData.status}
+                  value={status}
                   onChange={handleInputChange}
                   className="input-modern w-full px-4 py-3 text-lg focus-ring"
                 >
@@ -242,14 +369,14 @@ export default function ApplicationForm({ onApplicationAdded }: ApplicationFormP
                 </select>
                 
                 {/* Status Preview */}
-                {formData.status && (
+                {status && (
                   <div className="mt-3">
                     <span className="text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
                       Preview:
                     </span>
                     <div className="mt-2">
                       {(() => {
-                        const selectedStatus = statusOptions.find(opt => opt.value === formData.status);
+                        const selectedStatus = getStatusOption(status);
                         return selectedStatus ? (
                           <span className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-semibold ${selectedStatus.bgColor} ${selectedStatus.textColor} status-badge`}>
                             <div className={`w-2 h-2 rounded-full ${selectedStatus.dotColor} mr-2`}></div>
@@ -303,6 +430,39 @@ export default function ApplicationForm({ onApplicationAdded }: ApplicationFormP
                     </div>
                   </div>
                 )}
+
+                {/* Resume Match - ranks resumes against the job description below */}
+                <ResumeMatch
+                  resumes={resumes}
+                  description={formData.description}
+                  selectedResumeId={formData.resumeId}
+                  onSelectResume={(resumeId) => setFormData({ ...formData, resumeId })}
+                />
+              </div>
+
+              <CustomFieldInputs
+                idPrefix="add"
+                tags={formData.tags}
+                customFields={formData.customFields}
+                onTagsChange={(tags) => setFormData({ ...formData, tags })}
+                onCustomFieldsChange={(customFields) => setFormData({ ...formData, customFields })}
+              />
+
+              {/* Job Description */}
+              <div>
+                <label htmlFor="description" className="block text-sm font-semibold mb-3" style={{ color: 'var(--color-text-primary)' }}>
+                  Job Description <span className="text-sm font-normal" style={{ color: 'var(--color-text-secondary)' }}>(Optional)</span>
+                </label>
+                <textarea
+                  id="description"
+                  name="description"
+                  value={formData.description}
+                  onChange={handleInputChange}
+                  rows={5}
+                  maxLength={MAX_SNAPSHOT_LENGTH}
+                  className="input-modern w-full px-4 py-3 text-sm focus-ring resize-y"
+                  placeholder="Responsibilities, requirements and anything else from the posting, as text or HTML"
+                />
               </div>
 
               {/* Enhanced Notes */}
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import L from 'leaflet';
+import { MapContainer, Marker, TileLayer, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import { Application, StatusOption } from '../lib/domain';
+import { applicationRepository } from '../lib/repositories';
+import { GAZETTEER, formatCityLabel } from '../lib/gazetteer';
+import { REMOTE_OVERRIDE, resolveApplicationLocation } from '../lib/geocoding';
+import { findStatusOption } from '../lib/pipeline';
+import { usePipeline } from './PipelineProvider';
+
+interface ApplicationMapProps {
+  applications: Application[];
+  onSelectApplications: (ids: string[], label: string) => void;
+}
+
+interface MapPoint {
+  app: Application;
+  lat: number;
+  lng: number;
+  cityLabel: string;
+}
+
+interface MapCluster {
+  key: string;
+  lat: number;
+  lng: number;
+  points: MapPoint[];
+}
+
+// Points closer than this many screen pixels are drawn as one cluster
+const CLUSTER_CELL_PX = 60;
+
+const CITY_OPTIONS = GAZETTEER
+  .map(city => ({ id: city.id, label: formatCityLabel(city) }))
+  .sort((a, b) => a.label.localeCompare(b.label));
+
+// Ring split by pipeline status so a cluster shows its mix at a glance
+function createClusterIcon(points: MapPoint[], statusOptions: StatusOption[]) {
+  const size = points.length === 1 ? 22 : Math.min(56, 28 + Math.round(Math.log2(points.length) * 6));
+  const counts = new Map<string, number>();
+  points.forEach(point => counts.set(point.app.status, (counts.get(point.app.status) || 0) + 1));
+
+  // Pipeline order, with statuses no longer in the pipeline last
+  const stageIndex = (status: string) => {
+    const index = statusOptions.findIndex(option => option.value === status);
+    return index === -1 ? statusOptions.length : index;
+  };
+
+  let start = 0;
+  const stops = Array.from(counts.entries())
+    .sort(([a], [b]) => stageIndex(a) - stageIndex(b))
+    .map(([status, count]) => {
+      const end = start + (count / points.length) * 360;
+      const stop = `${findStatusOption(statusOptions, status).chartColor} ${start}deg ${end}deg`;
+      start = end;
+      return stop;
+    })
+    .join(', ');
+
+  return L.divIcon({
+    className: '',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    html: `<div style="width:${size}px;height:${size}px;border-radius:9999px;background:conic-gradient(${stops});display:flex;align-items:center;justify-content:center;box-shadow:0 1px 4px rgba(0,0,0,.3);cursor:pointer">
+      <div style="width:${size - 8}px;height:${size - 8}px;border-radius:9999px;background:white;display:flex;align-items:center;justify-content:center;font:600 12px Inter,sans-serif;color:#1e293b">${points.length > 1 ? points.length : ''}</div>
+    </div>`
+  });
+}
+
+// Groups points into screen-space grid cells for the current zoom level
+function ClusterLayer({ points, onSelect }: { points: MapPoint[]; onSelect: (cluster: MapCluster) => void }) {
+  const map = useMap();
+  const { statusOptions, getStatusOption } = usePipeline();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const clusters = useMemo(() => {
+    const cells = new Map<string, MapPoint[]>();
+    points.forEach((point) => {
+      const pixel = map.project([point.lat, point.lng], zoom);
+      const key = `${Math.floor(pixel.x / CLUSTER_CELL_PX)}:${Math.floor(pixel.y / CLUSTER_CELL_PX)}`;
+      cells.set(key, [...(cells.get(key) || []), point]);
+    });
+
+    return Array.from(cells.entries()).map(([key, cellPoints]): MapCluster => ({
+      key,
+      points: cellPoints,
+      lat: cellPoints.reduce((sum, point) => sum + point.lat, 0) / cellPoints.length,
+      lng: cellPoints.reduce((sum, point) => sum + point.lng, 0) / cellPoints.length
+    }));
+  }, [points, zoom, map]);
+
+  return (
+    <>
+      {clusters.map(cluster => (
+        <Marker
+          key={cluster.key}
+          position={[cluster.lat, cluster.lng]}
+          icon={createClusterIcon(cluster.points, statusOptions)}
+          eventHandlers={{ click: () => onSelect(cluster) }}
+        >
+          <Tooltip direction="top" offset={[0, -12]}>
+            <div className="text-xs">
+              {cluster.points.slice(0, 6).map(({ app, cityLabel }) => (
+                <div key={app.id}>
+                  <span className="font-semibold">{app.company}</span> · {app.jobTitle}
+                  <span className="text-slate-500"> · {cityLabel} · {getStatusOption(app.status).label}</span>
+                </div>
+              ))}
+              {cluster.points.length > 6 && (
+                <div className="text-slate-500">+{cluster.points.length - 6} more</div>
+              )}
+              <div className="mt-1 text-blue-600">Click to filter the dashboard</div>
+            </div>
+          </Tooltip>
+        </Marker>
+      ))}
+    </>
+  );
+}
+
+// Zoom to the plotted points whenever their positions change. The effect reads
+// the coordinates back from a string key, so new snapshots of the same points
+// don't refit the map.
+function FitToPoints({ points }: { points: MapPoint[] }) {
+  const map = useMap();
+  const pointKey = points.map(point => `${point.lat},${point.lng}`).join(';');
+
+  useEffect(() => {
+    if (!pointKey) return;
+    const latLngs = pointKey.split(';').map(pair => pair.split(',').map(Number) as [number, number]);
+    map.fitBounds(L.latLngBounds(latLngs), { padding: [40, 40], maxZoom: 10 });
+  }, [pointKey, map]);
+
+  return null;
+}
+
+export default function ApplicationMap({ applications, onSelectApplications }: ApplicationMapProps) {
+  const [overrideDrafts, setOverrideDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { statusOptions, getStatusOption } = usePipeline();
+
+  const { points, remote, unresolved } = useMemo(() => {
+    const grouped = { points: [] as MapPoint[], remote: [] as Application[], unresolved: [] as Application[] };
+    applications.forEach((app) => {
+      const result = resolveApplicationLocation(app);
+      if (result.kind === 'city') {
+        grouped.points.push({ app, lat: result.city.lat, lng: result.city.lng, cityLabel: formatCityLabel(result.city) });
+      } else if (result.kind === 'remote') {
+        grouped.remote.push(app);
+      } else {
+        grouped.unresolved.push(app);
+      }
+    });
+    return grouped;
+  }, [applications]);
+
+  const handleClusterSelect = (cluster: MapCluster) => {
+    const cities = Array.from(new Set(cluster.points.map(point => point.cityLabel)));
+    const label = cities.length === 1 ? cities[0] : `${cities[0]} + ${cities.length - 1} nearby`;
+    onSelectApplications(cluster.points.map(point => point.app.id), label);
+  };
+
+  const saveOverride = async (app: Application, override: string | null) => {
+    setSavingId(app.id);
+    try {
+      await applicationRepository.update(app.id, { locationOverride: override });
+      setOverrideDrafts(({ [app.id]: _saved, ...rest }) => rest);
+    } catch (error: any) {
+      console.error('Error saving location override:', error);
+
+      if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to update application.');
+      } else {
+        alert('Failed to save location. Please check your connection and try again.');
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Map Summary */}
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+        <span><span className="font-semibold text-slate-900">{points.length}</span> on the map</span>
+        <span>·</span>
+        <span><span className="font-semibold text-slate-900">{remote.length}</span> remote</span>
+        <span>·</span>
+        <span><span className="font-semibold text-slate-900">{unresolved.length}</span> without a known location</span>
+        <div className="flex flex-wrap gap-3 ml-auto">
+          {statusOptions.map(option => (
+            <span key={option.value} className="flex items-center gap-1 text-xs">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: option.chartColor }}></span>
+              {option.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Clustered Map */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <MapContainer center={[39.5, -98.35]} zoom={4} scrollWheelZoom style={{ height: 520, width: '100%' }}>
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <ClusterLayer points={points} onSelect={handleClusterSelect} />
+          <FitToPoints points={points} />
+        </MapContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Remote Bucket */}
+        <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-slate-900">🌐 Remote ({remote.length})</h3>
+            {remote.length > 0 && (
+              <button
+                onClick={() => onSelectApplications(remote.map(app => app.id), 'Remote')}
+                className="btn-secondary px-3 py-2 text-sm font-medium"
+              >
+                Show only these
+              </button>
+            )}
+          </div>
+          {remote.length === 0 ? (
+            <p className="text-sm text-slate-500">No remote applications.</p>
+          ) : (
+            <ul className="space-y-2 max-h-72 overflow-y-auto">
+              {remote.map(app => {
+                const status = getStatusOption(app.status);
+                return (
+                  <li key={app.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="font-medium text-slate-900">{app.company}</span>
+                      <span className="text-slate-500"> · {app.jobTitle}</span>
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.bgColor} ${status.textColor}`}>
+                      {status.label}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Unresolved Locations */}
+        <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">📍 Unknown locations ({unresolved.length})</h3>
+          <p className="text-xs text-slate-500 mb-4">
+            These locations aren&apos;t in the built-in city list. Pick the nearest city or mark them remote.
+          </p>
+          {unresolved.length === 0 ? (
+            <p className="text-sm text-slate-500">Every application has been placed.</p>
+          ) : (
+            <ul className="space-y-3 max-h-72 overflow-y-auto">
+              {unresolved.map(app => (
+                <li key={app.id} className="text-sm">
+                  <div className="mb-1">
+                    <span className="font-medium text-slate-900">{app.company}</span>
+                    <span className="text-slate-500"> · {app.location || 'No location'}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <select
+                      value={overrideDrafts[app.id] || ''}
+                      onChange={(e) => setOverrideDrafts(prev => ({ ...prev, [app.id]: e.target.value }))}
+                      className="input-modern flex-1 px-2 py-1 text-sm focus-ring"
+                      aria-label={`Location for ${app.company}`}
+                    >
+                      <option value="">Choose a city…</option>
+                      <option value={REMOTE_OVERRIDE}>Remote</option>
+                      {CITY_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => saveOverride(app, overrideDrafts[app.id])}
+                      disabled={!overrideDrafts[app.id] || savingId === app.id}
+                      className="btn-primary px-3 py-1 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {savingId === app.id ? 'Saving…' : 'Save'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
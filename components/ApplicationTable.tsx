@@ -0,0 +1,544 @@
+import React, { Dispatch, SetStateAction, memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Application,
+  ApplicationInput,
+  HiringManager,
+  Resume
+} from '../lib/domain';
+import { applicationRepository } from '../lib/repositories';
+import { formatDate } from '../lib/dates';
+import { getResumeAssignment } from '../lib/resumeVersions';
+import HighlightText from './HighlightText';
+import { usePipeline } from './PipelineProvider';
+import { DEADLINE_BADGE_STYLES, formatDeadline, getDeadlineUrgency, getOpenDeadlineDays } from '../lib/deadlines';
+import { useFieldSettings } from './FieldSettingsProvider';
+
+interface ApplicationTableProps {
+  applications: Application[];
+  resumes: Resume[];
+  hiringManagers: HiringManager[];
+  onApplicationEdit: (application: Application) => void;
+  onApplicationDelete: (application: Application) => void;
+  highlightQuery?: string;
+  // Selection is shared with the board so bulk actions work in either view
+  selectedIds: Set<string>;
+  onSelectedIdsChange: Dispatch<SetStateAction<Set<string>>>;
+}
+
+type ColumnId = 'jobTitle' | 'company' | 'location' | 'status' | 'deadline' | 'createdAt' | 'updatedAt' | 'resume' | 'contact' | 'tags';
+
+type EditableField = 'jobTitle' | 'company' | 'location' | 'status' | 'deadline' | 'resumeId' | 'hiringManagerId';
+
+interface TableColumn {
+  id: ColumnId;
+  label: string;
+  width: string;
+  field?: EditableField; // Set when the cell can be edited inline
+  required?: boolean;
+}
+
+interface SortState {
+  columnId: ColumnId;
+  direction: 'asc' | 'desc';
+}
+
+const COLUMNS: TableColumn[] = [
+  { id: 'jobTitle', label: 'Job Title', width: 'w-64', field: 'jobTitle', required: true },
+  { id: 'company', label: 'Company', width: 'w-48', field: 'company', required: true },
+  { id: 'location', label: 'Location', width: 'w-44', field: 'location' },
+  { id: 'status', label: 'Status', width: 'w-40', field: 'status' },
+  { id: 'deadline', label: 'Deadline', width: 'w-40', field: 'deadline' },
+  { id: 'createdAt', label: 'Created', width: 'w-32' },
+  { id: 'updatedAt', label: 'Updated', width: 'w-32' },
+  { id: 'resume', label: 'Resume', width: 'w-44', field: 'resumeId' },
+  { id: 'contact', label: 'Contact', width: 'w-44', field: 'hiringManagerId' },
+  { id: 'tags', label: 'Tags', width: 'w-48' }
+];
+
+const DEFAULT_HIDDEN_COLUMNS: ColumnId[] = ['updatedAt'];
+const HIDDEN_COLUMNS_KEY = 'gradtrack:tableHiddenColumns';
+
+// Rows have a fixed height so only the visible window needs to be rendered
+const ROW_HEIGHT = 52;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN_ROWS = 8;
+
+interface ApplicationRowProps {
+  app: Application;
+  columns: TableColumn[];
+  selected: boolean;
+  editingColumn: ColumnId | null;
+  resumeName: string;
+  contactName: string;
+  resumes: Resume[];
+  hiringManagers: HiringManager[];
+  highlightQuery: string;
+  onToggleSelect: (id: string, shiftKey: boolean) => void;
+  onStartEdit: (id: string, columnId: ColumnId) => void;
+  onCommitEdit: (app: Application, field: EditableField, value: string) => void;
+  onCancelEdit: () => void;
+  onApplicationEdit: (application: Application) => void;
+  onApplicationDelete: (application: Application) => void;
+}
+
+const ApplicationRow = memo(function ApplicationRow({
+  app,
+  columns,
+  selected,
+  editingColumn,
+  resumeName,
+  contactName,
+  resumes,
+  hiringManagers,
+  highlightQuery,
+  onToggleSelect,
+  onStartEdit,
+  onCommitEdit,
+  onCancelEdit,
+  onApplicationEdit,
+  onApplicationDelete
+}: ApplicationRowProps) {
+  const { stages, statusOptions, getStatusOption } = usePipeline();
+  const { getTagColor } = useFieldSettings();
+  // Escape discards the edit even though the input still blurs afterwards
+  const editCancelled = useRef(false);
+
+  const renderValue = (column: TableColumn) => {
+    switch (column.id) {
+      case 'jobTitle':
+        return (
+          <>
+            <span className="font-medium text-slate-900">{app.jobTitle}</span>
+            {app.archived && (
+              <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-500">Archived</span>
+            )}
+          </>
+        );
+      case 'company':
+        return (
+          <span className="text-blue-600 font-medium">
+            <HighlightText text={app.company} query={highlightQuery} />
+          </span>
+        );
+      case 'location':
+        return app.location || <span className="text-slate-400">—</span>;
+      case 'status': {
+        const status = getStatusOption(app.status);
+        return (
+          <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${status.bgColor} ${status.textColor}`}>
+            <span className={`w-2 h-2 rounded-full ${status.dotColor} mr-2`}></span>
+            {status.label}
+          </span>
+        );
+      }
+      case 'deadline': {
+        if (!app.deadline) return <span className="text-slate-400">—</span>;
+        // Only deadlines still to be met get a colored highlight
+        const days = getOpenDeadlineDays(app, stages);
+        return days === null ? formatDeadline(app.deadline) : (
+          <span className={`px-2 py-0.5 rounded border text-xs font-medium ${DEADLINE_BADGE_STYLES[getDeadlineUrgency(days)]}`}>
+            {formatDeadline(app.deadline)}
+          </span>
+        );
+      }
+      case 'createdAt':
+        return formatDate(app.createdAt);
+      case 'updatedAt':
+        return formatDate(app.updatedAt);
+      case 'resume':
+        return resumeName || <span className="text-slate-400">—</span>;
+      case 'contact':
+        return contactName || <span className="text-slate-400">—</span>;
+      case 'tags':
+        return app.tags?.length
+          ? app.tags.map((tag) => {
+              const color = getTagColor(tag);
+              return (
+                <span key={tag} className={`inline-block mr-1 px-2 py-0.5 rounded-full text-xs font-medium ${color.bgColor} ${color.textColor}`}>{tag}</span>
+              );
+            })
+          : <span className="text-slate-400">—</span>;
+    }
+  };
+
+  const renderEditor = (column: TableColumn) => {
+    const field = column.field;
+    const commit = (value: string) => {
+      if (!editCancelled.current) onCommitEdit(app, field, value);
+    };
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        e.currentTarget.blur();
+      }
+      if (e.key === 'Escape') {
+        editCancelled.current = true;
+        onCancelEdit();
+      }
+    };
+
+    if (field === 'status' || field === 'resumeId' || field === 'hiringManagerId') {
+      const options = field === 'status'
+        ? statusOptions.map(option => ({ value: option.value, label: option.label }))
+        : field === 'resumeId'
+          ? [{ value: '', label: 'None' }, ...resumes.map(resume => ({ value: resume.id, label: resume.name }))]
+          : [{ value: '', label: 'None' }, ...hiringManagers.map(manager => ({ value: manager.id, label: `${manager.name} (${manager.company})` }))];
+
+      return (
+        <select
+          autoFocus
+          defaultValue={(app[field] as string) || ''}
+          onFocus={() => { editCancelled.current = false; }}
+          onChange={(e) => commit(e.target.value)}
+          onBlur={onCancelEdit}
+          onKeyDown={handleKeyDown}
+          className="input-modern w-full px-2 py-1 text-sm focus-ring"
+        >
+          {options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        autoFocus
+        type={field === 'deadline' ? 'date' : 'text'}
+        defaultValue={(app[field] as string) || ''}
+        onFocus={() => { editCancelled.current = false; }}
+        onBlur={(e) => commit(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="input-modern w-full px-2 py-1 text-sm focus-ring"
+      />
+    );
+  };
+
+  return (
+    <tr
+      className={`border-b border-slate-100 ${selected ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+      style={{ height: ROW_HEIGHT }}
+    >
+      <td className="px-3 w-10">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={() => undefined}
+          onClick={(e) => onToggleSelect(app.id, e.shiftKey)}
+          aria-label={`Select ${app.jobTitle} at ${app.company}`}
+          className="w-4 h-4 accent-blue-600"
+        />
+      </td>
+      {columns.map(column => (
+        <td
+          key={column.id}
+          className={`px-3 text-sm text-slate-700 whitespace-nowrap overflow-hidden text-ellipsis max-w-0 ${column.width} ${
+            column.field ? 'cursor-text' : ''
+          }`}
+          onDoubleClick={() => column.field && onStartEdit(app.id, column.id)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && column.field && editingColumn !== column.id) onStartEdit(app.id, column.id);
+          }}
+          tabIndex={column.field ? 0 : undefined}
+          title={column.field ? 'Double-click to edit' : undefined}
+        >
+          {editingColumn === column.id ? renderEditor(column) : renderValue(column)}
+        </td>
+      ))}
+      <td className="px-3 w-24 text-right whitespace-nowrap">
+        <button
+          onClick={() => onApplicationEdit(app)}
+          className="text-slate-400 hover:text-blue-600 p-1"
+          title="Edit application"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+          </svg>
+        </button>
+        <button
+          onClick={() => onApplicationDelete(app)}
+          className="text-slate-400 hover:text-red-600 p-1"
+          title="Delete application"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      </td>
+    </tr>
+  );
+});
+
+export default function ApplicationTable({
+  applications,
+  resumes,
+  hiringManagers,
+  onApplicationEdit,
+  onApplicationDelete,
+  highlightQuery = '',
+  selectedIds,
+  onSelectedIdsChange
+}: ApplicationTableProps) {
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [hiddenColumns, setHiddenColumns] = useState<ColumnId[]>(DEFAULT_HIDDEN_COLUMNS);
+  const [showColumnChooser, setShowColumnChooser] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; columnId: ColumnId } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const lastSelectedId = useRef<string | null>(null);
+  const { statusOptions } = usePipeline();
+
+  // Restore the column choice from the last visit
+  useEffect(() => {
+    const stored = window.localStorage.getItem(HIDDEN_COLUMNS_KEY);
+    if (!stored) return;
+    try {
+      setHiddenColumns(JSON.parse(stored));
+    } catch {
+      window.localStorage.removeItem(HIDDEN_COLUMNS_KEY);
+    }
+  }, []);
+
+  const toggleColumn = (columnId: ColumnId) => {
+    const next = hiddenColumns.includes(columnId)
+      ? hiddenColumns.filter(id => id !== columnId)
+      : [...hiddenColumns, columnId];
+    setHiddenColumns(next);
+    window.localStorage.setItem(HIDDEN_COLUMNS_KEY, JSON.stringify(next));
+  };
+
+  const visibleColumns = useMemo(
+    () => COLUMNS.filter(column => !hiddenColumns.includes(column.id)),
+    [hiddenColumns]
+  );
+
+  const resumeNames = useMemo(
+    () => new Map(resumes.map(resume => [resume.id, resume.name])),
+    [resumes]
+  );
+  const contactNames = useMemo(
+    () => new Map(hiringManagers.map(manager => [manager.id, manager.name])),
+    [hiringManagers]
+  );
+
+  // Header sort on top of the dashboard's filtered order; status follows the pipeline
+  const rows = useMemo(() => {
+    if (!sort) return applications;
+
+    const sortValue = (app: Application): string | number => {
+      switch (sort.columnId) {
+        case 'status': {
+          const index = statusOptions.findIndex(option => option.value === app.status);
+          return index === -1 ? statusOptions.length : index;
+        }
+        case 'createdAt':
+          return app.createdAt?.toMillis() || 0;
+        case 'updatedAt':
+          return app.updatedAt?.toMillis() || 0;
+        case 'resume':
+          return (resumeNames.get(app.resumeId) || '').toLowerCase();
+        case 'contact':
+          return (contactNames.get(app.hiringManagerId) || '').toLowerCase();
+        case 'tags':
+          return (app.tags || []).join(' ').toLowerCase();
+        default:
+          return (app[sort.columnId] || '').toLowerCase();
+      }
+    };
+
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return applications
+      .map(app => ({ app, value: sortValue(app) }))
+      .sort((a, b) => {
+        if (a.value === b.value) return 0;
+        if (typeof a.value === 'number' && typeof b.value === 'number') return (a.value - b.value) * direction;
+        return String(a.value).localeCompare(String(b.value)) * direction;
+      })
+      .map(({ app }) => app);
+  }, [applications, sort, resumeNames, contactNames, statusOptions]);
+
+  // Click cycles ascending → descending → dashboard order
+  const handleSort = (columnId: ColumnId) => {
+    setSort(prev => {
+      if (!prev || prev.columnId !== columnId) return { columnId, direction: 'asc' };
+      if (prev.direction === 'asc') return { columnId, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const handleToggleSelect = useCallback((id: string, shiftKey: boolean) => {
+    onSelectedIdsChange(prev => {
+      const next = new Set(prev);
+      const ids = rows.map(app => app.id);
+      const anchor = lastSelectedId.current;
+
+      // Shift-click selects the whole range from the previous click
+      if (shiftKey && anchor && ids.includes(anchor)) {
+        const [start, end] = [ids.indexOf(anchor), ids.indexOf(id)].sort((a, b) => a - b);
+        ids.slice(start, end + 1).forEach(rangeId => next.add(rangeId));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      lastSelectedId.current = id;
+      return next;
+    });
+  }, [rows, onSelectedIdsChange]);
+
+  const allSelected = rows.length > 0 && selectedIds.size === rows.length;
+  const toggleSelectAll = () => {
+    onSelectedIdsChange(allSelected ? new Set() : new Set(rows.map(app => app.id)));
+  };
+
+  const handleStartEdit = useCallback((id: string, columnId: ColumnId) => {
+    setEditing({ id, columnId });
+  }, []);
+
+  const handleCancelEdit = useCallback(() => setEditing(null), []);
+
+  const handleCommitEdit = useCallback(async (app: Application, field: EditableField, rawValue: string) => {
+    setEditing(null);
+
+    const value = field === 'status' ? rawValue : rawValue.trim();
+    const column = COLUMNS.find(col => col.field === field);
+    if ((app[field] || '') === value) return;
+    if (column?.required && !value) {
+      alert(`${column.label} can't be empty.`);
+      return;
+    }
+
+    // Empty references are stored as null, like the add form does
+    const update = (field === 'resumeId'
+      ? getResumeAssignment(resumes, value || null)
+      : { [field]: value || (field === 'location' ? '' : null) }) as Partial<ApplicationInput>;
+
+    try {
+      await applicationRepository.updateWithHistory(app, update, 'table');
+    } catch (error: any) {
+      console.error('Error updating application:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your changes will be saved automatically when connection is restored. Please keep the page open.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to update application.');
+      } else {
+        alert('Failed to update application. Please check your connection and try again.');
+      }
+    }
+  }, [resumes]);
+
+  // Only render the rows in (or near) the scrolled viewport
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleRows = rows.slice(firstRow, lastRow);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      {/* Table Toolbar */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+        <div className="text-sm text-slate-600">
+          Double-click a cell to edit it, or select rows for bulk actions
+        </div>
+
+        {/* Column Chooser */}
+        <div className="relative">
+          <button
+            onClick={() => setShowColumnChooser(open => !open)}
+            className="btn-secondary px-3 py-2 text-sm font-medium flex items-center gap-2"
+            aria-expanded={showColumnChooser}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+            </svg>
+            Columns
+          </button>
+          {showColumnChooser && (
+            <div className="absolute right-0 mt-2 w-56 bg-white border border-slate-200 rounded-lg shadow-lg z-20 p-2">
+              {COLUMNS.map(column => (
+                <label key={column.id} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-slate-50 text-sm text-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!hiddenColumns.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                    disabled={column.required}
+                    className="w-4 h-4 accent-blue-600"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Scrollable Table */}
+      <div
+        className="overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="w-full table-fixed text-left">
+          <thead className="sticky top-0 z-10 bg-slate-50 shadow-[0_1px_0_0_#e2e8f0]">
+            <tr>
+              <th className="px-3 py-3 w-10">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleSelectAll}
+                  aria-label="Select all applications"
+                  className="w-4 h-4 accent-blue-600"
+                />
+              </th>
+              {visibleColumns.map(column => {
+                const isSorted = sort?.columnId === column.id;
+                return (
+                  <th
+                    key={column.id}
+                    className={`px-3 py-3 text-xs font-semibold uppercase tracking-wide text-slate-600 ${column.width}`}
+                    aria-sort={isSorted ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  >
+                    <button
+                      onClick={() => handleSort(column.id)}
+                      className="flex items-center gap-1 hover:text-slate-900"
+                    >
+                      {column.label}
+                      <span className={isSorted ? 'text-blue-600' : 'text-slate-300'}>
+                        {isSorted && sort.direction === 'desc' ? '↓' : '↑'}
+                      </span>
+                    </button>
+                  </th>
+                );
+              })}
+              <th className="px-3 py-3 w-24"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {/* Spacers stand in for the rows outside the viewport */}
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }}></tr>}
+            {visibleRows.map(app => (
+              <ApplicationRow
+                key={app.id}
+                app={app}
+                columns={visibleColumns}
+                selected={selectedIds.has(app.id)}
+                editingColumn={editing?.id === app.id ? editing.columnId : null}
+                resumeName={resumeNames.get(app.resumeId) || ''}
+                contactName={contactNames.get(app.hiringManagerId) || ''}
+                resumes={resumes}
+                hiringManagers={hiringManagers}
+                highlightQuery={highlightQuery}
+                onToggleSelect={handleToggleSelect}
+                onStartEdit={handleStartEdit}
+                onCommitEdit={handleCommitEdit}
+                onCancelEdit={handleCancelEdit}
+                onApplicationEdit={onApplicationEdit}
+                onApplicationDelete={onApplicationDelete}
+              />
+            ))}
+            {lastRow < rows.length && <tr style={{ height: (rows.length - lastRow) * ROW_HEIGHT }}></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
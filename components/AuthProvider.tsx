@@ -0,0 +1,126 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { auth } from '../lib/firebase';
+import {
+  User,
+  GoogleAuthProvider,
+  onAuthStateChanged,
+  signInWithPopup,
+  sendSignInLinkToEmail,
+  isSignInWithEmailLink,
+  signInWithEmailLink,
+  signOut as firebaseSignOut
+} from 'firebase/auth';
+import SignIn from './SignIn';
+
+// Key used to remember which address an email link was sent to
+const EMAIL_FOR_SIGN_IN_KEY = 'gradtrack:emailForSignIn';
+
+interface AuthContextValue {
+  user: User | null;
+  signInWithGoogle: () => Promise<void>;
+  sendEmailLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export default function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Track the signed-in user
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
+      setUser(firebaseUser);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  // Complete an email link sign-in when the page is opened from the link
+  useEffect(() => {
+    if (!isSignInWithEmailLink(auth, window.location.href)) return;
+
+    let email = window.localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY);
+    if (!email) {
+      // Link opened on a different device - ask for the address again
+      email = window.prompt('Please confirm your email address to finish signing in');
+    }
+    if (!email) return;
+
+    signInWithEmailLink(auth, email, window.location.href)
+      .then(() => {
+        window.localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+        window.history.replaceState(null, '', window.location.pathname);
+      })
+      .catch((err) => {
+        console.error('Error completing email link sign-in:', err);
+        setError('This sign-in link is invalid or has expired. Please request a new one.');
+      });
+  }, []);
+
+  const signInWithGoogle = async () => {
+    setError(null);
+    try {
+      await signInWithPopup(auth, new GoogleAuthProvider());
+    } catch (err: any) {
+      console.error('Error signing in with Google:', err);
+      if (err.code !== 'auth/popup-closed-by-user') {
+        setError('Google sign-in failed. Please try again.');
+      }
+    }
+  };
+
+  const sendEmailLink = async (email: string) => {
+    setError(null);
+    await sendSignInLinkToEmail(auth, email, {
+      url: window.location.origin + window.location.pathname,
+      handleCodeInApp: true
+    });
+    window.localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email);
+  };
+
+  const signOut = async () => {
+    await firebaseSignOut(auth);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex justify-center items-center bg-slate-50">
+        <div className="flex items-center space-x-4">
+          <div className="w-6 h-6 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+          <span className="text-lg font-medium text-slate-600">
+            Loading...
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, signInWithGoogle, sendEmailLink, signOut }}>
+      {user ? children : (
+        <SignIn
+          error={error}
+          onGoogleSignIn={signInWithGoogle}
+          onSendEmailLink={sendEmailLink}
+        />
+      )}
+    </AuthContext.Provider>
+  );
+}
+
+// Access the signed-in user from any component rendered inside AuthProvider
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,271 @@
+import React, { useCallback, useState } from 'react';
+import { Application, DescriptionSnapshot, HiringManager, Interview, Offer, Resume } from '../lib/domain';
+import { ApplicationWrite, applicationRepository } from '../lib/repositories';
+import { BulkAction, describeBulkAction, planBulkAction } from '../lib/bulkActions';
+import { getResumeAssignment } from '../lib/resumeVersions';
+import { MAX_TAGS, parseTagInput } from '../lib/tags';
+import { usePipeline } from './PipelineProvider';
+import Toast from './Toast';
+
+interface BulkActionBarProps {
+  selectedApplications: Application[];
+  shownCount: number; // Applications in the current view, for "Select all"
+  resumes: Resume[];
+  hiringManagers: HiringManager[];
+  interviews: Interview[];
+  descriptionSnapshots: DescriptionSnapshot[];
+  offers: Offer[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+}
+
+interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+interface BulkToast {
+  message: string;
+  tone: 'info' | 'error';
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+// Select value for clearing a reference, distinct from the "choose…" placeholder
+const NONE = '__none__';
+
+export default function BulkActionBar({
+  selectedApplications,
+  shownCount,
+  resumes,
+  hiringManagers,
+  interviews,
+  descriptionSnapshots,
+  offers,
+  onSelectAll,
+  onClearSelection
+}: BulkActionBarProps) {
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [toast, setToast] = useState<BulkToast | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const { statusOptions, getStatusOption } = usePipeline();
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Commit writes in batches, returning how many were saved before any failure
+  const runWrites = async (writes: ApplicationWrite[], label: string) => {
+    let committed = 0;
+    setProgress({ label, done: 0, total: writes.length });
+    try {
+      await applicationRepository.bulkWrite(writes, (done, total) => {
+        committed = done;
+        setProgress({ label, done, total });
+      });
+      return { committed, error: null };
+    } catch (error: any) {
+      console.error('Error running bulk action:', error);
+      return { committed, error };
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const undo = async (writes: ApplicationWrite[]) => {
+    setToast(null);
+    const { error } = await runWrites(writes, 'Undoing');
+    setToast(error
+      ? { message: "Couldn't undo every change. Please check your connection and try again.", tone: 'error', actionLabel: 'Retry', onAction: () => undo(writes) }
+      : { message: 'Changes undone', tone: 'info' });
+  };
+
+  const runAction = async (action: BulkAction, targetLabel = '') => {
+    const plan = planBulkAction(selectedApplications, action, { interviews, descriptionSnapshots, offers });
+    const skippedNote = plan.skipped > 0
+      ? `Skipped ${plan.skipped} application${plan.skipped === 1 ? '' : 's'} that would go over ${MAX_TAGS} tags.`
+      : '';
+    if (plan.writes.length === 0) {
+      setToast({ message: skippedNote || 'The selected applications already have that value.', tone: 'info' });
+      return;
+    }
+    if (action.type === 'delete'
+      && !window.confirm(`Delete ${plan.writes.length} application${plan.writes.length === 1 ? '' : 's'}? You can undo this right after.`)) {
+      return;
+    }
+
+    const { committed, error } = await runWrites(plan.writes, action.type === 'delete' ? 'Deleting' : 'Updating');
+    // Whatever was saved can still be undone, even after a partial failure
+    const undoCommitted = committed > 0 ? () => undo(plan.undo.slice(0, committed)) : undefined;
+
+    if (!error) {
+      onClearSelection();
+      setTagInput('');
+      setToast({
+        message: [describeBulkAction(action, plan.writes.length, targetLabel), skippedNote].filter(Boolean).join('. '),
+        tone: 'info',
+        actionLabel: 'Undo',
+        onAction: undoCommitted
+      });
+    } else if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+      setToast({ message: `Connection lost after ${committed} of ${plan.writes.length} changes.`, tone: 'error', actionLabel: undoCommitted && 'Undo', onAction: undoCommitted });
+    } else if (error.code === 'permission-denied') {
+      setToast({ message: 'Permission denied. Unable to update the selected applications.', tone: 'error', actionLabel: undoCommitted && 'Undo', onAction: undoCommitted });
+    } else {
+      setToast({ message: `Only ${committed} of ${plan.writes.length} changes were saved. Please try again.`, tone: 'error', actionLabel: undoCommitted && 'Undo', onAction: undoCommitted });
+    }
+  };
+
+  const handleStatusChange = (value: string) => {
+    if (!value) return;
+    runAction({ type: 'status', status: value }, getStatusOption(value).label);
+  };
+
+  const handleResumeChange = (value: string) => {
+    if (!value) return;
+    const resumeId = value === NONE ? null : value;
+    runAction({ type: 'resume', ...getResumeAssignment(resumes, resumeId) }, resumes.find(resume => resume.id === resumeId)?.name);
+  };
+
+  const handleHiringManagerChange = (value: string) => {
+    if (!value) return;
+    const hiringManagerId = value === NONE ? null : value;
+    runAction({ type: 'hiringManager', hiringManagerId }, hiringManagers.find(manager => manager.id === hiringManagerId)?.name);
+  };
+
+  const handleAddTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tags = parseTagInput(tagInput);
+    if (tags.length > 0) runAction({ type: 'addTags', tags });
+  };
+
+  const count = selectedApplications.length;
+  const anyArchived = selectedApplications.some(app => app.archived);
+  const anyActive = selectedApplications.some(app => !app.archived);
+
+  return (
+    <>
+      {/* Undo runs after the selection is cleared, so progress keeps the bar open */}
+      {(count > 0 || progress) && (
+        <div className="sticky top-0 z-30 bg-white rounded-xl p-4 mb-6 border border-blue-200 shadow-md">
+          {count > 0 && (
+            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+              <span className="font-semibold text-slate-900">{count} selected</span>
+              {count < shownCount && (
+                <button onClick={onSelectAll} disabled={Boolean(progress)} className="text-blue-600 hover:text-blue-800 underline">
+                  Select all {shownCount}
+                </button>
+              )}
+              <button onClick={onClearSelection} disabled={Boolean(progress)} className="text-blue-600 hover:text-blue-800 underline">
+                Clear selection
+              </button>
+            </div>
+          )}
+
+          {progress ? (
+            // Progress Indicator
+            <div role="status" aria-live="polite">
+              <div className="flex justify-between text-sm text-slate-600 mb-2">
+                <span>{progress.label} {progress.total} applications...</span>
+                <span>{progress.done} / {progress.total}</span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all duration-300"
+                  style={{ width: `${Math.max(5, (progress.done / progress.total) * 100)}%` }}
+                ></div>
+              </div>
+            </div>
+          ) : (
+            // Bulk Actions
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value=""
+                onChange={(e) => handleStatusChange(e.target.value)}
+                className="input-modern px-3 py-2 text-sm focus-ring"
+                aria-label="Change status of selected applications"
+              >
+                <option value="">Change status…</option>
+                {statusOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+
+              <select
+                value=""
+                onChange={(e) => handleResumeChange(e.target.value)}
+                className="input-modern px-3 py-2 text-sm focus-ring"
+                aria-label="Assign a resume to selected applications"
+              >
+                <option value="">Assign resume…</option>
+                {resumes.map(resume => (
+                  <option key={resume.id} value={resume.id}>{resume.name}</option>
+                ))}
+                <option value={NONE}>No resume</option>
+              </select>
+
+              <select
+                value=""
+                onChange={(e) => handleHiringManagerChange(e.target.value)}
+                className="input-modern px-3 py-2 text-sm focus-ring"
+                aria-label="Link a hiring manager to selected applications"
+              >
+                <option value="">Link hiring manager…</option>
+                {hiringManagers.map(manager => (
+                  <option key={manager.id} value={manager.id}>{manager.name} ({manager.company})</option>
+                ))}
+                <option value={NONE}>No contact</option>
+              </select>
+
+              <form onSubmit={handleAddTags} className="flex gap-2">
+                <input
+                  type="text"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  placeholder="Tags, comma separated"
+                  className="input-modern w-48 px-3 py-2 text-sm focus-ring"
+                  aria-label="Tags to add to selected applications"
+                />
+                <button
+                  type="submit"
+                  disabled={parseTagInput(tagInput).length === 0}
+                  className="btn-secondary px-3 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add tags
+                </button>
+              </form>
+
+              {anyActive && (
+                <button onClick={() => runAction({ type: 'archive', archived: true })} className="btn-secondary px-3 py-2 text-sm font-medium">
+                  Archive
+                </button>
+              )}
+              {anyArchived && (
+                <button onClick={() => runAction({ type: 'archive', archived: false })} className="btn-secondary px-3 py-2 text-sm font-medium">
+                  Unarchive
+                </button>
+              )}
+              <button
+                onClick={() => runAction({ type: 'delete' })}
+                className="px-3 py-2 text-sm font-medium rounded-lg text-red-600 border border-red-200 hover:bg-red-50"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Result / Undo Toast - outlives the selection it acted on */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          tone={toast.tone}
+          actionLabel={toast.actionLabel}
+          onAction={toast.onAction}
+          onDismiss={dismissToast}
+          duration={10000}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { CustomFieldDefinition, CustomFieldValue } from '../lib/domain';
+import { MAX_TAGS, hasTag, mergeTags, parseTagInput } from '../lib/tags';
+import { useFieldSettings } from './FieldSettingsProvider';
+
+interface CustomFieldInputsProps {
+  idPrefix: string; // Keeps input ids unique when both application forms are mounted
+  tags: string[];
+  customFields: Record<string, CustomFieldValue>;
+  onTagsChange: (tags: string[]) => void;
+  onCustomFieldsChange: (customFields: Record<string, CustomFieldValue>) => void;
+}
+
+// Tag picker and one input per custom field, shared by the add and edit forms
+export default function CustomFieldInputs({
+  idPrefix,
+  tags,
+  customFields,
+  onTagsChange,
+  onCustomFieldsChange
+}: CustomFieldInputsProps) {
+  const { tags: tagDefinitions, customFields: fieldDefinitions, getTagColor } = useFieldSettings();
+  const [tagInput, setTagInput] = useState('');
+
+  const suggestedTags = tagDefinitions.filter(definition => !hasTag(tags, definition.name));
+
+  const addTags = (added: string[]) => {
+    onTagsChange(mergeTags(tags, added));
+  };
+
+  const removeTag = (removed: string) => {
+    onTagsChange(tags.filter(tag => tag !== removed));
+  };
+
+  const commitTagInput = () => {
+    const parsed = parseTagInput(tagInput);
+    if (parsed.length === 0) return;
+    // Reuse the spelling of a defined tag so it picks up its color
+    addTags(parsed.map(tag => tagDefinitions.find(definition => definition.name.toLowerCase() === tag.toLowerCase())?.name || tag));
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Enter would otherwise submit the whole application form
+      e.preventDefault();
+      commitTagInput();
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const setFieldValue = (fieldId: string, value: CustomFieldValue) => {
+    onCustomFieldsChange({ ...customFields, [fieldId]: value });
+  };
+
+  const renderFieldInput = (field: CustomFieldDefinition) => {
+    const id = `${idPrefix}-field-${field.id}`;
+    const value = customFields[field.id];
+
+    switch (field.type) {
+      case 'checkbox':
+        return (
+          <label htmlFor={id} className="flex items-center gap-3 text-base text-slate-700">
+            <input
+              type="checkbox"
+              id={id}
+              checked={value === true}
+              onChange={(e) => setFieldValue(field.id, e.target.checked)}
+              className="w-5 h-5 rounded border-slate-300 text-blue-600 focus-ring"
+            />
+            {field.name}
+          </label>
+        );
+      case 'select':
+        return (
+          <select
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setFieldValue(field.id, e.target.value || null)}
+            className="input-modern w-full px-4 py-3 text-lg focus-ring"
+          >
+            <option value="">Not set</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+            {/* Keep a value whose option was since removed selectable */}
+            {typeof value === 'string' && value && !(field.options || []).includes(value) && (
+              <option value={value}>{value}</option>
+            )}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            id={id}
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => setFieldValue(field.id, e.target.value === '' ? null : Number(e.target.value))}
+            className="input-modern w-full px-4 py-3 text-lg focus-ring"
+            step="any"
+          />
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setFieldValue(field.id, e.target.value || null)}
+            className="input-modern w-full px-4 py-3 text-lg focus-ring"
+          />
+        );
+      default:
+        return (
+          <input
+            type="text"
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setFieldValue(field.id, e.target.value)}
+            className="input-modern w-full px-4 py-3 text-lg focus-ring"
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {/* Tags */}
+      <div>
+        <label htmlFor={`${idPrefix}-tags`} className="block text-sm font-semibold mb-3 text-slate-900">
+          Tags <span className="text-sm font-normal text-slate-500">(Optional)</span>
+        </label>
+        <div className="input-modern w-full px-3 py-2 flex flex-wrap items-center gap-2">
+          {tags.map((tag) => {
+            const color = getTagColor(tag);
+            return (
+              <span key={tag} className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-sm font-medium ${color.bgColor} ${color.textColor}`}>
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  className="opacity-60 hover:opacity-100"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  ×
+                </button>
+              </span>
+            );
+          })}
+          <input
+            type="text"
+            id={`${idPrefix}-tags`}
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+            onBlur={commitTagInput}
+            disabled={tags.length >= MAX_TAGS}
+            className="flex-1 min-w-[8rem] py-1 text-base bg-transparent outline-none"
+            placeholder={tags.length >= MAX_TAGS ? `Up to ${MAX_TAGS} tags` : 'Type a tag and press Enter'}
+          />
+        </div>
+        {suggestedTags.length > 0 && tags.length < MAX_TAGS && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {suggestedTags.map((definition) => {
+              const color = getTagColor(definition.name);
+              return (
+                <button
+                  key={definition.id}
+                  type="button"
+                  onClick={() => addTags([definition.name])}
+                  className={`px-2 py-1 rounded-full text-xs font-medium border border-dashed border-slate-300 ${color.textColor} hover:bg-slate-50`}
+                >
+                  + {definition.name}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Custom Fields */}
+      {fieldDefinitions.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {fieldDefinitions.map(field => (
+            <div key={field.id} className={field.type === 'checkbox' ? 'flex items-end pb-3' : ''}>
+              {field.type !== 'checkbox' && (
+                <label htmlFor={`${idPrefix}-field-${field.id}`} className="block text-sm font-semibold mb-3 text-slate-900">
+                  {field.name}
+                </label>
+              )}
+              {renderFieldInput(field)}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Application, DescriptionSnapshot, FollowUpReminder, HiringManager, Interview, Offer, Resume } from '../lib/domain';
+import { ApplicationWrite, applicationRepository } from '../lib/repositories';
+import { formatDate } from '../lib/dates';
+import { describeDuplicateReasons, getDefaultPrimary, getDuplicateReasons, getMergedFields } from '../lib/duplicates';
+import { usePipeline } from './PipelineProvider';
+
+interface DuplicateReviewProps {
+  clusters: Application[][]; // Suspected duplicates, oldest first within each
+  interviews: Interview[];
+  descriptionSnapshots: DescriptionSnapshot[];
+  offers: Offer[];
+  reminders: FollowUpReminder[];
+  resumes: Resume[];
+  hiringManagers: HiringManager[];
+  onClose: () => void;
+}
+
+// Firestore rule limit on notDuplicateOf
+const MAX_DISTINCT_IDS = 50;
+
+const formatCreated = (app: Application) => formatDate(app.createdAt) || 'Unknown date';
+
+// Lists suspected duplicate clusters; each can be merged into one application
+// or marked as different jobs so it stops being flagged
+export default function DuplicateReview({
+  clusters,
+  interviews,
+  descriptionSnapshots,
+  offers,
+  reminders,
+  resumes,
+  hiringManagers,
+  onClose
+}: DuplicateReviewProps) {
+  const { stages, getStatusOption } = usePipeline();
+  // Chosen application to keep, by the id of each cluster's oldest application
+  const [primaryIds, setPrimaryIds] = useState<Record<string, string>>({});
+  const [busyClusterId, setBusyClusterId] = useState<string | null>(null);
+
+  const getPrimary = (cluster: Application[]) =>
+    cluster.find(app => app.id === primaryIds[cluster[0].id]) || getDefaultPrimary(cluster, stages);
+
+  const reportError = (error: any, action: string) => {
+    console.error(`Error trying to ${action}:`, error);
+
+    if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+      alert('Connection lost. Your changes will be saved automatically when connection is restored.');
+    } else if (error.code === 'permission-denied') {
+      alert(`Permission denied. Unable to ${action}.`);
+    } else {
+      alert(`Failed to ${action}. Please check your connection and try again.`);
+    }
+  };
+
+  const handleMerge = async (cluster: Application[]) => {
+    const primary = getPrimary(cluster);
+    const duplicates = cluster.filter(app => app.id !== primary.id);
+    const duplicateIds = new Set(duplicates.map(app => app.id));
+    if (!window.confirm(
+      `Merge ${duplicates.length} application${duplicates.length === 1 ? '' : 's'} into "${primary.jobTitle}" at ${primary.company}? ` +
+      'Their notes, tags, job descriptions, interviews, offers and reminders move to it and the duplicates are deleted.'
+    )) {
+      return;
+    }
+
+    setBusyClusterId(cluster[0].id);
+    try {
+      await applicationRepository.mergeDuplicates(primary, duplicates, getMergedFields(primary, duplicates), {
+        interviews: interviews.filter(interview => duplicateIds.has(interview.applicationId)),
+        descriptionSnapshots: descriptionSnapshots.filter(snapshot => duplicateIds.has(snapshot.applicationId)),
+        offers: offers.filter(offer => duplicateIds.has(offer.applicationId)),
+        reminders: reminders.filter(reminder => reminder.applicationId && duplicateIds.has(reminder.applicationId))
+      });
+    } catch (error: any) {
+      reportError(error, 'merge applications');
+    } finally {
+      setBusyClusterId(null);
+    }
+  };
+
+  const handleMarkDistinct = async (cluster: Application[]) => {
+    const writes: ApplicationWrite[] = cluster.map(app => ({
+      type: 'update',
+      id: app.id,
+      data: {
+        notDuplicateOf: Array.from(new Set([
+          ...cluster.filter(other => other.id !== app.id).map(other => other.id),
+          ...(app.notDuplicateOf || [])
+        ])).slice(0, MAX_DISTINCT_IDS)
+      }
+    }));
+
+    setBusyClusterId(cluster[0].id);
+    try {
+      await applicationRepository.bulkWrite(writes);
+    } catch (error: any) {
+      reportError(error, 'update applications');
+    } finally {
+      setBusyClusterId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+      style={{ backdropFilter: 'blur(8px)' }}
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+    >
+      <div className="bg-white rounded-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto border border-slate-200 shadow-xl">
+        {/* Modal Header */}
+        <div className="px-8 py-6 border-b border-slate-200 bg-gradient-to-r from-amber-50 to-slate-50 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">Review duplicates</h2>
+            <p className="text-slate-600 mt-1">
+              Pick the application to keep in each group. Merging keeps everyone&apos;s notes, resume and contact, and the kept application&apos;s status history.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none" aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        {/* Clusters */}
+        <div className="px-8 py-6 space-y-6">
+          {clusters.length === 0 && (
+            <p className="text-center text-slate-600 py-8">No suspected duplicates left.</p>
+          )}
+
+          {clusters.map((cluster) => {
+            const primary = getPrimary(cluster);
+            const isBusy = busyClusterId === cluster[0].id;
+            return (
+              <div key={cluster[0].id} className="rounded-xl border border-slate-200">
+                <div className="divide-y divide-slate-100">
+                  {cluster.map((app) => {
+                    const statusOption = getStatusOption(app.status);
+                    const reasons = app === primary ? [] : getDuplicateReasons(primary, app).reasons;
+                    const resume = resumes.find(r => r.id === app.resumeId);
+                    const manager = hiringManagers.find(m => m.id === app.hiringManagerId);
+                    return (
+                      <label key={app.id} className="flex items-start gap-3 p-4 cursor-pointer hover:bg-slate-50">
+                        <input
+                          type="radio"
+                          name={`primary-${cluster[0].id}`}
+                          checked={app.id === primary.id}
+                          onChange={() => setPrimaryIds(prev => ({ ...prev, [cluster[0].id]: app.id }))}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-semibold text-slate-900">{app.jobTitle}</span>
+                            <span className="text-slate-600">at {app.company}</span>
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusOption.bgColor} ${statusOption.textColor}`}>
+                              {statusOption.label}
+                            </span>
+                            {app.id === primary.id && (
+                              <span className="px-2 py-0.5 rounded text-xs font-medium bg-blue-50 text-blue-700">Keep</span>
+                            )}
+                          </div>
+                          <p className="text-xs text-slate-500 mt-1">
+                            Added {formatCreated(app)}
+                            {resume && ` · Resume: ${resume.name}`}
+                            {manager && ` · Contact: ${manager.name}`}
+                            {app.notes?.trim() && ' · Has notes'}
+                            {reasons.length > 0 && ` · ${describeDuplicateReasons(reasons)}`}
+                          </p>
+                          {app.jobLink && <p className="text-xs text-slate-400 mt-1 truncate">{app.jobLink}</p>}
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+
+                {/* Cluster Actions */}
+                <div className="flex justify-end gap-3 p-4 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+                  <button
+                    onClick={() => handleMarkDistinct(cluster)}
+                    disabled={isBusy}
+                    className="btn-secondary px-4 py-2 text-sm font-medium disabled:opacity-50"
+                  >
+                    Not duplicates
+                  </button>
+                  <button
+                    onClick={() => handleMerge(cluster)}
+                    disabled={isBusy}
+                    className="btn-primary px-4 py-2 text-sm font-semibold disabled:opacity-50"
+                  >
+                    {isBusy ? 'Working...' : `Merge into "${primary.jobTitle}"`}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
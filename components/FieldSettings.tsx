@@ -0,0 +1,357 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { deleteField } from 'firebase/firestore';
+import {
+  Application,
+  CUSTOM_FIELD_TYPES,
+  CustomFieldDefinition,
+  CustomFieldType,
+  STAGE_COLORS,
+  TagDefinition,
+  getStageColor
+} from '../lib/domain';
+import { ApplicationWrite, applicationRepository } from '../lib/repositories';
+import { createStageId } from '../lib/pipeline';
+import { isEmptyFieldValue, validateFieldSettings } from '../lib/customFields';
+import { MAX_TAG_LENGTH, hasTag, normalizeTag } from '../lib/tags';
+import { useFieldSettings } from './FieldSettingsProvider';
+
+interface FieldSettingsProps {
+  applications: Application[];
+}
+
+const MAX_TAG_DEFINITIONS = 100;
+const MAX_CUSTOM_FIELDS = 30;
+const MAX_FIELD_NAME = 60;
+const MAX_SELECT_OPTIONS = 50;
+
+// Select options are edited as one comma-separated line
+const parseOptions = (input: string) =>
+  Array.from(new Set(input.split(',').map(option => option.trim()).filter(Boolean))).slice(0, MAX_SELECT_OPTIONS);
+
+export default function FieldSettings({ applications }: FieldSettingsProps) {
+  const { tags, customFields, loaded, saveFieldSettings } = useFieldSettings();
+  const [tagDraft, setTagDraft] = useState<TagDefinition[]>(tags);
+  const [fieldDraft, setFieldDraft] = useState<CustomFieldDefinition[]>(customFields);
+  // Raw option text per select field so typing a trailing comma isn't swallowed
+  const [optionInputs, setOptionInputs] = useState<Record<string, string>>({});
+  const [newTagName, setNewTagName] = useState('');
+  const [newFieldName, setNewFieldName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved settings once they load or change elsewhere
+  useEffect(() => {
+    setTagDraft(tags);
+    setFieldDraft(customFields);
+    setOptionInputs({});
+  }, [tags, customFields]);
+
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    applications.forEach(app => (app.tags || []).forEach((tag) => {
+      const key = tag.toLowerCase();
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }));
+    return counts;
+  }, [applications]);
+
+  const isDirty = JSON.stringify(tagDraft) !== JSON.stringify(tags)
+    || JSON.stringify(fieldDraft) !== JSON.stringify(customFields);
+
+  const validationError = validateFieldSettings(tagDraft, fieldDraft);
+
+  const updateTag = (id: string, changes: Partial<TagDefinition>) => {
+    setTagDraft(prev => prev.map(tag => tag.id === id ? { ...tag, ...changes } : tag));
+  };
+
+  const updateField = (id: string, changes: Partial<CustomFieldDefinition>) => {
+    setFieldDraft(prev => prev.map(field => field.id === id ? { ...field, ...changes } : field));
+  };
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeTag(newTagName);
+    if (!name || tagDraft.length >= MAX_TAG_DEFINITIONS) return;
+
+    const id = createStageId(name, [...tagDraft, ...tags].map(tag => tag.id));
+    // Cycle through the palette, skipping gray, so new tags are told apart
+    const color = STAGE_COLORS[1 + (tagDraft.length % (STAGE_COLORS.length - 1))].value;
+    setTagDraft(prev => [...prev, { id, name, color }]);
+    setNewTagName('');
+  };
+
+  const addField = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newFieldName.trim();
+    if (!name || fieldDraft.length >= MAX_CUSTOM_FIELDS) return;
+
+    // Never reuse the id of a saved field whose values may still be on applications
+    const id = createStageId(name, [...fieldDraft, ...customFields].map(field => field.id));
+    setFieldDraft(prev => [...prev, { id, name, type: 'text' }]);
+    setNewFieldName('');
+  };
+
+  // Renamed and removed tags, and removed fields, have to be applied to the
+  // applications that use them
+  const planApplicationWrites = () => {
+    const writes: ApplicationWrite[] = [];
+    const renamed = tags
+      .map(saved => ({ saved, next: tagDraft.find(tag => tag.id === saved.id) }))
+      .filter(({ saved, next }) => next && normalizeTag(next.name) !== saved.name);
+    const removedTags = tags.filter(saved => !tagDraft.some(tag => tag.id === saved.id));
+    const removedFields = customFields.filter(saved => !fieldDraft.some(field => field.id === saved.id));
+
+    applications.forEach((app) => {
+      const data: Record<string, unknown> = {};
+
+      if (app.tags?.length && (renamed.length > 0 || removedTags.length > 0)) {
+        const nextTags = app.tags
+          .filter(tag => !hasTag(removedTags.map(removed => removed.name), tag))
+          .map(tag => renamed.find(({ saved }) => saved.name.toLowerCase() === tag.toLowerCase())?.next.name.trim() || tag);
+        if (JSON.stringify(nextTags) !== JSON.stringify(app.tags)) data.tags = nextTags;
+      }
+
+      removedFields.forEach((field) => {
+        if (!isEmptyFieldValue(app.customFields?.[field.id])) data[`customFields.${field.id}`] = deleteField();
+      });
+
+      if (Object.keys(data).length > 0) writes.push({ type: 'update', id: app.id, data });
+    });
+
+    return { writes, removedTags, removedFields };
+  };
+
+  const handleSave = async () => {
+    if (validationError || !isDirty) return;
+
+    const { writes, removedTags, removedFields } = planApplicationWrites();
+    if (writes.length > 0 && (removedTags.length > 0 || removedFields.length > 0)) {
+      const removed = [...removedTags, ...removedFields].map(item => `"${item.name}"`).join(', ');
+      if (!window.confirm(`${removed} will be removed from ${writes.length} application${writes.length === 1 ? '' : 's'}.\n\nContinue?`)) return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Update applications first so a failure leaves the old definitions in place for them
+      await applicationRepository.bulkWrite(writes);
+      await saveFieldSettings(
+        tagDraft.map(tag => ({ ...tag, name: normalizeTag(tag.name) })),
+        fieldDraft.map(field => ({ ...field, name: field.name.trim() }))
+      );
+    } catch (error: any) {
+      console.error('Error saving tags and fields:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your tags and fields will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to save your tags and fields.');
+      } else {
+        alert('Failed to save tags and fields. Please check your connection and try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const discardChanges = () => {
+    setTagDraft(tags);
+    setFieldDraft(customFields);
+    setOptionInputs({});
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="p-2 bg-pink-100 rounded-lg">
+          <svg className="w-5 h-5 text-pink-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+          </svg>
+        </div>
+        <h3 className="text-lg font-semibold text-slate-900">
+          Tags & Custom Fields
+        </h3>
+      </div>
+      <p className="text-sm text-slate-600 mb-6">
+        Give tags a color and add your own fields to applications, such as salary, referral or visa sponsorship.
+        Both can be filtered on the dashboard and grouped in analytics.
+      </p>
+
+      {/* Tag List */}
+      <h4 className="text-sm font-semibold uppercase tracking-wide text-slate-500 mb-3">Tags</h4>
+      {tagDraft.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-4">
+          No tag colors yet. Tags added to applications show in gray until you define them here.
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {tagDraft.map((tag) => {
+            const color = getStageColor(tag.color);
+            const count = tagCounts.get((tags.find(saved => saved.id === tag.id)?.name || tag.name).toLowerCase()) || 0;
+            return (
+              <li key={tag.id} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border border-slate-200">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${color.bgColor} ${color.textColor}`}>
+                  {tag.name || 'Untitled'}
+                </span>
+                <input
+                  type="text"
+                  value={tag.name}
+                  maxLength={MAX_TAG_LENGTH}
+                  onChange={(e) => updateTag(tag.id, { name: e.target.value })}
+                  className="input-modern flex-1 min-w-[10rem] px-3 py-2 text-sm focus-ring"
+                  aria-label="Tag name"
+                />
+                <select
+                  value={tag.color}
+                  onChange={(e) => updateTag(tag.id, { color: e.target.value })}
+                  className="input-modern px-2 py-2 text-sm focus-ring"
+                  aria-label={`Color for ${tag.name}`}
+                >
+                  {STAGE_COLORS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <span className="w-20 text-right text-xs text-slate-500">
+                  {count} {count === 1 ? 'app' : 'apps'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setTagDraft(prev => prev.filter(candidate => candidate.id !== tag.id))}
+                  className="px-2 py-1 text-sm text-red-600 hover:bg-red-50 rounded-md"
+                  aria-label={`Remove ${tag.name}`}
+                >
+                  Remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Add Tag */}
+      <form onSubmit={addTag} className="flex gap-2 mb-8">
+        <input
+          type="text"
+          value={newTagName}
+          maxLength={MAX_TAG_LENGTH}
+          onChange={(e) => setNewTagName(e.target.value)}
+          placeholder="New tag, e.g. Referral"
+          className="input-modern flex-1 px-3 py-2 text-sm focus-ring"
+        />
+        <button
+          type="submit"
+          disabled={!newTagName.trim() || tagDraft.length >= MAX_TAG_DEFINITIONS}
+          className="btn-secondary px-4 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add tag
+        </button>
+      </form>
+
+      {/* Custom Field List */}
+      <h4 className="text-sm font-semibold uppercase tracking-wide text-slate-500 mb-3">Custom Fields</h4>
+      {fieldDraft.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-4">No custom fields yet.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {fieldDraft.map((field) => {
+            const isSaved = customFields.some(saved => saved.id === field.id);
+            return (
+              <li key={field.id} className="p-2 rounded-lg border border-slate-200 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={field.name}
+                    maxLength={MAX_FIELD_NAME}
+                    onChange={(e) => updateField(field.id, { name: e.target.value })}
+                    className="input-modern flex-1 min-w-[10rem] px-3 py-2 text-sm focus-ring"
+                    aria-label="Field name"
+                  />
+                  {/* Saved values wouldn't fit another type, so the type is fixed once saved */}
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateField(field.id, { type: e.target.value as CustomFieldType })}
+                    disabled={isSaved}
+                    className="input-modern px-2 py-2 text-sm focus-ring disabled:opacity-60"
+                    aria-label={`Type of ${field.name}`}
+                  >
+                    {CUSTOM_FIELD_TYPES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 px-2 text-sm text-slate-700 whitespace-nowrap cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(field.showOnCard)}
+                      onChange={(e) => updateField(field.id, { showOnCard: e.target.checked })}
+                      className="w-4 h-4 accent-blue-600"
+                    />
+                    Show on cards
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setFieldDraft(prev => prev.filter(candidate => candidate.id !== field.id))}
+                    className="px-2 py-1 text-sm text-red-600 hover:bg-red-50 rounded-md"
+                    aria-label={`Remove ${field.name}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+                {field.type === 'select' && (
+                  <input
+                    type="text"
+                    value={optionInputs[field.id] ?? (field.options || []).join(', ')}
+                    onChange={(e) => {
+                      setOptionInputs(prev => ({ ...prev, [field.id]: e.target.value }));
+                      updateField(field.id, { options: parseOptions(e.target.value) });
+                    }}
+                    placeholder="Options, comma separated, e.g. Low, Medium, High"
+                    className="input-modern w-full px-3 py-2 text-sm focus-ring"
+                    aria-label={`Options for ${field.name}`}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Add Field */}
+      <form onSubmit={addField} className="flex gap-2 mb-6">
+        <input
+          type="text"
+          value={newFieldName}
+          maxLength={MAX_FIELD_NAME}
+          onChange={(e) => setNewFieldName(e.target.value)}
+          placeholder="New field, e.g. Salary"
+          className="input-modern flex-1 px-3 py-2 text-sm focus-ring"
+        />
+        <button
+          type="submit"
+          disabled={!newFieldName.trim() || fieldDraft.length >= MAX_CUSTOM_FIELDS}
+          className="btn-secondary px-4 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add field
+        </button>
+      </form>
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!loaded || !isDirty || Boolean(validationError) || isSaving}
+          className="btn-primary px-5 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save tags & fields'}
+        </button>
+        <button
+          type="button"
+          onClick={discardChanges}
+          disabled={!isDirty || isSaving}
+          className="btn-secondary px-5 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Discard changes
+        </button>
+        {validationError && <span className="text-sm text-red-600">{validationError}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from './AuthProvider';
+import { CustomFieldDefinition, FieldSettings, StageColorOption, TagDefinition, getStageColor } from '../lib/domain';
+import { fieldSettingsRepository } from '../lib/repositories';
+import { findTagDefinition } from '../lib/tags';
+
+interface FieldSettingsContextValue {
+  tags: TagDefinition[];
+  customFields: CustomFieldDefinition[];
+  // False until the user's saved settings (or their absence) have been read
+  loaded: boolean;
+  getTagColor: (name: string) => StageColorOption;
+  saveFieldSettings: (tags: TagDefinition[], customFields: CustomFieldDefinition[]) => Promise<void>;
+}
+
+const FieldSettingsContext = createContext<FieldSettingsContextValue | null>(null);
+
+interface FieldSettingsProviderProps {
+  children: ReactNode;
+}
+
+export default function FieldSettingsProvider({ children }: FieldSettingsProviderProps) {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<FieldSettings | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // Follow the signed-in user's field settings document
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = fieldSettingsRepository.subscribe(
+      user.uid,
+      (nextSettings) => {
+        setSettings(nextSettings);
+        setLoaded(true);
+      },
+      // Applications still load without tag colors or custom fields
+      () => setLoaded(true)
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  // Stable between snapshots so settings drafts only reset when something changed
+  const tags = useMemo(() => settings?.tags || [], [settings]);
+  const customFields = useMemo(() => settings?.customFields || [], [settings]);
+
+  // Tags nobody gave a color to show in gray
+  const getTagColor = useCallback(
+    (name: string) => getStageColor(findTagDefinition(tags, name)?.color || 'slate'),
+    [tags]
+  );
+
+  const saveFieldSettings = async (nextTags: TagDefinition[], nextCustomFields: CustomFieldDefinition[]) => {
+    if (!user) return;
+    await fieldSettingsRepository.save(user.uid, nextTags, nextCustomFields, settings);
+  };
+
+  return (
+    <FieldSettingsContext.Provider value={{ tags, customFields, loaded, getTagColor, saveFieldSettings }}>
+      {children}
+    </FieldSettingsContext.Provider>
+  );
+}
+
+// Access the user's tag and custom field definitions from any component rendered inside FieldSettingsProvider
+export function useFieldSettings(): FieldSettingsContextValue {
+  const context = useContext(FieldSettingsContext);
+  if (!context) {
+    throw new Error('useFieldSettings must be used within a FieldSettingsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Application, DescriptionSnapshot, HiringManager, Resume } from '../lib/domain';
+import { getArchivedDescriptions } from '../lib/jobDescriptions';
+import { createSearchIndex } from '../lib/searchIndex';
+import { isEmptyQuery, parseSearchQuery } from '../lib/searchQuery';
+import { usePipeline } from './PipelineProvider';
+
+interface GlobalSearchProps {
+  applications: Application[];
+  hiringManagers: HiringManager[];
+  resumes: Resume[];
+  descriptionSnapshots: DescriptionSnapshot[];
+  onOpenApplication: (application: Application) => void;
+  onOpenContact: (manager: HiringManager) => void;
+  onOpenResume: (resume: Resume) => void;
+}
+
+// Results shown per group before "N more"
+const GROUP_LIMIT = 8;
+
+const SYNTAX_HELP = [
+  { example: 'status:interview', description: 'Stage id or name' },
+  { example: 'company:"Capital One"', description: 'Quote values with spaces' },
+  { example: 'resume:"SWE v2"', description: 'Applications sent with a resume' },
+  { example: 'jd:kubernetes', description: 'Any saved version of the job description' },
+  { example: 'created:>2025-09-01', description: 'Also >=, <, <= or a month like 2025-09' },
+  { example: '-status:rejected', description: 'A leading minus excludes matches' },
+  { example: 'type:contact', description: 'Only applications, contacts or resumes' }
+];
+
+type ResultItem =
+  | { type: 'application'; item: Application }
+  | { type: 'contact'; item: HiringManager }
+  | { type: 'resume'; item: Resume };
+
+export default function GlobalSearch({
+  applications,
+  hiringManagers,
+  resumes,
+  descriptionSnapshots,
+  onOpenApplication,
+  onOpenContact,
+  onOpenResume
+}: GlobalSearchProps) {
+  const [input, setInput] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [indexVersion, setIndexVersion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const searchIndex = useRef(createSearchIndex()).current;
+  const { getStatusOption } = usePipeline();
+
+  // Every version of each job description, so edited-out wording is still found
+  const archivedDescriptions = useMemo(() => getArchivedDescriptions(descriptionSnapshots), [descriptionSnapshots]);
+
+  // Each listener's snapshot only re-indexes its own collection
+  useEffect(() => {
+    searchIndex.sync('application', applications, app => archivedDescriptions.get(app.id) || '');
+    setIndexVersion(version => version + 1);
+  }, [applications, archivedDescriptions, searchIndex]);
+
+  useEffect(() => {
+    searchIndex.sync('contact', hiringManagers);
+    setIndexVersion(version => version + 1);
+  }, [hiringManagers, searchIndex]);
+
+  useEffect(() => {
+    searchIndex.sync('resume', resumes);
+    setIndexVersion(version => version + 1);
+  }, [resumes, searchIndex]);
+
+  // "/" focuses the search box from anywhere outside a text field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== '/' || target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Close when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const query = useMemo(() => parseSearchQuery(input), [input]);
+
+  const results = useMemo(() => {
+    // indexVersion counts the snapshots synced into the index; until the
+    // first one there's nothing to search
+    if (isEmptyQuery(query) || indexVersion === 0) return null;
+    const resumeNames = new Map(resumes.map(resume => [resume.id, resume.name]));
+    const contactNames = new Map(hiringManagers.map(manager => [manager.id, manager.name]));
+    return searchIndex.search(query, {
+      getStatusOption,
+      getResumeName: id => resumeNames.get(id) || '',
+      getContactName: id => contactNames.get(id) || '',
+      getDescriptionText: id => archivedDescriptions.get(id) || ''
+    });
+  }, [query, indexVersion, getStatusOption, resumes, hiringManagers, archivedDescriptions, searchIndex]);
+
+  // Flattened in display order for arrow-key navigation
+  const items: ResultItem[] = results ? [
+    ...results.applications.slice(0, GROUP_LIMIT).map(item => ({ type: 'application' as const, item })),
+    ...results.contacts.slice(0, GROUP_LIMIT).map(item => ({ type: 'contact' as const, item })),
+    ...results.resumes.slice(0, GROUP_LIMIT).map(item => ({ type: 'resume' as const, item }))
+  ] : [];
+
+  useEffect(() => setActiveIndex(0), [input]);
+
+  const openItem = (result: ResultItem) => {
+    setIsOpen(false);
+    if (result.type === 'application') onOpenApplication(result.item);
+    if (result.type === 'contact') onOpenContact(result.item);
+    if (result.type === 'resume') onOpenResume(result.item);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault();
+      openItem(items[activeIndex]);
+    }
+  };
+
+  const renderGroup = (title: string, type: ResultItem['type'], total: number) => {
+    const groupItems = items.filter(result => result.type === type);
+    if (groupItems.length === 0) return null;
+
+    return (
+      <div className="py-2">
+        <div className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+          {title} ({total})
+        </div>
+        {groupItems.map((result) => {
+          const index = items.indexOf(result);
+          return (
+            <button
+              key={`${result.type}-${result.item.id}`}
+              type="button"
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => openItem(result)}
+              className={`w-full text-left px-4 py-2 text-sm ${index === activeIndex ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+            >
+              {result.type === 'application' && (() => {
+                const status = getStatusOption(result.item.status);
+                return (
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="truncate">
+                      <span className="font-medium text-slate-900">{result.item.jobTitle}</span>
+                      <span className="text-slate-500"> · {result.item.company}</span>
+                    </span>
+                    <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${status.bgColor} ${status.textColor}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                );
+              })()}
+              {result.type === 'contact' && (
+                <span>
+                  <span className="font-medium text-slate-900">{result.item.name}</span>
+                  <span className="text-slate-500"> · {[result.item.role, result.item.company].filter(Boolean).join(', ')}</span>
+                </span>
+              )}
+              {result.type === 'resume' && (
+                <span>
+                  <span className="font-medium text-slate-900">{result.item.name}</span>
+                  <span className="text-slate-500"> · {result.item.originalFileName}</span>
+                </span>
+              )}
+            </button>
+          );
+        })}
+        {total > groupItems.length && (
+          <div className="px-4 py-1 text-xs text-slate-500">+{total - groupItems.length} more - refine your search</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-xl">
+      <input
+        ref={inputRef}
+        type="search"
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder='Search everything… e.g. status:interview company:"Capital One"'
+        className="input-modern w-full px-4 py-2 text-sm focus-ring"
+        aria-label="Search applications, contacts and resumes"
+      />
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-2 bg-white border border-slate-200 rounded-xl shadow-xl z-40 max-h-[28rem] overflow-y-auto">
+          {query.errors.map(error => (
+            <div key={error} className="px-4 py-2 text-xs text-red-600 bg-red-50">{error}</div>
+          ))}
+
+          {/* Syntax Help */}
+          {!results && (
+            <div className="p-4">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">Search syntax</p>
+              <ul className="space-y-1">
+                {SYNTAX_HELP.map(help => (
+                  <li key={help.example} className="text-sm">
+                    <code className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-800">{help.example}</code>
+                    <span className="text-slate-500"> {help.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Grouped Results */}
+          {results && results.total === 0 && (
+            <div className="p-4 text-sm text-slate-500">No matches.</div>
+          )}
+          {results && results.total > 0 && (
+            <div className="divide-y divide-slate-100">
+              {renderGroup('Applications', 'application', results.applications.length)}
+              {renderGroup('Hiring Managers', 'contact', results.contacts.length)}
+              {renderGroup('Resumes', 'resume', results.resumes.length)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
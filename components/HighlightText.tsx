@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface HighlightTextProps {
+  text: string;
+  query: string;
+}
+
+// Wraps every case-insensitive occurrence of query in a <mark>
+export default function HighlightText({ text, query }: HighlightTextProps) {
+  const needle = query.trim().toLowerCase();
+  if (!text || !needle) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+  let matchIndex = haystack.indexOf(needle);
+
+  while (matchIndex !== -1) {
+    if (matchIndex > cursor) parts.push(text.slice(cursor, matchIndex));
+    parts.push(
+      <mark key={matchIndex} className="bg-yellow-200 text-inherit rounded px-0.5">
+        {text.slice(matchIndex, matchIndex + needle.length)}
+      </mark>
+    );
+    cursor = matchIndex + needle.length;
+    matchIndex = haystack.indexOf(needle, cursor);
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
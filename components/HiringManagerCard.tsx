@@ -1,18 +1,6 @@
 import React from 'react';
-
-interface HiringManager {
-  id: string;
-  name: string;
-  role: string;
-  email?: string;
-  linkedinProfile?: string;
-  company: string;
-  notes?: string;
-  lastContactDate?: any;
-  nextFollowUpDate?: any;
-  createdAt: any;
-  updatedAt: any;
-}
+import { HiringManager } from '../lib/domain';
+import { formatDate } from '../lib/dates';
 
 interface HiringManagerCardProps {
   manager: HiringManager;
@@ -21,31 +9,17 @@ interface HiringManagerCardProps {
 }
 
 export default function HiringManagerCard({ manager, onEdit, onDelete }: HiringManagerCardProps) {
-  const formatDate = (timestamp: any) => {
-    if (!timestamp) return '';
-    const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric', 
-      year: 'numeric' 
-    });
-  };
-
   const isFollowUpDue = () => {
     if (!manager.nextFollowUpDate) return false;
     const today = new Date();
-    const followUpDate = manager.nextFollowUpDate.toDate ? 
-      manager.nextFollowUpDate.toDate() : 
-      new Date(manager.nextFollowUpDate);
+    const followUpDate = manager.nextFollowUpDate.toDate();
     return followUpDate <= today;
   };
 
   const getDaysUntilFollowUp = () => {
     if (!manager.nextFollowUpDate) return null;
     const today = new Date();
-    const followUpDate = manager.nextFollowUpDate.toDate ? 
-      manager.nextFollowUpDate.toDate() : 
-      new Date(manager.nextFollowUpDate);
+    const followUpDate = manager.nextFollowUpDate.toDate();
     const diffTime = followUpDate.getTime() - today.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     return diffDays;
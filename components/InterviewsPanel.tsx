@@ -0,0 +1,485 @@
+import React, { useState } from 'react';
+import { useAuth } from './AuthProvider';
+import {
+  Application,
+  HiringManager,
+  INTERVIEW_OUTCOMES,
+  INTERVIEW_TYPES,
+  Interview,
+  InterviewInput,
+  InterviewOutcome,
+  InterviewType
+} from '../lib/domain';
+import { interviewRepository } from '../lib/repositories';
+import {
+  formatInterviewTime,
+  formatLocalInterviewTime,
+  getLocalTimeZone,
+  getTimeZoneOptions,
+  toZonedInputValue,
+  zonedTimeToDate
+} from '../lib/interviews';
+import { Timestamp } from 'firebase/firestore';
+
+interface InterviewsPanelProps {
+  application: Application;
+  interviews: Interview[]; // This application's interviews
+  hiringManagers: HiringManager[];
+}
+
+interface InterviewDraft {
+  round: string;
+  type: InterviewType;
+  scheduledAt: string; // datetime-local value in timeZone
+  timeZone: string;
+  durationMinutes: string;
+  interviewerIds: string[];
+  otherInterviewers: string;
+  location: string;
+  prepNotes: string;
+  outcome: InterviewOutcome;
+  selfAssessment: number | null;
+  reflection: string;
+}
+
+const OUTCOME_STYLES: Record<InterviewOutcome, string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  passed: 'bg-emerald-50 text-emerald-700',
+  rejected: 'bg-red-50 text-red-700',
+  cancelled: 'bg-slate-100 text-slate-400 line-through'
+};
+
+const SELF_ASSESSMENT_LABELS = ['Rough', 'Shaky', 'Okay', 'Good', 'Great'];
+
+const isLink = (location: string) => /^https?:\/\//i.test(location);
+
+const emptyDraft = (round: string): InterviewDraft => ({
+  round,
+  type: 'video',
+  scheduledAt: '',
+  timeZone: getLocalTimeZone(),
+  durationMinutes: '60',
+  interviewerIds: [],
+  otherInterviewers: '',
+  location: '',
+  prepNotes: '',
+  outcome: 'pending',
+  selfAssessment: null,
+  reflection: ''
+});
+
+const toDraft = (interview: Interview): InterviewDraft => ({
+  round: interview.round,
+  type: interview.type,
+  scheduledAt: toZonedInputValue(interview.scheduledAt.toDate(), interview.timeZone),
+  timeZone: interview.timeZone,
+  durationMinutes: interview.durationMinutes ? String(interview.durationMinutes) : '',
+  interviewerIds: interview.interviewerIds,
+  otherInterviewers: interview.otherInterviewers || '',
+  location: interview.location || '',
+  prepNotes: interview.prepNotes || '',
+  outcome: interview.outcome,
+  selfAssessment: interview.selfAssessment ?? null,
+  reflection: interview.reflection || ''
+});
+
+// Interview rounds for one application, shown in its edit modal. This sits
+// inside the application's form, so it saves through buttons, not a nested form.
+export default function InterviewsPanel({ application, interviews, hiringManagers }: InterviewsPanelProps) {
+  const { user } = useAuth();
+  // 'new' while adding, an interview id while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InterviewDraft>(emptyDraft(''));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sorted = [...interviews].sort((a, b) => (a.scheduledAt?.toMillis() || 0) - (b.scheduledAt?.toMillis() || 0));
+
+  // Contacts at the application's company are offered first
+  const company = application.company.toLowerCase();
+  const contactOptions = hiringManagers
+    .filter(manager => !draft.interviewerIds.includes(manager.id))
+    .sort((a, b) => Number(b.company.toLowerCase() === company) - Number(a.company.toLowerCase() === company) || a.name.localeCompare(b.name));
+
+  const getManager = (id: string) => hiringManagers.find(manager => manager.id === id);
+
+  const startAdding = () => {
+    setDraft(emptyDraft(`Round ${interviews.length + 1}`));
+    setEditingId('new');
+  };
+
+  const startEditing = (interview: Interview) => {
+    setDraft(toDraft(interview));
+    setEditingId(interview.id);
+  };
+
+  const updateDraft = (changes: Partial<InterviewDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const canSave = draft.round.trim() && draft.scheduledAt && !isSaving;
+
+  const handleSave = async () => {
+    if (!user || !canSave) return;
+
+    const data: InterviewInput = {
+      round: draft.round.trim(),
+      type: draft.type,
+      scheduledAt: Timestamp.fromDate(zonedTimeToDate(draft.scheduledAt, draft.timeZone)),
+      timeZone: draft.timeZone,
+      durationMinutes: draft.durationMinutes ? Number(draft.durationMinutes) : null,
+      interviewerIds: draft.interviewerIds,
+      otherInterviewers: draft.otherInterviewers.trim(),
+      location: draft.location.trim(),
+      prepNotes: draft.prepNotes,
+      outcome: draft.outcome,
+      selfAssessment: draft.selfAssessment,
+      reflection: draft.reflection
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingId === 'new') {
+        await interviewRepository.create(user.uid, application.id, data);
+      } else {
+        await interviewRepository.update(application.id, editingId, data);
+      }
+      setEditingId(null);
+    } catch (error: any) {
+      console.error('Error saving interview:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your interview will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to save interview.');
+      } else {
+        alert('Failed to save interview. Please check your connection and try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (interview: Interview) => {
+    if (!window.confirm(`Delete the interview "${interview.round}"?`)) return;
+
+    try {
+      await interviewRepository.remove(application.id, interview.id);
+      if (editingId === interview.id) setEditingId(null);
+    } catch (error: any) {
+      console.error('Error deleting interview:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. The interview will be deleted when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to delete interview.');
+      } else {
+        alert('Failed to delete interview. Please check your connection and try again.');
+      }
+    }
+  };
+
+  // Enter in a single-line input would otherwise submit the application form
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setEditingId(null);
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="p-4 rounded-lg border border-blue-200 bg-blue-50/40 space-y-4" onKeyDown={handleEditorKeyDown}>
+      {/* Round and Type */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="interview-round" className="block text-xs font-semibold mb-1 text-slate-700">Round *</label>
+          <input
+            type="text"
+            id="interview-round"
+            value={draft.round}
+            maxLength={120}
+            onChange={(e) => updateDraft({ round: e.target.value })}
+            placeholder="e.g. Technical round 2"
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+        <div>
+          <label htmlFor="interview-type" className="block text-xs font-semibold mb-1 text-slate-700">Type</label>
+          <select
+            id="interview-type"
+            value={draft.type}
+            onChange={(e) => updateDraft({ type: e.target.value as InterviewType })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          >
+            {INTERVIEW_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Date, Time Zone and Duration */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="interview-time" className="block text-xs font-semibold mb-1 text-slate-700">Date & time *</label>
+          <input
+            type="datetime-local"
+            id="interview-time"
+            value={draft.scheduledAt}
+            onChange={(e) => updateDraft({ scheduledAt: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+        <div>
+          <label htmlFor="interview-zone" className="block text-xs font-semibold mb-1 text-slate-700">Time zone</label>
+          <select
+            id="interview-zone"
+            value={draft.timeZone}
+            onChange={(e) => updateDraft({ timeZone: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          >
+            {getTimeZoneOptions(draft.timeZone).map(zone => (
+              <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="interview-duration" className="block text-xs font-semibold mb-1 text-slate-700">Minutes</label>
+          <input
+            type="number"
+            id="interview-duration"
+            min={5}
+            step={5}
+            value={draft.durationMinutes}
+            onChange={(e) => updateDraft({ durationMinutes: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+      </div>
+
+      {/* Interviewers */}
+      <div>
+        <label htmlFor="interview-interviewer" className="block text-xs font-semibold mb-1 text-slate-700">Interviewers</label>
+        <div className="flex flex-wrap items-center gap-2">
+          {draft.interviewerIds.map(id => (
+            <span key={id} className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-purple-50 text-purple-700">
+              {getManager(id)?.name || 'Removed contact'}
+              <button
+                type="button"
+                onClick={() => updateDraft({ interviewerIds: draft.interviewerIds.filter(other => other !== id) })}
+                className="opacity-60 hover:opacity-100"
+                aria-label={`Remove ${getManager(id)?.name || 'interviewer'}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {contactOptions.length > 0 && (
+            <select
+              id="interview-interviewer"
+              value=""
+              onChange={(e) => e.target.value && updateDraft({ interviewerIds: [...draft.interviewerIds, e.target.value] })}
+              className="input-modern px-2 py-1 text-sm focus-ring"
+            >
+              <option value="">Add from contacts…</option>
+              {contactOptions.map(manager => (
+                <option key={manager.id} value={manager.id}>{manager.name} ({manager.company})</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <input
+          type="text"
+          value={draft.otherInterviewers}
+          maxLength={500}
+          onChange={(e) => updateDraft({ otherInterviewers: e.target.value })}
+          placeholder="Others not in your contacts, e.g. Priya (team lead)"
+          className="input-modern w-full mt-2 px-3 py-2 text-sm focus-ring"
+          aria-label="Other interviewers"
+        />
+      </div>
+
+      {/* Location */}
+      <div>
+        <label htmlFor="interview-location" className="block text-xs font-semibold mb-1 text-slate-700">Location or meeting link</label>
+        <input
+          type="text"
+          id="interview-location"
+          value={draft.location}
+          maxLength={2048}
+          onChange={(e) => updateDraft({ location: e.target.value })}
+          placeholder="https://zoom.us/j/... or office address"
+          className="input-modern w-full px-3 py-2 text-sm focus-ring"
+        />
+      </div>
+
+      {/* Prep Notes */}
+      <div>
+        <label htmlFor="interview-prep" className="block text-xs font-semibold mb-1 text-slate-700">Prep notes</label>
+        <textarea
+          id="interview-prep"
+          value={draft.prepNotes}
+          maxLength={10000}
+          rows={3}
+          onChange={(e) => updateDraft({ prepNotes: e.target.value })}
+          placeholder="Topics to review, questions to ask..."
+          className="input-modern w-full px-3 py-2 text-sm focus-ring resize-none"
+        />
+      </div>
+
+      {/* Outcome and Self-Assessment */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="interview-outcome" className="block text-xs font-semibold mb-1 text-slate-700">Outcome</label>
+          <select
+            id="interview-outcome"
+            value={draft.outcome}
+            onChange={(e) => updateDraft({ outcome: e.target.value as InterviewOutcome })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          >
+            {INTERVIEW_OUTCOMES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <span className="block text-xs font-semibold mb-1 text-slate-700">How did it go?</span>
+          <div className="flex gap-1" role="radiogroup" aria-label="Self-assessment">
+            {SELF_ASSESSMENT_LABELS.map((label, index) => {
+              const score = index + 1;
+              const isActive = draft.selfAssessment === score;
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  role="radio"
+                  aria-checked={isActive}
+                  onClick={() => updateDraft({ selfAssessment: isActive ? null : score })}
+                  className={`flex-1 px-1 py-2 rounded-md text-xs font-medium border ${
+                    isActive ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                  }`}
+                  title={`${score} of 5`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+      <textarea
+        value={draft.reflection}
+        maxLength={5000}
+        rows={2}
+        onChange={(e) => updateDraft({ reflection: e.target.value })}
+        placeholder="What went well, what to improve next time..."
+        className="input-modern w-full px-3 py-2 text-sm focus-ring resize-none"
+        aria-label="Reflection"
+      />
+
+      {/* Editor Actions */}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setEditingId(null)} className="btn-secondary px-4 py-2 text-sm font-medium">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave}
+          className="btn-primary px-4 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : editingId === 'new' ? 'Add interview' : 'Save interview'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {sorted.length === 0 && editingId !== 'new' && (
+        <p className="text-sm text-slate-500">No interviews recorded yet.</p>
+      )}
+
+      {/* Interview List */}
+      {sorted.map((interview) => {
+        if (editingId === interview.id) return <React.Fragment key={interview.id}>{renderEditor()}</React.Fragment>;
+
+        const scheduledAt = interview.scheduledAt?.toDate();
+        const localTime = scheduledAt && formatLocalInterviewTime(scheduledAt, interview.timeZone);
+        const interviewers = [
+          ...interview.interviewerIds.map(id => getManager(id)?.name).filter(Boolean),
+          ...(interview.otherInterviewers ? [interview.otherInterviewers] : [])
+        ];
+        return (
+          <div key={interview.id} className="p-4 rounded-lg border border-slate-200 group">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold text-slate-900 text-sm">
+                  {interview.round}
+                  <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-purple-50 text-purple-700">
+                    {INTERVIEW_TYPES.find(option => option.value === interview.type)?.label}
+                  </span>
+                </p>
+                {scheduledAt && (
+                  <p className="text-sm text-slate-600 mt-1">
+                    {formatInterviewTime(scheduledAt, interview.timeZone)}
+                    {localTime && <span className="text-slate-400"> · {localTime} your time</span>}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_STYLES[interview.outcome]}`}>
+                  {INTERVIEW_OUTCOMES.find(option => option.value === interview.outcome)?.label}
+                </span>
+                <button type="button" onClick={() => startEditing(interview)} className="text-xs text-blue-600 hover:text-blue-800">
+                  Edit
+                </button>
+                <button type="button" onClick={() => handleDelete(interview)} className="text-xs text-red-600 hover:text-red-800">
+                  Delete
+                </button>
+              </div>
+            </div>
+            {interviewers.length > 0 && (
+              <p className="text-xs text-slate-500 mt-2">With {interviewers.join(', ')}</p>
+            )}
+            {interview.location && (
+              <p className="text-xs text-slate-500 mt-1 truncate">
+                {isLink(interview.location) ? (
+                  <a href={interview.location} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    {interview.location}
+                  </a>
+                ) : (
+                  <>📍 {interview.location}</>
+                )}
+              </p>
+            )}
+            {interview.prepNotes && (
+              <p className="text-xs text-slate-600 mt-2 whitespace-pre-line line-clamp-3">{interview.prepNotes}</p>
+            )}
+            {(interview.selfAssessment || interview.reflection) && (
+              <p className="text-xs text-slate-600 mt-2">
+                {interview.selfAssessment && (
+                  <span className="font-medium">Felt {SELF_ASSESSMENT_LABELS[interview.selfAssessment - 1].toLowerCase()}. </span>
+                )}
+                {interview.reflection}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {editingId === 'new' ? renderEditor() : (
+        <button
+          type="button"
+          onClick={startAdding}
+          disabled={editingId !== null}
+          className="btn-secondary px-4 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + Add interview
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { useAuth } from './AuthProvider';
+import { Application, DescriptionSnapshot } from '../lib/domain';
+import { descriptionSnapshotRepository } from '../lib/repositories';
+import { MAX_SNAPSHOT_LENGTH, formatSnapshotDate, getSnapshotText, prepareDescription } from '../lib/jobDescriptions';
+import { sanitizeHtml } from '../lib/sanitizeHtml';
+import { diffLines, summarizeDiff } from '../lib/textDiff';
+import TextDiff from './TextDiff';
+
+interface JobDescriptionPanelProps {
+  application: Application;
+  snapshots: DescriptionSnapshot[]; // This application's snapshots, newest first
+}
+
+// Formatting for sanitized HTML, which has no classes of its own
+const RENDERED_HTML_CLASSES =
+  '[&_p]:mb-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ul]:mb-2 [&_ol]:list-decimal [&_ol]:pl-5 [&_ol]:mb-2 ' +
+  '[&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold [&_h4]:font-semibold [&_h1]:mt-3 [&_h2]:mt-3 [&_h3]:mt-3 ' +
+  '[&_a]:text-blue-700 [&_a]:underline [&_td]:pr-3 [&_th]:pr-3 [&_th]:text-left';
+
+// Read-only job description for one application with its earlier versions.
+// Saving an edit adds a snapshot instead of overwriting, so every version can
+// be viewed and compared. Sits inside the application's form, so it saves
+// through buttons, not a nested form.
+export default function JobDescriptionPanel({ application, snapshots }: JobDescriptionPanelProps) {
+  const { user } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // The version shown, by snapshot id; the latest when unset or gone
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<{ fromId: string; toId: string } | null>(null);
+
+  const [latest] = snapshots;
+  const viewing = snapshots.find(snapshot => snapshot.id === viewingId) || latest;
+  const versionNumber = (snapshot: DescriptionSnapshot) => snapshots.length - snapshots.indexOf(snapshot);
+  // Descriptions saved before snapshots existed live only on the application
+  const legacyText = !latest ? application.description?.trim() || '' : '';
+
+  const prepared = prepareDescription(draft);
+  const isUnchanged = latest
+    ? prepared?.snapshot.content === latest.content
+    : prepared?.text === legacyText;
+  const canSave = Boolean(prepared) && !isUnchanged && !isSaving;
+
+  const startEditing = () => {
+    setDraft(latest?.content || legacyText);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!user || !canSave) return;
+
+    setIsSaving(true);
+    try {
+      await descriptionSnapshotRepository.create(user.uid, application.id, prepared.snapshot, prepared.text);
+      setIsEditing(false);
+      setViewingId(null);
+    } catch (error: any) {
+      console.error('Error saving job description:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your job description will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to save job description.');
+      } else {
+        alert('Failed to save job description. Please check your connection and try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startComparing = (snapshot: DescriptionSnapshot) => {
+    const index = snapshots.indexOf(snapshot);
+    const previous = snapshots[index + 1];
+    setCompare(previous ? { fromId: previous.id, toId: snapshot.id } : { fromId: snapshot.id, toId: latest.id });
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      setIsEditing(false);
+    }
+  };
+
+  const renderContent = (snapshot: DescriptionSnapshot) => (snapshot.format === 'html' ? (
+    <div
+      className={`text-sm text-slate-700 ${RENDERED_HTML_CLASSES}`}
+      dangerouslySetInnerHTML={{ __html: sanitizeHtml(snapshot.content) }}
+    />
+  ) : (
+    <p className="text-sm text-slate-700 whitespace-pre-line">{snapshot.content}</p>
+  ));
+
+  const renderDiff = () => {
+    const from = snapshots.find(snapshot => snapshot.id === compare.fromId);
+    const to = snapshots.find(snapshot => snapshot.id === compare.toId);
+    if (!from || !to) return null;
+    const lines = diffLines(getSnapshotText(from), getSnapshotText(to));
+    const { added, removed } = summarizeDiff(lines);
+    const versionSelect = (value: string, onChange: (id: string) => void, label: string) => (
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="input-modern px-2 py-1 text-xs focus-ring"
+        aria-label={label}
+      >
+        {snapshots.map(snapshot => (
+          <option key={snapshot.id} value={snapshot.id}>
+            Version {versionNumber(snapshot)} · {formatSnapshotDate(snapshot)}
+          </option>
+        ))}
+      </select>
+    );
+
+    return (
+      <div className="p-4 rounded-lg border border-slate-200 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          {versionSelect(compare.fromId, fromId => setCompare({ ...compare, fromId }), 'Compare from version')}
+          <span>to</span>
+          {versionSelect(compare.toId, toId => setCompare({ ...compare, toId }), 'Compare to version')}
+          <span className="ml-auto">
+            <span className="text-emerald-700 font-medium">+{added}</span>{' '}
+            <span className="text-red-700 font-medium">−{removed}</span> lines
+          </span>
+          <button type="button" onClick={() => setCompare(null)} className="text-slate-500 hover:text-slate-700 font-medium">
+            Close
+          </button>
+        </div>
+        {added === 0 && removed === 0 ? (
+          <p className="text-sm text-slate-500">No text changes between these versions.</p>
+        ) : (
+          <TextDiff lines={lines} />
+        )}
+      </div>
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <div className="p-4 rounded-lg border border-blue-200 bg-blue-50/40 space-y-3" onKeyDown={handleEditorKeyDown}>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={10}
+          maxLength={MAX_SNAPSHOT_LENGTH}
+          className="input-modern w-full px-3 py-2 text-sm focus-ring resize-y"
+          placeholder="Paste the job description as text or HTML"
+          aria-label="Job description"
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-slate-500">
+            Saving keeps the current version in the history. HTML is cleaned of scripts, styles and links that aren&apos;t http(s).
+          </p>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setIsEditing(false)} className="btn-secondary px-4 py-2 text-sm font-medium">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!canSave}
+              className="btn-primary px-4 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save as new version'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Current Version */}
+      {viewing ? (
+        <div className="p-4 rounded-lg border border-slate-200">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <p className="text-xs text-slate-500">
+              Version {versionNumber(viewing)} of {snapshots.length} · Saved {formatSnapshotDate(viewing)}
+              {viewing !== latest && ' · Older version'}
+            </p>
+            {viewing !== latest && (
+              <button type="button" onClick={() => setViewingId(null)} className="text-xs font-medium text-blue-700 hover:text-blue-800">
+                Back to latest
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">{renderContent(viewing)}</div>
+        </div>
+      ) : legacyText ? (
+        <div className="p-4 rounded-lg border border-slate-200">
+          <p className="text-sm text-slate-700 whitespace-pre-line max-h-96 overflow-y-auto">{legacyText}</p>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">No job description saved yet.</p>
+      )}
+
+      <button type="button" onClick={startEditing} className="btn-secondary px-4 py-2 text-sm font-medium">
+        {latest || legacyText ? 'Update description' : 'Add description'}
+      </button>
+
+      {/* Version History */}
+      {snapshots.length > 1 && (
+        <div>
+          <p className="text-xs font-semibold text-slate-700 mb-2">History</p>
+          <ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+            {snapshots.map((snapshot) => (
+              <li key={snapshot.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span className={snapshot === viewing ? 'font-semibold text-slate-900' : 'text-slate-700'}>
+                  Version {versionNumber(snapshot)}
+                  <span className="ml-2 text-xs font-normal text-slate-500">{formatSnapshotDate(snapshot)}</span>
+                </span>
+                <span className="flex gap-3 text-xs font-medium">
+                  <button type="button" onClick={() => setViewingId(snapshot.id)} className="text-blue-700 hover:text-blue-800">
+                    View
+                  </button>
+                  <button type="button" onClick={() => startComparing(snapshot)} className="text-blue-700 hover:text-blue-800">
+                    {snapshots.indexOf(snapshot) === snapshots.length - 1 ? 'Compare with latest' : 'Compare with previous'}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {compare && renderDiff()}
+    </div>
+  );
+}
@@ -1,23 +1,35 @@
-import React from 'react';
-
-interface Application {
-  id: string;
-  jobTitle: string;
-  company: string;
-  location?: string;
-  jobLink?: string;
-  status: 'saved' | 'applied' | 'phone-screen' | 'interview' | 'offer' | 'rejected';
-  notes?: string;
-  resumeId?: string;
-  createdAt: any;
-  updatedAt: any;
-}
+import React, { Dispatch, SetStateAction, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Application, ApplicationStatus, INTERVIEW_TYPES, Interview } from '../lib/domain';
+import { formatDate } from '../lib/dates';
+import { applicationRepository } from '../lib/repositories';
+import { usePipeline } from './PipelineProvider';
+import { useFieldSettings } from './FieldSettingsProvider';
+import { formatCustomFieldValue, isEmptyFieldValue } from '../lib/customFields';
+import {
+  DEADLINE_BADGE_STYLES,
+  formatDeadline,
+  formatDeadlineCountdown,
+  getDeadlineUrgency,
+  getOpenDeadlineDays,
+  isClosingThisWeek
+} from '../lib/deadlines';
+import { formatInterviewTime } from '../lib/interviews';
+import { getBoardOrder, sortApplications } from '../lib/applicationFilters';
+import HighlightText from './HighlightText';
+import Toast from './Toast';
 
 interface KanbanBoardProps {
   applications: Application[];
   onApplicationEdit: (application: Application) => void;
   onApplicationDelete: (application: Application) => void;
   getResumeName: (resumeId: string) => string;
+  onPreviewResume?: (application: Application) => void; // Opens the resume the application was sent with
+  nextInterviews?: Map<string, Interview>; // Soonest upcoming interview per application id
+  sortBy: string; // Column order; cards can only be reordered by hand in 'manual'
+  highlightQuery?: string; // Company search text to highlight on cards
+  // Selection is shared with the list so bulk actions work in either view
+  selectedIds: Set<string>;
+  onSelectedIdsChange: Dispatch<SetStateAction<Set<string>>>;
 }
 
 interface KanbanColumn {
@@ -29,148 +41,565 @@ interface KanbanColumn {
   dotColor: string;
 }
 
-export default function KanbanBoard({ 
-  applications, 
-  onApplicationEdit, 
-  onApplicationDelete, 
-  getResumeName 
+// Where a card is (or will be) placed: a column and an index within it
+interface BoardPosition {
+  status: ApplicationStatus;
+  index: number;
+}
+
+interface BoardToast {
+  message: string;
+  tone: 'info' | 'error';
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+// Order value that places a card between two neighbours in a column
+const getOrderBetween = (before: Application | undefined, after: Application | undefined, fallback: number) => {
+  if (before && after) return (getBoardOrder(before) + getBoardOrder(after)) / 2;
+  if (before) return getBoardOrder(before) + 1;
+  if (after) return getBoardOrder(after) - 1;
+  return fallback;
+};
+
+export default function KanbanBoard({
+  applications,
+  onApplicationEdit,
+  onApplicationDelete,
+  getResumeName,
+  onPreviewResume,
+  nextInterviews,
+  sortBy,
+  highlightQuery = '',
+  selectedIds,
+  onSelectedIdsChange
 }: KanbanBoardProps) {
-  
-  const columns: KanbanColumn[] = [
-    { id: 'saved', title: 'Saved', status: 'saved', bgColor: 'bg-slate-50', textColor: 'text-slate-700', dotColor: 'bg-slate-400' },
-    { id: 'applied', title: 'Applied', status: 'applied', bgColor: 'bg-blue-50', textColor: 'text-blue-700', dotColor: 'bg-blue-500' },
-    { id: 'phone-screen', title: 'Phone Screen', status: 'phone-screen', bgColor: 'bg-purple-50', textColor: 'text-purple-700', dotColor: 'bg-purple-500' },
-    { id: 'interview', title: 'Interview', status: 'interview', bgColor: 'bg-amber-50', textColor: 'text-amber-700', dotColor: 'bg-amber-500' },
-    { id: 'offer', title: 'Offer', status: 'offer', bgColor: 'bg-emerald-50', textColor: 'text-emerald-700', dotColor: 'bg-emerald-500' },
-    { id: 'rejected', title: 'Rejected', status: 'rejected', bgColor: 'bg-red-50', textColor: 'text-red-700', dotColor: 'bg-red-500' }
-  ];
-
-  const getApplicationsForStatus = (status: Application['status']) => {
-    return applications.filter(app => app.status === status);
+  const manualOrder = sortBy === 'manual';
+  const isSelecting = selectedIds.size > 0;
+
+  // Moves that are shown immediately but not yet confirmed by Firestore
+  const [pendingMoves, setPendingMoves] = useState<Record<string, Pick<Application, 'status' | 'boardOrder'>>>({});
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<BoardPosition | null>(null);
+  // Card picked up with the keyboard and where it would be dropped
+  const [lifted, setLifted] = useState<(BoardPosition & { id: string }) | null>(null);
+  const [toast, setToast] = useState<BoardToast | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const boardRef = useRef<HTMLDivElement>(null);
+  const { stages, statusOptions, getStatusOption } = usePipeline();
+  const { customFields, getTagColor } = useFieldSettings();
+  const cardFields = customFields.filter(field => field.showOnCard);
+
+  // Cards whose stage was removed from the pipeline get a column of their own
+  // at the end instead of disappearing from the board
+  const orphanStatuses = Array.from(new Set(applications.map(app => app.status)))
+    .filter(status => !statusOptions.some(option => option.value === status));
+  const stageOrder = useMemo(() => statusOptions.map(option => option.value), [statusOptions]);
+
+  const columns: KanbanColumn[] = [...statusOptions, ...orphanStatuses.map(getStatusOption)].map((option) => ({
+    id: option.value,
+    title: option.label,
+    status: option.value,
+    bgColor: option.bgColor,
+    textColor: option.textColor,
+    dotColor: option.dotColor
+  }));
+
+  const boardApplications = useMemo(
+    () => applications.map(app => pendingMoves[app.id] ? { ...app, ...pendingMoves[app.id] } : app),
+    [applications, pendingMoves]
+  );
+
+  const getApplicationsForStatus = useCallback((status: Application['status']) => {
+    return sortApplications(boardApplications.filter(app => app.status === status), sortBy, stageOrder);
+  }, [boardApplications, sortBy, stageOrder]);
+
+  // Column contents as rendered, with a keyboard-lifted card shown at its target
+  const getDisplayedApplications = (status: Application['status']) => {
+    const columnApplications = getApplicationsForStatus(status);
+    if (!lifted) return columnApplications;
+
+    const withoutLifted = columnApplications.filter(app => app.id !== lifted.id);
+    if (lifted.status !== status) return withoutLifted;
+
+    const liftedApp = boardApplications.find(app => app.id === lifted.id);
+    if (!liftedApp) return withoutLifted;
+    withoutLifted.splice(lifted.index, 0, liftedApp);
+    return withoutLifted;
+  };
+
+  // Keep focus on a keyboard-lifted card as it moves between columns
+  useEffect(() => {
+    if (!lifted) return;
+    const card = boardRef.current?.querySelector<HTMLElement>(`[data-card-id="${lifted.id}"]`);
+    card?.focus();
+  }, [lifted]);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const saveMove = async (app: Application, status: ApplicationStatus, boardOrder: number) => {
+    setPendingMoves(prev => ({ ...prev, [app.id]: { status, boardOrder } }));
+    try {
+      await applicationRepository.updateWithHistory(app, { status, boardOrder }, 'board');
+      return true;
+    } catch (error: any) {
+      console.error('Error moving application:', error);
+      return false;
+    } finally {
+      // The snapshot listener now reflects the write (or the rollback)
+      setPendingMoves(prev => {
+        const { [app.id]: _settled, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const moveApplication = async (app: Application, target: BoardPosition) => {
+    const targetColumn = getApplicationsForStatus(target.status).filter(other => other.id !== app.id);
+    const before = targetColumn[target.index - 1];
+    const after = targetColumn[target.index];
+
+    // Dropped back where it started
+    const sourceColumn = getApplicationsForStatus(app.status);
+    const sourceIndex = sourceColumn.findIndex(other => other.id === app.id);
+    if (target.status === app.status && target.index === sourceIndex) return;
+
+    // Any other sort decides the position itself, so only the column can change
+    if (!manualOrder && target.status === app.status) {
+      setAnnouncement('Sort by Board Order to reorder cards within a column.');
+      return;
+    }
+
+    const previous = { status: app.status, boardOrder: getBoardOrder(app) };
+    const boardOrder = manualOrder ? getOrderBetween(before, after, previous.boardOrder) : previous.boardOrder;
+    const statusLabel = getStatusOption(target.status).label;
+
+    setAnnouncement(`Moved ${app.jobTitle} at ${app.company} to ${statusLabel}, position ${target.index + 1}.`);
+
+    const saved = await saveMove(app, target.status, boardOrder);
+    if (saved) {
+      const movedApp = { ...app, status: target.status, boardOrder };
+      setToast({
+        message: target.status === previous.status
+          ? `Reordered ${app.company} in ${statusLabel}`
+          : `Moved ${app.company} to ${statusLabel}`,
+        tone: 'info',
+        actionLabel: 'Undo',
+        onAction: () => {
+          saveMove(movedApp, previous.status, previous.boardOrder).then((undone) => {
+            if (!undone) {
+              setToast({ message: `Couldn't undo the move of ${app.company}. Please try again.`, tone: 'error' });
+            }
+          });
+        }
+      });
+    } else {
+      setToast({
+        message: `Couldn't move ${app.company} to ${statusLabel}. The card was put back.`,
+        tone: 'error',
+        actionLabel: 'Retry',
+        onAction: () => moveApplication(app, target)
+      });
+    }
+  };
+
+  // ---------- Selection ----------
+
+  const toggleSelected = (id: string) => {
+    onSelectedIdsChange(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Select every card in a column, or clear them if they're all selected already
+  const toggleColumnSelected = (columnApplications: Application[]) => {
+    const allSelected = columnApplications.every(app => selectedIds.has(app.id));
+    onSelectedIdsChange(prev => {
+      const next = new Set(prev);
+      columnApplications.forEach(app => allSelected ? next.delete(app.id) : next.add(app.id));
+      return next;
+    });
+  };
+
+  // ---------- Mouse drag and drop ----------
+
+  const handleDragStart = (e: React.DragEvent, app: Application) => {
+    e.dataTransfer.setData('text/plain', app.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingId(app.id);
+    setLifted(null);
   };
 
-  const formatDate = (timestamp: any) => {
-    if (!timestamp) return '';
-    const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  // Drop index from the pointer position relative to the other cards' midpoints
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    const cards = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[data-card-id]'))
+      .filter(card => card.dataset.cardId !== draggingId);
+    const index = cards.findIndex(card => {
+      const rect = card.getBoundingClientRect();
+      return e.clientY < rect.top + rect.height / 2;
+    });
+    const position = { status, index: index === -1 ? cards.length : index };
+    // Without manual ordering the drop lands wherever the sort puts it
+    if (!manualOrder) position.index = -1;
+
+    if (dropTarget?.status !== position.status || dropTarget?.index !== position.index) {
+      setDropTarget(position);
+    }
   };
 
+  const handleDrop = (e: React.DragEvent, status: ApplicationStatus) => {
+    e.preventDefault();
+    const app = boardApplications.find(other => other.id === draggingId);
+    const target = dropTarget?.status === status ? dropTarget : { status, index: getApplicationsForStatus(status).length };
+    setDraggingId(null);
+    setDropTarget(null);
+    if (app) moveApplication(app, target);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  // ---------- Keyboard: space to pick up / drop, arrows to move, escape to cancel ----------
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, app: Application) => {
+    // Let the edit/delete buttons, resume badge and job link handle their own keys
+    if (e.target !== e.currentTarget) return;
+
+    if (!lifted || lifted.id !== app.id) {
+      if (e.key === ' ') {
+        e.preventDefault();
+        const index = getApplicationsForStatus(app.status).findIndex(other => other.id === app.id);
+        setLifted({ id: app.id, status: app.status, index });
+        setAnnouncement(`Picked up ${app.jobTitle} at ${app.company}. Use the arrow keys to move it, space to drop, escape to cancel.`);
+      }
+      return;
+    }
+
+    const columnIndex = columns.findIndex(column => column.status === lifted.status);
+    // Number of other cards in a column - the lifted card can go before or after any of them
+    const otherCount = (status: ApplicationStatus) =>
+      getApplicationsForStatus(status).filter(other => other.id !== app.id).length;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        e.preventDefault();
+        const nextColumn = columns[columnIndex + (e.key === 'ArrowLeft' ? -1 : 1)];
+        if (!nextColumn) return;
+        const index = Math.min(lifted.index, otherCount(nextColumn.status));
+        setLifted({ id: app.id, status: nextColumn.status, index });
+        setAnnouncement(`${nextColumn.title}, position ${index + 1}.`);
+        break;
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        e.preventDefault();
+        if (!manualOrder) {
+          setAnnouncement('Sort by Board Order to reorder cards within a column.');
+          return;
+        }
+        const index = Math.max(0, Math.min(otherCount(lifted.status), lifted.index + (e.key === 'ArrowUp' ? -1 : 1)));
+        setLifted({ ...lifted, index });
+        setAnnouncement(`Position ${index + 1}.`);
+        break;
+      }
+      case ' ':
+      case 'Enter': {
+        e.preventDefault();
+        const target = { status: lifted.status, index: lifted.index };
+        setLifted(null);
+        moveApplication(app, target);
+        break;
+      }
+      case 'Escape': {
+        e.preventDefault();
+        setLifted(null);
+        setAnnouncement(`Move cancelled. ${app.jobTitle} is back in ${getStatusOption(app.status).label}.`);
+        break;
+      }
+    }
+  };
+
+  const dropIndicator = <div className="h-1 rounded-full bg-blue-500" aria-hidden="true"></div>;
+
   return (
-    <div className="flex gap-6 overflow-x-auto pb-6">
-      {columns.map((column) => {
-        const columnApplications = getApplicationsForStatus(column.status);
-        
-        return (
-          <div key={column.id} className="flex-shrink-0 w-80">
-            {/* Column Header */}
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center space-x-2">
-                <div className={`w-3 h-3 rounded-full ${column.dotColor}`}></div>
-                <h3 className="font-semibold text-slate-900">{column.title}</h3>
-                <span className="bg-slate-100 text-slate-600 text-xs px-2 py-1 rounded-full">
-                  {columnApplications.length}
-                </span>
-              </div>
-            </div>
+    <>
+      {/* Screen reader announcements for moves */}
+      <div className="sr-only" aria-live="assertive">{announcement}</div>
 
-            {/* Column Content */}
-            <div className={`${column.bgColor} rounded-lg p-3 min-h-[500px] space-y-3`}>
-              {columnApplications.length === 0 ? (
-                <div className="text-center py-8 text-slate-500">
-                  <div className="text-3xl mb-2">💼</div>
-                  <p className="text-sm">No applications</p>
+      <div ref={boardRef} className="flex gap-6 overflow-x-auto pb-6">
+        {columns.map((column) => {
+          const columnApplications = getDisplayedApplications(column.status);
+          const isDropColumn = dropTarget?.status === column.status;
+          // Cards excluding the one being dragged, matching the drop index
+          const dropCandidates = columnApplications.filter(app => app.id !== draggingId);
+          const closingSoonCount = columnApplications.filter(app => isClosingThisWeek(app, stages)).length;
+
+          return (
+            <div key={column.id} className="flex-shrink-0 w-80">
+              {/* Column Header */}
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-2">
+                  <div className={`w-3 h-3 rounded-full ${column.dotColor}`}></div>
+                  <h3 className="font-semibold text-slate-900">{column.title}</h3>
+                  <span className="bg-slate-100 text-slate-600 text-xs px-2 py-1 rounded-full">
+                    {columnApplications.length}
+                  </span>
+                  {closingSoonCount > 0 && (
+                    <span className="bg-amber-50 text-amber-700 border border-amber-200 text-xs px-2 py-0.5 rounded-full" title="Deadlines in the next 7 days">
+                      {closingSoonCount} closing soon
+                    </span>
+                  )}
                 </div>
-              ) : (
-                columnApplications.map((app) => (
-                  <div
-                    key={app.id}
-                    className="bg-white rounded-lg p-4 shadow-sm border border-slate-200 hover:shadow-md transition-shadow cursor-pointer group"
+                {isSelecting && columnApplications.length > 0 && (
+                  <button
+                    onClick={() => toggleColumnSelected(columnApplications)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
                   >
-                    {/* Application Header */}
-                    <div className="flex justify-between items-start mb-3">
-                      <div className="flex-1 pr-2">
-                        <h4 className="font-semibold text-slate-900 text-sm leading-tight">
-                          {app.jobTitle}
-                        </h4>
-                        <p className="text-blue-600 font-medium text-sm mt-1">
-                          {app.company}
-                        </p>
-                        {app.location && (
-                          <p className="text-slate-500 text-xs mt-1 flex items-center">
-                            <span className="mr-1">📍</span>
-                            {app.location}
-                          </p>
-                        )}
-                      </div>
-                      
-                      {/* Action Menu */}
-                      <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                        <div className="flex space-x-1">
-                          <button
-                            onClick={() => onApplicationEdit(app)}
-                            className="text-slate-400 hover:text-blue-600 p-1"
-                            title="Edit application"
-                          >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                            </svg>
-                          </button>
-                          <button
-                            onClick={() => onApplicationDelete(app)}
-                            className="text-slate-400 hover:text-red-600 p-1"
-                            title="Delete application"
-                          >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
-                          </button>
-                        </div>
-                      </div>
+                    {columnApplications.every(app => selectedIds.has(app.id)) ? 'Deselect all' : 'Select all'}
+                  </button>
+                )}
+              </div>
+
+              {/* Column Content */}
+              <div
+                className={`${column.bgColor} rounded-lg p-3 min-h-[500px] space-y-3 transition-shadow ${
+                  isDropColumn ? 'ring-2 ring-blue-400' : ''
+                }`}
+                onDragOver={(e) => handleDragOver(e, column.status)}
+                onDrop={(e) => handleDrop(e, column.status)}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+                }}
+              >
+                {columnApplications.length === 0 ? (
+                  <>
+                    {isDropColumn && dropIndicator}
+                    <div className="text-center py-8 text-slate-500">
+                      <div className="text-3xl mb-2">💼</div>
+                      <p className="text-sm">No applications</p>
                     </div>
+                  </>
+                ) : (
+                  columnApplications.map((app) => {
+                    const isLifted = lifted?.id === app.id;
+                    const isSelected = selectedIds.has(app.id);
+                    const showIndicatorBefore = isDropColumn && app.id !== draggingId
+                      && dropCandidates.indexOf(app) === dropTarget.index;
 
-                    {/* Resume Badge */}
-                    {app.resumeId && getResumeName(app.resumeId) && (
-                      <div className="mb-3">
-                        <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">
-                          <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 24 24">
-                            <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
-                          </svg>
-                          {getResumeName(app.resumeId)}
-                        </span>
-                      </div>
-                    )}
-
-                    {/* Notes Preview */}
-                    {app.notes && (
-                      <div className="mb-3">
-                        <p className="text-slate-600 text-xs leading-relaxed line-clamp-2">
-                          {app.notes}
-                        </p>
-                      </div>
-                    )}
-
-                    {/* Footer */}
-                    <div className="flex justify-between items-center text-xs text-slate-500 mt-3">
-                      <span>Applied {formatDate(app.createdAt)}</span>
-                      {app.jobLink && (
-                        <a
-                          href={app.jobLink}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-500 hover:text-blue-700"
-                          onClick={(e) => e.stopPropagation()}
+                    return (
+                      <React.Fragment key={app.id}>
+                        {showIndicatorBefore && dropIndicator}
+                        <div
+                          data-card-id={app.id}
+                          draggable
+                          tabIndex={0}
+                          aria-roledescription="Draggable application"
+                          aria-label={`${app.jobTitle} at ${app.company}, ${getStatusOption(app.status).label}. ${isLifted ? 'Picked up.' : 'Press space to move.'}`}
+                          onDragStart={(e) => handleDragStart(e, app)}
+                          onDragEnd={handleDragEnd}
+                          onKeyDown={(e) => handleCardKeyDown(e, app)}
+                          className={`bg-white rounded-lg p-4 shadow-sm border border-slate-200 hover:shadow-md transition-shadow cursor-grab active:cursor-grabbing group focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                            draggingId === app.id ? 'opacity-50' : ''
+                          } ${isLifted ? 'ring-2 ring-blue-500 shadow-lg rotate-1' : ''} ${isSelected ? 'ring-2 ring-blue-400 bg-blue-50/40' : ''}`}
                         >
-                          View Job
-                        </a>
-                      )}
-                    </div>
-                  </div>
-                ))
-              )}
+                          {/* Application Header */}
+                          <div className="flex justify-between items-start mb-3">
+                            <input
+                              type="checkbox"
+                              checked={isSelected}
+                              onChange={() => toggleSelected(app.id)}
+                              aria-label={`Select ${app.jobTitle} at ${app.company}`}
+                              className={`w-4 h-4 mt-0.5 mr-2 accent-blue-600 transition-opacity ${
+                                isSelecting ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+                              }`}
+                            />
+                            <div className="flex-1 pr-2">
+                              <h4 className="font-semibold text-slate-900 text-sm leading-tight">
+                                {app.jobTitle}
+                              </h4>
+                              <p className="text-blue-600 font-medium text-sm mt-1">
+                                <HighlightText text={app.company} query={highlightQuery} />
+                              </p>
+                              {app.location && (
+                                <p className="text-slate-500 text-xs mt-1 flex items-center">
+                                  <span className="mr-1">📍</span>
+                                  {app.location}
+                                </p>
+                              )}
+                            </div>
+
+                            {/* Action Menu */}
+                            <div className="opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                              <div className="flex space-x-1">
+                                <button
+                                  onClick={() => onApplicationEdit(app)}
+                                  className="text-slate-400 hover:text-blue-600 p-1"
+                                  title="Edit application"
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                  </svg>
+                                </button>
+                                <button
+                                  onClick={() => onApplicationDelete(app)}
+                                  className="text-slate-400 hover:text-red-600 p-1"
+                                  title="Delete application"
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                  </svg>
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+
+                          {/* Deadline Countdown - only until the application is submitted */}
+                          {(() => {
+                            const days = getOpenDeadlineDays(app, stages);
+                            return days !== null && (
+                              <div className="mb-3">
+                                <span
+                                  className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium border ${DEADLINE_BADGE_STYLES[getDeadlineUrgency(days)]}`}
+                                  title={`Deadline ${formatDeadline(app.deadline)}`}
+                                >
+                                  <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                  </svg>
+                                  {formatDeadlineCountdown(days)}
+                                </span>
+                              </div>
+                            );
+                          })()}
+
+                          {/* Next Interview */}
+                          {(() => {
+                            const interview = nextInterviews?.get(app.id);
+                            return interview && (
+                              <div className="mb-3">
+                                <span
+                                  className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-purple-50 text-purple-700 border border-purple-200"
+                                  title={interview.round}
+                                >
+                                  <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                  </svg>
+                                  {INTERVIEW_TYPES.find(option => option.value === interview.type)?.label} · {formatInterviewTime(interview.scheduledAt.toDate(), interview.timeZone)}
+                                </span>
+                              </div>
+                            );
+                          })()}
+
+                          {/* Resume Badge */}
+                          {app.resumeId && getResumeName(app.resumeId) && (
+                            <div className="mb-3">
+                              {onPreviewResume ? (
+                                <button
+                                  type="button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onPreviewResume(app);
+                                  }}
+                                  className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 transition-colors"
+                                  title="Preview resume"
+                                >
+                                  <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 24 24">
+                                    <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
+                                  </svg>
+                                  {getResumeName(app.resumeId)}
+                                </button>
+                              ) : (
+                                <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                                  <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 24 24">
+                                    <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
+                                  </svg>
+                                  {getResumeName(app.resumeId)}
+                                </span>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Tags */}
+                          {(app.archived || app.tags?.length > 0) && (
+                            <div className="flex flex-wrap gap-1 mb-3">
+                              {app.archived && (
+                                <span className="px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-500">Archived</span>
+                              )}
+                              {app.tags?.map((tag) => {
+                                const color = getTagColor(tag);
+                                return (
+                                  <span key={tag} className={`px-2 py-0.5 rounded-full text-xs font-medium ${color.bgColor} ${color.textColor}`}>{tag}</span>
+                                );
+                              })}
+                            </div>
+                          )}
+
+                          {/* Custom Field Badges */}
+                          {cardFields.some(field => !isEmptyFieldValue(app.customFields?.[field.id])) && (
+                            <div className="flex flex-wrap gap-1 mb-3">
+                              {cardFields.filter(field => !isEmptyFieldValue(app.customFields?.[field.id])).map(field => (
+                                <span key={field.id} className="px-2 py-0.5 rounded text-xs border border-slate-200 text-slate-600">
+                                  <span className="text-slate-400">{field.name}:</span> {formatCustomFieldValue(field, app.customFields[field.id])}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+
+                          {/* Notes Preview */}
+                          {app.notes && (
+                            <div className="mb-3">
+                              <p className="text-slate-600 text-xs leading-relaxed line-clamp-2">
+                                {app.notes}
+                              </p>
+                            </div>
+                          )}
+
+                          {/* Footer */}
+                          <div className="flex justify-between items-center text-xs text-slate-500 mt-3">
+                            <span>Applied {formatDate(app.createdAt, { month: 'short', day: 'numeric' })}</span>
+                            {app.jobLink && (
+                              <a
+                                href={app.jobLink}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-500 hover:text-blue-700"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                View Job
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                      </React.Fragment>
+                    );
+                  })
+                )}
+                {isDropColumn && columnApplications.length > 0 && dropTarget.index >= dropCandidates.length && dropIndicator}
+              </div>
             </div>
-          </div>
-        );
-      })}
-    </div>
+          );
+        })}
+      </div>
+
+      {/* Move / Undo Toast */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          tone={toast.tone}
+          actionLabel={toast.actionLabel}
+          onAction={toast.onAction}
+          onDismiss={dismissToast}
+        />
+      )}
+    </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from './AuthProvider';
+import { Application, OFFER_DECISIONS, OFFER_FACTORS, Offer, OfferDecision, OfferSettings, WORK_MODES } from '../lib/domain';
+import { offerRepository, offerSettingsRepository } from '../lib/repositories';
+import {
+  MAX_FACTOR_WEIGHT,
+  formatMoney,
+  getAnnualBase,
+  getEquityForYear,
+  getFactorScore,
+  getFactorWeights,
+  getFirstYearCompensation,
+  getFourYearCompensation,
+  isActiveOffer
+} from '../lib/offers';
+import { formatDeadline, formatDeadlineCountdown, getDaysUntilDeadline } from '../lib/deadlines';
+
+interface OfferComparisonProps {
+  offers: Offer[];
+  applications: Application[];
+  onApplicationOpen: (application: Application) => void;
+}
+
+interface ComparisonColumn {
+  offer: Offer;
+  application: Application;
+  firstYear: number;
+  fourYear: number;
+  score: number | null;
+}
+
+const SCORE_OPTIONS = [1, 2, 3, 4, 5];
+
+// Side-by-side view of every offer still on the table
+export default function OfferComparison({ offers, applications, onApplicationOpen }: OfferComparisonProps) {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<OfferSettings | null>(null);
+  const [weights, setWeights] = useState<Record<string, number>>(getFactorWeights(null));
+  const [isSavingWeights, setIsSavingWeights] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    return offerSettingsRepository.subscribe(user.uid, setSettings);
+  }, [user]);
+
+  // Reset the sliders whenever the saved weights change
+  useEffect(() => {
+    setWeights(getFactorWeights(settings));
+  }, [settings]);
+
+  const savedWeights = getFactorWeights(settings);
+  const weightsChanged = OFFER_FACTORS.some(factor => weights[factor.id] !== savedWeights[factor.id]);
+
+  const columns: ComparisonColumn[] = offers
+    .filter(isActiveOffer)
+    .map(offer => ({ offer, application: applications.find(app => app.id === offer.applicationId) }))
+    .filter(column => column.application)
+    .map(({ offer, application }) => ({
+      offer,
+      application,
+      firstYear: getFirstYearCompensation(offer),
+      fourYear: getFourYearCompensation(offer),
+      score: getFactorScore(offer, weights)
+    }));
+
+  // Money is only ranked when every offer is in the same currency
+  const currencies = Array.from(new Set(columns.map(column => column.offer.currency)));
+  const canRankMoney = currencies.length === 1;
+  const best = (values: (number | null)[]) => {
+    const numbers = values.filter((value): value is number => value !== null);
+    return columns.length > 1 && numbers.length > 0 ? Math.max(...numbers) : null;
+  };
+  const bestFirstYear = canRankMoney ? best(columns.map(column => column.firstYear)) : null;
+  const bestFourYear = canRankMoney ? best(columns.map(column => column.fourYear)) : null;
+  const bestScore = best(columns.map(column => column.score));
+
+  const handleSaveWeights = async () => {
+    if (!user) return;
+
+    setIsSavingWeights(true);
+    try {
+      await offerSettingsRepository.save(user.uid, weights, settings);
+    } catch (error: any) {
+      console.error('Error saving factor weights:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your weights will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to save weights.');
+      } else {
+        alert('Failed to save weights. Please check your connection and try again.');
+      }
+    } finally {
+      setIsSavingWeights(false);
+    }
+  };
+
+  const handleOfferChange = async (offer: Offer, changes: Partial<Offer>) => {
+    try {
+      await offerRepository.update(offer.id, changes);
+    } catch (error: any) {
+      console.error('Error updating offer:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your change will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to update offer.');
+      } else {
+        alert('Failed to update offer. Please check your connection and try again.');
+      }
+    }
+  };
+
+  const handleScoreChange = (offer: Offer, factorId: string, value: string) => {
+    const factorScores = { ...offer.factorScores };
+    if (value) {
+      factorScores[factorId] = Number(value);
+    } else {
+      delete factorScores[factorId];
+    }
+    handleOfferChange(offer, { factorScores });
+  };
+
+  const highlight = (isBest: boolean) => (isBest ? 'bg-emerald-50 text-emerald-800 font-semibold' : 'text-slate-900');
+
+  const renderRow = (label: string, render: (column: ComparisonColumn) => React.ReactNode, isBest?: (column: ComparisonColumn) => boolean) => (
+    <tr className="border-t border-slate-100">
+      <th scope="row" className="px-4 py-3 text-left text-sm font-medium text-slate-600 whitespace-nowrap">{label}</th>
+      {columns.map(column => (
+        <td key={column.offer.id} className={`px-4 py-3 text-sm ${highlight(Boolean(isBest?.(column)))}`}>
+          {render(column)}
+        </td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Comparison Header */}
+      <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+        <h2 className="text-2xl font-bold text-slate-900">Offer Comparison</h2>
+        <p className="text-slate-600 mt-1">
+          Compensation is normalized to yearly amounts: hourly pay assumes 2,080 hours a year, the sign-on bonus counts in
+          year one and equity follows each offer&apos;s vesting schedule. Record offers from an application in an offer stage.
+        </p>
+      </div>
+
+      {columns.length === 0 ? (
+        <div className="bg-white rounded-xl p-12 border border-slate-200 shadow-sm text-center">
+          <h3 className="text-lg font-semibold text-slate-900">No active offers yet</h3>
+          <p className="text-slate-600 mt-1">Open an application in an offer stage and record the offer details to compare them here.</p>
+        </div>
+      ) : (
+        <>
+          {!canRankMoney && (
+            <div className="bg-amber-50 rounded-xl p-4 border border-amber-200 text-sm text-amber-800">
+              These offers are in different currencies ({currencies.join(', ')}), so compensation isn&apos;t ranked.
+            </div>
+          )}
+
+          {/* Comparison Table */}
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th scope="col" className="px-4 py-4 w-48"></th>
+                  {columns.map(({ offer, application }) => (
+                    <th key={offer.id} scope="col" className="px-4 py-4 text-left align-top min-w-[200px]">
+                      <button
+                        type="button"
+                        onClick={() => onApplicationOpen(application)}
+                        className="text-left hover:text-blue-700"
+                      >
+                        <span className="block text-base font-semibold text-slate-900">{application.company}</span>
+                        <span className="block text-sm font-normal text-slate-600">{application.jobTitle}</span>
+                      </button>
+                      <select
+                        value={offer.decision}
+                        onChange={(e) => handleOfferChange(offer, { decision: e.target.value as OfferDecision })}
+                        className="input-modern mt-2 px-2 py-1 text-xs focus-ring"
+                        aria-label={`Decision for ${application.company}`}
+                      >
+                        {OFFER_DECISIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {renderRow('Base salary', ({ offer }) => formatMoney(getAnnualBase(offer), offer.currency))}
+                {renderRow('Target bonus', ({ offer }) => formatMoney(offer.annualBonus || 0, offer.currency))}
+                {renderRow('Sign-on bonus', ({ offer }) => formatMoney(offer.signOnBonus || 0, offer.currency))}
+                {renderRow('Equity, year one', ({ offer }) => formatMoney(getEquityForYear(offer, 1), offer.currency))}
+                {renderRow('First-year total', ({ offer, firstYear }) => formatMoney(firstYear, offer.currency), column => column.firstYear === bestFirstYear)}
+                {renderRow('Four-year total', ({ offer, fourYear }) => formatMoney(fourYear, offer.currency), column => column.fourYear === bestFourYear)}
+                {renderRow('Work mode', ({ offer }) => (
+                  <>
+                    {WORK_MODES.find(mode => mode.value === offer.workMode)?.label}
+                    {offer.location && <span className="block text-xs text-slate-500">{offer.location}</span>}
+                  </>
+                ))}
+                {renderRow('Start date', ({ offer }) => (offer.startDate ? formatDeadline(offer.startDate) : '—'))}
+                {renderRow('Respond by', ({ offer }) => (offer.responseDeadline ? (
+                  <>
+                    {formatDeadline(offer.responseDeadline)}
+                    {offer.decision === 'pending' && (
+                      <span className="block text-xs text-slate-500">{formatDeadlineCountdown(getDaysUntilDeadline(offer.responseDeadline))}</span>
+                    )}
+                  </>
+                ) : '—'))}
+                {renderRow('Benefits', ({ offer }) => (
+                  <span className="block text-xs text-slate-600 whitespace-pre-line max-w-xs">{offer.benefitsNotes || '—'}</span>
+                ))}
+
+                {/* Factor Scores */}
+                {OFFER_FACTORS.map(factor => (
+                  <React.Fragment key={factor.id}>
+                    {renderRow(factor.label, ({ offer, application }) => (
+                      <select
+                        value={offer.factorScores[factor.id] || ''}
+                        onChange={(e) => handleScoreChange(offer, factor.id, e.target.value)}
+                        className="input-modern px-2 py-1 text-sm focus-ring"
+                        aria-label={`${factor.label} for ${application.company}`}
+                      >
+                        <option value="">Not scored</option>
+                        {SCORE_OPTIONS.map(score => (
+                          <option key={score} value={score}>{score} / 5</option>
+                        ))}
+                      </select>
+                    ))}
+                  </React.Fragment>
+                ))}
+                {renderRow('Weighted score', ({ score }) => (score === null ? 'Score some factors' : `${score} / 100`), column => column.score !== null && column.score === bestScore)}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {/* Factor Weights */}
+      <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">What matters to you</h3>
+            <p className="text-sm text-slate-600">Weight each factor from 0 (ignore) to {MAX_FACTOR_WEIGHT}. The weighted score updates as you go.</p>
+          </div>
+          <button
+            type="button"
+            onClick={handleSaveWeights}
+            disabled={!weightsChanged || isSavingWeights}
+            className="btn-primary px-4 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSavingWeights ? 'Saving...' : 'Save weights'}
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {OFFER_FACTORS.map(factor => (
+            <div key={factor.id}>
+              <label htmlFor={`weight-${factor.id}`} className="flex justify-between text-sm font-medium text-slate-700 mb-1">
+                {factor.label}
+                <span className="text-slate-500">{weights[factor.id]}</span>
+              </label>
+              <input
+                type="range"
+                id={`weight-${factor.id}`}
+                min={0}
+                max={MAX_FACTOR_WEIGHT}
+                step={1}
+                value={weights[factor.id]}
+                onChange={(e) => setWeights(prev => ({ ...prev, [factor.id]: Number(e.target.value) }))}
+                className="w-full"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
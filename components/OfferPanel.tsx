@@ -0,0 +1,409 @@
+import React, { useState } from 'react';
+import { useAuth } from './AuthProvider';
+import {
+  Application,
+  OFFER_DECISIONS,
+  Offer,
+  OfferDecision,
+  OfferInput,
+  PAY_PERIODS,
+  PayPeriod,
+  WORK_MODES,
+  WorkMode
+} from '../lib/domain';
+import { offerRepository } from '../lib/repositories';
+import {
+  VESTING_PRESETS,
+  formatMoney,
+  formatVestingSchedule,
+  getFirstYearCompensation,
+  getFourYearCompensation,
+  getVestingTotal,
+  parseVestingSchedule
+} from '../lib/offers';
+import { formatDeadline } from '../lib/deadlines';
+
+interface OfferPanelProps {
+  application: Application;
+  offer: Offer | null;
+}
+
+interface OfferDraft {
+  currency: string;
+  baseSalary: string;
+  payPeriod: PayPeriod;
+  annualBonus: string;
+  signOnBonus: string;
+  equityValue: string;
+  vestingSchedule: string;
+  benefitsNotes: string;
+  startDate: string;
+  workMode: WorkMode;
+  location: string;
+  responseDeadline: string;
+  decision: OfferDecision;
+}
+
+const toDraft = (application: Application, offer: Offer | null): OfferDraft => ({
+  currency: offer?.currency || 'USD',
+  baseSalary: offer ? String(offer.baseSalary) : '',
+  payPeriod: offer?.payPeriod || 'year',
+  annualBonus: offer?.annualBonus ? String(offer.annualBonus) : '',
+  signOnBonus: offer?.signOnBonus ? String(offer.signOnBonus) : '',
+  equityValue: offer?.equityValue ? String(offer.equityValue) : '',
+  vestingSchedule: formatVestingSchedule(offer?.vestingSchedule.length ? offer.vestingSchedule : VESTING_PRESETS[0].schedule),
+  benefitsNotes: offer?.benefitsNotes || '',
+  startDate: offer?.startDate || '',
+  workMode: offer?.workMode || 'onsite',
+  location: offer?.location ?? application.location ?? '',
+  responseDeadline: offer?.responseDeadline || '',
+  decision: offer?.decision || 'pending'
+});
+
+const toAmount = (value: string) => (value.trim() ? Math.max(0, Number(value)) : null);
+
+// The offer for one application, shown in its edit modal once it reaches an
+// offer stage. Like the interviews panel it saves through buttons, not a form.
+export default function OfferPanel({ application, offer }: OfferPanelProps) {
+  const { user } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<OfferDraft>(() => toDraft(application, offer));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const vestingSchedule = parseVestingSchedule(draft.vestingSchedule);
+  const vestingTotal = vestingSchedule ? getVestingTotal(vestingSchedule) : 0;
+  const canSave = draft.baseSalary.trim() !== '' && Number(draft.baseSalary) >= 0
+    && /^[A-Za-z]{3}$/.test(draft.currency.trim()) && vestingSchedule && !isSaving;
+
+  const updateDraft = (changes: Partial<OfferDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const startEditing = () => {
+    setDraft(toDraft(application, offer));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!user || !canSave) return;
+
+    const data: OfferInput = {
+      applicationId: application.id,
+      currency: draft.currency.trim().toUpperCase(),
+      baseSalary: Number(draft.baseSalary),
+      payPeriod: draft.payPeriod,
+      annualBonus: toAmount(draft.annualBonus),
+      signOnBonus: toAmount(draft.signOnBonus),
+      equityValue: toAmount(draft.equityValue),
+      vestingSchedule,
+      benefitsNotes: draft.benefitsNotes,
+      startDate: draft.startDate || null,
+      workMode: draft.workMode,
+      location: draft.location.trim(),
+      responseDeadline: draft.responseDeadline || null,
+      decision: draft.decision,
+      factorScores: offer?.factorScores || {}
+    };
+
+    setIsSaving(true);
+    try {
+      if (offer) {
+        await offerRepository.update(offer.id, data);
+      } else {
+        await offerRepository.create(user.uid, data);
+      }
+      setIsEditing(false);
+    } catch (error: any) {
+      console.error('Error saving offer:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your offer will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to save offer.');
+      } else {
+        alert('Failed to save offer. Please check your connection and try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!offer || !window.confirm('Delete this offer record?')) return;
+
+    try {
+      await offerRepository.remove(offer.id);
+      setIsEditing(false);
+    } catch (error: any) {
+      console.error('Error deleting offer:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. The offer will be deleted when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to delete offer.');
+      } else {
+        alert('Failed to delete offer. Please check your connection and try again.');
+      }
+    }
+  };
+
+  // Enter in a single-line input would otherwise submit the application form
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setIsEditing(false);
+    }
+  };
+
+  if (!isEditing) {
+    if (!offer) {
+      return (
+        <button type="button" onClick={startEditing} className="btn-secondary px-4 py-2 text-sm font-medium">
+          + Record offer details
+        </button>
+      );
+    }
+
+    return (
+      <div className="p-4 rounded-lg border border-emerald-200 bg-emerald-50/40">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <p className="text-sm text-slate-600">First-year total</p>
+            <p className="text-xl font-bold text-slate-900">{formatMoney(getFirstYearCompensation(offer), offer.currency)}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {formatMoney(getFourYearCompensation(offer), offer.currency)} over four years
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-white text-emerald-700 border border-emerald-200">
+              {OFFER_DECISIONS.find(option => option.value === offer.decision)?.label}
+            </span>
+            <button type="button" onClick={startEditing} className="text-xs text-blue-600 hover:text-blue-800">
+              Edit
+            </button>
+            <button type="button" onClick={handleDelete} className="text-xs text-red-600 hover:text-red-800">
+              Delete
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-slate-600 mt-3">
+          {formatMoney(offer.baseSalary, offer.currency)} {PAY_PERIODS.find(period => period.value === offer.payPeriod)?.label}
+          {offer.annualBonus ? ` · ${formatMoney(offer.annualBonus, offer.currency)} bonus` : ''}
+          {offer.signOnBonus ? ` · ${formatMoney(offer.signOnBonus, offer.currency)} sign-on` : ''}
+          {offer.equityValue ? ` · ${formatMoney(offer.equityValue, offer.currency)} equity (${formatVestingSchedule(offer.vestingSchedule)})` : ''}
+        </p>
+        <p className="text-xs text-slate-500 mt-1">
+          {WORK_MODES.find(mode => mode.value === offer.workMode)?.label}
+          {offer.location && ` · ${offer.location}`}
+          {offer.startDate && ` · Starts ${formatDeadline(offer.startDate)}`}
+          {offer.responseDeadline && ` · Respond by ${formatDeadline(offer.responseDeadline)}`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-lg border border-emerald-200 bg-emerald-50/40 space-y-4" onKeyDown={handleEditorKeyDown}>
+      {/* Base Salary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="offer-base" className="block text-xs font-semibold mb-1 text-slate-700">Base salary *</label>
+          <input
+            type="number"
+            id="offer-base"
+            min={0}
+            value={draft.baseSalary}
+            onChange={(e) => updateDraft({ baseSalary: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+        <div>
+          <label htmlFor="offer-period" className="block text-xs font-semibold mb-1 text-slate-700">Paid</label>
+          <select
+            id="offer-period"
+            value={draft.payPeriod}
+            onChange={(e) => updateDraft({ payPeriod: e.target.value as PayPeriod })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          >
+            {PAY_PERIODS.map(period => (
+              <option key={period.value} value={period.value}>{period.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="offer-currency" className="block text-xs font-semibold mb-1 text-slate-700">Currency</label>
+          <input
+            type="text"
+            id="offer-currency"
+            value={draft.currency}
+            maxLength={3}
+            onChange={(e) => updateDraft({ currency: e.target.value.toUpperCase() })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring uppercase"
+          />
+        </div>
+      </div>
+
+      {/* Bonus and Equity */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="offer-bonus" className="block text-xs font-semibold mb-1 text-slate-700">Target bonus / year</label>
+          <input
+            type="number"
+            id="offer-bonus"
+            min={0}
+            value={draft.annualBonus}
+            onChange={(e) => updateDraft({ annualBonus: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+        <div>
+          <label htmlFor="offer-signon" className="block text-xs font-semibold mb-1 text-slate-700">Sign-on bonus</label>
+          <input
+            type="number"
+            id="offer-signon"
+            min={0}
+            value={draft.signOnBonus}
+            onChange={(e) => updateDraft({ signOnBonus: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+        <div>
+          <label htmlFor="offer-equity" className="block text-xs font-semibold mb-1 text-slate-700">Equity grant (total value)</label>
+          <input
+            type="number"
+            id="offer-equity"
+            min={0}
+            value={draft.equityValue}
+            onChange={(e) => updateDraft({ equityValue: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+      </div>
+
+      {/* Vesting Schedule */}
+      <div>
+        <label htmlFor="offer-vesting" className="block text-xs font-semibold mb-1 text-slate-700">Vesting (% per year)</label>
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            id="offer-vesting"
+            value={draft.vestingSchedule}
+            onChange={(e) => updateDraft({ vestingSchedule: e.target.value })}
+            placeholder="25/25/25/25"
+            className="input-modern w-40 px-3 py-2 text-sm focus-ring"
+          />
+          {VESTING_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => updateDraft({ vestingSchedule: formatVestingSchedule(preset.schedule) })}
+              className="px-2 py-1 rounded-md text-xs font-medium bg-white text-slate-600 border border-slate-200 hover:bg-slate-50"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        {!vestingSchedule ? (
+          <p className="text-xs text-red-600 mt-1">Enter yearly percentages such as 25/25/25/25.</p>
+        ) : vestingTotal !== 100 && (
+          <p className="text-xs text-amber-700 mt-1">Adds up to {vestingTotal}% of the grant.</p>
+        )}
+      </div>
+
+      {/* Work Mode, Location and Dates */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="offer-mode" className="block text-xs font-semibold mb-1 text-slate-700">Work mode</label>
+          <select
+            id="offer-mode"
+            value={draft.workMode}
+            onChange={(e) => updateDraft({ workMode: e.target.value as WorkMode })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          >
+            {WORK_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="offer-location" className="block text-xs font-semibold mb-1 text-slate-700">Location</label>
+          <input
+            type="text"
+            id="offer-location"
+            value={draft.location}
+            maxLength={200}
+            onChange={(e) => updateDraft({ location: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+        <div>
+          <label htmlFor="offer-start" className="block text-xs font-semibold mb-1 text-slate-700">Start date</label>
+          <input
+            type="date"
+            id="offer-start"
+            value={draft.startDate}
+            onChange={(e) => updateDraft({ startDate: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+        <div>
+          <label htmlFor="offer-respond" className="block text-xs font-semibold mb-1 text-slate-700">Respond by</label>
+          <input
+            type="date"
+            id="offer-respond"
+            value={draft.responseDeadline}
+            onChange={(e) => updateDraft({ responseDeadline: e.target.value })}
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+          />
+        </div>
+      </div>
+
+      {/* Benefits */}
+      <div>
+        <label htmlFor="offer-benefits" className="block text-xs font-semibold mb-1 text-slate-700">Benefits notes</label>
+        <textarea
+          id="offer-benefits"
+          value={draft.benefitsNotes}
+          maxLength={5000}
+          rows={3}
+          onChange={(e) => updateDraft({ benefitsNotes: e.target.value })}
+          placeholder="401(k) match, health plan, PTO, relocation..."
+          className="input-modern w-full px-3 py-2 text-sm focus-ring resize-none"
+        />
+      </div>
+
+      {/* Decision */}
+      <div>
+        <label htmlFor="offer-decision" className="block text-xs font-semibold mb-1 text-slate-700">Decision</label>
+        <select
+          id="offer-decision"
+          value={draft.decision}
+          onChange={(e) => updateDraft({ decision: e.target.value as OfferDecision })}
+          className="input-modern w-full md:w-1/2 px-3 py-2 text-sm focus-ring"
+        >
+          {OFFER_DECISIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Editor Actions */}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setIsEditing(false)} className="btn-secondary px-4 py-2 text-sm font-medium">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave}
+          className="btn-primary px-4 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save offer'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { openPdf, renderPdfPage } from '../lib/pdf';
+import { StoredResumeFile, downloadResume } from '../lib/resumeText';
+
+interface PdfViewerModalProps {
+  file: StoredResumeFile;
+  title: string;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+// Space kept around the page when fitting it to the modal's width
+const PAGE_MARGIN = 48;
+
+// Inline preview of a resume PDF with page navigation and zoom. Zoom is
+// relative to fitting the page's width, which is where it opens.
+export default function PdfViewerModal({ file, title, onClose }: PdfViewerModalProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [zoom, setZoom] = useState(1);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Download and open the file; the document is released when the viewer closes
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    downloadResume(file)
+      .then(openPdf)
+      .then((document) => {
+        loaded = document;
+        if (cancelled) document.destroy();
+        else setPdf(document);
+      })
+      .catch((error) => {
+        console.error(`Error opening ${title}:`, error);
+        if (!cancelled) setLoadFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file, title]);
+
+  // Track the available width so "fit" follows window resizes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the current page, cancelling a render still in progress
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || containerWidth === 0) return;
+    let cancelled = false;
+    let renderTask: ReturnType<typeof renderPdfPage> | null = null;
+
+    pdf.getPage(pageNumber)
+      .then((page) => {
+        if (cancelled) return;
+        const fitScale = Math.max(containerWidth - PAGE_MARGIN, 100) / page.getViewport({ scale: 1 }).width;
+        renderTask = renderPdfPage(page, canvasRef.current, fitScale * zoom);
+        return renderTask.promise;
+      })
+      .catch((error) => {
+        if (error?.name !== 'RenderingCancelledException') console.error('Error rendering PDF page:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, zoom, containerWidth]);
+
+  const pageCount = pdf?.numPages || 0;
+  const goToPage = useCallback((page: number) => {
+    setPageNumber(current => (pageCount ? Math.min(Math.max(page, 1), pageCount) : current));
+  }, [pageCount]);
+  const changeZoom = useCallback((delta: number) => {
+    setZoom(current => Math.min(Math.max(Math.round((current + delta) * 100) / 100, MIN_ZOOM), MAX_ZOOM));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' || e.key === 'PageUp') goToPage(pageNumber - 1);
+      else if (e.key === 'ArrowRight' || e.key === 'PageDown') goToPage(pageNumber + 1);
+      else if (e.key === '+' || e.key === '=') changeZoom(ZOOM_STEP);
+      else if (e.key === '-') changeZoom(-ZOOM_STEP);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, goToPage, changeZoom, pageNumber]);
+
+  const toolbarButton = 'px-2 py-1 rounded-md text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl w-full max-w-4xl h-[90vh] flex flex-col border border-slate-200"
+        style={{ boxShadow: 'var(--shadow-xl)' }}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Preview of ${title}`}
+      >
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-slate-200">
+          <h3 className="font-semibold truncate flex-1 min-w-0" style={{ color: 'var(--color-text-primary)' }} title={title}>
+            {title}
+          </h3>
+          <div className="flex items-center gap-1">
+            <button onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1} className={toolbarButton} aria-label="Previous page">
+              ‹
+            </button>
+            <span className="text-sm text-slate-600 tabular-nums">
+              {pageCount ? `${pageNumber} / ${pageCount}` : '– / –'}
+            </span>
+            <button onClick={() => goToPage(pageNumber + 1)} disabled={pageNumber >= pageCount} className={toolbarButton} aria-label="Next page">
+              ›
+            </button>
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={() => changeZoom(-ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} className={toolbarButton} aria-label="Zoom out">
+              −
+            </button>
+            <button onClick={() => setZoom(1)} className={`${toolbarButton} w-16 tabular-nums`} title="Fit to width">
+              {Math.round(zoom * 100)}%
+            </button>
+            <button onClick={() => changeZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} className={toolbarButton} aria-label="Zoom in">
+              +
+            </button>
+          </div>
+          <a
+            href={file.downloadURL}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm font-medium text-blue-700 hover:text-blue-800"
+          >
+            Open in new tab
+          </a>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" aria-label="Close preview">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Page */}
+        <div ref={containerRef} className="flex-1 overflow-auto bg-slate-100 p-6">
+          {loadFailed ? (
+            <p className="text-sm text-red-600 text-center mt-12">
+              Couldn&apos;t load this PDF. Check your connection, or use Open in new tab.
+            </p>
+          ) : (
+            <>
+              {!pdf && <p className="text-sm text-slate-500 text-center mt-12">Loading preview...</p>}
+              <canvas ref={canvasRef} className={`mx-auto bg-white shadow-md ${pdf ? '' : 'hidden'}`} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import React, { useMemo, useState } from 'react';
+import { Funnel, FunnelChart, LabelList, Layer, Rectangle, ResponsiveContainer, Sankey, Tooltip } from 'recharts';
+import { Application, ApplicationStatus } from '../lib/domain';
+import { getGroupSummaries, getOfferCount, getPipelineSummary } from '../lib/pipelineAnalytics';
+import { GROUPABLE_FIELD_TYPES, getFieldGroup } from '../lib/customFields';
+import { usePipeline } from './PipelineProvider';
+import { useFieldSettings } from './FieldSettingsProvider';
+
+interface PipelineAnalyticsProps {
+  applications: Application[];
+  // Shown in the header so a filtered funnel is easy to tell apart
+  scopeLabel?: string;
+}
+
+const tooltipStyle = {
+  backgroundColor: 'white',
+  border: '1px solid #e2e8f0',
+  borderRadius: '8px',
+  fontSize: '14px'
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+// Group-by choice for untagged applications
+const UNTAGGED = 'Untagged';
+
+// What Recharts fills in when it clones the node element; payload is one of
+// our nodes plus the layout Recharts computed for it
+interface SankeyNodeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: { name: string; color: string; value: number; sourceLinks?: number[] };
+}
+
+// Stage bar colored by status, labelled with its name and volume.
+// End stages have nothing to their right, so their label goes on the left.
+function SankeyNode({ x, y, width, height, payload }: SankeyNodeProps) {
+  const isLast = !payload.sourceLinks?.length;
+  return (
+    <Layer>
+      <Rectangle x={x} y={y} width={width} height={height} fill={payload.color} fillOpacity={0.9} radius={2} />
+      <text
+        x={isLast ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={isLast ? 'end' : 'start'}
+        dominantBaseline="middle"
+        fontSize={12}
+        fill="#334155"
+      >
+        {payload.name} ({payload.value})
+      </text>
+    </Layer>
+  );
+}
+
+export default function PipelineAnalytics({ applications, scopeLabel }: PipelineAnalyticsProps) {
+  const { stages, getStatusOption } = usePipeline();
+  const { customFields, getTagColor } = useFieldSettings();
+  const summary = useMemo(() => getPipelineSummary(applications, stages), [applications, stages]);
+  // '' for no grouping, 'tag' or a custom field id
+  const [groupBy, setGroupBy] = useState('');
+
+  const groupableFields = customFields.filter(field => GROUPABLE_FIELD_TYPES.includes(field.type));
+  const groupField = groupableFields.find(field => field.id === groupBy);
+
+  const groupSummaries = useMemo(() => {
+    if (groupBy === 'tag') {
+      return getGroupSummaries(applications, stages, app => app.tags?.length ? app.tags : [UNTAGGED]);
+    }
+    if (groupField) {
+      return getGroupSummaries(applications, stages, app => [getFieldGroup(groupField, app.customFields?.[groupField.id])]);
+    }
+    return [];
+  }, [applications, stages, groupBy, groupField]);
+
+  const funnelData = summary.stages.map(stage => ({
+    name: getStatusOption(stage.status).label,
+    value: stage.reached,
+    fill: getStatusOption(stage.status).chartColor
+  }));
+
+  // Recharts needs every node to carry a link, so only stages with flows are included
+  const sankeyData = useMemo(() => {
+    const statuses: ApplicationStatus[] = [];
+    summary.flows.forEach(({ from, to }) => {
+      [from, to].forEach((status) => {
+        if (!statuses.includes(status)) statuses.push(status);
+      });
+    });
+
+    return {
+      nodes: statuses.map(status => ({ name: getStatusOption(status).label, color: getStatusOption(status).chartColor })),
+      links: summary.flows.map(flow => ({
+        source: statuses.indexOf(flow.from),
+        target: statuses.indexOf(flow.to),
+        value: flow.count
+      }))
+    };
+  }, [summary, getStatusOption]);
+
+  const offers = getOfferCount(summary, stages);
+  const closedCount = summary.closed.reduce((sum, stage) => sum + stage.count, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Pipeline Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+          <p className="text-2xl font-bold text-slate-900">{summary.total}</p>
+          <p className="text-sm text-slate-600">Applications{scopeLabel ? ` · ${scopeLabel}` : ''}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+          <p className="text-2xl font-bold text-green-600">
+            {summary.total > 0 ? formatPercent(offers / summary.total) : '0%'}
+          </p>
+          <p className="text-sm text-slate-600">Reached an offer</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+          <p className="text-2xl font-bold text-red-600">
+            {summary.total > 0 ? formatPercent(closedCount / summary.total) : '0%'}
+          </p>
+          <p className="text-sm text-slate-600">Closed without an offer</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Conversion Funnel */}
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Conversion Funnel</h3>
+          <p className="text-xs text-slate-500 mb-4">Applications that reached each stage or went past it.</p>
+          <ResponsiveContainer width="100%" height={300}>
+            <FunnelChart>
+              <Tooltip contentStyle={tooltipStyle} />
+              <Funnel dataKey="value" data={funnelData} isAnimationActive={false}>
+                <LabelList position="right" dataKey="name" fill="#334155" stroke="none" fontSize={12} />
+                <LabelList position="center" dataKey="value" fill="#ffffff" stroke="none" fontSize={12} />
+              </Funnel>
+            </FunnelChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Stage Flow */}
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Stage Flow</h3>
+          <p className="text-xs text-slate-500 mb-4">How applications actually moved, including drop-off at each stage.</p>
+          {sankeyData.links.length === 0 ? (
+            <div className="flex items-center justify-center h-[300px] text-sm text-slate-500">
+              Move applications between stages to see how they flow.
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <Sankey
+                data={sankeyData}
+                node={<SankeyNode />}
+                link={{ stroke: '#cbd5e1', strokeOpacity: 0.5 }}
+                nodePadding={24}
+                margin={{ top: 10, right: 10, bottom: 10, left: 10 }}
+              >
+                <Tooltip contentStyle={tooltipStyle} />
+              </Sankey>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+
+      {/* Stage Breakdown */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left font-semibold px-6 py-3">Stage</th>
+              <th className="text-right font-semibold px-6 py-3">Reached</th>
+              <th className="text-right font-semibold px-6 py-3">From previous stage</th>
+              <th className="text-right font-semibold px-6 py-3">Dropped here</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {summary.stages.map((stage, index) => {
+              const option = getStatusOption(stage.status);
+              return (
+                <tr key={stage.status}>
+                  <td className="px-6 py-3">
+                    <span className="inline-flex items-center gap-2">
+                      <span className={`w-2 h-2 rounded-full ${option.dotColor}`}></span>
+                      {option.label}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right font-medium text-slate-900">{stage.reached}</td>
+                  <td className="px-6 py-3 text-right text-slate-600">
+                    {index === 0 ? '—' : formatPercent(stage.conversion)}
+                  </td>
+                  <td className="px-6 py-3 text-right text-red-600">
+                    {stage.droppedHere > 0 ? stage.droppedHere : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+            {summary.closed.map(({ status, count }) => (
+              <tr key={status} className="bg-slate-50">
+                <td className="px-6 py-3 font-medium text-slate-900">{getStatusOption(status).label}</td>
+                <td className="px-6 py-3 text-right font-medium text-slate-900">{count}</td>
+                <td className="px-6 py-3"></td>
+                <td className="px-6 py-3"></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Group Breakdown */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Outcomes by Group</h3>
+            <p className="text-xs text-slate-500">Compare results across tags or your own select and checkbox fields.</p>
+          </div>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value)}
+            className="input-modern px-3 py-2 text-sm focus-ring"
+            aria-label="Group applications by"
+          >
+            <option value="">Group by…</option>
+            <option value="tag">Tag</option>
+            {groupableFields.map(field => (
+              <option key={field.id} value={field.id}>{field.name}</option>
+            ))}
+          </select>
+        </div>
+        {groupSummaries.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-slate-500">
+            {groupBy ? 'No applications to group.' : 'Pick a tag or field to compare groups.'}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="text-left font-semibold px-6 py-3">{groupBy === 'tag' ? 'Tag' : groupField?.name}</th>
+                <th className="text-right font-semibold px-6 py-3">Applications</th>
+                <th className="text-right font-semibold px-6 py-3">Reached an offer</th>
+                <th className="text-right font-semibold px-6 py-3">Closed without an offer</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {groupSummaries.map(({ group, summary: groupSummary }) => {
+                const groupOffers = getOfferCount(groupSummary, stages);
+                const groupClosed = groupSummary.closed.reduce((sum, stage) => sum + stage.count, 0);
+                const tagColor = groupBy === 'tag' && group !== UNTAGGED ? getTagColor(group) : null;
+                return (
+                  <tr key={group}>
+                    <td className="px-6 py-3">
+                      {tagColor ? (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${tagColor.bgColor} ${tagColor.textColor}`}>{group}</span>
+                      ) : (
+                        <span className="text-slate-700">{group}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right font-medium text-slate-900">{groupSummary.total}</td>
+                    <td className="px-6 py-3 text-right text-green-600">{formatPercent(groupOffers / groupSummary.total)}</td>
+                    <td className="px-6 py-3 text-right text-red-600">{formatPercent(groupClosed / groupSummary.total)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from './AuthProvider';
+import {
+  ApplicationStatus,
+  DEFAULT_PIPELINE_STAGES,
+  Pipeline,
+  PipelineStage,
+  StatusOption
+} from '../lib/domain';
+import { findStatusOption, getStatusOptions } from '../lib/pipeline';
+import { pipelineRepository } from '../lib/repositories';
+
+interface PipelineContextValue {
+  stages: PipelineStage[];
+  statusOptions: StatusOption[];
+  // False until the user's saved pipeline (or its absence) has been read
+  loaded: boolean;
+  getStatusOption: (status: ApplicationStatus) => StatusOption;
+  savePipeline: (stages: PipelineStage[]) => Promise<void>;
+}
+
+const PipelineContext = createContext<PipelineContextValue | null>(null);
+
+interface PipelineProviderProps {
+  children: ReactNode;
+}
+
+export default function PipelineProvider({ children }: PipelineProviderProps) {
+  const { user } = useAuth();
+  const [pipeline, setPipeline] = useState<Pipeline | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // Follow the signed-in user's pipeline document
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = pipelineRepository.subscribe(
+      user.uid,
+      (nextPipeline) => {
+        setPipeline(nextPipeline);
+        setLoaded(true);
+      },
+      // Fall back to the default stages rather than blocking the dashboard
+      () => setLoaded(true)
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  // Users who never customised their pipeline get the default stages
+  const stages = pipeline && pipeline.stages.length > 0 ? pipeline.stages : DEFAULT_PIPELINE_STAGES;
+  const statusOptions = useMemo(() => getStatusOptions(stages), [stages]);
+
+  const getStatusOption = useCallback(
+    (status: ApplicationStatus) => findStatusOption(statusOptions, status),
+    [statusOptions]
+  );
+
+  const savePipeline = async (nextStages: PipelineStage[]) => {
+    if (!user) return;
+    await pipelineRepository.save(user.uid, nextStages, pipeline);
+  };
+
+  return (
+    <PipelineContext.Provider value={{ stages, statusOptions, loaded, getStatusOption, savePipeline }}>
+      {children}
+    </PipelineContext.Provider>
+  );
+}
+
+// Access the user's pipeline stages from any component rendered inside PipelineProvider
+export function usePipeline(): PipelineContextValue {
+  const context = useContext(PipelineContext);
+  if (!context) {
+    throw new Error('usePipeline must be used within a PipelineProvider');
+  }
+  return context;
+}
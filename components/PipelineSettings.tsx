@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Application,
+  ApplicationStatus,
+  DEFAULT_PIPELINE_STAGES,
+  PipelineStage,
+  STAGE_COLORS,
+  STAGE_KINDS,
+  StageKind,
+  getStageColor
+} from '../lib/domain';
+import { applicationRepository } from '../lib/repositories';
+import { createStageId } from '../lib/pipeline';
+import { usePipeline } from './PipelineProvider';
+
+interface PipelineSettingsProps {
+  applications: Application[];
+}
+
+const MAX_STAGES = 30;
+const MAX_STAGE_NAME = 60;
+
+export default function PipelineSettings({ applications }: PipelineSettingsProps) {
+  const { stages, loaded, savePipeline } = usePipeline();
+  const [draft, setDraft] = useState<PipelineStage[]>(stages);
+  const [newStageName, setNewStageName] = useState('');
+  // Where applications in a removed stage should go, keyed by the removed stage id
+  const [remapTargets, setRemapTargets] = useState<Record<string, ApplicationStatus>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved pipeline once it loads or changes elsewhere
+  useEffect(() => {
+    setDraft(stages);
+    setRemapTargets({});
+  }, [stages]);
+
+  const countsByStatus = useMemo(() => {
+    const counts = new Map<ApplicationStatus, number>();
+    applications.forEach(app => counts.set(app.status, (counts.get(app.status) || 0) + 1));
+    return counts;
+  }, [applications]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(stages);
+
+  // Saved stages that the draft drops but that still hold applications
+  const removedStages = stages.filter(stage =>
+    !draft.some(candidate => candidate.id === stage.id) && (countsByStatus.get(stage.id) || 0) > 0
+  );
+
+  // Default to the stage that sat just before the removed one, or the first stage
+  const getRemapTarget = (removed: PipelineStage): ApplicationStatus => {
+    const chosen = remapTargets[removed.id];
+    if (chosen && draft.some(stage => stage.id === chosen)) return chosen;
+
+    const previous = stages
+      .slice(0, stages.findIndex(stage => stage.id === removed.id))
+      .reverse()
+      .find(stage => draft.some(candidate => candidate.id === stage.id));
+    return previous?.id || draft[0]?.id;
+  };
+
+  const names = draft.map(stage => stage.name.trim().toLowerCase());
+  const validationError =
+    draft.length === 0 ? 'Keep at least one stage.'
+      : names.some(name => !name) ? 'Every stage needs a name.'
+        : names.some((name, index) => names.indexOf(name) !== index) ? 'Stage names must be unique.'
+          : null;
+
+  const updateStage = (id: ApplicationStatus, changes: Partial<PipelineStage>) => {
+    setDraft(prev => prev.map(stage => stage.id === id ? { ...stage, ...changes } : stage));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      const [stage] = next.splice(index, 1);
+      next.splice(index + offset, 0, stage);
+      return next;
+    });
+  };
+
+  const removeStage = (id: ApplicationStatus) => {
+    setDraft(prev => prev.filter(stage => stage.id !== id));
+  };
+
+  const restoreStage = (removed: PipelineStage) => {
+    setDraft(prev => [...prev, removed]);
+  };
+
+  const addStage = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newStageName.trim();
+    if (!name || draft.length >= MAX_STAGES) return;
+
+    // Never hand out an id that saved applications may still carry
+    const takenIds = [...draft, ...stages].map(stage => stage.id).concat(Array.from(countsByStatus.keys()));
+    const id = createStageId(name, takenIds);
+    // New stages go before the first closing stage so they land mid-pipeline
+    const insertAt = draft.findIndex(stage => stage.kind !== 'active');
+    const stage: PipelineStage = { id, name, color: 'indigo', kind: 'active' };
+
+    setDraft(prev => {
+      const next = [...prev];
+      next.splice(insertAt === -1 ? next.length : insertAt, 0, stage);
+      return next;
+    });
+    setNewStageName('');
+  };
+
+  const handleSave = async () => {
+    if (validationError || !isDirty) return;
+
+    const moves = removedStages.map(stage => ({
+      stage,
+      target: getRemapTarget(stage),
+      applications: applications.filter(app => app.status === stage.id)
+    }));
+    if (moves.length > 0) {
+      const summary = moves
+        .map(({ stage, target, applications: moving }) =>
+          `${moving.length} in "${stage.name}" → "${draft.find(candidate => candidate.id === target)?.name}"`)
+        .join('\n');
+      if (!window.confirm(`These applications will be moved:\n${summary}\n\nContinue?`)) return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Move applications first so a failure leaves the old stage in place for them
+      for (const move of moves) {
+        await applicationRepository.moveToStatus(move.applications, move.target, 'pipeline');
+      }
+      await savePipeline(draft.map(stage => ({ ...stage, name: stage.name.trim() })));
+    } catch (error: any) {
+      console.error('Error saving pipeline:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your pipeline will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to save your pipeline.');
+      } else {
+        alert('Failed to save pipeline. Please check your connection and try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="p-2 bg-indigo-100 rounded-lg">
+          <svg className="w-5 h-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+          </svg>
+        </div>
+        <h3 className="text-lg font-semibold text-slate-900">
+          Pipeline Stages
+        </h3>
+      </div>
+      <p className="text-sm text-slate-600 mb-6">
+        Rename, recolor and reorder the stages used by the board, list, filters and analytics.
+        Closing stages end an application: positive ones count as offers, negative ones as rejections.
+      </p>
+
+      {/* Stage List */}
+      <ol className="space-y-2 mb-4">
+        {draft.map((stage, index) => {
+          const color = getStageColor(stage.color);
+          const count = countsByStatus.get(stage.id) || 0;
+          return (
+            <li key={stage.id} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border border-slate-200">
+              <div className="flex flex-col">
+                <button
+                  type="button"
+                  onClick={() => moveStage(index, -1)}
+                  disabled={index === 0}
+                  className="text-slate-400 hover:text-slate-700 disabled:opacity-30 leading-none"
+                  aria-label={`Move ${stage.name} up`}
+                >
+                  ▲
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveStage(index, 1)}
+                  disabled={index === draft.length - 1}
+                  className="text-slate-400 hover:text-slate-700 disabled:opacity-30 leading-none"
+                  aria-label={`Move ${stage.name} down`}
+                >
+                  ▼
+                </button>
+              </div>
+              <span className={`w-3 h-3 rounded-full ${color.dotColor}`}></span>
+              <input
+                type="text"
+                value={stage.name}
+                maxLength={MAX_STAGE_NAME}
+                onChange={(e) => updateStage(stage.id, { name: e.target.value })}
+                className="input-modern flex-1 min-w-[10rem] px-3 py-2 text-sm focus-ring"
+                aria-label="Stage name"
+              />
+              <select
+                value={stage.color}
+                onChange={(e) => updateStage(stage.id, { color: e.target.value })}
+                className="input-modern px-2 py-2 text-sm focus-ring"
+                aria-label={`Color for ${stage.name}`}
+              >
+                {STAGE_COLORS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                value={stage.kind}
+                onChange={(e) => updateStage(stage.id, { kind: e.target.value as StageKind })}
+                className="input-modern px-2 py-2 text-sm focus-ring"
+                aria-label={`Type of ${stage.name}`}
+              >
+                {STAGE_KINDS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span className="w-20 text-right text-xs text-slate-500">
+                {count} {count === 1 ? 'app' : 'apps'}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeStage(stage.id)}
+                className="px-2 py-1 text-sm text-red-600 hover:bg-red-50 rounded-md"
+                aria-label={`Remove ${stage.name}`}
+              >
+                Remove
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Add Stage */}
+      <form onSubmit={addStage} className="flex gap-2 mb-6">
+        <input
+          type="text"
+          value={newStageName}
+          maxLength={MAX_STAGE_NAME}
+          onChange={(e) => setNewStageName(e.target.value)}
+          placeholder="New stage, e.g. Online Assessment"
+          className="input-modern flex-1 px-3 py-2 text-sm focus-ring"
+        />
+        <button
+          type="submit"
+          disabled={!newStageName.trim() || draft.length >= MAX_STAGES}
+          className="btn-secondary px-4 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add stage
+        </button>
+      </form>
+
+      {/* Applications In Removed Stages */}
+      {removedStages.length > 0 && (
+        <div className="mb-6 p-4 rounded-lg bg-amber-50 border border-amber-200 space-y-3">
+          <p className="text-sm font-medium text-amber-800">
+            Applications in removed stages will be moved when you save:
+          </p>
+          {removedStages.map(stage => (
+            <div key={stage.id} className="flex flex-wrap items-center gap-2 text-sm text-amber-900">
+              <span>
+                {countsByStatus.get(stage.id)} in <span className="font-semibold">{stage.name}</span> →
+              </span>
+              <select
+                value={getRemapTarget(stage)}
+                onChange={(e) => setRemapTargets(prev => ({ ...prev, [stage.id]: e.target.value }))}
+                className="input-modern px-2 py-1 text-sm focus-ring"
+                aria-label={`Move applications from ${stage.name} to`}
+              >
+                {draft.map(option => (
+                  <option key={option.id} value={option.id}>{option.name || 'Untitled stage'}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => restoreStage(stage)}
+                className="text-amber-700 hover:text-amber-900 underline"
+              >
+                Keep stage
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!loaded || !isDirty || Boolean(validationError) || isSaving}
+          className="btn-primary px-5 py-2 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save pipeline'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setDraft(stages)}
+          disabled={!isDirty || isSaving}
+          className="btn-secondary px-5 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Discard changes
+        </button>
+        <button
+          type="button"
+          onClick={() => setDraft(DEFAULT_PIPELINE_STAGES)}
+          disabled={isSaving}
+          className="px-3 py-2 text-sm text-slate-600 hover:text-slate-900"
+        >
+          Reset to default stages
+        </button>
+        {validationError && <span className="text-sm text-red-600">{validationError}</span>}
+      </div>
+    </div>
+  );
+}
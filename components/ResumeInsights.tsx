@@ -1,67 +1,49 @@
-import { useState, useEffect } from 'react';
-import { db } from '../lib/firebase';
-import { collection, onSnapshot, query, orderBy } from 'firebase/firestore';
+import { Fragment, useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-
-interface Application {
-  id: string;
-  jobTitle: string;
-  company: string;
-  status: 'to-apply' | 'applied' | 'interviewing' | 'offer' | 'rejected';
-  resumeId?: string;
-  createdAt: any;
-  updatedAt: any;
-}
-
-interface Resume {
-  id: string;
-  name: string;
-  originalFileName: string;
-  uploadDate: any;
-}
+import { useAuth } from './AuthProvider';
+import { Application, ApplicationStatus, Resume, ResumeVersion } from '../lib/domain';
+import { applicationRepository, resumeRepository, resumeVersionRepository } from '../lib/repositories';
+import { formatVersionLabel, getApplicationVersion, getVersionsOfResume } from '../lib/resumeVersions';
+import { getSubmittedStageIndex } from '../lib/pipeline';
+import { getAverageTimeToResponse } from '../lib/statusHistory';
+import { usePipeline } from './PipelineProvider';
 
 interface ResumeAnalytics {
   resumeId: string;
   resumeName: string;
   totalApplications: number;
-  toApplyCount: number;
-  appliedCount: number;
-  interviewingCount: number;
-  offerCount: number;
-  rejectedCount: number;
-  applyRate: number;        // to-apply → applied
-  interviewRate: number;    // applied → interviewing  
+  unsubmittedCount: number;  // Still before the submitted stage, e.g. Saved
+  interviewingCount: number; // Past submission and still open, or won
+  offerCount: number;        // In a positive stage
+  closedCount: number;       // In a negative or closed stage
+  applyRate: number;        // saved → applied
+  interviewRate: number;    // applied → any later open stage
   offerRate: number;        // interviewing → offer
   overallSuccessRate: number; // total offers / total applications
   averageTimeToResponse: number; // days from applied to next stage
+  versions?: ResumeAnalytics[]; // Newest first, for resumes with more than one version
 }
 
-const COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#6B7280'];
-
 export default function ResumeInsights() {
+  const { user } = useAuth();
+  const { stages, statusOptions } = usePipeline();
   const [applications, setApplications] = useState<Application[]>([]);
   const [resumes, setResumes] = useState<Resume[]>([]);
+  const [resumeVersions, setResumeVersions] = useState<ResumeVersion[]>([]);
   const [analytics, setAnalytics] = useState<ResumeAnalytics[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedMetric, setSelectedMetric] = useState<'applications' | 'success' | 'interview'>('applications');
 
   useEffect(() => {
-    // Fetch applications and resumes
-    const unsubscribeApps = onSnapshot(collection(db, 'applications'), (snapshot) => {
-      const apps: Application[] = [];
-      snapshot.forEach((doc) => {
-        apps.push({ id: doc.id, ...doc.data() } as Application);
-      });
-      setApplications(apps);
-    });
+    if (!user) return;
 
-    const unsubscribeResumes = onSnapshot(
-      query(collection(db, 'resumes'), orderBy('uploadDate', 'desc')), 
-      (snapshot) => {
-        const resumeData: Resume[] = [];
-        snapshot.forEach((doc) => {
-          resumeData.push({ id: doc.id, ...doc.data() } as Resume);
-        });
+    // Fetch applications, resumes and resume versions
+    const unsubscribeApps = applicationRepository.subscribe(user.uid, setApplications);
+    const unsubscribeVersions = resumeVersionRepository.subscribe(user.uid, setResumeVersions);
+
+    const unsubscribeResumes = resumeRepository.subscribe(
+      user.uid,
+      (resumeData) => {
         setResumes(resumeData);
         setLoading(false);
       }
@@ -69,90 +51,103 @@ export default function ResumeInsights() {
 
     return () => {
       unsubscribeApps();
+      unsubscribeVersions();
       unsubscribeResumes();
     };
-  }, []);
+  }, [user]);
 
   useEffect(() => {
     if (applications.length && resumes.length) {
       calculateAnalytics();
     }
-  }, [applications, resumes]);
+  }, [applications, resumes, resumeVersions, stages]);
+
+  // Stages past submission that are still open or won count as reaching a conversation
+  const submittedIndex = getSubmittedStageIndex(stages);
+  const stageIndex = (status: ApplicationStatus) => stages.findIndex(stage => stage.id === status);
+  const isUnsubmitted = (status: ApplicationStatus) => {
+    const index = stageIndex(status);
+    return index !== -1 && index < submittedIndex;
+  };
+  const isInterviewing = (status: ApplicationStatus) => {
+    const index = stageIndex(status);
+    return index > submittedIndex && (stages[index].kind === 'active' || stages[index].kind === 'positive');
+  };
+  const isOffer = (status: ApplicationStatus) => stages[stageIndex(status)]?.kind === 'positive';
+
+  // Counts and rates for the applications sent with one resume or version
+  const getStats = (resumeId: string, resumeName: string, resumeApplications: Application[]): ResumeAnalytics => {
+    const stats: ResumeAnalytics = {
+      resumeId,
+      resumeName,
+      totalApplications: 0,
+      unsubmittedCount: 0,
+      interviewingCount: 0,
+      offerCount: 0,
+      closedCount: 0,
+      applyRate: 0,
+      interviewRate: 0,
+      offerRate: 0,
+      overallSuccessRate: 0,
+      averageTimeToResponse: 0
+    };
 
-  const calculateAnalytics = () => {
-    const resumeStats: { [key: string]: ResumeAnalytics } = {};
-
-    // Initialize analytics for each resume
-    resumes.forEach((resume) => {
-      resumeStats[resume.id] = {
-        resumeId: resume.id,
-        resumeName: resume.name,
-        totalApplications: 0,
-        toApplyCount: 0,
-        appliedCount: 0,
-        interviewingCount: 0,
-        offerCount: 0,
-        rejectedCount: 0,
-        applyRate: 0,
-        interviewRate: 0,
-        offerRate: 0,
-        overallSuccessRate: 0,
-        averageTimeToResponse: 0
-      };
-    });
+    // Count applications by status
+    resumeApplications.forEach((app) => {
+      stats.totalApplications++;
 
-    // Count applications by status for each resume
-    applications.forEach((app) => {
-      if (app.resumeId && resumeStats[app.resumeId]) {
-        const stats = resumeStats[app.resumeId];
-        stats.totalApplications++;
-        
-        switch (app.status) {
-          case 'to-apply':
-            stats.toApplyCount++;
-            break;
-          case 'applied':
-            stats.appliedCount++;
-            break;
-          case 'interviewing':
-            stats.interviewingCount++;
-            break;
-          case 'offer':
-            stats.offerCount++;
-            break;
-          case 'rejected':
-            stats.rejectedCount++;
-            break;
-        }
-      }
+      const kind = stages[stageIndex(app.status)]?.kind;
+      if (isUnsubmitted(app.status)) stats.unsubmittedCount++;
+      if (isInterviewing(app.status)) stats.interviewingCount++;
+      if (kind === 'positive') stats.offerCount++;
+      if (kind === 'negative' || kind === 'terminal') stats.closedCount++;
     });
 
-    // Calculate rates for each resume
-    Object.values(resumeStats).forEach((stats) => {
-      if (stats.totalApplications > 0) {
-        // Apply rate: applications that moved from to-apply to applied+ 
-        const progressedFromToApply = stats.appliedCount + stats.interviewingCount + stats.offerCount + stats.rejectedCount;
-        stats.applyRate = progressedFromToApply / stats.totalApplications * 100;
-
-        // Interview rate: applications that moved from applied to interviewing+
-        const appliedTotal = stats.appliedCount + stats.interviewingCount + stats.offerCount + stats.rejectedCount;
-        if (appliedTotal > 0) {
-          stats.interviewRate = (stats.interviewingCount + stats.offerCount) / appliedTotal * 100;
-        }
+    // Calculate rates
+    if (stats.totalApplications > 0) {
+      // Apply rate: applications that moved from saved to applied+
+      const appliedTotal = stats.totalApplications - stats.unsubmittedCount;
+      stats.applyRate = appliedTotal / stats.totalApplications * 100;
 
-        // Offer rate: applications that moved from interviewing to offer
-        const interviewingTotal = stats.interviewingCount + stats.offerCount;
-        if (interviewingTotal > 0) {
-          stats.offerRate = stats.offerCount / interviewingTotal * 100;
-        }
+      // Interview rate: applications that moved past applied into an open stage
+      if (appliedTotal > 0) {
+        stats.interviewRate = stats.interviewingCount / appliedTotal * 100;
+      }
 
-        // Overall success rate: offers / total applications
-        stats.overallSuccessRate = stats.offerCount / stats.totalApplications * 100;
+      // Offer rate: interviewing applications that reached an offer
+      if (stats.interviewingCount > 0) {
+        stats.offerRate = stats.offerCount / stats.interviewingCount * 100;
       }
-    });
 
-    // Filter out resumes with no applications
-    const analyticsData = Object.values(resumeStats).filter(stats => stats.totalApplications > 0);
+      // Overall success rate: offers / total applications
+      stats.overallSuccessRate = stats.offerCount / stats.totalApplications * 100;
+
+      // Average response time, from each application's status history
+      stats.averageTimeToResponse = getAverageTimeToResponse(resumeApplications, stages);
+    }
+
+    return stats;
+  };
+
+  const calculateAnalytics = () => {
+    const analyticsData = resumes
+      .map((resume) => {
+        const resumeApplications = applications.filter(app => app.resumeId === resume.id);
+        const stats = getStats(resume.id, resume.name, resumeApplications);
+
+        // Replaced resumes also get a row per version, split by the version each application was sent with
+        const versions = getVersionsOfResume(resumeVersions, resume.id);
+        if (versions.length > 1) {
+          stats.versions = versions.map(version => getStats(
+            version.id,
+            formatVersionLabel(version.version),
+            resumeApplications.filter(app => getApplicationVersion(app, versions)?.id === version.id)
+          ));
+        }
+        return stats;
+      })
+      // Filter out resumes with no applications
+      .filter(stats => stats.totalApplications > 0);
     setAnalytics(analyticsData);
   };
 
@@ -169,9 +164,9 @@ export default function ResumeInsights() {
 
   const getOverallStats = () => {
     const totalWithResume = applications.filter(app => app.resumeId);
-    const offers = totalWithResume.filter(app => app.status === 'offer');
-    const interviews = totalWithResume.filter(app => app.status === 'interviewing' || app.status === 'offer');
-    const applied = totalWithResume.filter(app => ['applied', 'interviewing', 'offer', 'rejected'].includes(app.status));
+    const offers = totalWithResume.filter(app => isOffer(app.status));
+    const interviews = totalWithResume.filter(app => isInterviewing(app.status));
+    const applied = totalWithResume.filter(app => !isUnsubmitted(app.status));
 
     return {
       totalApplications: totalWithResume.length,
@@ -217,13 +212,11 @@ export default function ResumeInsights() {
       return acc;
     }, {} as { [key: string]: number });
 
-    return [
-      { name: 'To Apply', value: statusCounts['to-apply'] || 0, color: COLORS[4] },
-      { name: 'Applied', value: statusCounts['applied'] || 0, color: COLORS[0] },
-      { name: 'Interviewing', value: statusCounts['interviewing'] || 0, color: COLORS[1] },
-      { name: 'Offers', value: statusCounts['offer'] || 0, color: COLORS[2] },
-      { name: 'Rejected', value: statusCounts['rejected'] || 0, color: COLORS[3] },
-    ].filter(item => item.value > 0);
+    return statusOptions.map(option => ({
+      name: option.label,
+      value: statusCounts[option.value] || 0,
+      color: option.chartColor
+    })).filter(item => item.value > 0);
   };
 
   const getRecommendations = () => {
@@ -260,6 +253,45 @@ export default function ResumeInsights() {
     return recommendations;
   };
 
+  // One row of the detailed table; version rows sit indented under their resume
+  const renderPerformanceRow = (stat: ResumeAnalytics, isTop: boolean, isVersion: boolean) => (
+    <tr key={stat.resumeId} className={`border-b border-slate-100 hover:bg-slate-50 ${isVersion ? 'text-xs' : ''}`}>
+      <td className={`py-3 px-2 ${isVersion ? 'pl-8' : ''}`}>
+        <div className="flex items-center gap-2">
+          {isTop && (
+            <svg className="w-4 h-4 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+            </svg>
+          )}
+          <span className={isVersion ? 'text-slate-600' : 'font-medium text-slate-900'}>{stat.resumeName}</span>
+        </div>
+      </td>
+      <td className="text-right py-3 px-2 text-slate-700">{stat.totalApplications}</td>
+      <td className="text-right py-3 px-2 text-slate-700">{stat.totalApplications - stat.unsubmittedCount}</td>
+      <td className="text-right py-3 px-2 text-slate-700">{stat.interviewingCount}</td>
+      <td className="text-right py-3 px-2">
+        <span className={`font-medium ${stat.offerCount > 0 ? 'text-green-600' : 'text-slate-700'}`}>
+          {stat.offerCount}
+        </span>
+      </td>
+      <td className="text-right py-3 px-2">
+        {stat.totalApplications > 0 ? (
+          <span className={`font-medium ${
+            stat.overallSuccessRate >= 10 ? 'text-green-600' :
+            stat.overallSuccessRate >= 5 ? 'text-amber-600' : 'text-red-600'
+          }`}>
+            {stat.overallSuccessRate.toFixed(1)}%
+          </span>
+        ) : (
+          <span className="text-slate-400">—</span>
+        )}
+      </td>
+      <td className="text-right py-3 px-2 text-slate-700">
+        {stat.averageTimeToResponse > 0 ? `${stat.averageTimeToResponse.toFixed(1)} days` : '—'}
+      </td>
+    </tr>
+  );
+
   if (loading) {
     return (
       <div className="bg-white p-6 rounded-xl border border-slate-100" style={{ boxShadow: 'var(--shadow-sm)' }}>
@@ -488,6 +520,11 @@ export default function ResumeInsights() {
         <h3 className="text-lg font-semibold mb-4" style={{ color: 'var(--color-text-primary)' }}>
           Detailed Resume Performance
         </h3>
+        {analytics.some(stat => stat.versions) && (
+          <p className="text-sm text-slate-600 -mt-2 mb-4">
+            Replaced resumes are broken down by the version each application was sent with.
+          </p>
+        )}
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead>
@@ -498,40 +535,18 @@ export default function ResumeInsights() {
                 <th className="text-right py-3 px-2 font-medium text-slate-700">Interviews</th>
                 <th className="text-right py-3 px-2 font-medium text-slate-700">Offers</th>
                 <th className="text-right py-3 px-2 font-medium text-slate-700">Success Rate</th>
+                <th className="text-right py-3 px-2 font-medium text-slate-700">Avg Response</th>
               </tr>
             </thead>
             <tbody>
               {analytics
                 .sort((a, b) => b.overallSuccessRate - a.overallSuccessRate)
                 .map((stat, index) => (
-                <tr key={stat.resumeId} className="border-b border-slate-100 hover:bg-slate-50">
-                  <td className="py-3 px-2">
-                    <div className="flex items-center gap-2">
-                      {index === 0 && stat.overallSuccessRate > 0 && (
-                        <svg className="w-4 h-4 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
-                          <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                        </svg>
-                      )}
-                      <span className="font-medium text-slate-900">{stat.resumeName}</span>
-                    </div>
-                  </td>
-                  <td className="text-right py-3 px-2 text-slate-700">{stat.totalApplications}</td>
-                  <td className="text-right py-3 px-2 text-slate-700">{stat.appliedCount + stat.interviewingCount + stat.offerCount + stat.rejectedCount}</td>
-                  <td className="text-right py-3 px-2 text-slate-700">{stat.interviewingCount + stat.offerCount}</td>
-                  <td className="text-right py-3 px-2">
-                    <span className={`font-medium ${stat.offerCount > 0 ? 'text-green-600' : 'text-slate-700'}`}>
-                      {stat.offerCount}
-                    </span>
-                  </td>
-                  <td className="text-right py-3 px-2">
-                    <span className={`font-medium ${
-                      stat.overallSuccessRate >= 10 ? 'text-green-600' :
-                      stat.overallSuccessRate >= 5 ? 'text-amber-600' : 'text-red-600'
-                    }`}>
-                      {stat.overallSuccessRate.toFixed(1)}%
-                    </span>
-                  </td>
-                </tr>
+                <Fragment key={stat.resumeId}>
+                  {renderPerformanceRow(stat, index === 0 && stat.overallSuccessRate > 0, false)}
+                  {/* Per-version Rows */}
+                  {stat.versions?.map(versionStat => renderPerformanceRow(versionStat, false, true))}
+                </Fragment>
               ))}
             </tbody>
           </table>
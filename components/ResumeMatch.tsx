@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Resume } from '../lib/domain';
+import { htmlToText } from '../lib/jobPosting';
+import { isHtmlFragment } from '../lib/sanitizeHtml';
+import { SkillMention, extractSkills, rankResumes } from '../lib/resumeMatch';
+import { getResumeText, getResumeTextKey } from '../lib/resumeText';
+
+interface ResumeMatchProps {
+  resumes: Resume[];
+  description: string; // Job description as text or HTML
+  selectedResumeId: string;
+  onSelectResume: (resumeId: string) => void;
+}
+
+// Keywords shown per list before the rest are summarized
+const KEYWORD_LIMIT = 12;
+
+const scoreColor = (score: number) => (score >= 70 ? 'bg-emerald-500' : score >= 40 ? 'bg-amber-500' : 'bg-red-400');
+
+// Ranks the user's resumes against a job description by skill overlap and
+// suggests the best one. Resume text is read from the uploaded PDFs.
+export default function ResumeMatch({ resumes, description, selectedResumeId, onSelectResume }: ResumeMatchProps) {
+  // Extracted text by getResumeTextKey, so a replaced file is read again
+  const [resumeTexts, setResumeTexts] = useState<Map<string, string>>(new Map());
+  const [failedKeys, setFailedKeys] = useState<string[]>([]);
+
+  const descriptionSkills = useMemo(
+    () => extractSkills(isHtmlFragment(description) ? htmlToText(description) : description),
+    [description]
+  );
+  const hasSkills = descriptionSkills.size > 0;
+
+  // Read each resume once the description gives something to compare with
+  useEffect(() => {
+    if (!hasSkills) return;
+    let cancelled = false;
+
+    resumes
+      .filter(resume => !resumeTexts.has(getResumeTextKey(resume)) && !failedKeys.includes(getResumeTextKey(resume)))
+      .forEach((resume) => {
+        const key = getResumeTextKey(resume);
+        getResumeText(resume)
+          .then((text) => {
+            if (!cancelled) setResumeTexts(prev => new Map(prev).set(key, text));
+          })
+          .catch((error) => {
+            console.error(`Error reading resume ${resume.name}:`, error);
+            if (!cancelled) setFailedKeys(prev => (prev.includes(key) ? prev : [...prev, key]));
+          });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasSkills, resumes, resumeTexts, failedKeys]);
+
+  const ranked = useMemo(() => {
+    const textsById = new Map(resumes
+      .filter(resume => resumeTexts.has(getResumeTextKey(resume)))
+      .map(resume => [resume.id, resumeTexts.get(getResumeTextKey(resume))]));
+    return rankResumes(resumes, textsById, descriptionSkills);
+  }, [resumes, resumeTexts, descriptionSkills]);
+
+  if (resumes.length === 0 || !description.trim()) return null;
+
+  const failed = resumes.filter(resume => failedKeys.includes(getResumeTextKey(resume)));
+  const withoutText = resumes.filter(resume => resumeTexts.get(getResumeTextKey(resume)) === '');
+  const pendingCount = resumes.length - ranked.length - failed.length;
+  const [best] = ranked;
+  const focus = ranked.find(entry => entry.resume.id === selectedResumeId) || best;
+
+  const renderKeywords = (label: string, mentions: SkillMention[], chipClass: string) => mentions.length > 0 && (
+    <div>
+      <p className="text-xs font-semibold text-slate-700 mb-1">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {mentions.slice(0, KEYWORD_LIMIT).map(({ skill, mentions: count }) => (
+          <span
+            key={skill.id}
+            className={`px-2 py-0.5 rounded text-xs font-medium ${chipClass}`}
+            title={`Mentioned ${count} time${count === 1 ? '' : 's'} in the description`}
+          >
+            {skill.name}
+          </span>
+        ))}
+        {mentions.length > KEYWORD_LIMIT && (
+          <span className="px-2 py-0.5 text-xs text-slate-500">+{mentions.length - KEYWORD_LIMIT} more</span>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-3 p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="text-sm font-semibold text-slate-900">Resume match</p>
+        {hasSkills && pendingCount > 0 && (
+          <p className="text-xs text-slate-500">Reading {pendingCount} resume{pendingCount === 1 ? '' : 's'}...</p>
+        )}
+      </div>
+
+      {!hasSkills ? (
+        <p className="text-xs text-slate-500">No skills we recognize in the job description yet, so there&apos;s nothing to match.</p>
+      ) : (
+        <>
+          {/* Ranked Resumes */}
+          {ranked.length > 0 && (
+            <ul className="space-y-2">
+              {ranked.map(({ resume, report }) => (
+                <li key={resume.id} className="flex items-center gap-3 text-sm">
+                  <span className="w-40 truncate text-slate-700" title={resume.name}>{resume.name}</span>
+                  <span className="flex-1 h-2 rounded-full bg-slate-200 overflow-hidden">
+                    <span className={`block h-full ${scoreColor(report.score)}`} style={{ width: `${report.score}%` }} />
+                  </span>
+                  <span className="w-10 text-right font-medium text-slate-900">{report.score}%</span>
+                  {resume.id === selectedResumeId ? (
+                    <span className="w-24 text-right text-xs text-slate-500">Selected</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onSelectResume(resume.id)}
+                      className="w-24 text-right text-xs font-medium text-blue-700 hover:text-blue-800"
+                    >
+                      {resume === best.resume ? 'Use best match' : 'Use this'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Keywords */}
+          {focus && (
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500">Keywords for {focus.resume.name}:</p>
+              {renderKeywords('Matched', focus.report.matched, 'bg-emerald-50 text-emerald-700')}
+              {renderKeywords('Missing', focus.report.missing, 'bg-amber-50 text-amber-800')}
+            </div>
+          )}
+        </>
+      )}
+
+      {withoutText.length > 0 && (
+        <p className="text-xs text-slate-500">
+          No text found in {withoutText.map(resume => resume.name).join(', ')}. Scanned PDFs can&apos;t be matched.
+        </p>
+      )}
+      {failed.length > 0 && (
+        <p className="text-xs text-red-600">
+          Couldn&apos;t read {failed.map(resume => resume.name).join(', ')}. Check your connection, or re-upload if the file was removed.
+        </p>
+      )}
+    </div>
+  );
+}
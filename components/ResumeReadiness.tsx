@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Resume } from '../lib/domain';
+import { formatDate } from '../lib/dates';
+import { resumeRepository } from '../lib/repositories';
+import { analyzeStoredResume } from '../lib/resumeText';
+import { CheckStatus, getReadinessChecks, getReadinessStatus } from '../lib/resumeReadiness';
+
+interface ResumeReadinessProps {
+  resume: Resume;
+}
+
+const STATUS_STYLES: Record<CheckStatus, { badge: string; icon: string; label: string }> = {
+  pass: { badge: 'bg-emerald-50 text-emerald-700', icon: 'text-emerald-600', label: 'Pass' },
+  warn: { badge: 'bg-amber-50 text-amber-800', icon: 'text-amber-600', label: 'Warning' },
+  fail: { badge: 'bg-red-50 text-red-700', icon: 'text-red-600', label: 'Fail' }
+};
+
+const SUMMARY_LABELS: Record<CheckStatus, string> = {
+  pass: 'Ready for ATS',
+  warn: 'Readable, with warnings',
+  fail: 'Needs fixes for ATS'
+};
+
+const STATUS_ICON_PATHS: Record<CheckStatus, string> = {
+  pass: 'M5 13l4 4L19 7',
+  warn: 'M12 9v2m0 4h.01',
+  fail: 'M6 18L18 6M6 6l12 12'
+};
+
+// ATS readability report for one resume, from the analysis stored when the
+// PDF was uploaded. Resumes uploaded before that are analyzed on request.
+export default function ResumeReadiness({ resume }: ResumeReadinessProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const analysis = await analyzeStoredResume(resume);
+      await resumeRepository.update(resume.id, { analysis });
+      setIsExpanded(true);
+    } catch (error: any) {
+      console.error('Error checking resume readiness:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Please check your connection and try again.');
+      } else if (error.code === 'permission-denied' || error.code === 'storage/unauthorized') {
+        alert('Permission denied. Unable to read this resume.');
+      } else {
+        alert('Failed to read this resume. If it opens in a PDF viewer, try replacing it with a fresh export.');
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const checkButton = (label: string) => (
+    <button
+      onClick={handleCheck}
+      disabled={isChecking}
+      className="text-xs font-medium text-blue-700 hover:text-blue-800 disabled:opacity-50"
+    >
+      {isChecking ? 'Checking...' : label}
+    </button>
+  );
+
+  if (resume.analysis === undefined) {
+    return (
+      <div className="flex items-center gap-3 mt-3 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+        <span>ATS readiness hasn&apos;t been checked for this resume.</span>
+        {checkButton('Check readiness')}
+      </div>
+    );
+  }
+
+  if (resume.analysis === null) {
+    return (
+      <div className="flex items-center gap-3 mt-3 text-xs text-red-700">
+        <span>This PDF couldn&apos;t be read, so an ATS probably can&apos;t read it either.</span>
+        {checkButton('Try again')}
+      </div>
+    );
+  }
+
+  const { analysis } = resume;
+  const checks = getReadinessChecks(analysis);
+  const overall = getReadinessStatus(checks);
+  const countOf = (status: CheckStatus) => checks.filter(check => check.status === status).length;
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className={`inline-flex items-center gap-2 px-2 py-1 rounded-md text-xs font-medium ${STATUS_STYLES[overall].badge}`}
+        aria-expanded={isExpanded}
+      >
+        {SUMMARY_LABELS[overall]}
+        <span className="font-normal">
+          {countOf('pass')} passed
+          {countOf('warn') > 0 && ` · ${countOf('warn')} warning${countOf('warn') === 1 ? '' : 's'}`}
+          {countOf('fail') > 0 && ` · ${countOf('fail')} failed`}
+        </span>
+        <svg className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {/* Readiness Report */}
+      {isExpanded && (
+        <div className="mt-2 p-3 rounded-lg border border-slate-200 bg-slate-50 space-y-2">
+          <ul className="space-y-2">
+            {checks.map(check => (
+              <li key={check.id} className="flex items-start gap-2 text-sm">
+                <svg
+                  className={`w-4 h-4 mt-0.5 flex-shrink-0 ${STATUS_STYLES[check.status].icon}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  aria-label={STATUS_STYLES[check.status].label}
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={STATUS_ICON_PATHS[check.status]} />
+                </svg>
+                <span>
+                  <span className="font-medium text-slate-900">{check.label}</span>
+                  <span className="text-slate-600"> · {check.detail}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 pt-2 border-t border-slate-200 text-xs text-slate-500">
+            <span>{analysis.pageCount} page{analysis.pageCount === 1 ? '' : 's'}</span>
+            {analysis.fonts.length > 0 && <span>Fonts: {analysis.fonts.join(', ')}</span>}
+            {analysis.analyzedAt && (
+              <span>
+                Checked {formatDate(analysis.analyzedAt)}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { StoredResumeFile, getResumeThumbnail } from '../lib/resumeText';
+
+interface ResumeThumbnailProps {
+  file: StoredResumeFile;
+  onClick: () => void;
+}
+
+// First page of a resume, with the PDF icon while it renders or when it can't
+export default function ResumeThumbnail({ file, onClick }: ResumeThumbnailProps) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getResumeThumbnail(file)
+      .then((url) => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch((error) => {
+        console.error(`Error rendering thumbnail for ${file.fileName}:`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="w-16 h-20 flex items-center justify-center overflow-hidden rounded-md border border-slate-200 bg-white hover:border-blue-300 transition-colors focus-ring"
+      title="Preview resume"
+      aria-label="Preview resume"
+    >
+      {src ? (
+        // A data URL rendered in the browser, so there's nothing to optimize
+        <Image src={src} alt="" width={64} height={80} unoptimized className="w-full h-full object-cover object-top" />
+      ) : (
+        <svg className="w-10 h-10 text-red-500" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
+        </svg>
+      )}
+    </button>
+  );
+}
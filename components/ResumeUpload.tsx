@@ -1,13 +1,16 @@
 import { useState } from 'react';
-import { db, storage } from '../lib/firebase';
-import { collection, addDoc } from 'firebase/firestore';
+import { storage } from '../lib/firebase';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { useAuth } from './AuthProvider';
+import { resumeRepository } from '../lib/repositories';
+import { analyzeResumeFile } from '../lib/resumeText';
 
 interface ResumeUploadProps {
   onResumeUploaded?: () => void;
 }
 
 export default function ResumeUpload({ onResumeUploaded }: ResumeUploadProps) {
+  const { user } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [formData, setFormData] = useState({
@@ -61,21 +64,24 @@ export default function ResumeUpload({ onResumeUploaded }: ResumeUploadProps) {
       const timestamp = Date.now();
       const fileName = `${timestamp}_${formData.file.name}`;
       
-      // Upload file to Firebase Storage
-      const storageRef = ref(storage, `resumes/${fileName}`);
+      // Upload file to Firebase Storage under the user's own folder
+      const storagePath = `resumes/${user.uid}/${fileName}`;
+      const storageRef = ref(storage, storagePath);
       const snapshot = await uploadBytes(storageRef, formData.file);
       const downloadURL = await getDownloadURL(snapshot.ref);
 
+      // Read text, fonts and layout for the ATS readiness report
+      const analysis = await analyzeResumeFile(formData.file);
+
       // Save metadata to Firestore
-      await addDoc(collection(db, 'resumes'), {
+      await resumeRepository.create(user.uid, {
         name: formData.name.trim(),
         fileName: fileName,
+        storagePath: storagePath,
         originalFileName: formData.file.name,
         downloadURL: downloadURL,
         fileSize: formData.file.size,
-        uploadDate: new Date(),
-        createdAt: new Date(),
-        updatedAt: new Date()
+        analysis
       });
 
       // Reset form
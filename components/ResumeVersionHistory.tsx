@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { Application, ResumeVersion } from '../lib/domain';
+import { getResumeText } from '../lib/resumeText';
+import { formatVersionDate, formatVersionLabel, getApplicationVersion } from '../lib/resumeVersions';
+import { DiffLine, diffLines, summarizeDiff } from '../lib/textDiff';
+import TextDiff from './TextDiff';
+
+interface ResumeVersionHistoryProps {
+  versions: ResumeVersion[]; // One resume's versions, newest first
+  applications: Pick<Application, 'id' | 'resumeId' | 'resumeVersionId'>[];
+  onDownload: (downloadURL: string, fileName: string) => void;
+  onView: (version: ResumeVersion) => void;
+}
+
+type DiffState =
+  | { status: 'loading' }
+  | { status: 'ready'; lines: DiffLine[] }
+  | { status: 'failed' };
+
+// Every uploaded file of one resume, with how many applications were sent
+// with each and a text comparison between any two
+export default function ResumeVersionHistory({ versions, applications, onDownload, onView }: ResumeVersionHistoryProps) {
+  const [compare, setCompare] = useState<{ fromId: string; toId: string } | null>(null);
+  const [diff, setDiff] = useState<DiffState | null>(null);
+
+  const [latest] = versions;
+  const from = compare && versions.find(version => version.id === compare.fromId);
+  const to = compare && versions.find(version => version.id === compare.toId);
+
+  // Read both PDFs whenever the compared pair changes
+  useEffect(() => {
+    if (!from || !to) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    setDiff({ status: 'loading' });
+
+    Promise.all([getResumeText(from), getResumeText(to)])
+      .then(([before, after]) => {
+        if (!cancelled) setDiff({ status: 'ready', lines: diffLines(before, after) });
+      })
+      .catch((error) => {
+        console.error('Error comparing resume versions:', error);
+        if (!cancelled) setDiff({ status: 'failed' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  const getUsageCount = (version: ResumeVersion) =>
+    applications.filter(app => getApplicationVersion(app, versions)?.id === version.id).length;
+
+  const startComparing = (version: ResumeVersion) => {
+    const previous = versions[versions.indexOf(version) + 1];
+    setCompare(previous ? { fromId: previous.id, toId: version.id } : { fromId: version.id, toId: latest.id });
+  };
+
+  const versionSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="input-modern px-2 py-1 text-xs focus-ring"
+      aria-label={label}
+    >
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>
+          {formatVersionLabel(version.version)} · {formatVersionDate(version)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderDiff = () => {
+    if (diff?.status === 'loading') return <p className="text-sm text-slate-500">Reading both versions...</p>;
+    if (diff?.status === 'failed') {
+      return <p className="text-sm text-red-600">Couldn&apos;t read one of these versions. Check your connection and try again.</p>;
+    }
+    if (diff?.status !== 'ready') return null;
+
+    const { added, removed } = summarizeDiff(diff.lines);
+    return (
+      <>
+        <p className="text-xs text-slate-600">
+          <span className="text-emerald-700 font-medium">+{added}</span>{' '}
+          <span className="text-red-700 font-medium">−{removed}</span> lines
+        </p>
+        {added === 0 && removed === 0 ? (
+          <p className="text-sm text-slate-500">No text changes between these versions.</p>
+        ) : (
+          <TextDiff lines={diff.lines} />
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      <ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+        {versions.map((version) => {
+          const usageCount = getUsageCount(version);
+          return (
+            <li key={version.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm">
+              <span className="min-w-0">
+                <span className="font-semibold text-slate-900">{formatVersionLabel(version.version)}</span>
+                {version === latest && <span className="ml-2 text-xs font-medium text-emerald-700">Current</span>}
+                <span className="ml-2 text-xs text-slate-500">
+                  {version.originalFileName} · {formatVersionDate(version)} · {usageCount} application{usageCount === 1 ? '' : 's'}
+                </span>
+              </span>
+              <span className="flex gap-3 text-xs font-medium">
+                <button onClick={() => onDownload(version.downloadURL, version.originalFileName)} className="text-blue-700 hover:text-blue-800">
+                  Download
+                </button>
+                <button onClick={() => onView(version)} className="text-blue-700 hover:text-blue-800">
+                  View
+                </button>
+                <button onClick={() => startComparing(version)} className="text-blue-700 hover:text-blue-800">
+                  {versions.indexOf(version) === versions.length - 1 ? 'Compare with current' : 'Compare with previous'}
+                </button>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Version Diff */}
+      {compare && (
+        <div className="p-4 rounded-lg border border-slate-200 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+            {versionSelect(compare.fromId, fromId => setCompare({ ...compare, fromId }), 'Compare from version')}
+            <span>to</span>
+            {versionSelect(compare.toId, toId => setCompare({ ...compare, toId }), 'Compare to version')}
+            <button onClick={() => setCompare(null)} className="ml-auto text-slate-500 hover:text-slate-700 font-medium">
+              Close
+            </button>
+          </div>
+          {renderDiff()}
+        </div>
+      )}
+    </div>
+  );
+}
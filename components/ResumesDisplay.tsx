@@ -1,24 +1,25 @@
 import { useState, useEffect } from 'react';
-import { db, storage } from '../lib/firebase';
-import { collection, onSnapshot, query, orderBy, doc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { storage } from '../lib/firebase';
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
-
-interface Resume {
-  id: string;
-  name: string;
-  fileName: string;
-  originalFileName: string;
-  downloadURL: string;
-  fileSize: number;
-  uploadDate: any;
-}
+import { useAuth } from './AuthProvider';
+import { Resume, ResumeVersion } from '../lib/domain';
+import { formatDate } from '../lib/dates';
+import { resumeRepository } from '../lib/repositories';
+import { StoredResumeFile, analyzeResumeFile } from '../lib/resumeText';
+import { formatVersionLabel, getVersionsOfResume } from '../lib/resumeVersions';
+import PdfViewerModal from './PdfViewerModal';
+import ResumeReadiness from './ResumeReadiness';
+import ResumeThumbnail from './ResumeThumbnail';
+import ResumeVersionHistory from './ResumeVersionHistory';
 
 interface ResumesDisplayProps {
   refreshTrigger?: number;
-  applications?: Array<{id: string; resumeId?: string}>; // For usage count
+  applications?: Array<{id: string; resumeId?: string; resumeVersionId?: string | null}>; // For usage count
+  versions?: ResumeVersion[]; // Every resume's versions
 }
 
-export default function ResumesDisplay({ refreshTrigger, applications = [] }: ResumesDisplayProps) {
+export default function ResumesDisplay({ refreshTrigger, applications = [], versions = [] }: ResumesDisplayProps) {
+  const { user } = useAuth();
   const [resumes, setResumes] = useState<Resume[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingResumeId, setEditingResumeId] = useState<string | null>(null);
@@ -28,27 +29,23 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
   const [isReplacing, setIsReplacing] = useState(false);
   const [deletingResumeId, setDeletingResumeId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [historyResumeId, setHistoryResumeId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ file: StoredResumeFile; title: string } | null>(null);
 
   useEffect(() => {
-    const q = query(collection(db, 'resumes'), orderBy('uploadDate', 'desc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const resumeData: Resume[] = [];
-      snapshot.forEach((doc) => {
-        resumeData.push({
-          id: doc.id,
-          ...doc.data()
-        } as Resume);
-      });
-      setResumes(resumeData);
-      setLoading(false);
-    }, (error) => {
-      console.error('Error fetching resumes:', error);
-      setLoading(false);
-    });
+    if (!user) return;
+
+    const unsubscribe = resumeRepository.subscribe(
+      user.uid,
+      (resumeData) => {
+        setResumes(resumeData);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
 
     return () => unsubscribe();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, user]);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
@@ -58,16 +55,6 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const formatDate = (date: any): string => {
-    if (!date) return '';
-    const dateObj = date.toDate ? date.toDate() : new Date(date);
-    return dateObj.toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric'
-    });
-  };
-
   const handleDownload = (downloadURL: string, fileName: string) => {
     const link = document.createElement('a');
     link.href = downloadURL;
@@ -101,9 +88,8 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
     
     try {
       // Update resume name in Firestore
-      await updateDoc(doc(db, 'resumes', editingResumeId), {
-        name: editingName.trim(),
-        updatedAt: new Date()
+      await resumeRepository.update(editingResumeId, {
+        name: editingName.trim()
       });
       
       console.log('Resume name updated successfully');
@@ -162,28 +148,24 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
       const timestamp = Date.now();
       const fileName = `${timestamp}_${replacingFile.name}`;
       
-      // Upload new file to Firebase Storage
-      const storageRef = ref(storage, `resumes/${fileName}`);
+      // Upload new file to Firebase Storage under the user's own folder
+      const storagePath = `resumes/${user.uid}/${fileName}`;
+      const storageRef = ref(storage, storagePath);
       const snapshot = await uploadBytes(storageRef, replacingFile);
       const downloadURL = await getDownloadURL(snapshot.ref);
+      const analysis = await analyzeResumeFile(replacingFile);
 
-      // Update Firestore with new file info (keeping same name and ID)
-      await updateDoc(doc(db, 'resumes', replacingResumeId), {
+      // Add the new file as the next version (keeping same name and ID). The
+      // old file stays, since applications may have been sent with it.
+      await resumeRepository.addVersion(resumeToReplace, {
         fileName: fileName,
+        storagePath: storagePath,
         originalFileName: replacingFile.name,
         downloadURL: downloadURL,
         fileSize: replacingFile.size,
-        updatedAt: new Date()
+        analysis
       });
 
-      // Delete old file from storage
-      try {
-        await deleteObject(ref(storage, `resumes/${resumeToReplace.fileName}`));
-      } catch (deleteError) {
-        console.warn('Could not delete old file:', deleteError);
-        // Continue anyway - the important part is the new file is uploaded
-      }
-
       console.log('Resume file replaced successfully');
       setReplacingResumeId(null);
       setReplacingFile(null);
@@ -214,15 +196,21 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
     setIsDeleting(true);
 
     try {
-      // Delete from Firestore first
-      await deleteDoc(doc(db, 'resumes', deletingResumeId));
-
-      // Delete file from storage
-      try {
-        await deleteObject(ref(storage, `resumes/${resumeToDelete.fileName}`));
-      } catch (deleteError) {
-        console.warn('Could not delete file from storage:', deleteError);
-        // Continue anyway - the important part is the document is deleted
+      // Delete from Firestore first, with every version
+      const resumeVersions = getVersionsOfResume(versions, resumeToDelete.id);
+      await resumeRepository.removeWithVersions(resumeToDelete, resumeVersions);
+
+      // Delete each version's file from storage; the current one is on the resume too.
+      // Files without a storagePath are still in the legacy flat layout, which the
+      // rules close to the browser; the 004 migration moves them.
+      const storagePaths = new Set([resumeToDelete, ...resumeVersions].map(file => file.storagePath).filter(Boolean));
+      for (const storagePath of Array.from(storagePaths)) {
+        try {
+          await deleteObject(ref(storage, storagePath));
+        } catch (deleteError) {
+          console.warn('Could not delete file from storage:', deleteError);
+          // Continue anyway - the important part is the document is deleted
+        }
       }
 
       console.log('Resume deleted successfully');
@@ -275,11 +263,9 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
         >
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4 flex-1 min-w-0">
-              {/* PDF Icon */}
+              {/* Thumbnail */}
               <div className="flex-shrink-0">
-                <svg className="w-10 h-10 text-red-500" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
-                </svg>
+                <ResumeThumbnail file={resume} onClick={() => setPreview({ file: resume, title: resume.name })} />
               </div>
 
               {/* Resume Info */}
@@ -328,6 +314,18 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
                   <span>{formatFileSize(resume.fileSize)}</span>
                   <span>•</span>
                   <span>Uploaded {formatDate(resume.uploadDate)}</span>
+                  {resume.versionCount > 1 && (
+                    <>
+                      <span>•</span>
+                      <button
+                        onClick={() => setHistoryResumeId(historyResumeId === resume.id ? null : resume.id)}
+                        className="font-medium text-blue-700 hover:text-blue-800"
+                        aria-expanded={historyResumeId === resume.id}
+                      >
+                        {formatVersionLabel(resume.versionCount)} · {historyResumeId === resume.id ? 'Hide history' : 'History'}
+                      </button>
+                    </>
+                  )}
                   {/* Usage Count */}
                   <span>•</span>
                   <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
@@ -341,6 +339,19 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
                     {getUsageCount(resume.id)} applications
                   </span>
                 </div>
+
+                {/* ATS Readiness */}
+                <ResumeReadiness resume={resume} />
+
+                {/* Version History */}
+                {historyResumeId === resume.id && (
+                  <ResumeVersionHistory
+                    versions={getVersionsOfResume(versions, resume.id)}
+                    applications={applications}
+                    onDownload={handleDownload}
+                    onView={version => setPreview({ file: version, title: `${resume.name} · ${formatVersionLabel(version.version)}` })}
+                  />
+                )}
               </div>
             </div>
 
@@ -373,7 +384,7 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
 
               {/* View Button */}
               <button
-                onClick={() => window.open(resume.downloadURL, '_blank')}
+                onClick={() => setPreview({ file: resume, title: resume.name })}
                 className="inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
                 title="View Resume"
               >
@@ -568,6 +579,11 @@ export default function ResumesDisplay({ refreshTrigger, applications = [] }: Re
         </div>
       </div>
     )}
+
+    {/* PDF Preview */}
+    {preview && (
+      <PdfViewerModal file={preview.file} title={preview.title} onClose={() => setPreview(null)} />
+    )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { useAuth } from './AuthProvider';
+import { usePipeline } from './PipelineProvider';
+import { SavedView } from '../lib/domain';
+import { savedViewRepository } from '../lib/repositories';
+import { DEADLINE_OPTIONS, SORT_OPTIONS, toSavedViewFilters } from '../lib/applicationFilters';
+import { DashboardState, isSavedViewActive } from '../lib/dashboardUrl';
+
+interface SavedViewsSidebarProps {
+  savedViews: SavedView[];
+  dashboardState: DashboardState;
+  onApplyView: (savedView: SavedView) => void;
+}
+
+const MAX_SAVED_VIEWS = 50;
+const MAX_NAME_LENGTH = 80;
+
+const VIEW_LABELS = { board: 'Board', list: 'List', map: 'Map', analytics: 'Analytics' };
+
+export default function SavedViewsSidebar({ savedViews, dashboardState, onApplyView }: SavedViewsSidebarProps) {
+  const { user } = useAuth();
+  const { getStatusOption } = usePipeline();
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // One-line summary of what a saved view shows, e.g. "Board · Interview · 14+ days"
+  const describeView = (savedView: SavedView) => {
+    const { company, status, sortBy, staleDays, tag, fieldFilters, deadline } = savedView.filters;
+    const fieldFilterCount = Object.keys(fieldFilters).length;
+    return [
+      VIEW_LABELS[savedView.view],
+      status && getStatusOption(status).label,
+      company && `"${company}"`,
+      tag && `#${tag}`,
+      deadline && DEADLINE_OPTIONS.find(option => option.value === deadline)?.label,
+      fieldFilterCount > 0 && `${fieldFilterCount} field filter${fieldFilterCount === 1 ? '' : 's'}`,
+      staleDays && `${staleDays}+ days in stage`,
+      sortBy !== 'manual' && SORT_OPTIONS.find(option => option.value === sortBy)?.label
+    ].filter(Boolean).join(' · ');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!user || !trimmed) return;
+
+    setIsSaving(true);
+    try {
+      await savedViewRepository.create(user.uid, {
+        name: trimmed,
+        view: dashboardState.view,
+        filters: toSavedViewFilters(dashboardState.filters)
+      });
+      setName('');
+      setIsNaming(false);
+    } catch (error: any) {
+      console.error('Error saving view:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. Your view will be saved automatically when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to save view.');
+      } else {
+        alert('Failed to save view. Please check your connection and try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (savedView: SavedView) => {
+    if (!window.confirm(`Delete the saved view "${savedView.name}"?`)) return;
+
+    try {
+      await savedViewRepository.remove(savedView.id);
+    } catch (error: any) {
+      console.error('Error deleting view:', error);
+
+      if (error.code === 'unavailable' || error.message?.includes('transport errored')) {
+        alert('Connection lost. The view will be deleted when connection is restored.');
+      } else if (error.code === 'permission-denied') {
+        alert('Permission denied. Unable to delete view.');
+      } else {
+        alert('Failed to delete view. Please check your connection and try again.');
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-slate-200 shadow-sm">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500 mb-3">
+        Saved Views
+      </h3>
+
+      {/* Saved View List */}
+      {savedViews.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-3">
+          Save the current filters, sort and view to come back to them in one click.
+        </p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {savedViews.map((savedView) => {
+            const isActive = isSavedViewActive(savedView, dashboardState);
+            return (
+              <li key={savedView.id} className="group flex items-start gap-1">
+                <button
+                  type="button"
+                  onClick={() => onApplyView(savedView)}
+                  className={`flex-1 min-w-0 text-left px-3 py-2 rounded-lg transition-colors ${
+                    isActive ? 'bg-blue-50 text-blue-700' : 'text-slate-700 hover:bg-slate-50'
+                  }`}
+                  aria-current={isActive ? 'true' : undefined}
+                >
+                  <span className="block text-sm font-medium truncate">{savedView.name}</span>
+                  <span className="block text-xs text-slate-500 truncate">{describeView(savedView)}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(savedView)}
+                  className="px-2 py-2 text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  aria-label={`Delete ${savedView.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Save Current View */}
+      {isNaming ? (
+        <form onSubmit={handleSave} className="space-y-2">
+          <input
+            type="text"
+            value={name}
+            maxLength={MAX_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setIsNaming(false)}
+            placeholder="e.g. Active interviews"
+            className="input-modern w-full px-3 py-2 text-sm focus-ring"
+            aria-label="Saved view name"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!name.trim() || isSaving}
+              className="btn-primary flex-1 px-3 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsNaming(false)}
+              className="btn-secondary px-3 py-2 text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsNaming(true)}
+          disabled={savedViews.length >= MAX_SAVED_VIEWS}
+          className="btn-secondary w-full px-3 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + Save current view
+        </button>
+      )}
+    </div>
+  );
+}
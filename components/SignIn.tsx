@@ -0,0 +1,125 @@
+import { useState } from 'react';
+
+interface SignInProps {
+  error?: string | null;
+  onGoogleSignIn: () => Promise<void>;
+  onSendEmailLink: (email: string) => Promise<void>;
+}
+
+export default function SignIn({ error, onGoogleSignIn, onSendEmailLink }: SignInProps) {
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [emailError, setEmailError] = useState<string | null>(null);
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSending(true);
+    setEmailError(null);
+    try {
+      await onSendEmailLink(email.trim());
+      setLinkSent(true);
+    } catch (err: any) {
+      console.error('Error sending sign-in link:', err);
+
+      if (err.code === 'auth/invalid-email') {
+        setEmailError('Please enter a valid email address.');
+      } else {
+        setEmailError('Failed to send sign-in link. Please try again.');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md border border-slate-200 shadow-xl">
+        {/* Header */}
+        <div className="px-8 py-6 border-b border-slate-200 bg-gradient-to-r from-blue-50 to-slate-50 rounded-t-2xl">
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">GradTracker</h1>
+          <p className="text-lg mt-2 text-slate-600">
+            Sign in to manage your job applications
+          </p>
+        </div>
+
+        <div className="px-8 py-8 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {/* Google Sign-in */}
+          <button
+            onClick={onGoogleSignIn}
+            className="btn-secondary w-full px-6 py-3 text-base font-semibold flex items-center justify-center gap-3"
+          >
+            <svg className="w-5 h-5" viewBox="0 0 24 24">
+              <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" />
+              <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" />
+              <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" />
+              <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" />
+            </svg>
+            Continue with Google
+          </button>
+
+          {/* Divider */}
+          <div className="flex items-center gap-4">
+            <div className="flex-1 border-t border-slate-200"></div>
+            <span className="text-sm text-slate-500">or</span>
+            <div className="flex-1 border-t border-slate-200"></div>
+          </div>
+
+          {/* Email Link Sign-in */}
+          {linkSent ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-green-800">
+                Check your inbox
+              </p>
+              <p className="text-sm text-green-700 mt-1">
+                We sent a sign-in link to {email}. Open it on this device to continue.
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleEmailSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="signin-email" className="block text-sm font-semibold mb-3 text-slate-900">
+                  Email address
+                </label>
+                <input
+                  type="email"
+                  id="signin-email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="input-modern w-full px-4 py-3 text-lg focus-ring"
+                  placeholder="you@example.com"
+                />
+                {emailError && (
+                  <p className="text-sm text-red-600 mt-2">{emailError}</p>
+                )}
+              </div>
+              <button
+                type="submit"
+                disabled={isSending || !email.trim()}
+                className="btn-primary w-full px-6 py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSending ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    Sending link...
+                  </span>
+                ) : (
+                  'Email me a sign-in link'
+                )}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
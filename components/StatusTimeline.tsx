@@ -0,0 +1,73 @@
+import React from 'react';
+import { Application, StatusChangeSource } from '../lib/domain';
+import { DATE_TIME_FORMAT, formatDate } from '../lib/dates';
+import { getStatusTimeline } from '../lib/statusHistory';
+import { usePipeline } from './PipelineProvider';
+
+interface StatusTimelineProps {
+  application: Application;
+}
+
+const SOURCE_LABELS: Record<StatusChangeSource, string> = {
+  created: 'Added',
+  edit: 'Edited',
+  board: 'Moved on board',
+  table: 'Edited in list',
+  pipeline: 'Stage removed from pipeline',
+  bulk: 'Bulk update'
+};
+
+export default function StatusTimeline({ application }: StatusTimelineProps) {
+  const timeline = getStatusTimeline(application);
+  const { getStatusOption } = usePipeline();
+
+  // Time spent in the previous stage, e.g. "after 3 days"
+  const formatElapsed = (fromMillis: number, toMillis: number) => {
+    const days = Math.floor((toMillis - fromMillis) / (1000 * 60 * 60 * 24));
+    if (days <= 0) return 'same day';
+    return days === 1 ? 'after 1 day' : `after ${days} days`;
+  };
+
+  if (timeline.length === 0) {
+    return (
+      <p className="text-sm text-slate-500">No status changes recorded yet.</p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l-2 border-slate-200 ml-2 space-y-6">
+      {timeline.map((change, index) => {
+        const toStatus = getStatusOption(change.to);
+        const fromStatus = change.from ? getStatusOption(change.from) : null;
+        const previous = timeline[index - 1];
+
+        return (
+          <li key={`${change.to}-${index}`} className="ml-6">
+            {/* Timeline Dot */}
+            <span className={`absolute -left-[9px] w-4 h-4 rounded-full border-2 border-white ${toStatus.dotColor}`}></span>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {fromStatus && (
+                <>
+                  <span className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold ${fromStatus.bgColor} ${fromStatus.textColor}`}>
+                    {fromStatus.label}
+                  </span>
+                  <span className="text-slate-400">→</span>
+                </>
+              )}
+              <span className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold ${toStatus.bgColor} ${toStatus.textColor}`}>
+                {toStatus.label}
+              </span>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              {SOURCE_LABELS[change.source] || 'Updated'} · {formatDate(change.changedAt, DATE_TIME_FORMAT)}
+              {previous && change.changedAt && previous.changedAt && (
+                <> · {formatElapsed(previous.changedAt.toMillis(), change.changedAt.toMillis())}</>
+              )}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
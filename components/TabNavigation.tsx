@@ -1,4 +1,5 @@
 import { ReactNode } from 'react';
+import { useAuth } from './AuthProvider';
 
 interface Tab {
   id: string;
@@ -11,20 +12,40 @@ interface TabNavigationProps {
   tabs: Tab[];
   activeTab: string;
   onTabChange: (tabId: string) => void;
+  // Rendered in the header between the title and the account controls
+  search?: ReactNode;
 }
 
-export default function TabNavigation({ tabs, activeTab, onTabChange }: TabNavigationProps) {
+export default function TabNavigation({ tabs, activeTab, onTabChange, search }: TabNavigationProps) {
+  const { user, signOut } = useAuth();
+
   return (
     <div className="w-full bg-white border-b border-slate-200" style={{ boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.05)' }}>
       {/* Header Section */}
       <div className="max-w-7xl mx-auto px-6 py-6 border-b border-slate-100">
-        <div className="flex items-center justify-between">
-          <div>
+        <div className="flex items-center justify-between gap-6">
+          <div className="flex-shrink-0">
             <h1 className="text-2xl font-bold text-slate-900 tracking-tight">GradTracker</h1>
             <p className="text-sm text-slate-600 mt-1">Job Application Management Platform</p>
           </div>
-          <div className="text-xs text-slate-500 font-medium">
-            Version 1.0.0
+          {search && <div className="flex-1 flex justify-center">{search}</div>}
+          <div className="flex items-center gap-4 flex-shrink-0">
+            <div className="text-xs text-slate-500 font-medium">
+              Version 1.0.0
+            </div>
+            {user && (
+              <div className="flex items-center gap-3 pl-4 border-l border-slate-200">
+                <span className="text-sm text-slate-700 font-medium truncate max-w-[200px]" title={user.email || undefined}>
+                  {user.displayName || user.email}
+                </span>
+                <button
+                  onClick={signOut}
+                  className="btn-secondary px-3 py-2 text-sm font-medium"
+                >
+                  Sign out
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,27 @@
+import { DiffLine } from '../lib/textDiff';
+
+interface TextDiffProps {
+  lines: DiffLine[];
+}
+
+const DIFF_LINE_STYLES = {
+  same: 'text-slate-600',
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-red-50 text-red-700 line-through'
+};
+
+const DIFF_LINE_MARKERS = { same: ' ', added: '+', removed: '−' };
+
+// Line-by-line comparison of two texts from diffLines
+export default function TextDiff({ lines }: TextDiffProps) {
+  return (
+    <div className="max-h-80 overflow-y-auto rounded-md border border-slate-100 font-mono text-xs">
+      {lines.map((line, index) => (
+        <div key={index} className={`flex gap-2 px-2 py-0.5 ${DIFF_LINE_STYLES[line.type]}`}>
+          <span className="select-none w-3 shrink-0">{DIFF_LINE_MARKERS[line.type]}</span>
+          <span className="whitespace-pre-wrap break-words">{line.text || ' '}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
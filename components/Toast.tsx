@@ -0,0 +1,53 @@
+import React, { useEffect } from 'react';
+
+interface ToastProps {
+  message: string;
+  tone?: 'info' | 'error';
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number; // ms before the toast closes itself
+}
+
+export default function Toast({
+  message,
+  tone = 'info',
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 6000
+}: ToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, duration, onDismiss]);
+
+  return (
+    <div
+      role={tone === 'error' ? 'alert' : 'status'}
+      className={`fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-5 py-3 rounded-xl shadow-xl text-sm font-medium ${
+        tone === 'error' ? 'bg-red-600 text-white' : 'bg-slate-900 text-white'
+      }`}
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={() => {
+            onAction();
+            onDismiss();
+          }}
+          className="font-semibold underline underline-offset-2 hover:opacity-80"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        className="text-lg leading-none opacity-70 hover:opacity-100"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
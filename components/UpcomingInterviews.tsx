@@ -0,0 +1,54 @@
+import React from 'react';
+import { Application, INTERVIEW_TYPES, Interview } from '../lib/domain';
+import { formatInterviewDay, formatInterviewTime } from '../lib/interviews';
+
+interface UpcomingInterviewsProps {
+  interviews: Interview[]; // Upcoming interviews, soonest first
+  applications: Application[];
+  onApplicationOpen: (application: Application) => void;
+}
+
+const MAX_SHOWN = 8;
+
+// Strip of the next interviews across all applications, shown above the board
+export default function UpcomingInterviews({ interviews, applications, onApplicationOpen }: UpcomingInterviewsProps) {
+  const allItems = interviews
+    .map(interview => ({ interview, application: applications.find(app => app.id === interview.applicationId) }))
+    .filter(item => item.application);
+  const items = allItems.slice(0, MAX_SHOWN);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl p-4 mb-6 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-900">Upcoming interviews</h3>
+        {allItems.length > MAX_SHOWN && (
+          <span className="text-xs text-slate-500">Showing the next {MAX_SHOWN} of {allItems.length}</span>
+        )}
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {items.map(({ interview, application }) => {
+          const scheduledAt = interview.scheduledAt.toDate();
+          const day = formatInterviewDay(scheduledAt, interview.timeZone);
+          return (
+            <button
+              key={interview.id}
+              type="button"
+              onClick={() => onApplicationOpen(application)}
+              className="flex-shrink-0 w-60 text-left p-3 rounded-lg border border-purple-200 bg-purple-50/50 hover:bg-purple-50 focus-ring"
+            >
+              <p className={`text-xs font-semibold ${day === 'Today' ? 'text-red-600' : 'text-purple-700'}`}>{day}</p>
+              <p className="text-sm font-semibold text-slate-900 mt-1 truncate">{application.company}</p>
+              <p className="text-xs text-slate-600 truncate">{application.jobTitle}</p>
+              <p className="text-xs text-slate-500 mt-2 truncate">
+                {interview.round} · {INTERVIEW_TYPES.find(option => option.value === interview.type)?.label}
+              </p>
+              <p className="text-xs text-slate-500 truncate">{formatInterviewTime(scheduledAt, interview.timeZone)}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import React from 'react';
+import { ApplicationsView } from '../lib/domain';
 
 interface ViewSwitcherProps {
-  currentView: 'board' | 'list' | 'map' | 'analytics';
-  onViewChange: (view: 'board' | 'list' | 'map' | 'analytics') => void;
+  currentView: ApplicationsView;
+  onViewChange: (view: ApplicationsView) => void;
   applicationCount: number;
+  shownCount?: number; // Applications left after filters; defaults to all of them
 }
 
-export default function ViewSwitcher({ currentView, onViewChange, applicationCount }: ViewSwitcherProps) {
+export default function ViewSwitcher({ currentView, onViewChange, applicationCount, shownCount = applicationCount }: ViewSwitcherProps) {
   const views = [
     {
       id: 'board' as const,
@@ -55,7 +57,7 @@ export default function ViewSwitcher({ currentView, onViewChange, applicationCou
     <div className="flex items-center justify-between mb-6">
       <div className="flex items-center space-x-4">
         <h3 className="text-lg font-semibold text-slate-900">
-          Applications ({applicationCount})
+          Applications ({shownCount === applicationCount ? applicationCount : `${shownCount} of ${applicationCount} shown`})
         </h3>
         
         {/* View Toggle */}
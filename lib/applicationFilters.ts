@@ -0,0 +1,185 @@
+// lib/applicationFilters.ts
+// The single filter + sort pipeline behind every Applications view
+import { Application, ApplicationStatus, CustomFieldDefinition, PipelineStage, SavedViewFilters } from './domain';
+import { matchesFieldFilter } from './customFields';
+import { isClosingThisWeek, isPastDeadline } from './deadlines';
+import { getDaysInStage } from './statusHistory';
+import { hasTag } from './tags';
+
+export interface FilterState extends SavedViewFilters {
+  // Explicit selection, e.g. from clicking a map cluster, and how to describe it
+  applicationIds: string[];
+  selectionLabel: string;
+  showArchived: boolean;
+}
+
+export const DEFAULT_FILTERS: FilterState = {
+  company: '',
+  status: '',
+  sortBy: 'manual',
+  staleDays: null,
+  tag: '',
+  fieldFilters: {},
+  deadline: '',
+  applicationIds: [],
+  selectionLabel: '',
+  showArchived: false
+};
+
+export const SORT_OPTIONS = [
+  { value: 'manual', label: 'Board Order' },
+  { value: 'newest', label: 'Newest First' },
+  { value: 'oldest', label: 'Oldest First' },
+  { value: 'company-asc', label: 'Company A-Z' },
+  { value: 'company-desc', label: 'Company Z-A' },
+  { value: 'status', label: 'Status' },
+  { value: 'deadline', label: 'Deadline (Soonest)' }
+];
+
+export const STALE_OPTIONS = [
+  { value: '', label: 'Any time in stage' },
+  { value: '7', label: 'In stage over 7 days' },
+  { value: '14', label: 'In stage over 14 days' },
+  { value: '30', label: 'In stage over 30 days' },
+  { value: '60', label: 'In stage over 60 days' }
+];
+
+export const DEADLINE_OPTIONS = [
+  { value: '', label: 'Any deadline' },
+  { value: 'this-week', label: 'Closing this week' },
+  { value: 'overdue', label: 'Past deadline' }
+];
+
+// Cards without a stored boardOrder keep the old newest-first order
+export const getBoardOrder = (app: Application) => app.boardOrder ?? -(app.createdAt?.toMillis() || 0);
+
+const createdSeconds = (app: Application) => app.createdAt?.seconds || 0;
+
+// YYYY-MM-DD sorts as text; applications without a deadline go last
+const compareDeadlines = (a: Application, b: Application) =>
+  a.deadline && b.deadline ? a.deadline.localeCompare(b.deadline) : Number(!a.deadline) - Number(!b.deadline);
+
+export function filterApplications(
+  applications: Application[],
+  filters: FilterState,
+  stages: PipelineStage[],
+  customFields: CustomFieldDefinition[] = []
+): Application[] {
+  let filtered = filters.showArchived ? applications : applications.filter(app => !app.archived);
+
+  // Filter by company
+  if (filters.company) {
+    const company = filters.company.toLowerCase();
+    filtered = filtered.filter(app => app.company.toLowerCase().includes(company));
+  }
+
+  // Filter by status
+  if (filters.status) {
+    filtered = filtered.filter(app => app.status === filters.status);
+  }
+
+  // Filter to applications that haven't moved stage recently
+  if (filters.staleDays) {
+    const now = Date.now();
+    filtered = filtered.filter(app => getDaysInStage(app, now) > filters.staleDays);
+  }
+
+  // Filter to unsubmitted applications closing soon or already closed
+  if (filters.deadline) {
+    const now = Date.now();
+    const matchesDeadline = filters.deadline === 'overdue' ? isPastDeadline : isClosingThisWeek;
+    filtered = filtered.filter(app => matchesDeadline(app, stages, now));
+  }
+
+  // Filter by tag
+  if (filters.tag) {
+    filtered = filtered.filter(app => hasTag(app.tags, filters.tag));
+  }
+
+  // Filter by custom field values; filters on since-deleted fields are ignored
+  Object.entries(filters.fieldFilters).forEach(([fieldId, value]) => {
+    const field = customFields.find(candidate => candidate.id === fieldId);
+    if (!field || !value) return;
+    filtered = filtered.filter(app => matchesFieldFilter(field, app.customFields?.[fieldId], value));
+  });
+
+  // Filter to an explicit selection
+  if (filters.applicationIds.length > 0) {
+    const ids = new Set(filters.applicationIds);
+    filtered = filtered.filter(app => ids.has(app.id));
+  }
+
+  return filtered;
+}
+
+// Position in the pipeline; statuses missing from it sort after every stage
+const stageIndex = (stageOrder: ApplicationStatus[], status: ApplicationStatus) => {
+  const index = stageOrder.indexOf(status);
+  return index === -1 ? stageOrder.length : index;
+};
+
+export function sortApplications(
+  applications: Application[],
+  sortBy: string,
+  stageOrder: ApplicationStatus[]
+): Application[] {
+  return [...applications].sort((a, b) => {
+    switch (sortBy) {
+      case 'manual':
+        return getBoardOrder(a) - getBoardOrder(b);
+      case 'oldest':
+        return createdSeconds(a) - createdSeconds(b);
+      case 'company-asc':
+        return a.company.localeCompare(b.company);
+      case 'company-desc':
+        return b.company.localeCompare(a.company);
+      case 'status':
+        // Pipeline order, newest first within a stage
+        return stageIndex(stageOrder, a.status) - stageIndex(stageOrder, b.status)
+          || createdSeconds(b) - createdSeconds(a);
+      case 'deadline':
+        return compareDeadlines(a, b) || createdSeconds(b) - createdSeconds(a);
+      case 'newest':
+      default:
+        return createdSeconds(b) - createdSeconds(a);
+    }
+  });
+}
+
+export function applyFilters(
+  applications: Application[],
+  filters: FilterState,
+  stages: PipelineStage[],
+  customFields: CustomFieldDefinition[] = []
+): Application[] {
+  return sortApplications(
+    filterApplications(applications, filters, stages, customFields),
+    filters.sortBy,
+    stages.map(stage => stage.id)
+  );
+}
+
+export function hasActiveFilters(filters: FilterState): boolean {
+  return Boolean(
+    filters.company
+    || filters.status
+    || filters.staleDays
+    || filters.tag
+    || filters.deadline
+    || Object.keys(filters.fieldFilters).length > 0
+    || filters.applicationIds.length > 0
+  );
+}
+
+// The part of the filters a saved view stores; explicit selections are left out
+export function toSavedViewFilters(filters: FilterState): SavedViewFilters {
+  return {
+    company: filters.company,
+    status: filters.status,
+    sortBy: filters.sortBy,
+    staleDays: filters.staleDays,
+    tag: filters.tag,
+    fieldFilters: filters.fieldFilters,
+    deadline: filters.deadline
+  };
+}
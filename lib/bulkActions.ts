@@ -0,0 +1,115 @@
+// lib/bulkActions.ts
+// Turns a bulk action on selected applications into the writes that apply it
+// and the writes that undo it, restoring each field to its previous value.
+import { Application, ApplicationStatus } from './domain';
+import { ApplicationRelated, ApplicationWrite } from './repositories';
+import { createStatusChange } from './statusHistory';
+import { MAX_TAGS, hasTag, mergeTags } from './tags';
+
+export type BulkAction =
+  | { type: 'status'; status: ApplicationStatus }
+  | { type: 'resume'; resumeId: string | null; resumeVersionId: string | null }
+  | { type: 'hiringManager'; hiringManagerId: string | null }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'archive'; archived: boolean }
+  | { type: 'delete' };
+
+export interface BulkPlan {
+  writes: ApplicationWrite[];
+  undo: ApplicationWrite[];
+  skipped: number; // Applications left alone because the change would break a limit
+}
+
+// Adding tags past the rule limit would fail the whole batch, so those
+// applications are skipped rather than given only some of the tags
+const exceedsTagLimit = (app: Application, tags: string[]) =>
+  (app.tags || []).length + tags.filter(tag => !hasTag(app.tags, tag)).length > MAX_TAGS;
+
+// Field values to write for one application, or null when it's already there
+function getChanges(app: Application, action: BulkAction): { next: Record<string, unknown>; previous: Record<string, unknown> } | null {
+  switch (action.type) {
+    case 'status':
+      if (app.status === action.status) return null;
+      return {
+        next: {
+          status: action.status,
+          statusHistory: [...(app.statusHistory || []), createStatusChange(app.status, action.status, 'bulk')]
+        },
+        previous: { status: app.status, statusHistory: app.statusHistory || [] }
+      };
+    case 'resume':
+      if ((app.resumeId || null) === action.resumeId) return null;
+      return {
+        next: { resumeId: action.resumeId, resumeVersionId: action.resumeVersionId },
+        previous: { resumeId: app.resumeId || null, resumeVersionId: app.resumeVersionId || null }
+      };
+    case 'hiringManager':
+      if ((app.hiringManagerId || null) === action.hiringManagerId) return null;
+      return {
+        next: { hiringManagerId: action.hiringManagerId },
+        previous: { hiringManagerId: app.hiringManagerId || null }
+      };
+    case 'addTags': {
+      const tags = mergeTags(app.tags || [], action.tags);
+      if (tags.length === (app.tags || []).length) return null;
+      return { next: { tags }, previous: { tags: app.tags || [] } };
+    }
+    case 'archive':
+      if (Boolean(app.archived) === action.archived) return null;
+      return { next: { archived: action.archived }, previous: { archived: Boolean(app.archived) } };
+    default:
+      return null;
+  }
+}
+
+// The user's related documents that belong to one application
+const getRelated = (related: ApplicationRelated, applicationId: string): ApplicationRelated => ({
+  interviews: related.interviews.filter(interview => interview.applicationId === applicationId),
+  descriptionSnapshots: related.descriptionSnapshots.filter(snapshot => snapshot.applicationId === applicationId),
+  offers: related.offers.filter(offer => offer.applicationId === applicationId)
+});
+
+// `related` holds all of the user's related documents; deletes take each
+// application's along and undo puts them back
+export function planBulkAction(applications: Application[], action: BulkAction, related: ApplicationRelated): BulkPlan {
+  if (action.type === 'delete') {
+    const deletes = applications.map(app => ({ app, records: getRelated(related, app.id) }));
+    return {
+      writes: deletes.map(({ app, records }) => ({ type: 'delete', id: app.id, related: records })),
+      undo: deletes.map(({ app, records }) => ({ type: 'restore', application: app, related: records })),
+      skipped: 0
+    };
+  }
+
+  const plan: BulkPlan = { writes: [], undo: [], skipped: 0 };
+  applications.forEach((app) => {
+    if (action.type === 'addTags' && exceedsTagLimit(app, action.tags)) {
+      plan.skipped++;
+      return;
+    }
+    const changes = getChanges(app, action);
+    if (!changes) return;
+    plan.writes.push({ type: 'update', id: app.id, data: changes.next });
+    plan.undo.push({ type: 'update', id: app.id, data: changes.previous });
+  });
+  return plan;
+}
+
+// Past-tense summary for the undo toast, e.g. "Archived 12 applications"
+export function describeBulkAction(action: BulkAction, count: number, targetLabel = ''): string {
+  const applications = `${count} application${count === 1 ? '' : 's'}`;
+  switch (action.type) {
+    case 'status':
+      return `Moved ${applications} to ${targetLabel}`;
+    case 'resume':
+      return action.resumeId ? `Assigned ${targetLabel} to ${applications}` : `Removed the resume from ${applications}`;
+    case 'hiringManager':
+      return action.hiringManagerId ? `Linked ${targetLabel} to ${applications}` : `Unlinked contacts from ${applications}`;
+    case 'addTags':
+      return `Tagged ${applications}`;
+    case 'archive':
+      return `${action.archived ? 'Archived' : 'Unarchived'} ${applications}`;
+    case 'delete':
+      return `Deleted ${applications}`;
+  }
+}
@@ -0,0 +1,153 @@
+// lib/converters.ts
+// Firestore converters that turn raw documents into the domain types in lib/domain.ts
+import {
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions
+} from 'firebase/firestore';
+import {
+  APPLICATIONS_VIEWS,
+  Application,
+  CUSTOM_FIELD_TYPES,
+  CustomFieldDefinition,
+  DEADLINE_FILTERS,
+  DescriptionSnapshot,
+  FieldSettings,
+  FollowUpReminder,
+  HiringManager,
+  Interview,
+  Offer,
+  OfferSettings,
+  PAY_PERIODS,
+  Pipeline,
+  PipelineStage,
+  Resume,
+  ResumeVersion,
+  STAGE_KINDS,
+  SavedView,
+  TagDefinition,
+  WORK_MODES,
+  normalizeStatus
+} from './domain';
+
+function createConverter<T extends { id: string }>(
+  normalize: (data: DocumentData) => DocumentData = (data) => data
+): FirestoreDataConverter<T> {
+  return {
+    toFirestore(model: T): DocumentData {
+      // The document id lives in the path, never in the document body
+      const { id: _id, ...data } = model as T & DocumentData;
+      return data;
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): T {
+      // Estimate pending serverTimestamp() values so freshly written documents
+      // sort correctly before the server acknowledges them
+      const data = snapshot.data({ ...options, serverTimestamps: 'estimate' });
+      return { id: snapshot.id, ...normalize(data) } as T;
+    }
+  };
+}
+
+export const applicationConverter = createConverter<Application>((data) => ({
+  ...data,
+  status: normalizeStatus(data.status),
+  statusHistory: Array.isArray(data.statusHistory)
+    ? data.statusHistory.map((change: DocumentData) => ({
+        ...change,
+        from: change.from ? normalizeStatus(change.from) : null,
+        to: normalizeStatus(change.to)
+      }))
+    : []
+}));
+
+export const resumeConverter = createConverter<Resume>();
+
+export const resumeVersionConverter = createConverter<ResumeVersion>();
+
+export const hiringManagerConverter = createConverter<HiringManager>();
+
+export const followUpReminderConverter = createConverter<FollowUpReminder>();
+
+export const interviewConverter = createConverter<Interview>((data) => ({
+  ...data,
+  interviewerIds: Array.isArray(data.interviewerIds) ? data.interviewerIds : [],
+  outcome: data.outcome || 'pending'
+}));
+
+export const descriptionSnapshotConverter = createConverter<DescriptionSnapshot>((data) => ({
+  ...data,
+  content: data.content || '',
+  format: data.format === 'html' ? 'html' : 'text'
+}));
+
+export const offerConverter = createConverter<Offer>((data) => ({
+  ...data,
+  currency: data.currency || 'USD',
+  baseSalary: typeof data.baseSalary === 'number' ? data.baseSalary : 0,
+  payPeriod: PAY_PERIODS.some(period => period.value === data.payPeriod) ? data.payPeriod : 'year',
+  vestingSchedule: Array.isArray(data.vestingSchedule) ? data.vestingSchedule : [],
+  workMode: WORK_MODES.some(mode => mode.value === data.workMode) ? data.workMode : 'onsite',
+  decision: data.decision || 'pending',
+  factorScores: data.factorScores || {}
+}));
+
+export const offerSettingsConverter = createConverter<OfferSettings>((data) => ({
+  ...data,
+  factorWeights: data.factorWeights || {}
+}));
+
+// Fill in anything an older or hand-edited pipeline document is missing
+export const pipelineConverter = createConverter<Pipeline>((data) => ({
+  ...data,
+  stages: Array.isArray(data.stages)
+    ? data.stages
+        .filter((stage: DocumentData) => typeof stage?.id === 'string' && stage.id)
+        .map((stage: DocumentData): PipelineStage => ({
+          id: stage.id,
+          name: stage.name || stage.id,
+          color: stage.color || 'slate',
+          kind: STAGE_KINDS.some(kind => kind.value === stage.kind) ? stage.kind : 'active'
+        }))
+    : []
+}));
+
+// Saved views written by older versions may lack newer filter fields
+export const savedViewConverter = createConverter<SavedView>((data) => ({
+  ...data,
+  view: APPLICATIONS_VIEWS.includes(data.view) ? data.view : 'board',
+  filters: {
+    company: data.filters?.company || '',
+    status: data.filters?.status ? normalizeStatus(data.filters.status) : '',
+    sortBy: data.filters?.sortBy || 'manual',
+    staleDays: typeof data.filters?.staleDays === 'number' ? data.filters.staleDays : null,
+    tag: data.filters?.tag || '',
+    fieldFilters: data.filters?.fieldFilters || {},
+    deadline: DEADLINE_FILTERS.includes(data.filters?.deadline) ? data.filters.deadline : ''
+  }
+}));
+
+// Drop malformed entries from older or hand-edited settings documents
+export const fieldSettingsConverter = createConverter<FieldSettings>((data) => ({
+  ...data,
+  tags: Array.isArray(data.tags)
+    ? data.tags
+        .filter((tag: DocumentData) => typeof tag?.name === 'string' && tag.name)
+        .map((tag: DocumentData): TagDefinition => ({
+          id: tag.id || tag.name,
+          name: tag.name,
+          color: tag.color || 'slate'
+        }))
+    : [],
+  customFields: Array.isArray(data.customFields)
+    ? data.customFields
+        .filter((field: DocumentData) => typeof field?.id === 'string' && field.id)
+        .map((field: DocumentData): CustomFieldDefinition => ({
+          id: field.id,
+          name: field.name || field.id,
+          type: CUSTOM_FIELD_TYPES.some(type => type.value === field.type) ? field.type : 'text',
+          options: Array.isArray(field.options) ? field.options : [],
+          showOnCard: Boolean(field.showOnCard)
+        }))
+    : []
+}));
@@ -0,0 +1,82 @@
+// lib/customFields.ts
+// Reading, formatting and filtering the user-defined fields on applications
+import { CustomFieldDefinition, CustomFieldValue, TagDefinition } from './domain';
+import { normalizeTag } from './tags';
+
+// Field types whose values fall into a small set of groups for analytics
+export const GROUPABLE_FIELD_TYPES = ['select', 'checkbox'];
+
+export const isEmptyFieldValue = (value: CustomFieldValue | undefined) =>
+  value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+
+// Drop cleared values before saving so empty inputs don't linger as ""
+export function cleanCustomFieldValues(values: Record<string, CustomFieldValue>): Record<string, CustomFieldValue> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => !isEmptyFieldValue(value)));
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (isEmptyFieldValue(value)) return '';
+  switch (field.type) {
+    case 'checkbox':
+      return value ? 'Yes' : 'No';
+    case 'number':
+      return Number(value).toLocaleString('en-US');
+    case 'date': {
+      const [year, month, day] = String(value).split('-').map(Number);
+      return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    }
+    default:
+      return String(value);
+  }
+}
+
+// How a filter value applies to each type: text contains it, numbers and
+// dates are at least it, selects equal it and checkboxes are "yes" or "no"
+export function matchesFieldFilter(field: CustomFieldDefinition, value: CustomFieldValue | undefined, filter: string): boolean {
+  switch (field.type) {
+    case 'checkbox':
+      return filter === 'yes' ? value === true : value !== true;
+    case 'number':
+      return !isEmptyFieldValue(value) && Number(value) >= Number(filter);
+    case 'date':
+      return !isEmptyFieldValue(value) && String(value) >= filter;
+    case 'select':
+      return value === filter;
+    default:
+      return String(value ?? '').toLowerCase().includes(filter.toLowerCase());
+  }
+}
+
+// Chip text for an active filter, e.g. "Salary ≥ 100,000"
+export function describeFieldFilter(field: CustomFieldDefinition, filter: string): string {
+  switch (field.type) {
+    case 'checkbox':
+      return `${field.name}: ${filter === 'yes' ? 'Yes' : 'No'}`;
+    case 'number':
+      return `${field.name} ≥ ${Number(filter).toLocaleString('en-US')}`;
+    case 'date':
+      return `${field.name} on or after ${formatCustomFieldValue(field, filter)}`;
+    case 'select':
+      return `${field.name}: ${filter}`;
+    default:
+      return `${field.name} contains "${filter}"`;
+  }
+}
+
+// The analytics group an application falls in for a select or checkbox field
+export function getFieldGroup(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (field.type === 'checkbox') return value === true ? 'Yes' : 'No';
+  return isEmptyFieldValue(value) ? 'No value' : String(value);
+}
+
+// Why the tag and field settings can't be saved yet, or null when they can
+export function validateFieldSettings(tags: TagDefinition[], fields: CustomFieldDefinition[]): string | null {
+  const tagNames = tags.map(tag => normalizeTag(tag.name).toLowerCase());
+  const fieldNames = fields.map(field => field.name.trim().toLowerCase());
+  if (tagNames.some(name => !name)) return 'Every tag needs a name.';
+  if (tagNames.some((name, index) => tagNames.indexOf(name) !== index)) return 'Tag names must be unique.';
+  if (fieldNames.some(name => !name)) return 'Every field needs a name.';
+  if (fieldNames.some((name, index) => fieldNames.indexOf(name) !== index)) return 'Field names must be unique.';
+  if (fields.some(field => field.type === 'select' && !(field.options || []).length)) return 'Single select fields need at least one option.';
+  return null;
+}
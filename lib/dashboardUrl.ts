@@ -0,0 +1,94 @@
+// lib/dashboardUrl.ts
+// Encodes the dashboard's tab, Applications view, filters and sort in the query
+// string so they survive a refresh, can be bookmarked and follow back/forward.
+import { APPLICATIONS_VIEWS, ApplicationsView, DEADLINE_FILTERS, DeadlineFilter, SavedView } from './domain';
+import { DEFAULT_FILTERS, FilterState, SORT_OPTIONS } from './applicationFilters';
+
+export const DASHBOARD_TABS = ['applications', 'resumes', 'networking', 'offers', 'analytics', 'settings'];
+
+export interface DashboardState {
+  tab: string;
+  view: ApplicationsView;
+  filters: FilterState;
+}
+
+export const DEFAULT_DASHBOARD_STATE: DashboardState = {
+  tab: 'applications',
+  view: 'board',
+  filters: DEFAULT_FILTERS
+};
+
+// Custom field filters use one parameter per field, e.g. "field.salary=100000"
+const FIELD_PARAM_PREFIX = 'field.';
+
+// Read state from a query string such as "?view=list&status=interview&stale=14".
+// Unknown or malformed values fall back to their defaults.
+export function parseDashboardQuery(search: string): DashboardState {
+  const params = new URLSearchParams(search);
+  const tab = params.get('tab');
+  const view = params.get('view') as ApplicationsView;
+  const sortBy = params.get('sort');
+  const staleDays = Number(params.get('stale'));
+  const applicationIds = (params.get('ids') || '').split(',').filter(Boolean);
+  const deadline = params.get('deadline') as DeadlineFilter;
+  const fieldFilters: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(FIELD_PARAM_PREFIX) && value) fieldFilters[key.slice(FIELD_PARAM_PREFIX.length)] = value;
+  });
+
+  return {
+    tab: DASHBOARD_TABS.includes(tab) ? tab : DEFAULT_DASHBOARD_STATE.tab,
+    view: APPLICATIONS_VIEWS.includes(view) ? view : DEFAULT_DASHBOARD_STATE.view,
+    filters: {
+      company: params.get('company') || '',
+      status: params.get('status') || '',
+      sortBy: SORT_OPTIONS.some(option => option.value === sortBy) ? sortBy : DEFAULT_FILTERS.sortBy,
+      staleDays: Number.isInteger(staleDays) && staleDays > 0 ? staleDays : null,
+      tag: params.get('tag') || '',
+      fieldFilters,
+      deadline: DEADLINE_FILTERS.includes(deadline) ? deadline : '',
+      applicationIds,
+      selectionLabel: applicationIds.length > 0 ? params.get('selection') || 'Selection' : '',
+      showArchived: params.get('archived') === '1'
+    }
+  };
+}
+
+// The query for a state, leaving out anything at its default so URLs stay short
+export function toDashboardQuery({ tab, view, filters }: DashboardState): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (tab !== DEFAULT_DASHBOARD_STATE.tab) query.tab = tab;
+  if (view !== DEFAULT_DASHBOARD_STATE.view) query.view = view;
+  if (filters.company) query.company = filters.company;
+  if (filters.status) query.status = filters.status;
+  if (filters.sortBy !== DEFAULT_FILTERS.sortBy) query.sort = filters.sortBy;
+  if (filters.staleDays) query.stale = String(filters.staleDays);
+  if (filters.tag) query.tag = filters.tag;
+  if (filters.deadline) query.deadline = filters.deadline;
+  Object.entries(filters.fieldFilters).forEach(([fieldId, value]) => {
+    if (value) query[FIELD_PARAM_PREFIX + fieldId] = value;
+  });
+  if (filters.showArchived) query.archived = '1';
+  if (filters.applicationIds.length > 0) {
+    query.ids = filters.applicationIds.join(',');
+    query.selection = filters.selectionLabel;
+  }
+  return query;
+}
+
+const sameFieldFilters = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([key, value]) => b[key] === value);
+
+// Whether the dashboard is currently showing exactly this saved view
+export function isSavedViewActive(savedView: SavedView, { tab, view, filters }: DashboardState): boolean {
+  return tab === 'applications'
+    && savedView.view === view
+    && savedView.filters.company === filters.company
+    && savedView.filters.status === filters.status
+    && savedView.filters.sortBy === filters.sortBy
+    && savedView.filters.staleDays === filters.staleDays
+    && savedView.filters.tag === filters.tag
+    && savedView.filters.deadline === filters.deadline
+    && sameFieldFilters(savedView.filters.fieldFilters, filters.fieldFilters)
+    && filters.applicationIds.length === 0;
+}
@@ -0,0 +1,14 @@
+// lib/dates.ts
+// Display formatting for Firestore timestamps, shared by every view.
+import { Timestamp } from 'firebase/firestore';
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+
+// "Oct 3, 2025, 4:05 PM"
+export const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = { ...DATE_FORMAT, hour: 'numeric', minute: '2-digit' };
+
+// "Oct 3, 2025" by default, or '' while the timestamp is missing - e.g. a
+// pending serverTimestamp() or an optional date that was never set
+export function formatDate(value: Timestamp | null | undefined, options: Intl.DateTimeFormatOptions = DATE_FORMAT): string {
+  return value ? value.toDate().toLocaleString('en-US', options) : '';
+}
@@ -0,0 +1,69 @@
+// lib/deadlines.ts
+// Closing dates on postings. A deadline only matters until the application is
+// submitted, so countdowns and the deadline filters ignore later stages.
+import { Application, PipelineStage } from './domain';
+import { getSubmittedStageIndex } from './pipeline';
+
+// "Closing this week" covers today and the next seven days
+export const CLOSING_SOON_DAYS = 7;
+
+export type DeadlineUrgency = 'overdue' | 'today' | 'soon' | 'later';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Calendar days from today to a YYYY-MM-DD deadline: 0 today, negative once passed
+export function getDaysUntilDeadline(deadline: string, now = Date.now()): number {
+  const [year, month, day] = deadline.split('-').map(Number);
+  const today = new Date(now);
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((new Date(year, month - 1, day).getTime() - startOfToday.getTime()) / MS_PER_DAY);
+}
+
+// Still in a stage before "submitted", e.g. Saved
+export function isAwaitingSubmission(app: Application, stages: PipelineStage[]): boolean {
+  const index = stages.findIndex(stage => stage.id === app.status);
+  return index !== -1 && index < getSubmittedStageIndex(stages);
+}
+
+// Days left on a deadline that still applies, or null when there's none to meet
+export function getOpenDeadlineDays(app: Application, stages: PipelineStage[], now = Date.now()): number | null {
+  if (!app.deadline || !isAwaitingSubmission(app, stages)) return null;
+  return getDaysUntilDeadline(app.deadline, now);
+}
+
+export function getDeadlineUrgency(days: number): DeadlineUrgency {
+  if (days < 0) return 'overdue';
+  if (days === 0) return 'today';
+  return days <= CLOSING_SOON_DAYS ? 'soon' : 'later';
+}
+
+export const DEADLINE_BADGE_STYLES: Record<DeadlineUrgency, string> = {
+  overdue: 'bg-red-50 text-red-700 border-red-200',
+  today: 'bg-orange-50 text-orange-700 border-orange-200',
+  soon: 'bg-amber-50 text-amber-700 border-amber-200',
+  later: 'bg-slate-50 text-slate-600 border-slate-200'
+};
+
+// Countdown text for a badge, e.g. "Closes in 3 days"
+export function formatDeadlineCountdown(days: number): string {
+  if (days < -1) return `Closed ${-days} days ago`;
+  if (days === -1) return 'Closed yesterday';
+  if (days === 0) return 'Closes today';
+  if (days === 1) return 'Closes tomorrow';
+  return `Closes in ${days} days`;
+}
+
+export function formatDeadline(deadline: string): string {
+  const [year, month, day] = deadline.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function isClosingThisWeek(app: Application, stages: PipelineStage[], now = Date.now()): boolean {
+  const days = getOpenDeadlineDays(app, stages, now);
+  return days !== null && days >= 0 && days <= CLOSING_SOON_DAYS;
+}
+
+export function isPastDeadline(app: Application, stages: PipelineStage[], now = Date.now()): boolean {
+  const days = getOpenDeadlineDays(app, stages, now);
+  return days !== null && days < 0;
+}
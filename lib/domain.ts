@@ -0,0 +1,430 @@
+// lib/domain.ts
+// Canonical types and the status vocabulary shared by every component.
+import type { Timestamp } from 'firebase/firestore';
+
+// ---------- Application status pipeline ----------
+
+// Id of a stage in the signed-in user's pipeline. Pipelines start from
+// DEFAULT_PIPELINE_STAGES, so older data uses those six ids.
+export type ApplicationStatus = string;
+
+// How a stage relates to the outcome of an application. Active stages are still
+// in progress; positive (e.g. Offer), negative (e.g. Rejected) and terminal
+// (e.g. Withdrawn) stages close it.
+export type StageKind = 'active' | 'positive' | 'negative' | 'terminal';
+
+export const STAGE_KINDS: { value: StageKind; label: string }[] = [
+  { value: 'active', label: 'In progress' },
+  { value: 'positive', label: 'Positive outcome' },
+  { value: 'negative', label: 'Negative outcome' },
+  { value: 'terminal', label: 'Closed' }
+];
+
+export interface StageColorOption {
+  value: string;
+  label: string;
+  bgColor: string;
+  textColor: string;
+  dotColor: string;
+  chartColor: string; // Hex color for recharts, matching dotColor
+}
+
+// Stage colors are picked from a fixed palette so Tailwind can see every class
+export const STAGE_COLORS: StageColorOption[] = [
+  { value: 'slate', label: 'Gray', bgColor: 'bg-slate-50', textColor: 'text-slate-700', dotColor: 'bg-slate-400', chartColor: '#94A3B8' },
+  { value: 'blue', label: 'Blue', bgColor: 'bg-blue-50', textColor: 'text-blue-700', dotColor: 'bg-blue-500', chartColor: '#3B82F6' },
+  { value: 'cyan', label: 'Cyan', bgColor: 'bg-cyan-50', textColor: 'text-cyan-700', dotColor: 'bg-cyan-500', chartColor: '#06B6D4' },
+  { value: 'indigo', label: 'Indigo', bgColor: 'bg-indigo-50', textColor: 'text-indigo-700', dotColor: 'bg-indigo-500', chartColor: '#6366F1' },
+  { value: 'purple', label: 'Purple', bgColor: 'bg-purple-50', textColor: 'text-purple-700', dotColor: 'bg-purple-500', chartColor: '#A855F7' },
+  { value: 'pink', label: 'Pink', bgColor: 'bg-pink-50', textColor: 'text-pink-700', dotColor: 'bg-pink-500', chartColor: '#EC4899' },
+  { value: 'amber', label: 'Amber', bgColor: 'bg-amber-50', textColor: 'text-amber-700', dotColor: 'bg-amber-500', chartColor: '#F59E0B' },
+  { value: 'orange', label: 'Orange', bgColor: 'bg-orange-50', textColor: 'text-orange-700', dotColor: 'bg-orange-500', chartColor: '#F97316' },
+  { value: 'emerald', label: 'Green', bgColor: 'bg-emerald-50', textColor: 'text-emerald-700', dotColor: 'bg-emerald-500', chartColor: '#10B981' },
+  { value: 'teal', label: 'Teal', bgColor: 'bg-teal-50', textColor: 'text-teal-700', dotColor: 'bg-teal-500', chartColor: '#14B8A6' },
+  { value: 'red', label: 'Red', bgColor: 'bg-red-50', textColor: 'text-red-700', dotColor: 'bg-red-500', chartColor: '#EF4444' }
+];
+
+export interface PipelineStage {
+  id: ApplicationStatus; // Stored on applications as their status; never changes once created
+  name: string;
+  color: string; // A STAGE_COLORS value
+  kind: StageKind;
+}
+
+// Industry-standard status pipeline following Huntr/Teal patterns, in pipeline order.
+// Used until the user saves a pipeline of their own.
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'saved', name: 'Saved', color: 'slate', kind: 'active' },
+  { id: 'applied', name: 'Applied', color: 'blue', kind: 'active' },
+  { id: 'phone-screen', name: 'Phone Screen', color: 'purple', kind: 'active' },
+  { id: 'interview', name: 'Interview', color: 'amber', kind: 'active' },
+  { id: 'offer', name: 'Offer', color: 'emerald', kind: 'positive' },
+  { id: 'rejected', name: 'Rejected', color: 'red', kind: 'negative' }
+];
+
+// A stage ready to render: its name plus the Tailwind classes for its color
+export interface StatusOption {
+  value: ApplicationStatus;
+  label: string;
+  kind: StageKind;
+  bgColor: string;
+  textColor: string;
+  dotColor: string;
+  chartColor: string;
+}
+
+export function getStageColor(color: string): StageColorOption {
+  return STAGE_COLORS.find(option => option.value === color) || STAGE_COLORS[0];
+}
+
+export function toStatusOption(stage: PipelineStage): StatusOption {
+  const { bgColor, textColor, dotColor, chartColor } = getStageColor(stage.color);
+  return { value: stage.id, label: stage.name, kind: stage.kind, bgColor, textColor, dotColor, chartColor };
+}
+
+export const DEFAULT_STATUS: ApplicationStatus = DEFAULT_PIPELINE_STAGES[0].id;
+
+// Values written by earlier versions of the app, mapped to the default pipeline
+export const LEGACY_STATUS_MAP: Record<string, ApplicationStatus> = {
+  'to-apply': 'saved',
+  'interviewing': 'interview'
+};
+
+export function isLegacyStatus(value: unknown): boolean {
+  return typeof value === 'string' && value in LEGACY_STATUS_MAP;
+}
+
+// Map legacy values onto the default pipeline; any other stage id is kept as-is
+export function normalizeStatus(value: unknown): ApplicationStatus {
+  if (typeof value !== 'string' || !value) return DEFAULT_STATUS;
+  return LEGACY_STATUS_MAP[value] || value;
+}
+
+// ---------- Status history ----------
+
+// Where a status change was made, shown next to each entry in the timeline
+export type StatusChangeSource = 'created' | 'edit' | 'board' | 'table' | 'pipeline' | 'bulk';
+
+export interface StatusChange {
+  from: ApplicationStatus | null; // null for the status an application was created with
+  to: ApplicationStatus;
+  changedAt: Timestamp;
+  source: StatusChangeSource;
+}
+
+// ---------- Tags and custom fields ----------
+
+export interface TagDefinition {
+  id: string; // Stays fixed when the tag is renamed
+  name: string; // What applications store in their tags list
+  color: string; // A STAGE_COLORS value
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'checkbox';
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Single select' },
+  { value: 'checkbox', label: 'Checkbox' }
+];
+
+export interface CustomFieldDefinition {
+  id: string; // Key of the value in an application's customFields
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // Choices for select fields
+  showOnCard?: boolean; // Show the value as a badge on Kanban cards
+}
+
+// Dates are stored as YYYY-MM-DD strings so they don't shift between time zones
+export type CustomFieldValue = string | number | boolean | null;
+
+// ---------- Interviews ----------
+
+export type InterviewType = 'phone' | 'video' | 'onsite' | 'technical' | 'behavioral';
+
+export const INTERVIEW_TYPES: { value: InterviewType; label: string }[] = [
+  { value: 'phone', label: 'Phone' },
+  { value: 'video', label: 'Video' },
+  { value: 'onsite', label: 'Onsite' },
+  { value: 'technical', label: 'Technical' },
+  { value: 'behavioral', label: 'Behavioral' }
+];
+
+export type InterviewOutcome = 'pending' | 'passed' | 'rejected' | 'cancelled';
+
+export const INTERVIEW_OUTCOMES: { value: InterviewOutcome; label: string }[] = [
+  { value: 'pending', label: 'Awaiting result' },
+  { value: 'passed', label: 'Moved forward' },
+  { value: 'rejected', label: 'Not moving forward' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+// ---------- Offers ----------
+
+// How the base salary was quoted; comparisons convert it to a yearly amount
+export type PayPeriod = 'year' | 'month' | 'hour';
+
+export const PAY_PERIODS: { value: PayPeriod; label: string }[] = [
+  { value: 'year', label: 'per year' },
+  { value: 'month', label: 'per month' },
+  { value: 'hour', label: 'per hour' }
+];
+
+export type WorkMode = 'onsite' | 'hybrid' | 'remote';
+
+export const WORK_MODES: { value: WorkMode; label: string }[] = [
+  { value: 'onsite', label: 'Onsite' },
+  { value: 'hybrid', label: 'Hybrid' },
+  { value: 'remote', label: 'Remote' }
+];
+
+export type OfferDecision = 'pending' | 'accepted' | 'declined';
+
+export const OFFER_DECISIONS: { value: OfferDecision; label: string }[] = [
+  { value: 'pending', label: 'Deciding' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'declined', label: 'Declined' }
+];
+
+// Non-monetary factors the user scores each offer on, 1-5
+export const OFFER_FACTORS: { id: string; label: string }[] = [
+  { id: 'growth', label: 'Growth & learning' },
+  { id: 'team', label: 'Team & manager' },
+  { id: 'workLife', label: 'Work-life balance' },
+  { id: 'mission', label: 'Mission & product' },
+  { id: 'location', label: 'Location & commute' },
+  { id: 'stability', label: 'Stability' }
+];
+
+// ---------- Applications views ----------
+
+export type ApplicationsView = 'board' | 'list' | 'map' | 'analytics';
+
+export const APPLICATIONS_VIEWS: ApplicationsView[] = ['board', 'list', 'map', 'analytics'];
+
+// Applications not yet submitted whose deadline is this week or already passed
+export type DeadlineFilter = '' | 'this-week' | 'overdue';
+
+export const DEADLINE_FILTERS: DeadlineFilter[] = ['', 'this-week', 'overdue'];
+
+// The filter bar settings a saved view remembers
+export interface SavedViewFilters {
+  company: string;
+  status: string;
+  sortBy: string;
+  staleDays: number | null; // Only applications that have sat in their stage longer than this
+  tag: string;
+  fieldFilters: Record<string, string>; // Custom field id to the value it must match
+  deadline: DeadlineFilter;
+}
+
+// ---------- Documents ----------
+
+export interface Application {
+  id: string;
+  userId: string;
+  jobTitle: string;
+  company: string;
+  location?: string;
+  jobLink?: string;
+  status: ApplicationStatus;
+  notes?: string;
+  description?: string; // Job description text, often pasted from the posting
+  resumeId?: string | null; // Optional reference to resume
+  resumeVersionId?: string | null; // Version of the resume that was sent; unset means its first version
+  hiringManagerId?: string | null; // Optional reference to hiring manager
+  statusHistory?: StatusChange[]; // Oldest first; missing on applications created before history was tracked
+  boardOrder?: number; // Position within its Kanban column, lowest first; unset cards sort newest first
+  locationOverride?: string | null; // Gazetteer city id or 'remote', set when the location text can't be matched
+  tags?: string[]; // Tag names; ones without a TagDefinition show in gray
+  customFields?: Record<string, CustomFieldValue>; // Keyed by CustomFieldDefinition id
+  deadline?: string | null; // Posting closing date as YYYY-MM-DD
+  archived?: boolean; // Hidden from the board and list unless archived applications are shown
+  notDuplicateOf?: string[]; // Application ids the user confirmed are different jobs
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface Resume {
+  id: string;
+  userId: string;
+  name: string;
+  fileName: string;
+  storagePath?: string; // Missing on resumes uploaded before per-user folders, until migration 004 moves them
+  originalFileName: string;
+  downloadURL: string;
+  fileSize: number;
+  analysis?: ResumeAnalysis | null; // Missing until the PDF is checked, null when it couldn't be parsed
+  currentVersionId?: string; // Missing until the file is first replaced
+  versionCount?: number;
+  uploadDate: Timestamp;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// One uploaded file of a resume, kept under resumes/{resumeId}/versions.
+// Versions are never edited; the resume document copies the current one's
+// file fields so everything that opens a resume keeps reading one place.
+export interface ResumeVersion {
+  id: string;
+  userId: string;
+  resumeId: string;
+  version: number; // 1 for the original upload
+  fileName: string;
+  storagePath?: string;
+  originalFileName: string;
+  downloadURL: string;
+  fileSize: number;
+  analysis?: ResumeAnalysis | null;
+  uploadDate: Timestamp;
+}
+
+// What the browser read from a resume PDF. Page lists are 1-based page numbers.
+export interface ResumeAnalysis {
+  text: string;
+  pageCount: number;
+  pagesWithoutText: number[]; // Scanned or image-only pages
+  fonts: string[];
+  multiColumnPages: number[];
+  tablePages: number[];
+  analyzedAt: Timestamp;
+}
+
+export interface HiringManager {
+  id: string;
+  userId: string;
+  name: string;
+  role: string;
+  email?: string | null;
+  linkedinProfile?: string | null;
+  company: string;
+  notes?: string | null;
+  lastContactDate?: Timestamp | null;
+  nextFollowUpDate?: Timestamp | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// One per user, stored with the user's uid as its document id
+export interface Pipeline {
+  id: string;
+  userId: string;
+  stages: PipelineStage[]; // In pipeline order
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// A named Applications view listed in the sidebar
+export interface SavedView {
+  id: string;
+  userId: string;
+  name: string;
+  view: ApplicationsView;
+  filters: SavedViewFilters;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// One per user, stored with the user's uid as its document id
+export interface FieldSettings {
+  id: string;
+  userId: string;
+  tags: TagDefinition[];
+  customFields: CustomFieldDefinition[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Stored under applications/{applicationId}/interviews
+export interface Interview {
+  id: string;
+  userId: string;
+  applicationId: string; // Matches the parent document, for collection group queries
+  round: string; // e.g. "Technical round 2"
+  type: InterviewType;
+  scheduledAt: Timestamp;
+  timeZone: string; // IANA zone the time was given in, e.g. "America/New_York"
+  durationMinutes?: number | null;
+  interviewerIds: string[]; // Hiring manager ids
+  otherInterviewers?: string; // Names of interviewers who aren't saved contacts
+  location?: string; // Address or meeting link
+  prepNotes?: string;
+  outcome: InterviewOutcome;
+  selfAssessment?: number | null; // 1-5, how the user felt it went
+  reflection?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type DescriptionFormat = 'text' | 'html';
+
+// Stored under applications/{applicationId}/descriptionSnapshots. Never
+// edited: changing the description adds a new snapshot.
+export interface DescriptionSnapshot {
+  id: string;
+  userId: string;
+  applicationId: string; // Matches the parent document, for collection group queries
+  content: string; // Plain text, or HTML already passed through sanitizeHtml
+  format: DescriptionFormat;
+  createdAt: Timestamp;
+}
+
+// One per application that reached an offer
+export interface Offer {
+  id: string;
+  userId: string;
+  applicationId: string;
+  currency: string; // ISO 4217 code, e.g. "USD"
+  baseSalary: number;
+  payPeriod: PayPeriod;
+  annualBonus?: number | null; // Target bonus per year
+  signOnBonus?: number | null; // Paid once, counted in the first year
+  equityValue?: number | null; // Total value of the grant at offer time
+  vestingSchedule: number[]; // Percent of the grant vesting in each year, e.g. [25, 25, 25, 25]
+  benefitsNotes?: string;
+  startDate?: string | null; // YYYY-MM-DD
+  workMode: WorkMode;
+  location?: string;
+  responseDeadline?: string | null; // YYYY-MM-DD
+  decision: OfferDecision;
+  factorScores: Record<string, number>; // OFFER_FACTORS id to a 1-5 score
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// One per user, stored with the user's uid as its document id
+export interface OfferSettings {
+  id: string;
+  userId: string;
+  factorWeights: Record<string, number>; // OFFER_FACTORS id to a 0-5 weight
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface FollowUpReminder {
+  id: string;
+  userId: string;
+  hiringManagerId: string;
+  applicationId?: string | null;
+  reminderDate: Timestamp;
+  message: string;
+  completed: boolean;
+  createdAt: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// Fields managed by the repository layer rather than the caller
+type ManagedFields = 'id' | 'userId' | 'createdAt' | 'updatedAt';
+
+export type ApplicationInput = Omit<Application, ManagedFields>;
+export type ResumeInput = Omit<Resume, ManagedFields | 'uploadDate'>;
+export type HiringManagerInput = Omit<HiringManager, ManagedFields>;
+export type FollowUpReminderInput = Omit<FollowUpReminder, ManagedFields>;
+export type SavedViewInput = Omit<SavedView, ManagedFields>;
+export type InterviewInput = Omit<Interview, ManagedFields | 'applicationId'>;
+export type OfferInput = Omit<Offer, ManagedFields>;
+export type DescriptionSnapshotInput = Pick<DescriptionSnapshot, 'content' | 'format'>;
+export type ResumeFileInput = Pick<ResumeVersion, 'fileName' | 'storagePath' | 'originalFileName' | 'downloadURL' | 'fileSize' | 'analysis'>;
@@ -0,0 +1,230 @@
+// lib/duplicates.ts
+// Fuzzy duplicate detection for applications. Two applications look like the
+// same job when their links match once tracking parameters are stripped, or
+// when the company matches after normalization and the titles are close.
+import { Application, PipelineStage } from './domain';
+import { normalizeSearchText } from './searchQuery';
+import { MAX_TAGS, mergeTags } from './tags';
+
+// Share of title words two applications must have in common
+export const TITLE_SIMILARITY_THRESHOLD = 0.75;
+
+// Firestore rule limits on the merged application
+const MAX_NOTES_LENGTH = 5000;
+const MAX_CUSTOM_FIELDS = 30;
+const MAX_DISTINCT_IDS = 50;
+
+export type DuplicateReason = 'link' | 'title';
+
+export interface DuplicateMatch {
+  application: Application;
+  reasons: DuplicateReason[];
+  titleSimilarity: number;
+}
+
+// The fields a new or existing application is compared on
+export interface DuplicateCandidate {
+  company: string;
+  jobTitle: string;
+  jobLink?: string;
+}
+
+// Legal suffixes and filler that don't tell two companies apart
+const COMPANY_STOP_WORDS = new Set([
+  'the', 'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp', 'corporation',
+  'co', 'company', 'plc', 'gmbh', 'ag', 'sa', 'bv', 'pty', 'holdings', 'group'
+]);
+
+// Query parameters added by job boards, email campaigns and ad networks
+const TRACKING_PARAMS = new Set([
+  'ref', 'referrer', 'source', 'src', 'trk', 'trackingid', 'refid', 'gclid', 'fbclid', 'msclkid',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'li_fat_id', 'lever-source', 'lever-origin', 'gh_src',
+  'from', 'campaign', 'jobsource', 'iis', 'iisn'
+]);
+
+// Common title abbreviations, expanded so "Sr. SWE" matches "Senior Software Engineer"
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior',
+  jr: 'junior',
+  swe: 'software engineer',
+  sde: 'software development engineer',
+  eng: 'engineer',
+  engr: 'engineer',
+  dev: 'developer',
+  mgr: 'manager',
+  pm: 'product manager',
+  ml: 'machine learning',
+  fe: 'frontend',
+  be: 'backend',
+  intl: 'international'
+};
+
+const toWords = (value: string) => normalizeSearchText(value)
+  .replace(/&/g, ' and ')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .split(' ')
+  .filter(Boolean);
+
+// Dots are dropped first so "S.A." reads as "sa"
+export function normalizeCompany(company: string): string {
+  return toWords(company.replace(/\./g, '')).filter(word => !COMPANY_STOP_WORDS.has(word)).join(' ');
+}
+
+export function getTitleWords(title: string): Set<string> {
+  const words = toWords(title.replace(/front[\s-]end/gi, 'frontend').replace(/back[\s-]end/gi, 'backend'))
+    .flatMap(word => (TITLE_ABBREVIATIONS[word] || word).split(' '));
+  return new Set(words);
+}
+
+// Dice coefficient over title words: 1 for the same words in any order
+export function getTitleSimilarity(a: string, b: string): number {
+  const wordsA = getTitleWords(a);
+  const wordsB = getTitleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+// Host without "www.", path without a trailing slash and only the query
+// parameters that identify the job, sorted; '' when the link isn't a URL
+export function normalizeJobUrl(link?: string): string {
+  if (!link?.trim()) return '';
+  let url: URL;
+  try {
+    url = new URL(link.trim().match(/^https?:\/\//i) ? link.trim() : `https://${link.trim()}`);
+  } catch {
+    return '';
+  }
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.map(([key, value]) => `${key}=${value}`).join('&');
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const path = url.pathname.replace(/\/+$/, '');
+  return `${host}${path}${query ? `?${query}` : ''}`;
+}
+
+export function getDuplicateReasons(a: DuplicateCandidate, b: DuplicateCandidate): { reasons: DuplicateReason[]; titleSimilarity: number } {
+  const reasons: DuplicateReason[] = [];
+  const linkA = normalizeJobUrl(a.jobLink);
+  if (linkA && linkA === normalizeJobUrl(b.jobLink)) reasons.push('link');
+
+  const companyA = normalizeCompany(a.company);
+  const titleSimilarity = companyA && companyA === normalizeCompany(b.company)
+    ? getTitleSimilarity(a.jobTitle, b.jobTitle)
+    : 0;
+  if (titleSimilarity >= TITLE_SIMILARITY_THRESHOLD) reasons.push('title');
+
+  return { reasons, titleSimilarity };
+}
+
+export function describeDuplicateReasons(reasons: DuplicateReason[]): string {
+  return reasons
+    .map(reason => (reason === 'link' ? 'same job link' : 'same company, similar title'))
+    .join(' and ');
+}
+
+// Existing applications that look like the same job, strongest match first
+export function findDuplicates(candidate: DuplicateCandidate, applications: Application[], excludeId?: string): DuplicateMatch[] {
+  if (!candidate.company.trim() && !candidate.jobLink?.trim()) return [];
+
+  return applications
+    .filter(app => app.id !== excludeId)
+    .map(app => ({ application: app, ...getDuplicateReasons(candidate, app) }))
+    .filter(match => match.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length || b.titleSimilarity - a.titleSimilarity);
+}
+
+const isMarkedDistinct = (a: Application, b: Application) =>
+  (a.notDuplicateOf || []).includes(b.id) || (b.notDuplicateOf || []).includes(a.id);
+
+// Groups of applications that look like the same job, each oldest first.
+// Pairs the user marked as different jobs are never joined.
+export function getDuplicateClusters(applications: Application[]): Application[][] {
+  const parent = new Map<string, string>(applications.map(app => [app.id, app.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id);
+    return id;
+  };
+
+  // Only applications sharing a link or a normalized company can match
+  const buckets = new Map<string, Application[]>();
+  const addToBucket = (key: string, app: Application) => {
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key).push(app);
+  };
+  applications.forEach((app) => {
+    const link = normalizeJobUrl(app.jobLink);
+    if (link) addToBucket(`link:${link}`, app);
+    const company = normalizeCompany(app.company);
+    if (company) addToBucket(`company:${company}`, app);
+  });
+
+  buckets.forEach((bucket) => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i];
+        const b = bucket[j];
+        if (isMarkedDistinct(a, b) || getDuplicateReasons(a, b).reasons.length === 0) continue;
+        parent.set(find(a.id), find(b.id));
+      }
+    }
+  });
+
+  const clusters = new Map<string, Application[]>();
+  applications.forEach((app) => {
+    const root = find(app.id);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root).push(app);
+  });
+
+  return Array.from(clusters.values())
+    .filter(cluster => cluster.length > 1)
+    .map(cluster => cluster.sort((a, b) => (a.createdAt?.toMillis() || 0) - (b.createdAt?.toMillis() || 0)));
+}
+
+// The application to keep by default: the one furthest along the pipeline, then the oldest
+export function getDefaultPrimary(cluster: Application[], stages: PipelineStage[]): Application {
+  const stageIndex = (app: Application) => stages.findIndex(stage => stage.id === app.status);
+  return cluster.reduce((best, app) => (stageIndex(app) > stageIndex(best) ? app : best), cluster[0]);
+}
+
+// Field values for the kept application once the others are folded into it.
+// Its own values win; the others fill gaps and add their notes and tags. Its
+// status history is kept as is, since the others' changes never happened to it.
+export function getMergedFields(primary: Application, others: Application[]): Record<string, unknown> {
+  const all = [primary, ...others];
+  const firstValue = <K extends keyof Application>(field: K) => all.map(app => app[field]).find(value => value) || null;
+
+  const notes = all
+    .filter(app => app.notes?.trim())
+    .map(app => (app === primary ? app.notes.trim() : `[Merged from ${app.jobTitle} at ${app.company}]\n${app.notes.trim()}`))
+    .join('\n\n')
+    .slice(0, MAX_NOTES_LENGTH);
+
+  // The primary's fields first, so they survive the cap
+  const customFields = Object.fromEntries(all
+    .flatMap(app => Object.entries(app.customFields || {}))
+    .filter(([fieldId], index, entries) => entries.findIndex(([other]) => other === fieldId) === index)
+    .slice(0, MAX_CUSTOM_FIELDS));
+  // The resume's pinned version comes from the same application as the resume
+  const resumeSource = all.find(app => app.resumeId);
+  const mergedIds = new Set(others.map(app => app.id));
+
+  return {
+    notes,
+    tags: all.reduce((tags, app) => mergeTags(tags, app.tags || []), [] as string[]).slice(0, MAX_TAGS),
+    customFields,
+    location: firstValue('location') || '',
+    jobLink: firstValue('jobLink') || '',
+    resumeId: resumeSource?.resumeId || null,
+    resumeVersionId: resumeSource?.resumeVersionId || null,
+    hiringManagerId: firstValue('hiringManagerId'),
+    deadline: firstValue('deadline'),
+    description: firstValue('description') || '',
+    notDuplicateOf: Array.from(new Set(all.flatMap(app => app.notDuplicateOf || [])))
+      .filter(id => !mergedIds.has(id) && id !== primary.id)
+      .slice(0, MAX_DISTINCT_IDS)
+  };
+}
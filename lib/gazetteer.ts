@@ -0,0 +1,315 @@
+// lib/gazetteer.ts
+// Bundled offline city list used to place application locations on the map.
+// Coordinates are city centres; precision beyond ~1km doesn't matter here.
+
+export interface GazetteerCity {
+  id: string;
+  name: string;
+  region: string;   // US state / Canadian province code, or '' elsewhere
+  country: string;  // ISO 3166-1 alpha-2
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+type CityRow = [id: string, name: string, region: string, country: string, lat: number, lng: number, aliases?: string[]];
+
+// Roughly ordered by size so ambiguous names ("Portland") resolve to the larger city
+const CITY_ROWS: CityRow[] = [
+  // ---------- United States ----------
+  ['new-york-ny', 'New York', 'NY', 'US', 40.7128, -74.006, ['nyc', 'new york city', 'manhattan', 'brooklyn']],
+  ['los-angeles-ca', 'Los Angeles', 'CA', 'US', 34.0522, -118.2437, ['la']],
+  ['chicago-il', 'Chicago', 'IL', 'US', 41.8781, -87.6298],
+  ['houston-tx', 'Houston', 'TX', 'US', 29.7604, -95.3698],
+  ['phoenix-az', 'Phoenix', 'AZ', 'US', 33.4484, -112.074],
+  ['philadelphia-pa', 'Philadelphia', 'PA', 'US', 39.9526, -75.1652, ['philly']],
+  ['san-antonio-tx', 'San Antonio', 'TX', 'US', 29.4241, -98.4936],
+  ['san-diego-ca', 'San Diego', 'CA', 'US', 32.7157, -117.1611],
+  ['dallas-tx', 'Dallas', 'TX', 'US', 32.7767, -96.797, ['dfw']],
+  ['san-jose-ca', 'San Jose', 'CA', 'US', 37.3382, -121.8863],
+  ['austin-tx', 'Austin', 'TX', 'US', 30.2672, -97.7431],
+  ['jacksonville-fl', 'Jacksonville', 'FL', 'US', 30.3322, -81.6557],
+  ['fort-worth-tx', 'Fort Worth', 'TX', 'US', 32.7555, -97.3308],
+  ['columbus-oh', 'Columbus', 'OH', 'US', 39.9612, -82.9988],
+  ['charlotte-nc', 'Charlotte', 'NC', 'US', 35.2271, -80.8431],
+  ['san-francisco-ca', 'San Francisco', 'CA', 'US', 37.7749, -122.4194, ['sf', 'bay area', 'sf bay area', 'san francisco bay area']],
+  ['indianapolis-in', 'Indianapolis', 'IN', 'US', 39.7684, -86.1581],
+  ['seattle-wa', 'Seattle', 'WA', 'US', 47.6062, -122.3321],
+  ['denver-co', 'Denver', 'CO', 'US', 39.7392, -104.9903],
+  ['washington-dc', 'Washington', 'DC', 'US', 38.9072, -77.0369, ['washington dc', 'washington d.c.', 'dc', 'd.c.']],
+  ['boston-ma', 'Boston', 'MA', 'US', 42.3601, -71.0589],
+  ['el-paso-tx', 'El Paso', 'TX', 'US', 31.7619, -106.485],
+  ['nashville-tn', 'Nashville', 'TN', 'US', 36.1627, -86.7816],
+  ['detroit-mi', 'Detroit', 'MI', 'US', 42.3314, -83.0458],
+  ['oklahoma-city-ok', 'Oklahoma City', 'OK', 'US', 35.4676, -97.5164],
+  ['portland-or', 'Portland', 'OR', 'US', 45.5152, -122.6784],
+  ['las-vegas-nv', 'Las Vegas', 'NV', 'US', 36.1699, -115.1398],
+  ['memphis-tn', 'Memphis', 'TN', 'US', 35.1495, -90.049],
+  ['louisville-ky', 'Louisville', 'KY', 'US', 38.2527, -85.7585],
+  ['baltimore-md', 'Baltimore', 'MD', 'US', 39.2904, -76.6122],
+  ['milwaukee-wi', 'Milwaukee', 'WI', 'US', 43.0389, -87.9065],
+  ['albuquerque-nm', 'Albuquerque', 'NM', 'US', 35.0844, -106.6504],
+  ['tucson-az', 'Tucson', 'AZ', 'US', 32.2226, -110.9747],
+  ['fresno-ca', 'Fresno', 'CA', 'US', 36.7378, -119.7871],
+  ['sacramento-ca', 'Sacramento', 'CA', 'US', 38.5816, -121.4944],
+  ['kansas-city-mo', 'Kansas City', 'MO', 'US', 39.0997, -94.5786],
+  ['mesa-az', 'Mesa', 'AZ', 'US', 33.4152, -111.8315],
+  ['atlanta-ga', 'Atlanta', 'GA', 'US', 33.749, -84.388, ['atl']],
+  ['omaha-ne', 'Omaha', 'NE', 'US', 41.2565, -95.9345],
+  ['colorado-springs-co', 'Colorado Springs', 'CO', 'US', 38.8339, -104.8214],
+  ['raleigh-nc', 'Raleigh', 'NC', 'US', 35.7796, -78.6382, ['research triangle', 'rtp']],
+  ['long-beach-ca', 'Long Beach', 'CA', 'US', 33.7701, -118.1937],
+  ['virginia-beach-va', 'Virginia Beach', 'VA', 'US', 36.8529, -75.978],
+  ['miami-fl', 'Miami', 'FL', 'US', 25.7617, -80.1918],
+  ['oakland-ca', 'Oakland', 'CA', 'US', 37.8044, -122.2712],
+  ['minneapolis-mn', 'Minneapolis', 'MN', 'US', 44.9778, -93.265, ['twin cities']],
+  ['tulsa-ok', 'Tulsa', 'OK', 'US', 36.154, -95.9928],
+  ['tampa-fl', 'Tampa', 'FL', 'US', 27.9506, -82.4572],
+  ['arlington-tx', 'Arlington', 'TX', 'US', 32.7357, -97.1081],
+  ['new-orleans-la', 'New Orleans', 'LA', 'US', 29.9511, -90.0715],
+  ['wichita-ks', 'Wichita', 'KS', 'US', 37.6872, -97.3301],
+  ['cleveland-oh', 'Cleveland', 'OH', 'US', 41.4993, -81.6944],
+  ['bakersfield-ca', 'Bakersfield', 'CA', 'US', 35.3733, -119.0187],
+  ['aurora-co', 'Aurora', 'CO', 'US', 39.7294, -104.8319],
+  ['anaheim-ca', 'Anaheim', 'CA', 'US', 33.8366, -117.9143],
+  ['honolulu-hi', 'Honolulu', 'HI', 'US', 21.3069, -157.8583],
+  ['santa-ana-ca', 'Santa Ana', 'CA', 'US', 33.7455, -117.8677],
+  ['riverside-ca', 'Riverside', 'CA', 'US', 33.9533, -117.3962],
+  ['corpus-christi-tx', 'Corpus Christi', 'TX', 'US', 27.8006, -97.3964],
+  ['lexington-ky', 'Lexington', 'KY', 'US', 38.0406, -84.5037],
+  ['pittsburgh-pa', 'Pittsburgh', 'PA', 'US', 40.4406, -79.9959],
+  ['st-louis-mo', 'St. Louis', 'MO', 'US', 38.627, -90.1994, ['saint louis', 'st louis']],
+  ['cincinnati-oh', 'Cincinnati', 'OH', 'US', 39.1031, -84.512],
+  ['st-paul-mn', 'St. Paul', 'MN', 'US', 44.9537, -93.09, ['saint paul', 'st paul']],
+  ['orlando-fl', 'Orlando', 'FL', 'US', 28.5383, -81.3792],
+  ['irvine-ca', 'Irvine', 'CA', 'US', 33.6846, -117.8265],
+  ['newark-nj', 'Newark', 'NJ', 'US', 40.7357, -74.1724],
+  ['durham-nc', 'Durham', 'NC', 'US', 35.994, -78.8986],
+  ['plano-tx', 'Plano', 'TX', 'US', 33.0198, -96.6989],
+  ['jersey-city-nj', 'Jersey City', 'NJ', 'US', 40.7178, -74.0431],
+  ['buffalo-ny', 'Buffalo', 'NY', 'US', 42.8864, -78.8784],
+  ['madison-wi', 'Madison', 'WI', 'US', 43.0731, -89.4012],
+  ['chandler-az', 'Chandler', 'AZ', 'US', 33.3062, -111.8413],
+  ['scottsdale-az', 'Scottsdale', 'AZ', 'US', 33.4942, -111.9261],
+  ['tempe-az', 'Tempe', 'AZ', 'US', 33.4255, -111.94],
+  ['reno-nv', 'Reno', 'NV', 'US', 39.5296, -119.8138],
+  ['boise-id', 'Boise', 'ID', 'US', 43.615, -116.2023],
+  ['richmond-va', 'Richmond', 'VA', 'US', 37.5407, -77.436],
+  ['des-moines-ia', 'Des Moines', 'IA', 'US', 41.5868, -93.625],
+  ['spokane-wa', 'Spokane', 'WA', 'US', 47.6588, -117.426],
+  ['salt-lake-city-ut', 'Salt Lake City', 'UT', 'US', 40.7608, -111.891, ['slc']],
+  ['provo-ut', 'Provo', 'UT', 'US', 40.2338, -111.6585],
+  ['lehi-ut', 'Lehi', 'UT', 'US', 40.3916, -111.8508],
+  ['birmingham-al', 'Birmingham', 'AL', 'US', 33.5186, -86.8104],
+  ['huntsville-al', 'Huntsville', 'AL', 'US', 34.7304, -86.5861],
+  ['rochester-ny', 'Rochester', 'NY', 'US', 43.1566, -77.6088],
+  ['grand-rapids-mi', 'Grand Rapids', 'MI', 'US', 42.9634, -85.6681],
+  ['ann-arbor-mi', 'Ann Arbor', 'MI', 'US', 42.2808, -83.743],
+  ['knoxville-tn', 'Knoxville', 'TN', 'US', 35.9606, -83.9207],
+  ['chattanooga-tn', 'Chattanooga', 'TN', 'US', 35.0456, -85.3097],
+  ['providence-ri', 'Providence', 'RI', 'US', 41.824, -71.4128],
+  ['hartford-ct', 'Hartford', 'CT', 'US', 41.7658, -72.6734],
+  ['new-haven-ct', 'New Haven', 'CT', 'US', 41.3083, -72.9279],
+  ['stamford-ct', 'Stamford', 'CT', 'US', 41.0534, -73.5387],
+  ['albany-ny', 'Albany', 'NY', 'US', 42.6526, -73.7562],
+  ['syracuse-ny', 'Syracuse', 'NY', 'US', 43.0481, -76.1474],
+  ['ithaca-ny', 'Ithaca', 'NY', 'US', 42.444, -76.5019],
+  ['cambridge-ma', 'Cambridge', 'MA', 'US', 42.3736, -71.1097],
+  ['somerville-ma', 'Somerville', 'MA', 'US', 42.3876, -71.0995],
+  ['worcester-ma', 'Worcester', 'MA', 'US', 42.2626, -71.8023],
+  ['burlington-vt', 'Burlington', 'VT', 'US', 44.4759, -73.2121],
+  ['portland-me', 'Portland', 'ME', 'US', 43.6591, -70.2568],
+  ['manchester-nh', 'Manchester', 'NH', 'US', 42.9956, -71.4548],
+  ['princeton-nj', 'Princeton', 'NJ', 'US', 40.3573, -74.6672],
+  ['hoboken-nj', 'Hoboken', 'NJ', 'US', 40.744, -74.0324],
+  ['wilmington-de', 'Wilmington', 'DE', 'US', 39.7391, -75.5398],
+  ['arlington-va', 'Arlington', 'VA', 'US', 38.8816, -77.091],
+  ['alexandria-va', 'Alexandria', 'VA', 'US', 38.8048, -77.0469],
+  ['mclean-va', 'McLean', 'VA', 'US', 38.9339, -77.1773, ['tysons']],
+  ['reston-va', 'Reston', 'VA', 'US', 38.9586, -77.357],
+  ['herndon-va', 'Herndon', 'VA', 'US', 38.9696, -77.3861],
+  ['bethesda-md', 'Bethesda', 'MD', 'US', 38.9807, -77.1003],
+  ['columbia-md', 'Columbia', 'MD', 'US', 39.2037, -76.861],
+  ['charleston-sc', 'Charleston', 'SC', 'US', 32.7765, -79.9311],
+  ['greenville-sc', 'Greenville', 'SC', 'US', 34.8526, -82.394],
+  ['columbia-sc', 'Columbia', 'SC', 'US', 34.0007, -81.0348],
+  ['savannah-ga', 'Savannah', 'GA', 'US', 32.0809, -81.0912],
+  ['alpharetta-ga', 'Alpharetta', 'GA', 'US', 34.0754, -84.2941],
+  ['fort-lauderdale-fl', 'Fort Lauderdale', 'FL', 'US', 26.1224, -80.1373],
+  ['st-petersburg-fl', 'St. Petersburg', 'FL', 'US', 27.7676, -82.6403, ['saint petersburg']],
+  ['tallahassee-fl', 'Tallahassee', 'FL', 'US', 30.4383, -84.2807],
+  ['gainesville-fl', 'Gainesville', 'FL', 'US', 29.6516, -82.3248],
+  ['boca-raton-fl', 'Boca Raton', 'FL', 'US', 26.3683, -80.1289],
+  ['baton-rouge-la', 'Baton Rouge', 'LA', 'US', 30.4515, -91.1871],
+  ['little-rock-ar', 'Little Rock', 'AR', 'US', 34.7465, -92.2896],
+  ['bentonville-ar', 'Bentonville', 'AR', 'US', 36.3729, -94.2088],
+  ['jackson-ms', 'Jackson', 'MS', 'US', 32.2988, -90.1848],
+  ['akron-oh', 'Akron', 'OH', 'US', 41.0814, -81.519],
+  ['dayton-oh', 'Dayton', 'OH', 'US', 39.7589, -84.1916],
+  ['toledo-oh', 'Toledo', 'OH', 'US', 41.6528, -83.5379],
+  ['fort-wayne-in', 'Fort Wayne', 'IN', 'US', 41.0793, -85.1394],
+  ['bloomington-in', 'Bloomington', 'IN', 'US', 39.1653, -86.5264],
+  ['west-lafayette-in', 'West Lafayette', 'IN', 'US', 40.4259, -86.9081],
+  ['champaign-il', 'Champaign', 'IL', 'US', 40.1164, -88.2434, ['urbana-champaign']],
+  ['naperville-il', 'Naperville', 'IL', 'US', 41.7508, -88.1535],
+  ['evanston-il', 'Evanston', 'IL', 'US', 42.0451, -87.6877],
+  ['lincoln-ne', 'Lincoln', 'NE', 'US', 40.8136, -96.7026],
+  ['sioux-falls-sd', 'Sioux Falls', 'SD', 'US', 43.5446, -96.7311],
+  ['fargo-nd', 'Fargo', 'ND', 'US', 46.8772, -96.7898],
+  ['overland-park-ks', 'Overland Park', 'KS', 'US', 38.9822, -94.6708],
+  ['st-louis-park-mn', 'St. Louis Park', 'MN', 'US', 44.9483, -93.348],
+  ['rochester-mn', 'Rochester', 'MN', 'US', 44.0121, -92.4802],
+  ['boulder-co', 'Boulder', 'CO', 'US', 40.015, -105.2705],
+  ['fort-collins-co', 'Fort Collins', 'CO', 'US', 40.5853, -105.0844],
+  ['santa-fe-nm', 'Santa Fe', 'NM', 'US', 35.687, -105.9378],
+  ['anchorage-ak', 'Anchorage', 'AK', 'US', 61.2181, -149.9003],
+  ['bellevue-wa', 'Bellevue', 'WA', 'US', 47.6101, -122.2015],
+  ['redmond-wa', 'Redmond', 'WA', 'US', 47.674, -122.1215],
+  ['kirkland-wa', 'Kirkland', 'WA', 'US', 47.6769, -122.206],
+  ['tacoma-wa', 'Tacoma', 'WA', 'US', 47.2529, -122.4443],
+  ['vancouver-wa', 'Vancouver', 'WA', 'US', 45.6387, -122.6615],
+  ['beaverton-or', 'Beaverton', 'OR', 'US', 45.4871, -122.8037],
+  ['hillsboro-or', 'Hillsboro', 'OR', 'US', 45.5229, -122.9898],
+  ['eugene-or', 'Eugene', 'OR', 'US', 44.0521, -123.0868],
+  ['palo-alto-ca', 'Palo Alto', 'CA', 'US', 37.4419, -122.143],
+  ['mountain-view-ca', 'Mountain View', 'CA', 'US', 37.3861, -122.0839],
+  ['sunnyvale-ca', 'Sunnyvale', 'CA', 'US', 37.3688, -122.0363],
+  ['santa-clara-ca', 'Santa Clara', 'CA', 'US', 37.3541, -121.9552],
+  ['cupertino-ca', 'Cupertino', 'CA', 'US', 37.323, -122.0322],
+  ['menlo-park-ca', 'Menlo Park', 'CA', 'US', 37.453, -122.1817],
+  ['redwood-city-ca', 'Redwood City', 'CA', 'US', 37.4852, -122.2364],
+  ['san-mateo-ca', 'San Mateo', 'CA', 'US', 37.563, -122.3255],
+  ['south-san-francisco-ca', 'South San Francisco', 'CA', 'US', 37.6547, -122.4077],
+  ['foster-city-ca', 'Foster City', 'CA', 'US', 37.5585, -122.2711],
+  ['berkeley-ca', 'Berkeley', 'CA', 'US', 37.8715, -122.273],
+  ['emeryville-ca', 'Emeryville', 'CA', 'US', 37.8313, -122.2852],
+  ['fremont-ca', 'Fremont', 'CA', 'US', 37.5485, -121.9886],
+  ['milpitas-ca', 'Milpitas', 'CA', 'US', 37.4323, -121.8996],
+  ['pleasanton-ca', 'Pleasanton', 'CA', 'US', 37.6624, -121.8747],
+  ['santa-monica-ca', 'Santa Monica', 'CA', 'US', 34.0195, -118.4912],
+  ['culver-city-ca', 'Culver City', 'CA', 'US', 34.0211, -118.3965],
+  ['pasadena-ca', 'Pasadena', 'CA', 'US', 34.1478, -118.1445],
+  ['burbank-ca', 'Burbank', 'CA', 'US', 34.1808, -118.309],
+  ['el-segundo-ca', 'El Segundo', 'CA', 'US', 33.9192, -118.4165],
+  ['torrance-ca', 'Torrance', 'CA', 'US', 33.8358, -118.3406],
+  ['santa-barbara-ca', 'Santa Barbara', 'CA', 'US', 34.4208, -119.6982],
+  ['santa-cruz-ca', 'Santa Cruz', 'CA', 'US', 36.9741, -122.0308],
+  ['davis-ca', 'Davis', 'CA', 'US', 38.5449, -121.7405],
+
+  // ---------- Canada ----------
+  ['toronto-on', 'Toronto', 'ON', 'CA', 43.6532, -79.3832, ['gta']],
+  ['montreal-qc', 'Montreal', 'QC', 'CA', 45.5017, -73.5673, ['montréal']],
+  ['vancouver-bc', 'Vancouver', 'BC', 'CA', 49.2827, -123.1207],
+  ['calgary-ab', 'Calgary', 'AB', 'CA', 51.0447, -114.0719],
+  ['edmonton-ab', 'Edmonton', 'AB', 'CA', 53.5461, -113.4938],
+  ['ottawa-on', 'Ottawa', 'ON', 'CA', 45.4215, -75.6972],
+  ['waterloo-on', 'Waterloo', 'ON', 'CA', 43.4643, -80.5204, ['kitchener-waterloo', 'kitchener']],
+  ['winnipeg-mb', 'Winnipeg', 'MB', 'CA', 49.8951, -97.1384],
+  ['quebec-city-qc', 'Quebec City', 'QC', 'CA', 46.8139, -71.208],
+  ['halifax-ns', 'Halifax', 'NS', 'CA', 44.6488, -63.5752],
+  ['victoria-bc', 'Victoria', 'BC', 'CA', 48.4284, -123.3656],
+
+  // ---------- Rest of the world ----------
+  ['london-gb', 'London', '', 'GB', 51.5074, -0.1278],
+  ['manchester-gb', 'Manchester', '', 'GB', 53.4808, -2.2426],
+  ['edinburgh-gb', 'Edinburgh', '', 'GB', 55.9533, -3.1883],
+  ['cambridge-gb', 'Cambridge', '', 'GB', 52.2053, 0.1218],
+  ['oxford-gb', 'Oxford', '', 'GB', 51.752, -1.2577],
+  ['dublin-ie', 'Dublin', '', 'IE', 53.3498, -6.2603],
+  ['paris-fr', 'Paris', '', 'FR', 48.8566, 2.3522],
+  ['berlin-de', 'Berlin', '', 'DE', 52.52, 13.405],
+  ['munich-de', 'Munich', '', 'DE', 48.1351, 11.582, ['münchen']],
+  ['hamburg-de', 'Hamburg', '', 'DE', 53.5511, 9.9937],
+  ['frankfurt-de', 'Frankfurt', '', 'DE', 50.1109, 8.6821],
+  ['amsterdam-nl', 'Amsterdam', '', 'NL', 52.3676, 4.9041],
+  ['rotterdam-nl', 'Rotterdam', '', 'NL', 51.9244, 4.4777],
+  ['brussels-be', 'Brussels', '', 'BE', 50.8503, 4.3517],
+  ['zurich-ch', 'Zurich', '', 'CH', 47.3769, 8.5417, ['zürich']],
+  ['geneva-ch', 'Geneva', '', 'CH', 46.2044, 6.1432],
+  ['vienna-at', 'Vienna', '', 'AT', 48.2082, 16.3738],
+  ['stockholm-se', 'Stockholm', '', 'SE', 59.3293, 18.0686],
+  ['copenhagen-dk', 'Copenhagen', '', 'DK', 55.6761, 12.5683],
+  ['oslo-no', 'Oslo', '', 'NO', 59.9139, 10.7522],
+  ['helsinki-fi', 'Helsinki', '', 'FI', 60.1699, 24.9384],
+  ['madrid-es', 'Madrid', '', 'ES', 40.4168, -3.7038],
+  ['barcelona-es', 'Barcelona', '', 'ES', 41.3851, 2.1734],
+  ['lisbon-pt', 'Lisbon', '', 'PT', 38.7223, -9.1393],
+  ['milan-it', 'Milan', '', 'IT', 45.4642, 9.19],
+  ['rome-it', 'Rome', '', 'IT', 41.9028, 12.4964],
+  ['warsaw-pl', 'Warsaw', '', 'PL', 52.2297, 21.0122],
+  ['krakow-pl', 'Krakow', '', 'PL', 50.0647, 19.945, ['kraków']],
+  ['prague-cz', 'Prague', '', 'CZ', 50.0755, 14.4378],
+  ['budapest-hu', 'Budapest', '', 'HU', 47.4979, 19.0402],
+  ['bucharest-ro', 'Bucharest', '', 'RO', 44.4268, 26.1025],
+  ['athens-gr', 'Athens', '', 'GR', 37.9838, 23.7275],
+  ['istanbul-tr', 'Istanbul', '', 'TR', 41.0082, 28.9784],
+  ['tel-aviv-il', 'Tel Aviv', '', 'IL', 32.0853, 34.7818],
+  ['dubai-ae', 'Dubai', '', 'AE', 25.2048, 55.2708],
+  ['bangalore-in', 'Bangalore', '', 'IN', 12.9716, 77.5946, ['bengaluru']],
+  ['hyderabad-in', 'Hyderabad', '', 'IN', 17.385, 78.4867],
+  ['mumbai-in', 'Mumbai', '', 'IN', 19.076, 72.8777],
+  ['pune-in', 'Pune', '', 'IN', 18.5204, 73.8567],
+  ['chennai-in', 'Chennai', '', 'IN', 13.0827, 80.2707],
+  ['delhi-in', 'New Delhi', '', 'IN', 28.6139, 77.209, ['delhi', 'gurgaon', 'gurugram', 'noida']],
+  ['singapore-sg', 'Singapore', '', 'SG', 1.3521, 103.8198],
+  ['hong-kong-hk', 'Hong Kong', '', 'HK', 22.3193, 114.1694],
+  ['tokyo-jp', 'Tokyo', '', 'JP', 35.6762, 139.6503],
+  ['osaka-jp', 'Osaka', '', 'JP', 34.6937, 135.5023],
+  ['seoul-kr', 'Seoul', '', 'KR', 37.5665, 126.978],
+  ['beijing-cn', 'Beijing', '', 'CN', 39.9042, 116.4074],
+  ['shanghai-cn', 'Shanghai', '', 'CN', 31.2304, 121.4737],
+  ['shenzhen-cn', 'Shenzhen', '', 'CN', 22.5431, 114.0579],
+  ['taipei-tw', 'Taipei', '', 'TW', 25.033, 121.5654],
+  ['sydney-au', 'Sydney', '', 'AU', -33.8688, 151.2093],
+  ['melbourne-au', 'Melbourne', '', 'AU', -37.8136, 144.9631],
+  ['brisbane-au', 'Brisbane', '', 'AU', -27.4698, 153.0251],
+  ['auckland-nz', 'Auckland', '', 'NZ', -36.8485, 174.7633],
+  ['mexico-city-mx', 'Mexico City', '', 'MX', 19.4326, -99.1332, ['cdmx']],
+  ['guadalajara-mx', 'Guadalajara', '', 'MX', 20.6597, -103.3496],
+  ['sao-paulo-br', 'São Paulo', '', 'BR', -23.5505, -46.6333, ['sao paulo']],
+  ['buenos-aires-ar', 'Buenos Aires', '', 'AR', -34.6037, -58.3816],
+  ['bogota-co', 'Bogotá', '', 'CO', 4.711, -74.0721, ['bogota']],
+  ['santiago-cl', 'Santiago', '', 'CL', -33.4489, -70.6693],
+  ['lagos-ng', 'Lagos', '', 'NG', 6.5244, 3.3792],
+  ['nairobi-ke', 'Nairobi', '', 'KE', -1.2921, 36.8219],
+  ['cape-town-za', 'Cape Town', '', 'ZA', -33.9249, 18.4241],
+  ['johannesburg-za', 'Johannesburg', '', 'ZA', -26.2041, 28.0473],
+  ['cairo-eg', 'Cairo', '', 'EG', 30.0444, 31.2357]
+];
+
+export const GAZETTEER: GazetteerCity[] = CITY_ROWS.map(([id, name, region, country, lat, lng, aliases]) => ({
+  id, name, region, country, lat, lng, aliases
+}));
+
+export const US_STATES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+  ontario: 'ON', quebec: 'QC', 'british columbia': 'BC', alberta: 'AB', manitoba: 'MB', 'nova scotia': 'NS'
+};
+
+export const COUNTRY_NAMES: Record<string, string> = {
+  'united states': 'US', usa: 'US', us: 'US', 'united states of america': 'US', canada: 'CA',
+  'united kingdom': 'GB', uk: 'GB', england: 'GB', scotland: 'GB', ireland: 'IE', france: 'FR',
+  germany: 'DE', netherlands: 'NL', belgium: 'BE', switzerland: 'CH', austria: 'AT', sweden: 'SE',
+  denmark: 'DK', norway: 'NO', finland: 'FI', spain: 'ES', portugal: 'PT', italy: 'IT', poland: 'PL',
+  'czech republic': 'CZ', czechia: 'CZ', hungary: 'HU', romania: 'RO', greece: 'GR', turkey: 'TR',
+  israel: 'IL', uae: 'AE', 'united arab emirates': 'AE', india: 'IN', singapore: 'SG', 'hong kong': 'HK',
+  japan: 'JP', 'south korea': 'KR', korea: 'KR', china: 'CN', taiwan: 'TW', australia: 'AU',
+  'new zealand': 'NZ', mexico: 'MX', brazil: 'BR', argentina: 'AR', colombia: 'CO', chile: 'CL',
+  nigeria: 'NG', kenya: 'KE', 'south africa': 'ZA', egypt: 'EG'
+};
+
+export function getCityById(id: string): GazetteerCity | undefined {
+  return GAZETTEER.find(city => city.id === id);
+}
+
+export function formatCityLabel(city: GazetteerCity): string {
+  return city.region ? `${city.name}, ${city.region}` : `${city.name}, ${city.country}`;
+}
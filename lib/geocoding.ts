@@ -0,0 +1,89 @@
+// lib/geocoding.ts
+// Resolves free-text application locations against the bundled gazetteer - no
+// network calls. Anything that can't be matched is left for a manual override.
+import { Application } from './domain';
+import { COUNTRY_NAMES, GAZETTEER, GazetteerCity, US_STATES, getCityById } from './gazetteer';
+
+// Stored in locationOverride to file an application under Remote
+export const REMOTE_OVERRIDE = 'remote';
+
+export type GeocodeResult =
+  | { kind: 'city'; city: GazetteerCity; manual: boolean }
+  | { kind: 'remote'; manual: boolean }
+  | { kind: 'unresolved' };
+
+const REMOTE_PATTERN = /\b(remote|anywhere|work from home|wfh|distributed|telecommute)\b/;
+
+// Words that qualify a place without naming it ("Greater Boston Area (Hybrid)")
+const NOISE_PATTERN = /\b(hybrid|on-?site|in-?office|office|hq|headquarters|greater|metro|metropolitan|area|region|downtown)\b/g;
+
+const normalize = (value: string) => value
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/\./g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// City name / alias → candidate cities, biggest first (gazetteer order)
+const cityIndex = new Map<string, GazetteerCity[]>();
+GAZETTEER.forEach((city) => {
+  [city.name, ...(city.aliases || [])].forEach((name) => {
+    const key = normalize(name);
+    cityIndex.set(key, [...(cityIndex.get(key) || []), city]);
+  });
+});
+
+// Turn "CA", "California", "UK" or "Germany" into a region or country code
+function parseQualifier(qualifier: string): string | null {
+  const key = normalize(qualifier);
+  if (!key) return null;
+  if (US_STATES[key]) return US_STATES[key];
+  if (COUNTRY_NAMES[key]) return COUNTRY_NAMES[key];
+  if (key.length === 2) return key.toUpperCase();
+  return null;
+}
+
+function matchSegment(segment: string): GazetteerCity | null {
+  const withoutParens = segment.replace(/\(.*?\)/g, ' ');
+
+  // Try the text as written first so aliases like "SF Bay Area" still match
+  for (const text of [withoutParens, withoutParens.toLowerCase().replace(NOISE_PATTERN, ' ')]) {
+    const [cityPart, ...qualifiers] = text.split(',');
+    const candidates = cityIndex.get(normalize(cityPart.replace(/-/g, ' '))) || cityIndex.get(normalize(cityPart));
+    if (!candidates) continue;
+
+    // A named state or country must agree: "London, ON" is not the London we
+    // know, and leaving it unresolved beats pinning it in the wrong country
+    const codes = qualifiers.map(parseQualifier).filter(Boolean);
+    if (codes.length === 0) return candidates[0];
+    const match = candidates.find(city => codes.some(code => city.region === code || city.country === code));
+    if (match) return match;
+  }
+  return null;
+}
+
+// Resolve a location string. Cities win over remote markers, so
+// "New York, NY / Remote" is placed in New York.
+export function geocodeLocation(location: string | undefined | null): GeocodeResult {
+  if (!location || !location.trim()) return { kind: 'unresolved' };
+
+  const segments = location.split(/\/|;|\||•|\bor\b|\n/i).map(part => part.trim()).filter(Boolean);
+  for (const segment of segments) {
+    const city = matchSegment(segment);
+    if (city) return { kind: 'city', city, manual: false };
+  }
+
+  if (REMOTE_PATTERN.test(normalize(location))) return { kind: 'remote', manual: false };
+  return { kind: 'unresolved' };
+}
+
+// Manual overrides take precedence over the text match
+export function resolveApplicationLocation(app: Application): GeocodeResult {
+  if (app.locationOverride === REMOTE_OVERRIDE) return { kind: 'remote', manual: true };
+  if (app.locationOverride) {
+    const city = getCityById(app.locationOverride);
+    if (city) return { kind: 'city', city, manual: true };
+  }
+  return geocodeLocation(app.location);
+}
@@ -0,0 +1,131 @@
+// lib/interviews.ts
+// Scheduling helpers for interviews. Each one stores an instant plus the time
+// zone it was given in, so "2pm Eastern" still reads that way when the user
+// is travelling, with their own local time shown alongside.
+import { Interview } from './domain';
+
+export const COMMON_TIME_ZONES = [
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Toronto',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'UTC'
+];
+
+// Interviews without a duration are assumed to take an hour
+const DEFAULT_DURATION_MINUTES = 60;
+const MS_PER_MINUTE = 60 * 1000;
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// The user's zone first, then the common ones, keeping an unusual saved zone selectable
+export function getTimeZoneOptions(current?: string): string[] {
+  return Array.from(new Set([getLocalTimeZone(), ...COMMON_TIME_ZONES, ...(current ? [current] : [])]));
+}
+
+// Wall-clock parts of an instant as seen in a time zone
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// How far a zone is ahead of UTC at an instant, in milliseconds
+function getZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// A datetime-local value ("2025-10-14T14:00") read as wall-clock time in a zone
+export function zonedTimeToDate(value: string, timeZone: string): Date {
+  const [datePart, timePart = '00:00'] = value.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute] = timePart.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset can change between the guess and the answer around DST switches
+  const offset = getZoneOffset(new Date(wallClock), timeZone);
+  const correctedOffset = getZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - correctedOffset);
+}
+
+// The datetime-local value that shows an instant in a zone
+export function toZonedInputValue(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+}
+
+// e.g. "Tue, Oct 14, 2:00 PM EDT"
+export function formatInterviewTime(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
+
+// The same instant in the user's zone, or null when they're already in the interview's zone
+export function formatLocalInterviewTime(date: Date, timeZone: string): string | null {
+  const localZone = getLocalTimeZone();
+  if (getZoneOffset(date, localZone) === getZoneOffset(date, timeZone)) return null;
+  return formatInterviewTime(date, localZone);
+}
+
+// Still to happen (or happening now) and not cancelled
+export function isUpcoming(interview: Interview, now = Date.now()): boolean {
+  const start = interview.scheduledAt?.toMillis();
+  if (!start || interview.outcome === 'cancelled') return false;
+  const end = start + (interview.durationMinutes || DEFAULT_DURATION_MINUTES) * MS_PER_MINUTE;
+  return end > now;
+}
+
+export function getUpcomingInterviews(interviews: Interview[], now = Date.now()): Interview[] {
+  return interviews
+    .filter(interview => isUpcoming(interview, now))
+    .sort((a, b) => a.scheduledAt.toMillis() - b.scheduledAt.toMillis());
+}
+
+// Each application's soonest upcoming interview, for its card
+export function getNextInterviews(interviews: Interview[], now = Date.now()): Map<string, Interview> {
+  const next = new Map<string, Interview>();
+  getUpcomingInterviews(interviews, now).forEach((interview) => {
+    if (!next.has(interview.applicationId)) next.set(interview.applicationId, interview);
+  });
+  return next;
+}
+
+// Short relative day for the Upcoming strip, e.g. "Today" or "In 3 days"
+export function formatInterviewDay(date: Date, timeZone: string, now = Date.now()): string {
+  const toDay = (instant: Date) => {
+    const { year, month, day } = getZonedParts(instant, timeZone);
+    return Date.UTC(year, month - 1, day) / (24 * 60 * MS_PER_MINUTE);
+  };
+  const days = toDay(date) - toDay(new Date(now));
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return `In ${days} days`;
+}
@@ -0,0 +1,58 @@
+// lib/jobDescriptions.ts
+// Job description snapshots: turning pasted input into a snapshot, reading
+// snapshots back as text and grouping them by application.
+import { DescriptionSnapshot, DescriptionSnapshotInput } from './domain';
+import { DATE_TIME_FORMAT, formatDate } from './dates';
+import { MAX_DESCRIPTION_LENGTH, htmlToText } from './jobPosting';
+import { isHtmlFragment, sanitizeHtml } from './sanitizeHtml';
+
+// Firestore rule limit on a snapshot's content
+export const MAX_SNAPSHOT_LENGTH = 50000;
+
+export interface PreparedDescription {
+  snapshot: DescriptionSnapshotInput;
+  text: string; // Plain text copied onto the application
+}
+
+// A snapshot for pasted text or HTML, or null when there's nothing to save.
+// HTML too long to store once sanitized is kept as its text instead.
+export function prepareDescription(input: string): PreparedDescription | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  if (isHtmlFragment(trimmed)) {
+    const content = sanitizeHtml(trimmed);
+    const text = htmlToText(content).slice(0, MAX_DESCRIPTION_LENGTH);
+    if (!text) return null;
+    return content.length <= MAX_SNAPSHOT_LENGTH
+      ? { snapshot: { content, format: 'html' }, text }
+      : { snapshot: { content: text, format: 'text' }, text };
+  }
+
+  const content = trimmed.slice(0, MAX_SNAPSHOT_LENGTH);
+  return { snapshot: { content, format: 'text' }, text: content.slice(0, MAX_DESCRIPTION_LENGTH) };
+}
+
+export const getSnapshotText = (snapshot: DescriptionSnapshot) =>
+  (snapshot.format === 'html' ? htmlToText(snapshot.content) : snapshot.content);
+
+// One application's snapshots, newest first
+export function getApplicationSnapshots(snapshots: DescriptionSnapshot[], applicationId: string): DescriptionSnapshot[] {
+  return snapshots
+    .filter(snapshot => snapshot.applicationId === applicationId)
+    .sort((a, b) => (b.createdAt?.toMillis() || Date.now()) - (a.createdAt?.toMillis() || Date.now()));
+}
+
+// Every version of each application's description as one block of text,
+// so search still finds wording that a later edit removed
+export function getArchivedDescriptions(snapshots: DescriptionSnapshot[]): Map<string, string> {
+  const texts = new Map<string, string[]>();
+  snapshots.forEach((snapshot) => {
+    if (!texts.has(snapshot.applicationId)) texts.set(snapshot.applicationId, []);
+    texts.get(snapshot.applicationId).push(getSnapshotText(snapshot));
+  });
+  return new Map(Array.from(texts, ([applicationId, versions]) => [applicationId, Array.from(new Set(versions)).join('\n')]));
+}
+
+export const formatSnapshotDate = (snapshot: DescriptionSnapshot) =>
+  formatDate(snapshot.createdAt, DATE_TIME_FORMAT) || 'Saving...';
@@ -0,0 +1,297 @@
+// lib/jobPosting.ts
+// Pulls application fields out of a pasted job posting. Pages with a schema.org
+// JobPosting in JSON-LD are read from that; otherwise Greenhouse, Lever and
+// Workday layouts are recognized, then generic page metadata, then plain text.
+// Everything runs on the pasted content - nothing is fetched.
+
+export type JobPostingSource = 'json-ld' | 'greenhouse' | 'lever' | 'workday' | 'page' | 'text';
+
+export const JOB_POSTING_SOURCE_LABELS: Record<JobPostingSource, string> = {
+  'json-ld': 'structured JobPosting data',
+  greenhouse: 'a Greenhouse job page',
+  lever: 'a Lever job page',
+  workday: 'a Workday job page',
+  page: 'the page title and metadata',
+  text: 'the posting text'
+};
+
+export interface ParsedJobPosting {
+  jobTitle: string;
+  company: string;
+  location: string;
+  jobLink: string;
+  description: string;
+  deadline: string; // YYYY-MM-DD, or '' when none was found
+  source: JobPostingSource;
+}
+
+// Longest description kept, matching the security rules
+export const MAX_DESCRIPTION_LENGTH = 20000;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', hellip: '…', bull: '•'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Code points outside Unicode would make fromCodePoint throw
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Readable text from an HTML fragment: block elements become line breaks,
+// list items get bullets and runs of blank lines collapse
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '\n• ')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|section|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const cleanText = (value: unknown) => (typeof value === 'string' ? decodeEntities(value).replace(/\s+/g, ' ').trim() : '');
+
+// Only web links are kept: pasted content could carry a javascript: or data: URL
+const cleanLink = (value: unknown) => {
+  const link = cleanText(value);
+  return /^https?:\/\//i.test(link) ? link : '';
+};
+
+export const looksLikeHtml = (input: string) => /<(html|head|body|div|script|meta|p|h1|section)[\s>]/i.test(input);
+
+// ---------- Dates ----------
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// "2025-10-31", "2025-10-31T23:59:00-07:00", "October 31, 2025", "31 Oct 2025" or "10/31/2025"
+export function parseDeadline(value: string): string {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) return toDateString(new Date(Number(us[3]), Number(us[1]) - 1, Number(us[2])));
+
+  const named = text.match(/^(?:[a-z]+,?\s+)?(?:[a-z]{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4}|\d{1,2}(?:st|nd|rd|th)?\s+[a-z]{3,9}\.?,?\s+\d{4})/i);
+  if (named) {
+    const date = new Date(named[0].replace(/(\d)(st|nd|rd|th)/i, '$1').replace(/\./g, ''));
+    if (!Number.isNaN(date.getTime())) return toDateString(date);
+  }
+  return '';
+}
+
+const DEADLINE_PATTERN = /(?:apply by|application deadline|deadline to apply|deadline|closing date|applications close(?:s)?(?: on)?|closes(?: on)?|valid through)\s*[:\-–]?\s*([^\n]{6,40})/i;
+
+// A closing date mentioned in the posting text, e.g. "Apply by: October 31, 2025"
+export function findDeadlineInText(text: string): string {
+  const match = text.match(DEADLINE_PATTERN);
+  return match ? parseDeadline(match[1]) : '';
+}
+
+// ---------- JSON-LD ----------
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isJobPosting = (node: JsonObject) => {
+  const type = node['@type'];
+  return type === 'JobPosting' || (Array.isArray(type) && type.includes('JobPosting'));
+};
+
+// Every object in a JSON-LD document, including @graph members and nested values
+function findJobPostingNode(node: unknown): JsonObject | null {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findJobPostingNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!isObject(node)) return null;
+  if (isJobPosting(node)) return node;
+  for (const value of Object.values(node)) {
+    const found = findJobPostingNode(value);
+    if (found) return found;
+  }
+  return null;
+}
+
+function formatJobLocation(posting: JsonObject): string {
+  const places = (Array.isArray(posting.jobLocation) ? posting.jobLocation : [posting.jobLocation]).filter(Boolean);
+  const locations = places.map((place: unknown) => {
+    const address = isObject(place) ? place.address || place : place;
+    if (typeof address === 'string') return cleanText(address);
+    if (!isObject(address)) return '';
+    const country = isObject(address.addressCountry) ? address.addressCountry.name : address.addressCountry;
+    return [address.addressLocality, address.addressRegion, places.length === 1 && !address.addressRegion ? country : '']
+      .map(cleanText)
+      .filter(Boolean)
+      .join(', ');
+  }).filter(Boolean);
+
+  const remote = posting.jobLocationType === 'TELECOMMUTE' || (Array.isArray(posting.jobLocationType) && posting.jobLocationType.includes('TELECOMMUTE'));
+  if (remote) locations.push('Remote');
+  return Array.from(new Set(locations)).join(' / ');
+}
+
+function parseJsonLd(input: string): Omit<ParsedJobPosting, 'source'> | null {
+  const scripts = input.match(/<script[^>]*type=["']?application\/ld\+json["']?[^>]*>[\s\S]*?<\/script>/gi) || [];
+  for (const script of scripts) {
+    const body = script
+      .replace(/^<script[^>]*>/i, '')
+      .replace(/<\/script>$/i, '')
+      .replace(/^\s*(<!\[CDATA\[|<!--)/, '')
+      .replace(/(\]\]>|-->)\s*$/, '');
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      continue; // Some sites ship invalid JSON-LD; try the next block
+    }
+
+    const posting = findJobPostingNode(data);
+    if (!posting) continue;
+
+    const organization = posting.hiringOrganization;
+    const description = htmlToText(decodeEntities(typeof posting.description === 'string' ? posting.description : ''));
+    return {
+      jobTitle: cleanText(posting.title),
+      company: cleanText(isObject(organization) ? organization.name : organization),
+      location: formatJobLocation(posting),
+      jobLink: cleanLink(posting.url),
+      description,
+      deadline: (typeof posting.validThrough === 'string' && parseDeadline(posting.validThrough)) || findDeadlineInText(description)
+    };
+  }
+  return null;
+}
+
+// ---------- HTML pages ----------
+
+const text = (doc: Document, selector: string) => cleanText(doc.querySelector(selector)?.textContent);
+const meta = (doc: Document, name: string) =>
+  cleanText(doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content'));
+const html = (doc: Document, selector: string) => {
+  const element = doc.querySelector(selector);
+  return element ? htmlToText(element.innerHTML) : '';
+};
+
+// "Senior Engineer - Acme" or "Acme | Senior Engineer" split into parts
+const splitTitle = (title: string) => title.split(/\s+[-–|@]\s+|\s+at\s+/).map(part => part.trim()).filter(Boolean);
+
+function detectAts(doc: Document, pageUrl: string): JobPostingSource {
+  const markers = `${pageUrl} ${meta(doc, 'og:url')} ${doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || ''} ${doc.documentElement.innerHTML.slice(0, 20000)}`;
+  if (/greenhouse\.io/i.test(markers)) return 'greenhouse';
+  if (/jobs\.lever\.co|lever-jobs|posting-headline/i.test(markers)) return 'lever';
+  if (/myworkdayjobs\.com|data-automation-id="jobPostingHeader"/i.test(markers)) return 'workday';
+  return 'page';
+}
+
+function parseHtmlPage(input: string): ParsedJobPosting {
+  const doc = new DOMParser().parseFromString(input, 'text/html');
+  const pageUrl = meta(doc, 'og:url') || doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || '';
+  const source = detectAts(doc, pageUrl);
+  const pageTitle = meta(doc, 'og:title') || cleanText(doc.title);
+  const siteName = meta(doc, 'og:site_name');
+
+  let jobTitle = '';
+  let company = '';
+  let location = '';
+  let description = '';
+
+  if (source === 'greenhouse') {
+    jobTitle = text(doc, 'h1.app-title') || text(doc, '.job__title h1') || text(doc, 'h1.section-header') || text(doc, 'h1');
+    company = text(doc, '.company-name').replace(/^at\s+/i, '') || siteName;
+    location = text(doc, '#header .location') || text(doc, '.job__location') || text(doc, '.location');
+    description = html(doc, '#content') || html(doc, '.job__description') || html(doc, '#app_body');
+  } else if (source === 'lever') {
+    jobTitle = text(doc, '.posting-headline h2') || text(doc, 'h2');
+    company = doc.querySelector('.main-header-logo img')?.getAttribute('alt')?.trim() || '';
+    location = text(doc, '.posting-categories .location') || text(doc, '.posting-category.location');
+    description = html(doc, '[data-qa="job-description"]') || html(doc, '.section-wrapper.page-full-width') || html(doc, '.content');
+  } else if (source === 'workday') {
+    jobTitle = text(doc, '[data-automation-id="jobPostingHeader"]');
+    location = text(doc, '[data-automation-id="locations"] dd') || text(doc, '[data-automation-id="locations"]').replace(/^locations\s*/i, '');
+    description = html(doc, '[data-automation-id="jobPostingDescription"]');
+    // acme.wd5.myworkdayjobs.com belongs to Acme
+    const tenant = pageUrl.match(/\/\/([a-z0-9-]+)\.wd\d+\.myworkdayjobs\.com/i)?.[1];
+    company = siteName || (tenant ? tenant.charAt(0).toUpperCase() + tenant.slice(1) : '');
+  }
+
+  // Fill anything the layout didn't provide from the page itself
+  const [titlePart, companyPart] = splitTitle(pageTitle);
+  jobTitle = jobTitle || text(doc, 'h1') || titlePart || '';
+  company = company || siteName || (companyPart && companyPart !== jobTitle ? companyPart : '');
+  description = description || html(doc, 'main') || html(doc, 'article') || html(doc, 'body') || meta(doc, 'description');
+
+  // Lever and Greenhouse titles often read "Acme - Senior Engineer"
+  if (company && jobTitle.toLowerCase().startsWith(`${company.toLowerCase()} - `)) {
+    jobTitle = jobTitle.slice(company.length + 3);
+  }
+
+  return {
+    jobTitle,
+    company,
+    location,
+    jobLink: cleanLink(pageUrl),
+    description,
+    deadline: findDeadlineInText(description),
+    source
+  };
+}
+
+// ---------- Plain text ----------
+
+const LABELLED_LINE = (label: string) => new RegExp(`^\\s*(?:${label})\\s*[:\\-–]\\s*(.+)$`, 'im');
+
+function parsePlainText(input: string): ParsedJobPosting {
+  const description = input.trim();
+  const lines = description.split('\n').map(line => line.trim()).filter(Boolean);
+  const labelled = (label: string) => cleanText(description.match(LABELLED_LINE(label))?.[1]);
+
+  return {
+    jobTitle: labelled('job title|title|position|role') || lines[0] || '',
+    company: labelled('company|organization|employer'),
+    location: labelled('location|locations|office'),
+    jobLink: description.match(/https?:\/\/[^\s<>"')]+/)?.[0] || '',
+    description,
+    deadline: findDeadlineInText(description),
+    source: 'text'
+  };
+}
+
+// Best-effort fields from whatever the user pasted. Missing fields come back empty.
+export function parseJobPosting(input: string): ParsedJobPosting {
+  let parsed: ParsedJobPosting;
+  const jsonLd = parseJsonLd(input);
+
+  if (jsonLd) {
+    parsed = { ...jsonLd, source: 'json-ld' };
+    // Structured data sometimes leaves out the link or location the page has
+    if (looksLikeHtml(input) && typeof DOMParser !== 'undefined') {
+      const page = parseHtmlPage(input);
+      parsed.jobLink = parsed.jobLink || page.jobLink;
+      parsed.location = parsed.location || page.location;
+    }
+  } else if (looksLikeHtml(input) && typeof DOMParser !== 'undefined') {
+    parsed = parseHtmlPage(input);
+  } else {
+    parsed = parsePlainText(looksLikeHtml(input) ? htmlToText(input) : input);
+  }
+
+  return { ...parsed, description: parsed.description.slice(0, MAX_DESCRIPTION_LENGTH) };
+}
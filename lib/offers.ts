@@ -0,0 +1,103 @@
+// lib/offers.ts
+// Compensation math for the offer comparison. Every figure is normalized to a
+// yearly amount in the offer's own currency; nothing is converted between currencies.
+import { OFFER_FACTORS, Offer, OfferSettings } from './domain';
+
+// Full-time hours per year, for hourly offers
+const HOURS_PER_YEAR = 2080;
+const MONTHS_PER_YEAR = 12;
+const COMPARISON_YEARS = 4;
+
+// Factors the user hasn't weighted count this much
+export const DEFAULT_FACTOR_WEIGHT = 3;
+export const MAX_FACTOR_WEIGHT = 5;
+
+export const VESTING_PRESETS: { label: string; schedule: number[] }[] = [
+  { label: 'Even over 4 years (25/25/25/25)', schedule: [25, 25, 25, 25] },
+  { label: 'Back-loaded (5/15/40/40)', schedule: [5, 15, 40, 40] },
+  { label: 'Front-loaded (33/33/22/12)', schedule: [33, 33, 22, 12] },
+  { label: 'Even over 3 years (34/33/33)', schedule: [34, 33, 33] }
+];
+
+export function getAnnualBase(offer: Offer): number {
+  if (offer.payPeriod === 'hour') return offer.baseSalary * HOURS_PER_YEAR;
+  if (offer.payPeriod === 'month') return offer.baseSalary * MONTHS_PER_YEAR;
+  return offer.baseSalary;
+}
+
+// Equity value vesting in a year, 1-based
+export function getEquityForYear(offer: Offer, year: number): number {
+  const percent = offer.vestingSchedule[year - 1] || 0;
+  return (offer.equityValue || 0) * percent / 100;
+}
+
+// Base, target bonus and that year's vesting, plus the sign-on bonus in year one
+export function getYearCompensation(offer: Offer, year: number): number {
+  return getAnnualBase(offer)
+    + (offer.annualBonus || 0)
+    + getEquityForYear(offer, year)
+    + (year === 1 ? offer.signOnBonus || 0 : 0);
+}
+
+export function getFirstYearCompensation(offer: Offer): number {
+  return getYearCompensation(offer, 1);
+}
+
+// Without raises or refreshers, which offers rarely commit to
+export function getFourYearCompensation(offer: Offer): number {
+  let total = 0;
+  for (let year = 1; year <= COMPARISON_YEARS; year++) total += getYearCompensation(offer, year);
+  return total;
+}
+
+export function getVestingTotal(schedule: number[]): number {
+  return schedule.reduce((sum, percent) => sum + percent, 0);
+}
+
+// "25/25/25/25" or "25, 25, 25, 25" to [25, 25, 25, 25]; null when it doesn't parse
+export function parseVestingSchedule(text: string): number[] | null {
+  const parts = text.split(/[\s/,]+/).filter(Boolean);
+  if (parts.length === 0 || parts.length > 10) return null;
+  const schedule = parts.map(Number);
+  return schedule.every(percent => Number.isFinite(percent) && percent >= 0) ? schedule : null;
+}
+
+export function formatVestingSchedule(schedule: number[]): string {
+  return schedule.join('/');
+}
+
+export function getFactorWeights(settings: OfferSettings | null): Record<string, number> {
+  const weights: Record<string, number> = {};
+  OFFER_FACTORS.forEach((factor) => {
+    weights[factor.id] = settings?.factorWeights[factor.id] ?? DEFAULT_FACTOR_WEIGHT;
+  });
+  return weights;
+}
+
+// Weighted average of the scored factors on a 0-100 scale, or null before any are scored
+export function getFactorScore(offer: Offer, weights: Record<string, number>): number | null {
+  let weighted = 0;
+  let totalWeight = 0;
+  OFFER_FACTORS.forEach((factor) => {
+    const score = offer.factorScores[factor.id];
+    const weight = weights[factor.id] ?? DEFAULT_FACTOR_WEIGHT;
+    if (!score || !weight) return;
+    weighted += (score - 1) / 4 * weight;
+    totalWeight += weight;
+  });
+  return totalWeight > 0 ? Math.round(weighted / totalWeight * 100) : null;
+}
+
+// Declined offers drop out of the comparison
+export function isActiveOffer(offer: Offer): boolean {
+  return offer.decision !== 'declined';
+}
+
+export function formatMoney(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+  } catch {
+    // Unknown currency codes still show the amount
+    return `${currency} ${Math.round(value).toLocaleString('en-US')}`;
+  }
+}
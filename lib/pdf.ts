@@ -0,0 +1,189 @@
+// lib/pdf.ts
+// PDF reading in the browser through pdf.js. The library is loaded on first
+// use, which keeps it out of the main bundle and off the server.
+import { Timestamp } from 'firebase/firestore';
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import { ResumeAnalysis } from './domain';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+// Served from public/ because Next can't bundle the worker's ESM build.
+// scripts/copyPdfWorker.mjs puts it there on install.
+const PDF_WORKER_URL = '/pdf.worker.min.mjs';
+
+let pdfJsPromise: Promise<PdfJs> | null = null;
+
+export function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfJsPromise) {
+    pdfJsPromise = import('pdfjs-dist').then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_URL;
+      return pdfjs;
+    });
+  }
+  return pdfJsPromise;
+}
+
+export async function openPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+}
+
+// Draw a page into a canvas at a CSS scale, sharp on high-DPI screens
+export function renderPdfPage(page: PDFPageProxy, canvas: HTMLCanvasElement, scale: number): RenderTask {
+  const viewport = page.getViewport({ scale });
+  const pixelRatio = window.devicePixelRatio || 1;
+  canvas.width = Math.floor(viewport.width * pixelRatio);
+  canvas.height = Math.floor(viewport.height * pixelRatio);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+  return page.render({
+    canvas,
+    viewport,
+    transform: pixelRatio === 1 ? undefined : [pixelRatio, 0, 0, pixelRatio, 0, 0]
+  });
+}
+
+// The first page as a JPEG data URL, width pixels wide
+export async function renderPdfThumbnail(data: ArrayBuffer, width: number): Promise<string> {
+  const pdf = await openPdf(data);
+
+  try {
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Firestore rule limits on what's stored
+export const MAX_ANALYSIS_TEXT_LENGTH = 100000;
+const MAX_LISTED_PAGES = 100;
+const MAX_FONTS = 50;
+
+// Pages with less text than this are treated as images, since a scanned
+// page often still carries a stray page number or header
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+// Layout heuristics, in PDF points (1/72 inch)
+const SAME_LINE_TOLERANCE = 3;
+const COLUMN_ALIGN_TOLERANCE = 8;
+const MIN_COLUMN_LINES = 6;
+const MIN_TABLE_ROWS = 4;
+
+interface PlacedText {
+  x: number;
+  y: number;
+  width: number;
+  text: string;
+}
+
+// Runs of text on one line, split wherever the gap is wide enough to be a
+// column or cell boundary rather than a space between words
+function getLineSegments(pageItems: PlacedText[], pageWidth: number): number[][] {
+  const items = pageItems
+    .filter(item => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PlacedText[][] = [];
+  items.forEach((item) => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= SAME_LINE_TOLERANCE) line.push(item);
+    else lines.push([item]);
+  });
+
+  const minGap = pageWidth * 0.05;
+  return lines.map((line) => {
+    const sorted = line.sort((a, b) => a.x - b.x);
+    const starts = [sorted[0].x];
+    let end = sorted[0].x + sorted[0].width;
+    sorted.slice(1).forEach((item) => {
+      if (item.x - end > minGap) starts.push(item.x);
+      end = Math.max(end, item.x + item.width);
+    });
+    return starts;
+  });
+}
+
+// A second column shows up as many lines with text starting at the same x,
+// well away from the left margin. Indented bullets stay near the margin and
+// right-aligned dates start wherever their width puts them, so neither lines up.
+function isMultiColumn(lineSegments: number[][], pageWidth: number): boolean {
+  if (lineSegments.length === 0) return false;
+  const margin = Math.min(...lineSegments.map(starts => starts[0]));
+  const starts = lineSegments
+    .flat()
+    .filter(x => x > margin + pageWidth * 0.2 && x < pageWidth * 0.75);
+  const largestGroup = starts.reduce(
+    (most, x) => Math.max(most, starts.filter(other => Math.abs(other - x) <= COLUMN_ALIGN_TOLERANCE).length),
+    0
+  );
+  return largestGroup >= Math.max(MIN_COLUMN_LINES, lineSegments.length * 0.35);
+}
+
+const hasTable = (lineSegments: number[][]) =>
+  lineSegments.filter(starts => starts.length >= 3).length >= MIN_TABLE_ROWS;
+
+// Fonts report their PostScript names, with a subset tag like "ABCDEF+"
+// in front and the style after a dash
+const cleanFontName = (name: string) => name.replace(/^[A-Z]{6}\+/, '').split(/[-,]/)[0].trim();
+
+const normalizeText = (text: string) => text
+  .replace(/[ \t\u00a0]+/g, ' ')
+  .replace(/ *\n */g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Text, fonts and layout of every page. Text is in reading order with pages
+// separated by a blank line; scanned PDFs without a text layer come back empty.
+export async function analyzePdf(data: ArrayBuffer): Promise<ResumeAnalysis> {
+  const pdf = await openPdf(data);
+
+  try {
+    const pages: string[] = [];
+    const fonts = new Set<string>();
+    const pagesWithoutText: number[] = [];
+    const multiColumnPages: number[] = [];
+    const tablePages: number[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter(item => 'str' in item);
+      const text = normalizeText(items.map(item => item.str + (item.hasEOL ? '\n' : '')).join(''));
+      pages.push(text);
+      if (text.length < MIN_PAGE_TEXT_LENGTH) pagesWithoutText.push(pageNumber);
+
+      // Font names are only known once the page's fonts have been loaded
+      await page.getOperatorList();
+      Object.entries(content.styles).forEach(([fontId, style]) => {
+        const font = page.commonObjs.has(fontId) ? page.commonObjs.get(fontId) : null;
+        const name = cleanFontName(font?.name || style.fontFamily);
+        if (name) fonts.add(name);
+      });
+
+      const pageWidth = page.getViewport({ scale: 1 }).width;
+      const lineSegments = getLineSegments(
+        items.map(item => ({ x: item.transform[4], y: item.transform[5], width: item.width, text: item.str })),
+        pageWidth
+      );
+      if (isMultiColumn(lineSegments, pageWidth)) multiColumnPages.push(pageNumber);
+      if (hasTable(lineSegments)) tablePages.push(pageNumber);
+    }
+
+    return {
+      text: normalizeText(pages.join('\n\n')).slice(0, MAX_ANALYSIS_TEXT_LENGTH),
+      pageCount: pdf.numPages,
+      pagesWithoutText: pagesWithoutText.slice(0, MAX_LISTED_PAGES),
+      fonts: Array.from(fonts).sort().slice(0, MAX_FONTS),
+      multiColumnPages: multiColumnPages.slice(0, MAX_LISTED_PAGES),
+      tablePages: tablePages.slice(0, MAX_LISTED_PAGES),
+      analyzedAt: Timestamp.now()
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,65 @@
+// lib/pipeline.ts
+// Helpers for reading a user's pipeline stages - which stage comes where, which
+// ones close an application and how to show a status that no longer exists.
+import {
+  ApplicationStatus,
+  PipelineStage,
+  StatusOption,
+  getStageColor,
+  toStatusOption
+} from './domain';
+
+const SUBMITTED_STAGE_ID = 'applied';
+
+// Stage ids are stored on applications, so they're readable slugs of the
+// stage name that stay fixed when the stage is later renamed
+export function createStageId(name: string, existingIds: string[]): ApplicationStatus {
+  const base = name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48) || 'stage';
+
+  let id = base;
+  for (let suffix = 2; existingIds.includes(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+// Applications in a status that was removed from the pipeline still need a label
+export function findStatusOption(options: StatusOption[], status: ApplicationStatus): StatusOption {
+  const option = options.find(candidate => candidate.value === status);
+  if (option) return option;
+
+  const { bgColor, textColor, dotColor, chartColor } = getStageColor('slate');
+  return { value: status, label: status, kind: 'active', bgColor, textColor, dotColor, chartColor };
+}
+
+export function getStatusOptions(stages: PipelineStage[]): StatusOption[] {
+  return stages.map(toStatusOption);
+}
+
+// Stages an application moves forward through: everything except the ones
+// that close it without an offer
+export function getProgressStages(stages: PipelineStage[]): PipelineStage[] {
+  return stages.filter(stage => stage.kind === 'active' || stage.kind === 'positive');
+}
+
+export function isClosedWithoutOffer(stage: PipelineStage | undefined): boolean {
+  return stage?.kind === 'negative' || stage?.kind === 'terminal';
+}
+
+// The stage that means "application submitted". Custom pipelines without the
+// built-in Applied stage use their second stage.
+export function getSubmittedStageIndex(stages: PipelineStage[]): number {
+  const index = stages.findIndex(stage => stage.id === SUBMITTED_STAGE_ID);
+  return index !== -1 ? index : Math.min(1, stages.length - 1);
+}
+
+// Stages that count as hearing back from the company after applying
+export function getResponseStatuses(stages: PipelineStage[]): ApplicationStatus[] {
+  return stages.slice(getSubmittedStageIndex(stages) + 1).map(stage => stage.id);
+}
@@ -0,0 +1,129 @@
+// lib/pipelineAnalytics.ts
+// Funnel and stage-to-stage flow figures for the Applications analytics view,
+// derived from each application's status history
+import { Application, ApplicationStatus, PipelineStage } from './domain';
+import { getProgressStages, isClosedWithoutOffer } from './pipeline';
+import { getStatusTimeline } from './statusHistory';
+
+export interface FunnelStage {
+  status: ApplicationStatus;
+  reached: number;
+  // Share of the previous stage that made it here (1 for the first stage)
+  conversion: number;
+  // Applications closed without an offer while this was their furthest stage
+  droppedHere: number;
+}
+
+export interface PipelineFlow {
+  from: ApplicationStatus;
+  to: ApplicationStatus;
+  count: number;
+}
+
+export interface PipelineSummary {
+  total: number;
+  // Applications sitting in each closing stage (Rejected, Withdrawn, ...)
+  closed: { status: ApplicationStatus; count: number }[];
+  stages: FunnelStage[];
+  flows: PipelineFlow[];
+}
+
+// The forward-only path an application took through the progress stages.
+// Moves back down the board are ignored so flows always point forward.
+export function getProgressPath(app: Application, progressIds: ApplicationStatus[]): ApplicationStatus[] {
+  const path: ApplicationStatus[] = [];
+  const visited = [...getStatusTimeline(app).map(change => change.to), app.status];
+
+  visited.forEach((status) => {
+    const index = progressIds.indexOf(status);
+    const furthest = path.length > 0 ? progressIds.indexOf(path[path.length - 1]) : -1;
+    if (index > furthest) path.push(status);
+  });
+
+  // Added straight to a closing stage: attribute the drop-off to the first stage
+  return path.length > 0 ? path : progressIds.slice(0, 1);
+}
+
+export function getPipelineSummary(applications: Application[], pipelineStages: PipelineStage[]): PipelineSummary {
+  const progressIds = getProgressStages(pipelineStages).map(stage => stage.id);
+  const closingStages = pipelineStages.filter(isClosedWithoutOffer);
+  const reached = new Map<ApplicationStatus, number>();
+  const droppedAt = new Map<ApplicationStatus, number>();
+  const flowCounts = new Map<string, PipelineFlow>();
+
+  const addFlow = (from: ApplicationStatus, to: ApplicationStatus) => {
+    const key = `${from}>${to}`;
+    const flow = flowCounts.get(key) || { from, to, count: 0 };
+    flow.count += 1;
+    flowCounts.set(key, flow);
+  };
+
+  applications.forEach((app) => {
+    const path = getProgressPath(app, progressIds);
+    const furthest = path[path.length - 1];
+    if (!furthest) return;
+
+    // Reaching a stage counts for every stage before it, even ones skipped
+    progressIds.slice(0, progressIds.indexOf(furthest) + 1).forEach((status) => {
+      reached.set(status, (reached.get(status) || 0) + 1);
+    });
+
+    path.slice(1).forEach((status, index) => addFlow(path[index], status));
+
+    if (closingStages.some(stage => stage.id === app.status)) {
+      droppedAt.set(furthest, (droppedAt.get(furthest) || 0) + 1);
+      addFlow(furthest, app.status);
+    }
+  });
+
+  const stages = progressIds.map((status, index): FunnelStage => {
+    const count = reached.get(status) || 0;
+    const previous = index === 0 ? count : reached.get(progressIds[index - 1]) || 0;
+    return {
+      status,
+      reached: count,
+      conversion: previous > 0 ? count / previous : 0,
+      droppedHere: droppedAt.get(status) || 0
+    };
+  });
+
+  return {
+    total: applications.length,
+    closed: closingStages.map(stage => ({
+      status: stage.id,
+      count: applications.filter(app => app.status === stage.id).length
+    })),
+    stages,
+    flows: Array.from(flowCounts.values())
+  };
+}
+
+// Applications that reached the first positive closing stage, e.g. Offer
+export function getOfferCount(summary: PipelineSummary, pipelineStages: PipelineStage[]): number {
+  const positiveStages = pipelineStages.filter(stage => stage.kind === 'positive').map(stage => stage.id);
+  return summary.stages.find(stage => positiveStages.includes(stage.status))?.reached || 0;
+}
+
+export interface GroupSummary {
+  group: string;
+  summary: PipelineSummary;
+}
+
+// One pipeline summary per group, largest first. An application can sit in
+// several groups (e.g. one per tag) or, when getGroups returns none, in none.
+export function getGroupSummaries(
+  applications: Application[],
+  pipelineStages: PipelineStage[],
+  getGroups: (app: Application) => string[]
+): GroupSummary[] {
+  const grouped = new Map<string, Application[]>();
+  applications.forEach((app) => {
+    getGroups(app).forEach((group) => {
+      grouped.set(group, [...(grouped.get(group) || []), app]);
+    });
+  });
+
+  return Array.from(grouped.entries())
+    .map(([group, apps]) => ({ group, summary: getPipelineSummary(apps, pipelineStages) }))
+    .sort((a, b) => b.summary.total - a.summary.total || a.group.localeCompare(b.group));
+}
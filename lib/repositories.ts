@@ -0,0 +1,616 @@
+// lib/repositories.ts
+// Typed access to every user-scoped Firestore collection. Components should go
+// through these functions instead of calling collection()/addDoc() directly.
+import {
+  FirestoreDataConverter,
+  FirestoreError,
+  OrderByDirection,
+  Unsubscribe,
+  WriteBatch,
+  addDoc,
+  arrayUnion,
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  applicationConverter,
+  descriptionSnapshotConverter,
+  fieldSettingsConverter,
+  followUpReminderConverter,
+  hiringManagerConverter,
+  interviewConverter,
+  offerConverter,
+  offerSettingsConverter,
+  pipelineConverter,
+  resumeConverter,
+  resumeVersionConverter,
+  savedViewConverter
+} from './converters';
+import {
+  Application,
+  ApplicationInput,
+  ApplicationStatus,
+  CustomFieldDefinition,
+  DescriptionSnapshot,
+  DescriptionSnapshotInput,
+  FieldSettings,
+  FollowUpReminder,
+  FollowUpReminderInput,
+  HiringManager,
+  HiringManagerInput,
+  Interview,
+  InterviewInput,
+  Offer,
+  OfferInput,
+  OfferSettings,
+  Pipeline,
+  PipelineStage,
+  Resume,
+  ResumeFileInput,
+  ResumeInput,
+  ResumeVersion,
+  SavedView,
+  SavedViewInput,
+  StatusChangeSource,
+  TagDefinition
+} from './domain';
+import { createStatusChange } from './statusHistory';
+
+interface RepositoryConfig<T> {
+  collectionName: string;
+  converter: FirestoreDataConverter<T>;
+  orderByField: string;
+  orderDirection: OrderByDirection;
+  // Extra fields stamped on every new document, e.g. resume upload dates
+  createDefaults?: () => Record<string, unknown>;
+}
+
+export interface Repository<T extends { id: string }, TInput> {
+  list: (userId: string) => Promise<T[]>;
+  get: (id: string) => Promise<T | null>;
+  subscribe: (
+    userId: string,
+    onNext: (items: T[]) => void,
+    onError?: (error: FirestoreError) => void
+  ) => Unsubscribe;
+  create: (userId: string, data: TInput) => Promise<string>;
+  update: (id: string, data: Partial<TInput>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+function createRepository<T extends { id: string }, TInput>({
+  collectionName,
+  converter,
+  orderByField,
+  orderDirection,
+  createDefaults
+}: RepositoryConfig<T>): Repository<T, TInput> {
+  const collectionRef = () => collection(db, collectionName).withConverter(converter);
+
+  // Every listing is scoped to its owner - the security rules reject anything else
+  const userQuery = (userId: string) => query(
+    collectionRef(),
+    where('userId', '==', userId),
+    orderBy(orderByField, orderDirection)
+  );
+
+  return {
+    async list(userId) {
+      const snapshot = await getDocs(userQuery(userId));
+      return snapshot.docs.map(docSnapshot => docSnapshot.data());
+    },
+
+    async get(id) {
+      const snapshot = await getDoc(doc(db, collectionName, id).withConverter(converter));
+      return snapshot.exists() ? snapshot.data() : null;
+    },
+
+    subscribe(userId, onNext, onError) {
+      return onSnapshot(
+        userQuery(userId),
+        (snapshot) => onNext(snapshot.docs.map(docSnapshot => docSnapshot.data())),
+        (error) => {
+          console.error(`Error fetching ${collectionName}:`, error);
+          onError?.(error);
+        }
+      );
+    },
+
+    async create(userId, data) {
+      const docRef = await addDoc(collection(db, collectionName), {
+        ...data,
+        ...createDefaults?.(),
+        userId,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return docRef.id;
+    },
+
+    async update(id, data) {
+      await updateDoc(doc(db, collectionName, id), {
+        ...data,
+        updatedAt: serverTimestamp()
+      });
+    },
+
+    async remove(id) {
+      await deleteDoc(doc(db, collectionName, id));
+    }
+  };
+}
+
+const MAX_BATCH_WRITES = 500;
+
+// Documents that belong to an application and go and come back with it
+export interface ApplicationRelated {
+  interviews: Interview[];
+  descriptionSnapshots: DescriptionSnapshot[];
+  offers: Offer[];
+}
+
+// One application write in a bulk operation. 'delete' also removes the
+// application's related documents, and 'restore' puts a deleted application
+// back exactly as it was, under its original id, together with them.
+export type ApplicationWrite =
+  | { type: 'update'; id: string; data: Record<string, unknown> }
+  | { type: 'delete'; id: string; related: ApplicationRelated }
+  | { type: 'restore'; application: Application; related: ApplicationRelated };
+
+// How many of Firestore's per-batch writes one application write takes
+const countDocumentWrites = (write: ApplicationWrite) =>
+  (write.type === 'update'
+    ? 1
+    : 1 + write.related.interviews.length + write.related.descriptionSnapshots.length + write.related.offers.length);
+
+function addApplicationWrite(batch: WriteBatch, write: ApplicationWrite) {
+  if (write.type === 'update') {
+    batch.update(doc(db, 'applications', write.id), { ...write.data, updatedAt: serverTimestamp() });
+  } else if (write.type === 'delete') {
+    write.related.interviews.forEach((interview) => {
+      batch.delete(doc(db, 'applications', write.id, 'interviews', interview.id));
+    });
+    write.related.descriptionSnapshots.forEach((snapshot) => {
+      batch.delete(doc(db, 'applications', write.id, 'descriptionSnapshots', snapshot.id));
+    });
+    write.related.offers.forEach((offer) => {
+      batch.delete(doc(db, 'offers', offer.id));
+    });
+    batch.delete(doc(db, 'applications', write.id));
+  } else {
+    const { id } = write.application;
+    batch.set(doc(db, 'applications', id).withConverter(applicationConverter), write.application);
+    write.related.interviews.forEach((interview) => {
+      batch.set(doc(db, 'applications', id, 'interviews', interview.id).withConverter(interviewConverter), interview);
+    });
+    write.related.descriptionSnapshots.forEach((snapshot) => {
+      batch.set(doc(db, 'applications', id, 'descriptionSnapshots', snapshot.id).withConverter(descriptionSnapshotConverter), snapshot);
+    });
+    write.related.offers.forEach((offer) => {
+      batch.set(doc(db, 'offers', offer.id).withConverter(offerConverter), offer);
+    });
+  }
+}
+
+const baseApplicationRepository = createRepository<Application, ApplicationInput>({
+  collectionName: 'applications',
+  converter: applicationConverter,
+  orderByField: 'createdAt',
+  orderDirection: 'desc'
+});
+
+export const applicationRepository = {
+  ...baseApplicationRepository,
+
+  // New applications start their history with the status they were created in
+  async create(userId: string, data: ApplicationInput) {
+    return baseApplicationRepository.create(userId, {
+      ...data,
+      statusHistory: [createStatusChange(null, data.status, 'created')]
+    });
+  },
+
+  // Apply an edit and, when it moves the application to another stage, append
+  // the transition to statusHistory in the same write
+  async updateWithHistory(
+    application: Application,
+    data: Partial<ApplicationInput>,
+    source: StatusChangeSource
+  ) {
+    const changes: Record<string, unknown> = { ...data, updatedAt: serverTimestamp() };
+    if (data.status && data.status !== application.status) {
+      changes.statusHistory = arrayUnion(createStatusChange(application.status, data.status, source));
+    }
+    await updateDoc(doc(db, 'applications', application.id), changes);
+  },
+
+  // Run many writes as batched commits. Firestore caps a batch at 500 writes,
+  // so large operations are split - never inside one application's writes -
+  // and onProgress hears how many application writes each commit completed.
+  async bulkWrite(writes: ApplicationWrite[], onProgress?: (done: number, total: number) => void) {
+    let batch = writeBatch(db);
+    let batchSize = 0;
+    let pending = 0;
+    let done = 0;
+    const commit = async () => {
+      await batch.commit();
+      done += pending;
+      onProgress?.(done, writes.length);
+      batch = writeBatch(db);
+      batchSize = 0;
+      pending = 0;
+    };
+
+    for (const write of writes) {
+      const size = countDocumentWrites(write);
+      if (pending > 0 && batchSize + size > MAX_BATCH_WRITES) await commit();
+      addApplicationWrite(batch, write);
+      batchSize += size;
+      pending++;
+    }
+    if (pending > 0) await commit();
+  },
+
+  // Delete an application together with its related documents, which would
+  // otherwise outlive it in the collection group queries and the offers list
+  async removeWithRelated(application: Application, related: ApplicationRelated) {
+    const batch = writeBatch(db);
+    addApplicationWrite(batch, { type: 'delete', id: application.id, related });
+    await batch.commit();
+  },
+
+  // Fold duplicate applications into one in a single batch: the kept
+  // application takes the merged fields, and the duplicates' interviews,
+  // description snapshots, offers and reminders are moved over before the
+  // duplicates are deleted
+  async mergeDuplicates(
+    primary: Application,
+    duplicates: Application[],
+    mergedFields: Record<string, unknown>,
+    related: {
+      interviews: Interview[];
+      descriptionSnapshots: DescriptionSnapshot[];
+      offers: Offer[];
+      reminders: FollowUpReminder[];
+    }
+  ) {
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'applications', primary.id), { ...mergedFields, updatedAt: serverTimestamp() });
+
+    related.interviews.forEach(({ id, ...interview }) => {
+      batch.set(doc(collection(db, 'applications', primary.id, 'interviews')), { ...interview, applicationId: primary.id });
+      batch.delete(doc(db, 'applications', interview.applicationId, 'interviews', id));
+    });
+    related.descriptionSnapshots.forEach(({ id, ...snapshot }) => {
+      batch.set(doc(collection(db, 'applications', primary.id, 'descriptionSnapshots')), { ...snapshot, applicationId: primary.id });
+      batch.delete(doc(db, 'applications', snapshot.applicationId, 'descriptionSnapshots', id));
+    });
+    related.offers.forEach((offer) => {
+      batch.update(doc(db, 'offers', offer.id), { applicationId: primary.id, updatedAt: serverTimestamp() });
+    });
+    related.reminders.forEach((reminder) => {
+      batch.update(doc(db, 'followUpReminders', reminder.id), { applicationId: primary.id });
+    });
+    duplicates.forEach((duplicate) => {
+      batch.delete(doc(db, 'applications', duplicate.id));
+    });
+
+    await batch.commit();
+  },
+
+  // Move many applications to one stage, recording each transition
+  async moveToStatus(applications: Application[], status: ApplicationStatus, source: StatusChangeSource): Promise<void> {
+    const writes: ApplicationWrite[] = applications
+      .filter(application => application.status !== status)
+      .map(application => ({
+        type: 'update',
+        id: application.id,
+        data: {
+          status,
+          statusHistory: arrayUnion(createStatusChange(application.status, status, source))
+        }
+      }));
+    await applicationRepository.bulkWrite(writes);
+  }
+};
+
+const baseResumeRepository = createRepository<Resume, ResumeInput>({
+  collectionName: 'resumes',
+  converter: resumeConverter,
+  orderByField: 'uploadDate',
+  orderDirection: 'desc',
+  createDefaults: () => ({ uploadDate: serverTimestamp() })
+});
+
+const resumeFileFields = ({ fileName, storagePath, originalFileName, downloadURL, fileSize, analysis }: ResumeFileInput) => ({
+  fileName,
+  originalFileName,
+  downloadURL,
+  fileSize,
+  // Firestore rejects undefined, and both fields are missing on older resumes
+  ...(storagePath !== undefined && { storagePath }),
+  ...(analysis !== undefined && { analysis })
+});
+
+export const resumeRepository = {
+  ...baseResumeRepository,
+
+  // Replace a resume's file with a new version in one batch. The first
+  // replace also records the original upload as version 1, since resumes
+  // only start keeping versions once they have more than one.
+  async addVersion(resume: Resume, file: ResumeFileInput) {
+    const batch = writeBatch(db);
+    const versionsRef = collection(db, 'resumes', resume.id, 'versions');
+    const version = (resume.versionCount || 1) + 1;
+
+    if (!resume.currentVersionId) {
+      batch.set(doc(versionsRef), {
+        ...resumeFileFields(resume),
+        userId: resume.userId,
+        resumeId: resume.id,
+        version: 1,
+        uploadDate: resume.uploadDate
+      });
+    }
+    const versionRef = doc(versionsRef);
+    batch.set(versionRef, {
+      ...resumeFileFields(file),
+      userId: resume.userId,
+      resumeId: resume.id,
+      version,
+      uploadDate: serverTimestamp()
+    });
+    batch.update(doc(db, 'resumes', resume.id), {
+      ...resumeFileFields(file),
+      currentVersionId: versionRef.id,
+      versionCount: version,
+      updatedAt: serverTimestamp()
+    });
+
+    await batch.commit();
+    return versionRef.id;
+  },
+
+  // Delete a resume together with its versions
+  async removeWithVersions(resume: Resume, versions: ResumeVersion[]) {
+    const batch = writeBatch(db);
+    versions.forEach((version) => {
+      batch.delete(doc(db, 'resumes', resume.id, 'versions', version.id));
+    });
+    batch.delete(doc(db, 'resumes', resume.id));
+    await batch.commit();
+  }
+};
+
+export const hiringManagerRepository = createRepository<HiringManager, HiringManagerInput>({
+  collectionName: 'hiringManagers',
+  converter: hiringManagerConverter,
+  orderByField: 'createdAt',
+  orderDirection: 'desc'
+});
+
+export const followUpReminderRepository = createRepository<FollowUpReminder, FollowUpReminderInput>({
+  collectionName: 'followUpReminders',
+  converter: followUpReminderConverter,
+  orderByField: 'reminderDate',
+  orderDirection: 'asc'
+});
+
+// Listed oldest first so the sidebar keeps the order views were saved in
+export const savedViewRepository = createRepository<SavedView, SavedViewInput>({
+  collectionName: 'savedViews',
+  converter: savedViewConverter,
+  orderByField: 'createdAt',
+  orderDirection: 'asc'
+});
+
+export const offerRepository = createRepository<Offer, OfferInput>({
+  collectionName: 'offers',
+  converter: offerConverter,
+  orderByField: 'createdAt',
+  orderDirection: 'asc'
+});
+
+// A single document per user, keyed by their uid, rather than a listed collection
+export const pipelineRepository = {
+  subscribe(
+    userId: string,
+    onNext: (pipeline: Pipeline | null) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      doc(db, 'pipelines', userId).withConverter(pipelineConverter),
+      (snapshot) => onNext(snapshot.exists() ? snapshot.data() : null),
+      (error) => {
+        console.error('Error fetching pipeline:', error);
+        onError?.(error);
+      }
+    );
+  },
+
+  async save(userId: string, stages: PipelineStage[], existing: Pipeline | null) {
+    await setDoc(doc(db, 'pipelines', userId), {
+      userId,
+      stages,
+      createdAt: existing?.createdAt || serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+};
+
+// Tag and custom field definitions, one document per user keyed by their uid
+export const fieldSettingsRepository = {
+  subscribe(
+    userId: string,
+    onNext: (settings: FieldSettings | null) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      doc(db, 'fieldSettings', userId).withConverter(fieldSettingsConverter),
+      (snapshot) => onNext(snapshot.exists() ? snapshot.data() : null),
+      (error) => {
+        console.error('Error fetching field settings:', error);
+        onError?.(error);
+      }
+    );
+  },
+
+  async save(userId: string, tags: TagDefinition[], customFields: CustomFieldDefinition[], existing: FieldSettings | null) {
+    await setDoc(doc(db, 'fieldSettings', userId), {
+      userId,
+      tags,
+      customFields,
+      createdAt: existing?.createdAt || serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+};
+
+// Interviews live under their application; the dashboard lists every one of
+// the user's interviews at once through a collection group query
+export const interviewRepository = {
+  subscribe(
+    userId: string,
+    onNext: (interviews: Interview[]) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      query(
+        collectionGroup(db, 'interviews').withConverter(interviewConverter),
+        where('userId', '==', userId),
+        orderBy('scheduledAt', 'asc')
+      ),
+      (snapshot) => onNext(snapshot.docs.map(docSnapshot => docSnapshot.data())),
+      (error) => {
+        console.error('Error fetching interviews:', error);
+        onError?.(error);
+      }
+    );
+  },
+
+  async create(userId: string, applicationId: string, data: InterviewInput) {
+    const docRef = await addDoc(collection(db, 'applications', applicationId, 'interviews'), {
+      ...data,
+      userId,
+      applicationId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async update(applicationId: string, id: string, data: Partial<InterviewInput>) {
+    await updateDoc(doc(db, 'applications', applicationId, 'interviews', id), {
+      ...data,
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async remove(applicationId: string, id: string) {
+    await deleteDoc(doc(db, 'applications', applicationId, 'interviews', id));
+  }
+};
+
+// Job description history, kept under each application. Snapshots are never
+// edited; saving a description adds one and copies its plain text onto the
+// application so the board, search and exports keep reading one field.
+export const descriptionSnapshotRepository = {
+  subscribe(
+    userId: string,
+    onNext: (snapshots: DescriptionSnapshot[]) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      query(
+        collectionGroup(db, 'descriptionSnapshots').withConverter(descriptionSnapshotConverter),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'asc')
+      ),
+      (snapshot) => onNext(snapshot.docs.map(docSnapshot => docSnapshot.data())),
+      (error) => {
+        console.error('Error fetching description snapshots:', error);
+        onError?.(error);
+      }
+    );
+  },
+
+  async create(userId: string, applicationId: string, data: DescriptionSnapshotInput, descriptionText: string) {
+    const batch = writeBatch(db);
+    const snapshotRef = doc(collection(db, 'applications', applicationId, 'descriptionSnapshots'));
+    batch.set(snapshotRef, {
+      ...data,
+      userId,
+      applicationId,
+      createdAt: serverTimestamp()
+    });
+    batch.update(doc(db, 'applications', applicationId), {
+      description: descriptionText,
+      updatedAt: serverTimestamp()
+    });
+    await batch.commit();
+    return snapshotRef.id;
+  }
+};
+
+// Every version of the user's resumes, oldest first, through a collection
+// group query over resumes/{resumeId}/versions
+export const resumeVersionRepository = {
+  subscribe(
+    userId: string,
+    onNext: (versions: ResumeVersion[]) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      query(
+        collectionGroup(db, 'versions').withConverter(resumeVersionConverter),
+        where('userId', '==', userId),
+        orderBy('uploadDate', 'asc')
+      ),
+      (snapshot) => onNext(snapshot.docs.map(docSnapshot => docSnapshot.data())),
+      (error) => {
+        console.error('Error fetching resume versions:', error);
+        onError?.(error);
+      }
+    );
+  }
+};
+
+// Offer comparison weights, one document per user keyed by their uid
+export const offerSettingsRepository = {
+  subscribe(
+    userId: string,
+    onNext: (settings: OfferSettings | null) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      doc(db, 'offerSettings', userId).withConverter(offerSettingsConverter),
+      (snapshot) => onNext(snapshot.exists() ? snapshot.data() : null),
+      (error) => {
+        console.error('Error fetching offer settings:', error);
+        onError?.(error);
+      }
+    );
+  },
+
+  async save(userId: string, factorWeights: Record<string, number>, existing: OfferSettings | null) {
+    await setDoc(doc(db, 'offerSettings', userId), {
+      userId,
+      factorWeights,
+      createdAt: existing?.createdAt || serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+};
@@ -0,0 +1,100 @@
+// lib/resumeMatch.ts
+// Keyword match between a resume and a job description, using the bundled
+// skills taxonomy. Skills the description repeats weigh more, so a posting
+// that mentions React five times and Docker once is mostly about React.
+import { Resume } from './domain';
+import { SKILLS, Skill } from './skillsTaxonomy';
+
+// Mentions beyond this don't add weight
+const MAX_SKILL_WEIGHT = 3;
+
+export interface SkillMention {
+  skill: Skill;
+  mentions: number;
+}
+
+export interface MatchReport {
+  score: number | null; // 0-100, or null when the description names no known skills
+  matched: SkillMention[];
+  missing: SkillMention[];
+}
+
+export interface RankedResume {
+  resume: Resume;
+  report: MatchReport;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Whole-word matches only: "java" mustn't match inside "javascript", "c++"
+// needs its pluses and "R&D" isn't R
+const aliasPattern = (alias: string) =>
+  new RegExp(`(?<![A-Za-z0-9+#&])${escapeRegExp(alias)}(?![A-Za-z0-9+#&])`, 'g');
+
+// Every alias with its skill, longest first so "react native" is claimed
+// before "react" gets a chance
+const ALIAS_PATTERNS = SKILLS
+  .flatMap(skill => skill.aliases.map(alias => ({ skill, alias, pattern: aliasPattern(alias) })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+const EXACT_PATTERNS = SKILLS
+  .flatMap(skill => skill.caseSensitiveAliases.map(alias => ({ skill, pattern: aliasPattern(alias) })));
+
+// Known skills in a text, with how often each is mentioned
+export function extractSkills(text: string): Map<string, SkillMention> {
+  const found = new Map<string, SkillMention>();
+  const count = (skill: Skill, mentions: number) => {
+    if (mentions === 0) return;
+    const existing = found.get(skill.id);
+    found.set(skill.id, { skill, mentions: (existing?.mentions || 0) + mentions });
+  };
+
+  // Matched spans are blanked so shorter aliases can't count them again
+  let remaining = text.toLowerCase();
+  ALIAS_PATTERNS.forEach(({ skill, pattern }) => {
+    let mentions = 0;
+    remaining = remaining.replace(pattern, (match) => {
+      mentions++;
+      return ' '.repeat(match.length);
+    });
+    count(skill, mentions);
+  });
+  EXACT_PATTERNS.forEach(({ skill, pattern }) => {
+    count(skill, (text.match(pattern) || []).length);
+  });
+
+  return found;
+}
+
+const weight = (mention: SkillMention) => Math.min(mention.mentions, MAX_SKILL_WEIGHT);
+
+// How much of what the description asks for the resume covers
+export function getMatchReport(resumeSkills: Map<string, SkillMention>, descriptionSkills: Map<string, SkillMention>): MatchReport {
+  const wanted = Array.from(descriptionSkills.values())
+    .sort((a, b) => b.mentions - a.mentions || a.skill.name.localeCompare(b.skill.name));
+  const matched = wanted.filter(mention => resumeSkills.has(mention.skill.id));
+  const missing = wanted.filter(mention => !resumeSkills.has(mention.skill.id));
+
+  const totalWeight = wanted.reduce((sum, mention) => sum + weight(mention), 0);
+  const matchedWeight = matched.reduce((sum, mention) => sum + weight(mention), 0);
+
+  return {
+    score: totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 100) : null,
+    matched,
+    missing
+  };
+}
+
+// Resumes whose text is known, best match first; ties keep their order
+export function rankResumes(
+  resumes: Resume[],
+  resumeTexts: Map<string, string>,
+  descriptionSkills: Map<string, SkillMention>
+): RankedResume[] {
+  if (descriptionSkills.size === 0) return [];
+
+  return resumes
+    .filter(resume => resumeTexts.has(resume.id))
+    .map(resume => ({ resume, report: getMatchReport(extractSkills(resumeTexts.get(resume.id)), descriptionSkills) }))
+    .sort((a, b) => (b.report.score || 0) - (a.report.score || 0));
+}
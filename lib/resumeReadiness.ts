@@ -0,0 +1,123 @@
+// lib/resumeReadiness.ts
+// ATS readability checks run against a resume's stored PDF analysis. Each
+// check passes, warns about something that trips up some parsers, or fails
+// on something that keeps most of them from reading the resume at all.
+import { ResumeAnalysis } from './domain';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface ReadinessCheck {
+  id: string;
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+// North American numbers with any punctuation, or international ones with a country code
+const PHONE_PATTERN = /(\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b|\+\d[\d\s().-]{7,}\d)/;
+
+// Headings are short lines on their own; the patterns see them lowercased
+// with punctuation removed
+const MAX_HEADING_LENGTH = 40;
+const SECTION_HEADINGS = [
+  { label: 'Education', pattern: /^(education|academic (background|history)|academics)\b/ },
+  { label: 'Experience', pattern: /^((work|professional|relevant|employment) )?(experience|employment|work history)\b/ },
+  { label: 'Skills', pattern: /^((technical|core|key) )?(skills|competencies|technologies)\b/ }
+];
+
+const listPages = (pages: number[]) =>
+  `${pages.length === 1 ? 'Page' : 'Pages'} ${pages.join(', ')}`;
+
+function checkTextLayer({ pageCount, pagesWithoutText }: ResumeAnalysis): ReadinessCheck {
+  const check = { id: 'text-layer', label: 'Selectable text' };
+  if (pageCount > 0 && pagesWithoutText.length >= pageCount) {
+    return { ...check, status: 'fail', detail: 'No selectable text found. This looks like a scanned or image-only PDF, which an ATS reads as blank.' };
+  }
+  if (pagesWithoutText.length > 0) {
+    return { ...check, status: 'warn', detail: `${listPages(pagesWithoutText)} ha${pagesWithoutText.length === 1 ? 's' : 've'} no selectable text and will be skipped.` };
+  }
+  return { ...check, status: 'pass', detail: 'Every page has selectable text.' };
+}
+
+function checkContactInfo({ text }: ResumeAnalysis): ReadinessCheck {
+  const check = { id: 'contact', label: 'Contact info' };
+  const hasEmail = EMAIL_PATTERN.test(text);
+  const hasPhone = PHONE_PATTERN.test(text);
+  if (!hasEmail) {
+    const missing = hasPhone ? 'an email address' : 'an email address or phone number';
+    return { ...check, status: 'fail', detail: `Couldn't find ${missing}. Keep contact details as text in the body, not in an image or header graphic.` };
+  }
+  if (!hasPhone) {
+    return { ...check, status: 'warn', detail: 'No phone number found.' };
+  }
+  return { ...check, status: 'pass', detail: 'Email address and phone number found.' };
+}
+
+function checkColumns({ multiColumnPages }: ResumeAnalysis): ReadinessCheck {
+  const check = { id: 'columns', label: 'Single column' };
+  return multiColumnPages.length > 0
+    ? { ...check, status: 'warn', detail: `${listPages(multiColumnPages)} look${multiColumnPages.length === 1 ? 's' : ''} like multiple columns. Some ATS read across columns and mix up sections.` }
+    : { ...check, status: 'pass', detail: 'Text reads top to bottom in one column.' };
+}
+
+function checkTables({ tablePages }: ResumeAnalysis): ReadinessCheck {
+  const check = { id: 'tables', label: 'No tables' };
+  return tablePages.length > 0
+    ? { ...check, status: 'warn', detail: `${listPages(tablePages)} seem${tablePages.length === 1 ? 's' : ''} to use a table or grid. Cells are often read out of order or dropped.` }
+    : { ...check, status: 'pass', detail: 'No tables or grids found.' };
+}
+
+function checkLength({ pageCount }: ResumeAnalysis): ReadinessCheck {
+  const check = { id: 'length', label: 'Length' };
+  if (pageCount >= 3) {
+    return { ...check, status: 'fail', detail: `${pageCount} pages. Graduate resumes should fit on one page.` };
+  }
+  if (pageCount === 2) {
+    return { ...check, status: 'warn', detail: '2 pages. One page is expected unless you have several years of experience.' };
+  }
+  return { ...check, status: 'pass', detail: 'Fits on one page.' };
+}
+
+function checkSectionHeadings({ text }: ResumeAnalysis): ReadinessCheck {
+  const check = { id: 'headings', label: 'Standard sections' };
+  const lines = text
+    .split('\n')
+    .map(line => line.toLowerCase().replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim())
+    .filter(line => line && line.length <= MAX_HEADING_LENGTH);
+  const missing = SECTION_HEADINGS
+    .filter(heading => !lines.some(line => heading.pattern.test(line)))
+    .map(heading => heading.label);
+
+  if (missing.length === 0) {
+    return { ...check, status: 'pass', detail: 'Education, Experience and Skills headings found.' };
+  }
+  return {
+    ...check,
+    status: missing.length === 1 ? 'warn' : 'fail',
+    detail: `No ${missing.join(' or ')} heading found. ATS look for standard section names to sort your resume.`
+  };
+}
+
+// Every check, in the order they're shown. Without any text the checks that
+// read it would only repeat the first failure.
+export function getReadinessChecks(analysis: ResumeAnalysis): ReadinessCheck[] {
+  const textLayer = checkTextLayer(analysis);
+  if (textLayer.status === 'fail') return [textLayer, checkLength(analysis)];
+
+  return [
+    textLayer,
+    checkContactInfo(analysis),
+    checkSectionHeadings(analysis),
+    checkColumns(analysis),
+    checkTables(analysis),
+    checkLength(analysis)
+  ];
+}
+
+// The worst result across checks
+export function getReadinessStatus(checks: ReadinessCheck[]): CheckStatus {
+  if (checks.some(check => check.status === 'fail')) return 'fail';
+  if (checks.some(check => check.status === 'warn')) return 'warn';
+  return 'pass';
+}
@@ -0,0 +1,68 @@
+// lib/resumeText.ts
+// Reading uploaded resume PDFs in the browser. New uploads are analyzed for
+// text and readability and the result is stored on the resume or version;
+// older ones are downloaded from Storage and read on demand. Analyses and
+// thumbnails are cached for the session, keyed by the stored file.
+import { getBytes, ref } from 'firebase/storage';
+import { storage } from './firebase';
+import { Resume, ResumeAnalysis, ResumeVersion } from './domain';
+import { analyzePdf, renderPdfThumbnail } from './pdf';
+
+// A resume or one of its versions
+export type StoredResumeFile = Resume | ResumeVersion;
+
+// Thumbnail width in pixels, twice the size shown so it stays sharp on high-DPI screens
+const THUMBNAIL_WIDTH = 160;
+
+const analysisCache = new Map<string, Promise<ResumeAnalysis>>();
+const thumbnailCache = new Map<string, Promise<string>>();
+
+// Resumes uploaded before per-user folders can only be read through their download URL
+export async function downloadResume(resume: StoredResumeFile): Promise<ArrayBuffer> {
+  if (resume.storagePath) return getBytes(ref(storage, resume.storagePath));
+
+  const response = await fetch(resume.downloadURL);
+  if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+  return response.arrayBuffer();
+}
+
+// Changes when a resume's file is replaced
+export const getResumeTextKey = (resume: StoredResumeFile) => `${resume.id}:${resume.fileName}`;
+
+export function analyzeStoredResume(resume: StoredResumeFile): Promise<ResumeAnalysis> {
+  const key = getResumeTextKey(resume);
+  if (!analysisCache.has(key)) {
+    const analysis = downloadResume(resume).then(analyzePdf);
+    // A failed download is retried the next time it's asked for
+    analysis.catch(() => analysisCache.delete(key));
+    analysisCache.set(key, analysis);
+  }
+  return analysisCache.get(key);
+}
+
+// The first page as an image URL
+export function getResumeThumbnail(resume: StoredResumeFile): Promise<string> {
+  const key = getResumeTextKey(resume);
+  if (!thumbnailCache.has(key)) {
+    const thumbnail = downloadResume(resume).then(data => renderPdfThumbnail(data, THUMBNAIL_WIDTH));
+    thumbnail.catch(() => thumbnailCache.delete(key));
+    thumbnailCache.set(key, thumbnail);
+  }
+  return thumbnailCache.get(key);
+}
+
+export async function getResumeText(resume: StoredResumeFile): Promise<string> {
+  if (resume.analysis) return resume.analysis.text;
+  return (await analyzeStoredResume(resume)).text;
+}
+
+// Analysis for a file about to be uploaded. A PDF pdf.js can't parse is
+// still a valid upload, so failures give null instead of throwing.
+export async function analyzeResumeFile(file: File): Promise<ResumeAnalysis | null> {
+  try {
+    return await analyzePdf(await file.arrayBuffer());
+  } catch (error) {
+    console.error(`Error analyzing ${file.name}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+// lib/resumeVersions.ts
+// Resume version history: grouping versions by resume and working out which
+// version an application was sent with.
+import { formatDate } from './dates';
+import { Application, Resume, ResumeVersion } from './domain';
+
+// One resume's versions, newest first
+export function getVersionsOfResume(versions: ResumeVersion[], resumeId: string): ResumeVersion[] {
+  return versions
+    .filter(version => version.resumeId === resumeId)
+    .sort((a, b) => b.version - a.version);
+}
+
+// The version to pin when an application is given a resume. Resumes that
+// were never replaced have no version documents, and an unset pin means
+// version 1 once they do.
+export const getPinnedVersionId = (resume: Resume | undefined): string | null =>
+  resume?.currentVersionId || null;
+
+// Fields that assign a resume to an application, pinned to its current version
+export const getResumeAssignment = (resumes: Resume[], resumeId: string | null) => ({
+  resumeId,
+  resumeVersionId: resumeId ? getPinnedVersionId(resumes.find(resume => resume.id === resumeId)) : null
+});
+
+type ResumeUse = Pick<Application, 'resumeId' | 'resumeVersionId'>;
+
+// The stored version an application was sent with. Null without a resume, or
+// when the resume was never replaced and its document holds the only file.
+export function getApplicationVersion(application: ResumeUse, versions: ResumeVersion[]): ResumeVersion | null {
+  if (!application.resumeId) return null;
+  return versions.find(version => version.id === application.resumeVersionId)
+    || versions.find(version => version.resumeId === application.resumeId && version.version === 1)
+    || null;
+}
+
+export const getApplicationVersionNumber = (application: ResumeUse, versions: ResumeVersion[]): number | null =>
+  (application.resumeId ? getApplicationVersion(application, versions)?.version ?? 1 : null);
+
+export const formatVersionLabel = (version: number) => `v${version}`;
+
+export const formatVersionDate = (version: Pick<ResumeVersion, 'uploadDate'>) =>
+  formatDate(version.uploadDate) || 'Uploading...';
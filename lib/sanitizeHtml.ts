@@ -0,0 +1,64 @@
+// lib/sanitizeHtml.ts
+// Allowlist sanitizer for pasted job description HTML. Only formatting tags
+// survive; every attribute is dropped except safe link targets, so the result
+// can be rendered with dangerouslySetInnerHTML.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'div', 'span', 'ul', 'ol', 'li', 'strong', 'b', 'em', 'i', 'u',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'code', 'pre', 'a',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+]);
+
+const VOID_TAGS = new Set(['br', 'hr']);
+
+// Removed along with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'iframe', 'object', 'embed', 'template', 'svg', 'math',
+  'form', 'input', 'button', 'select', 'textarea', 'head', 'title', 'meta', 'link'
+]);
+
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Whether pasted input is an HTML fragment rather than text with the odd "<"
+export const isHtmlFragment = (input: string) =>
+  /<(p|br|ul|ol|li|div|span|strong|b|em|i|h[1-6]|table|section|article|html|body)[\s/>]/i.test(input);
+
+const safeHref = (href: string | null) => {
+  const value = href?.trim() || '';
+  return /^https?:\/\//i.test(value) ? value : '';
+};
+
+function serialize(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag)) return '';
+
+  const children = Array.from(element.childNodes).map(serialize).join('');
+  // Unknown tags are unwrapped so their text is kept
+  if (!ALLOWED_TAGS.has(tag)) return children;
+  if (VOID_TAGS.has(tag)) return `<${tag}>`;
+
+  if (tag === 'a') {
+    const href = safeHref(element.getAttribute('href'));
+    return href
+      ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer nofollow">${children}</a>`
+      : children;
+  }
+  return `<${tag}>${children}</${tag}>`;
+}
+
+// Sanitized HTML for the fragment. Without a DOM (server rendering) the
+// input is escaped and shown as text instead.
+export function sanitizeHtml(html: string): string {
+  if (typeof DOMParser === 'undefined') return escapeHtml(html);
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return Array.from(body.childNodes).map(serialize).join('').trim();
+}
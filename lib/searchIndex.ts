@@ -0,0 +1,252 @@
+// lib/searchIndex.ts
+// Client-side inverted index behind the global search box. Each collection's
+// snapshot is synced in as it arrives; only documents whose searchable text
+// changed are re-tokenized.
+import { Timestamp } from 'firebase/firestore';
+import { Application, HiringManager, Resume, StatusOption } from './domain';
+import { SearchField, SearchQualifier, SearchQuery, matchesDate, normalizeSearchText } from './searchQuery';
+
+export type SearchEntityType = 'application' | 'contact' | 'resume';
+
+interface EntityByType {
+  application: Application;
+  contact: HiringManager;
+  resume: Resume;
+}
+
+interface IndexEntry {
+  key: string;
+  type: SearchEntityType;
+  doc: Application | HiringManager | Resume;
+  text: string; // Tokens joined by single spaces, used to confirm phrases
+  tokens: string[];
+}
+
+// Lookups the qualifiers need from outside the indexed documents
+export interface SearchContext {
+  getStatusOption: (status: string) => StatusOption;
+  getResumeName: (resumeId: string) => string;
+  getContactName: (hiringManagerId: string) => string;
+  getDescriptionText: (applicationId: string) => string; // Every saved version
+}
+
+export interface SearchResults {
+  applications: Application[];
+  contacts: HiringManager[];
+  resumes: Resume[];
+  total: number;
+}
+
+// Names accepted by type:, e.g. type:contact or is:resume
+const TYPE_NAMES: Record<SearchEntityType, string[]> = {
+  application: ['application', 'applications', 'app', 'apps', 'job', 'jobs'],
+  contact: ['contact', 'contacts', 'manager', 'managers', 'hiring-manager', 'people', 'person'],
+  resume: ['resume', 'resumes', 'cv']
+};
+
+export const tokenize = (value: string) => normalizeSearchText(value).split(/[^a-z0-9]+/).filter(Boolean);
+
+// Free-text fields for each entity type, plus any text indexed alongside a
+// document, such as an application's archived job descriptions
+function getSearchableText<T extends SearchEntityType>(type: T, doc: EntityByType[T], extraText = ''): string {
+  switch (type) {
+    case 'application': {
+      const app = doc as Application;
+      return [app.jobTitle, app.company, app.location, app.notes, app.description, extraText].filter(Boolean).join(' ');
+    }
+    case 'contact': {
+      const manager = doc as HiringManager;
+      return [manager.name, manager.role, manager.company, manager.email, manager.notes].filter(Boolean).join(' ');
+    }
+    case 'resume': {
+      const resume = doc as Resume;
+      return [resume.name, resume.originalFileName].filter(Boolean).join(' ');
+    }
+  }
+}
+
+// The value a qualifier is checked against, or undefined when the field
+// doesn't apply to this type (e.g. status: on a resume)
+function getFieldValue(entry: IndexEntry, field: SearchField, context: SearchContext): string | number | null | undefined {
+  const millis = (timestamp: Timestamp | null | undefined) => timestamp?.toMillis() ?? null;
+
+  if (entry.type === 'application') {
+    const app = entry.doc as Application;
+    switch (field) {
+      case 'status': return `${app.status} ${context.getStatusOption(app.status).label}`;
+      case 'company': return app.company;
+      case 'title': return app.jobTitle;
+      case 'location': return app.location || '';
+      case 'notes': return app.notes || '';
+      case 'description': return context.getDescriptionText(app.id) || app.description || '';
+      case 'resume': return app.resumeId ? context.getResumeName(app.resumeId) : '';
+      case 'contact': return app.hiringManagerId ? context.getContactName(app.hiringManagerId) : '';
+      case 'created': return millis(app.createdAt);
+      case 'updated': return millis(app.updatedAt);
+    }
+  }
+
+  if (entry.type === 'contact') {
+    const manager = entry.doc as HiringManager;
+    switch (field) {
+      case 'company': return manager.company;
+      case 'name':
+      case 'contact': return manager.name;
+      case 'role':
+      case 'title': return manager.role || '';
+      case 'notes': return manager.notes || '';
+      case 'created': return millis(manager.createdAt);
+      case 'updated': return millis(manager.updatedAt);
+    }
+  }
+
+  if (entry.type === 'resume') {
+    const resume = entry.doc as Resume;
+    switch (field) {
+      case 'name':
+      case 'resume': return `${resume.name} ${resume.originalFileName}`;
+      case 'created': return millis(resume.uploadDate);
+      case 'updated': return millis(resume.updatedAt);
+    }
+  }
+
+  return undefined;
+}
+
+function matchesQualifier(entry: IndexEntry, qualifier: SearchQualifier, context: SearchContext): boolean {
+  if (qualifier.field === 'type') {
+    const matches = TYPE_NAMES[entry.type].includes(qualifier.value.replace(/\s+/g, '-'));
+    return qualifier.negated ? !matches : matches;
+  }
+
+  const value = getFieldValue(entry, qualifier.field, context);
+  // A field the entity doesn't have can't match, but can't be excluded either
+  if (value === undefined) return qualifier.negated;
+
+  let matches: boolean;
+  if (qualifier.range) {
+    matches = matchesDate(typeof value === 'number' ? value : null, qualifier);
+  } else if (qualifier.field === 'status') {
+    // Match the stage id or any stage name that starts with the value, so
+    // status:interview and status:"phone screen" both work
+    const [id, ...label] = normalizeSearchText(String(value)).split(' ');
+    const wanted = qualifier.value;
+    matches = id === wanted.replace(/\s+/g, '-') || label.join(' ').startsWith(wanted);
+  } else {
+    matches = normalizeSearchText(String(value ?? '')).includes(qualifier.value);
+  }
+
+  return qualifier.negated ? !matches : matches;
+}
+
+const sortTime = (entry: IndexEntry) => {
+  const doc = entry.doc as { createdAt?: Timestamp | null; uploadDate?: Timestamp | null };
+  return (doc.uploadDate || doc.createdAt)?.toMillis() || 0;
+};
+
+export function createSearchIndex() {
+  const entries = new Map<string, IndexEntry>();
+  const postings = new Map<string, Set<string>>();
+
+  const addPostings = (entry: IndexEntry) => {
+    entry.tokens.forEach((token) => {
+      if (!postings.has(token)) postings.set(token, new Set());
+      postings.get(token).add(entry.key);
+    });
+  };
+
+  const removePostings = (entry: IndexEntry) => {
+    entry.tokens.forEach((token) => {
+      const keys = postings.get(token);
+      keys?.delete(entry.key);
+      if (keys?.size === 0) postings.delete(token);
+    });
+  };
+
+  // Keys of every document holding a token that starts with the given prefix
+  const findPrefix = (prefix: string) => {
+    const keys = new Set<string>();
+    postings.forEach((tokenKeys, token) => {
+      if (token.startsWith(prefix)) tokenKeys.forEach(key => keys.add(key));
+    });
+    return keys;
+  };
+
+  const matchesTerm = (entry: IndexEntry, text: string) => {
+    const termTokens = tokenize(text);
+    if (termTokens.length === 0) return true;
+    if (termTokens.length === 1) return entry.tokens.some(token => token.startsWith(termTokens[0]));
+    // Phrases and hyphenated words must appear in order
+    return ` ${entry.text}`.includes(` ${termTokens.join(' ')}`);
+  };
+
+  return {
+    // Bring one entity type in line with the latest snapshot of its collection
+    sync<T extends SearchEntityType>(type: T, docs: EntityByType[T][], getExtraText?: (doc: EntityByType[T]) => string) {
+      const seen = new Set<string>();
+
+      docs.forEach((doc) => {
+        const key = `${type}:${doc.id}`;
+        seen.add(key);
+        const text = tokenize(getSearchableText(type, doc, getExtraText?.(doc))).join(' ');
+        const existing = entries.get(key);
+
+        if (existing && existing.text === text) {
+          // Text unchanged; keep the fresh document for qualifiers like status:
+          existing.doc = doc;
+          return;
+        }
+
+        if (existing) removePostings(existing);
+        const entry: IndexEntry = { key, type, doc, text, tokens: Array.from(new Set(text.split(' ').filter(Boolean))) };
+        entries.set(key, entry);
+        addPostings(entry);
+      });
+
+      entries.forEach((entry, key) => {
+        if (entry.type === type && !seen.has(key)) {
+          removePostings(entry);
+          entries.delete(key);
+        }
+      });
+    },
+
+    search(query: SearchQuery, context: SearchContext): SearchResults {
+      const positiveTerms = query.terms.filter(term => !term.negated);
+      const negativeTerms = query.terms.filter(term => term.negated);
+
+      // Narrow with the index first: every positive term's first token must be present
+      let candidateKeys: Set<string> | null = null;
+      for (const term of positiveTerms) {
+        const [firstToken] = tokenize(term.text);
+        if (!firstToken) continue;
+        const keys = findPrefix(firstToken);
+        candidateKeys = candidateKeys
+          ? new Set(Array.from(candidateKeys).filter(key => keys.has(key)))
+          : keys;
+      }
+
+      const candidates = candidateKeys
+        ? Array.from(candidateKeys).map(key => entries.get(key)).filter(Boolean)
+        : Array.from(entries.values());
+
+      const matches = candidates
+        .filter(entry => positiveTerms.every(term => matchesTerm(entry, term.text)))
+        .filter(entry => !negativeTerms.some(term => matchesTerm(entry, term.text)))
+        .filter(entry => query.qualifiers.every(qualifier => matchesQualifier(entry, qualifier, context)))
+        .sort((a, b) => sortTime(b) - sortTime(a));
+
+      const ofType = <T extends SearchEntityType>(type: T) =>
+        matches.filter(entry => entry.type === type).map(entry => entry.doc as EntityByType[T]);
+
+      return {
+        applications: ofType('application'),
+        contacts: ofType('contact'),
+        resumes: ofType('resume'),
+        total: matches.length
+      };
+    }
+  };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
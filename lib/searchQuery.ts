@@ -0,0 +1,155 @@
+// lib/searchQuery.ts
+// Parser for the global search box. Supports free text, "quoted phrases",
+// field qualifiers (status:interview company:"Capital One" created:>2025-09-01)
+// and negation with a leading minus (-status:rejected, -intern).
+
+export type SearchField =
+  | 'type'
+  | 'status'
+  | 'company'
+  | 'title'
+  | 'location'
+  | 'notes'
+  | 'description'
+  | 'resume'
+  | 'contact'
+  | 'name'
+  | 'role'
+  | 'created'
+  | 'updated';
+
+export type DateOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface SearchTerm {
+  text: string; // Lowercase; a phrase when it contains spaces
+  negated: boolean;
+}
+
+export interface SearchQualifier {
+  field: SearchField;
+  value: string; // Lowercase
+  negated: boolean;
+  // Date fields only: the comparison and the period the value names
+  operator?: DateOperator;
+  range?: { start: number; end: number };
+}
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+  qualifiers: SearchQualifier[];
+  errors: string[];
+}
+
+// Accepted spellings for each field
+const FIELD_ALIASES: Record<string, SearchField> = {
+  type: 'type',
+  is: 'type',
+  status: 'status',
+  stage: 'status',
+  company: 'company',
+  title: 'title',
+  job: 'title',
+  location: 'location',
+  loc: 'location',
+  notes: 'notes',
+  note: 'notes',
+  description: 'description',
+  jd: 'description',
+  resume: 'resume',
+  contact: 'contact',
+  manager: 'contact',
+  name: 'name',
+  role: 'role',
+  created: 'created',
+  added: 'created',
+  updated: 'updated'
+};
+
+export const DATE_FIELDS: SearchField[] = ['created', 'updated'];
+
+// An optional minus, then either field:value or a bare value; values may be quoted
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export const normalizeSearchText = (value: string) => value
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '');
+
+// "2025", "2025-09" or "2025-09-01" as the local-time period it covers
+function parseDatePeriod(value: string): { start: number; end: number } | null {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+  if (day !== null && (day < 1 || day > 31)) return null;
+
+  const start = new Date(year, month ?? 0, day ?? 1);
+  const end = day !== null
+    ? new Date(year, month, day + 1)
+    : month !== null ? new Date(year, month + 1, 1) : new Date(year + 1, 0, 1);
+  return { start: start.getTime(), end: end.getTime() - 1 };
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], qualifiers: [], errors: [] };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, fieldName, quoted, bare] = match;
+    const negated = minus === '-';
+    const value = normalizeSearchText((quoted ?? bare ?? '').trim());
+    const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined;
+
+    // Unknown prefixes such as "https:" are searched as plain text
+    if (fieldName && !field) {
+      query.terms.push({ text: normalizeSearchText(raw.replace(/^-/, '')), negated });
+      continue;
+    }
+
+    if (!value) continue;
+
+    if (!field) {
+      query.terms.push({ text: value, negated });
+      continue;
+    }
+
+    if (DATE_FIELDS.includes(field)) {
+      const [, operator = '=', dateText] = value.match(/^(>=|<=|>|<|=)?(.*)$/);
+      const range = parseDatePeriod(dateText);
+      if (!range) {
+        query.errors.push(`"${fieldName}:" expects a date like 2025-09-01`);
+        continue;
+      }
+      query.qualifiers.push({ field, value: dateText, negated, operator: operator as DateOperator, range });
+      continue;
+    }
+
+    query.qualifiers.push({ field, value, negated });
+  }
+
+  return query;
+}
+
+export function matchesDate(timestamp: number | null, qualifier: SearchQualifier): boolean {
+  if (timestamp === null || !qualifier.range) return false;
+  const { start, end } = qualifier.range;
+
+  switch (qualifier.operator) {
+    case '>':
+      return timestamp > end;
+    case '>=':
+      return timestamp >= start;
+    case '<':
+      return timestamp < start;
+    case '<=':
+      return timestamp <= end;
+    default:
+      return timestamp >= start && timestamp <= end;
+  }
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.qualifiers.length === 0;
+}
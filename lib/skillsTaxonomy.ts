@@ -0,0 +1,210 @@
+// lib/skillsTaxonomy.ts
+// Bundled skills list used to compare resumes with job descriptions. Each
+// skill matches its name and aliases as whole words, case-insensitively;
+// caseSensitiveAliases cover names like "R" or "Excel" that are also words.
+
+export type SkillCategory =
+  | 'language'
+  | 'frontend'
+  | 'backend'
+  | 'mobile'
+  | 'data'
+  | 'ml'
+  | 'database'
+  | 'cloud'
+  | 'devops'
+  | 'testing'
+  | 'design'
+  | 'business'
+  | 'practice'
+  | 'soft';
+
+export const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+  language: 'Languages',
+  frontend: 'Frontend',
+  backend: 'Backend',
+  mobile: 'Mobile',
+  data: 'Data & analytics',
+  ml: 'Machine learning',
+  database: 'Databases',
+  cloud: 'Cloud',
+  devops: 'DevOps',
+  testing: 'Testing',
+  design: 'Design',
+  business: 'Business tools',
+  practice: 'Practices',
+  soft: 'Soft skills'
+};
+
+export interface Skill {
+  id: string;
+  name: string;
+  category: SkillCategory;
+  aliases: string[]; // Lowercase
+  caseSensitiveAliases: string[];
+}
+
+type SkillRow = [id: string, name: string, category: SkillCategory, aliases?: string[], caseSensitiveAliases?: string[]];
+
+const SKILL_ROWS: SkillRow[] = [
+  // ---------- Languages ----------
+  ['python', 'Python', 'language'],
+  ['java', 'Java', 'language'],
+  ['javascript', 'JavaScript', 'language', ['js', 'es6', 'ecmascript']],
+  ['typescript', 'TypeScript', 'language', ['ts']],
+  ['cpp', 'C++', 'language', ['cpp']],
+  ['csharp', 'C#', 'language', ['c sharp', 'csharp']],
+  ['go', 'Go', 'language', ['golang'], ['Go']],
+  ['rust', 'Rust', 'language'],
+  ['kotlin', 'Kotlin', 'language'],
+  ['swift', 'Swift', 'language'],
+  ['ruby', 'Ruby', 'language'],
+  ['php', 'PHP', 'language'],
+  ['scala', 'Scala', 'language'],
+  ['r', 'R', 'language', ['rstudio', 'r programming'], ['R']],
+  ['matlab', 'MATLAB', 'language'],
+  ['sql', 'SQL', 'language', ['t-sql', 'pl/sql', 'tsql']],
+  ['bash', 'Bash', 'language', ['shell scripting', 'shell scripts']],
+  ['html', 'HTML', 'language', ['html5']],
+  ['css', 'CSS', 'language', ['css3', 'sass', 'scss']],
+  ['vba', 'VBA', 'language'],
+
+  // ---------- Frontend ----------
+  ['react', 'React', 'frontend', ['react.js', 'reactjs']],
+  ['nextjs', 'Next.js', 'frontend', ['nextjs']],
+  ['angular', 'Angular', 'frontend', ['angularjs']],
+  ['vue', 'Vue', 'frontend', ['vue.js', 'vuejs']],
+  ['svelte', 'Svelte', 'frontend'],
+  ['redux', 'Redux', 'frontend'],
+  ['tailwind', 'Tailwind CSS', 'frontend', ['tailwind']],
+  ['webpack', 'Webpack', 'frontend'],
+  ['accessibility', 'Accessibility', 'frontend', ['a11y', 'wcag']],
+
+  // ---------- Backend ----------
+  ['nodejs', 'Node.js', 'backend', ['node', 'nodejs']],
+  ['express', 'Express.js', 'backend', ['expressjs']],
+  ['django', 'Django', 'backend'],
+  ['flask', 'Flask', 'backend'],
+  ['fastapi', 'FastAPI', 'backend'],
+  ['spring', 'Spring Boot', 'backend', ['springboot', 'spring framework', 'spring mvc']],
+  ['dotnet', '.NET', 'backend', ['asp.net', 'dotnet', '.net core']],
+  ['rails', 'Ruby on Rails', 'backend', ['rails']],
+  ['graphql', 'GraphQL', 'backend'],
+  ['rest', 'REST APIs', 'backend', ['restful', 'rest api', 'restful apis', 'restful services']],
+  ['grpc', 'gRPC', 'backend'],
+  ['microservices', 'Microservices', 'backend', ['microservice', 'service-oriented architecture']],
+  ['kafka', 'Kafka', 'backend', ['apache kafka']],
+  ['rabbitmq', 'RabbitMQ', 'backend'],
+
+  // ---------- Mobile ----------
+  ['ios', 'iOS', 'mobile'],
+  ['android', 'Android', 'mobile'],
+  ['react-native', 'React Native', 'mobile'],
+  ['flutter', 'Flutter', 'mobile', ['dart']],
+  ['swiftui', 'SwiftUI', 'mobile'],
+
+  // ---------- Data & analytics ----------
+  ['pandas', 'pandas', 'data'],
+  ['numpy', 'NumPy', 'data'],
+  ['spark', 'Spark', 'data', ['apache spark', 'pyspark']],
+  ['hadoop', 'Hadoop', 'data'],
+  ['airflow', 'Airflow', 'data', ['apache airflow']],
+  ['dbt', 'dbt', 'data'],
+  ['etl', 'ETL', 'data', ['elt', 'data pipelines', 'data pipeline']],
+  ['tableau', 'Tableau', 'data'],
+  ['power-bi', 'Power BI', 'data', ['powerbi']],
+  ['looker', 'Looker', 'data'],
+  ['excel', 'Excel', 'data', ['microsoft excel', 'ms excel', 'spreadsheets', 'pivot tables'], ['Excel']],
+  ['statistics', 'Statistics', 'data', ['statistical analysis', 'statistical modeling', 'hypothesis testing']],
+  ['ab-testing', 'A/B testing', 'data', ['a/b tests', 'ab testing', 'experimentation']],
+  ['data-visualization', 'Data visualization', 'data', ['data visualisation', 'dashboards', 'dashboarding']],
+  ['snowflake', 'Snowflake', 'data'],
+  ['bigquery', 'BigQuery', 'data'],
+
+  // ---------- Machine learning ----------
+  ['machine-learning', 'Machine learning', 'ml', ['ml']],
+  ['deep-learning', 'Deep learning', 'ml', ['neural networks']],
+  ['nlp', 'NLP', 'ml', ['natural language processing']],
+  ['computer-vision', 'Computer vision', 'ml', ['opencv']],
+  ['llm', 'LLMs', 'ml', ['llm', 'large language models', 'generative ai', 'genai']],
+  ['tensorflow', 'TensorFlow', 'ml', ['keras']],
+  ['pytorch', 'PyTorch', 'ml', ['torch']],
+  ['scikit-learn', 'scikit-learn', 'ml', ['sklearn', 'scikit learn']],
+
+  // ---------- Databases ----------
+  ['postgresql', 'PostgreSQL', 'database', ['postgres']],
+  ['mysql', 'MySQL', 'database'],
+  ['sql-server', 'SQL Server', 'database', ['mssql', 'microsoft sql server']],
+  ['oracle', 'Oracle', 'database', ['oracle db']],
+  ['mongodb', 'MongoDB', 'database', ['mongo']],
+  ['redis', 'Redis', 'database'],
+  ['dynamodb', 'DynamoDB', 'database'],
+  ['cassandra', 'Cassandra', 'database'],
+  ['elasticsearch', 'Elasticsearch', 'database', ['elastic search', 'opensearch']],
+  ['firebase', 'Firebase', 'database', ['firestore']],
+  ['nosql', 'NoSQL', 'database'],
+
+  // ---------- Cloud ----------
+  ['aws', 'AWS', 'cloud', ['amazon web services', 'ec2', 's3', 'aws lambda']],
+  ['gcp', 'Google Cloud', 'cloud', ['gcp', 'google cloud platform']],
+  ['azure', 'Azure', 'cloud', ['microsoft azure']],
+  ['serverless', 'Serverless', 'cloud'],
+
+  // ---------- DevOps ----------
+  ['docker', 'Docker', 'devops', ['containers', 'containerization']],
+  ['kubernetes', 'Kubernetes', 'devops', ['k8s', 'eks', 'gke', 'aks']],
+  ['terraform', 'Terraform', 'devops', ['infrastructure as code', 'iac']],
+  ['ci-cd', 'CI/CD', 'devops', ['ci/cd', 'continuous integration', 'continuous delivery', 'continuous deployment', 'jenkins', 'github actions', 'gitlab ci']],
+  ['git', 'Git', 'devops', ['github', 'gitlab', 'version control']],
+  ['linux', 'Linux', 'devops', ['unix']],
+  ['monitoring', 'Monitoring', 'devops', ['observability', 'prometheus', 'grafana', 'datadog']],
+
+  // ---------- Testing ----------
+  ['unit-testing', 'Unit testing', 'testing', ['unit tests', 'jest', 'pytest', 'junit', 'vitest', 'mocha']],
+  ['e2e-testing', 'End-to-end testing', 'testing', ['e2e', 'cypress', 'playwright', 'selenium']],
+  ['tdd', 'TDD', 'testing', ['test-driven development', 'test driven development']],
+
+  // ---------- Design ----------
+  ['figma', 'Figma', 'design'],
+  ['ux', 'UX design', 'design', ['ux', 'user experience', 'ui/ux', 'user research', 'wireframing', 'prototyping']],
+  ['adobe', 'Adobe Creative Suite', 'design', ['photoshop', 'illustrator', 'indesign', 'adobe xd']],
+
+  // ---------- Business tools ----------
+  ['salesforce', 'Salesforce', 'business', ['crm']],
+  ['jira', 'Jira', 'business', ['confluence']],
+  ['financial-modeling', 'Financial modeling', 'business', ['financial modelling', 'dcf', 'valuation']],
+  ['accounting', 'Accounting', 'business', ['gaap', 'bookkeeping', 'quickbooks']],
+  ['seo', 'SEO', 'business', ['search engine optimization', 'sem', 'google analytics']],
+  ['digital-marketing', 'Digital marketing', 'business', ['social media marketing', 'content marketing', 'email marketing']],
+  ['sap', 'SAP', 'business'],
+  ['powerpoint', 'PowerPoint', 'business', ['microsoft powerpoint']],
+
+  // ---------- Practices ----------
+  ['agile', 'Agile', 'practice', ['scrum', 'kanban', 'sprint planning']],
+  ['system-design', 'System design', 'practice', ['distributed systems', 'scalability', 'high availability']],
+  ['data-structures', 'Data structures & algorithms', 'practice', ['data structures', 'algorithms']],
+  ['oop', 'Object-oriented programming', 'practice', ['oop', 'object oriented', 'object-oriented design']],
+  ['security', 'Security', 'practice', ['cybersecurity', 'application security', 'owasp', 'encryption']],
+  ['api-design', 'API design', 'practice', ['api development', 'apis']],
+  ['project-management', 'Project management', 'practice', ['pmp', 'project planning', 'roadmapping']],
+
+  // ---------- Soft skills ----------
+  ['communication', 'Communication', 'soft', ['written communication', 'verbal communication', 'communication skills']],
+  ['teamwork', 'Teamwork', 'soft', ['collaboration', 'collaborative', 'cross-functional']],
+  ['leadership', 'Leadership', 'soft', ['mentoring', 'mentorship']],
+  ['problem-solving', 'Problem solving', 'soft', ['problem-solving', 'analytical skills', 'critical thinking']],
+  ['stakeholder-management', 'Stakeholder management', 'soft', ['stakeholders', 'client-facing', 'customer-facing']]
+];
+
+export const SKILLS: Skill[] = SKILL_ROWS.map(([id, name, category, aliases = [], caseSensitiveAliases = []]) => ({
+  id,
+  name,
+  category,
+  aliases: Array.from(new Set([name.toLowerCase(), ...aliases]))
+    .filter(alias => !caseSensitiveAliases.some(exact => exact.toLowerCase() === alias)),
+  caseSensitiveAliases
+}));
+
+export function getSkillById(id: string): Skill | undefined {
+  return SKILLS.find(skill => skill.id === id);
+}
@@ -0,0 +1,66 @@
+// lib/statusHistory.ts
+// Helpers for the statusHistory array stored on every application
+import { Timestamp } from 'firebase/firestore';
+import { Application, ApplicationStatus, PipelineStage, StatusChange, StatusChangeSource } from './domain';
+import { getResponseStatuses, getSubmittedStageIndex } from './pipeline';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// serverTimestamp() is not allowed inside arrays, so entries use the client clock
+export function createStatusChange(
+  from: ApplicationStatus | null,
+  to: ApplicationStatus,
+  source: StatusChangeSource
+): StatusChange {
+  return { from, to, changedAt: Timestamp.now(), source };
+}
+
+// Full history for display, oldest first. Applications created before history
+// was tracked get a synthetic starting entry from createdAt.
+export function getStatusTimeline(application: Application): StatusChange[] {
+  const history = application.statusHistory || [];
+  if (history[0]?.from === null) return history;
+
+  const initial: StatusChange = {
+    from: null,
+    to: history[0]?.from || application.status,
+    changedAt: application.createdAt,
+    source: 'created'
+  };
+  return application.createdAt ? [initial, ...history] : history;
+}
+
+// Days since the application entered its current stage
+export function getDaysInStage(application: Application, now: number = Date.now()): number {
+  const timeline = getStatusTimeline(application);
+  const enteredAt = timeline[timeline.length - 1]?.changedAt || application.createdAt;
+  if (!enteredAt) return 0;
+  return Math.max(0, (now - enteredAt.toMillis()) / MS_PER_DAY);
+}
+
+// Days between first reaching the submitted stage and the first response stage
+// after it, or null when the application hasn't been answered yet
+export function getDaysToResponse(application: Application, stages: PipelineStage[]): number | null {
+  const submitted = stages[getSubmittedStageIndex(stages)]?.id;
+  const responseStatuses = getResponseStatuses(stages);
+  const timeline = getStatusTimeline(application);
+  const appliedIndex = timeline.findIndex(change => change.to === submitted);
+  if (appliedIndex === -1) return null;
+
+  const response = timeline
+    .slice(appliedIndex + 1)
+    .find(change => responseStatuses.includes(change.to));
+  if (!response) return null;
+
+  const appliedAt = timeline[appliedIndex].changedAt;
+  return Math.max(0, (response.changedAt.toMillis() - appliedAt.toMillis()) / MS_PER_DAY);
+}
+
+// Mean of getDaysToResponse over the applications that have a response (0 if none)
+export function getAverageTimeToResponse(applications: Application[], stages: PipelineStage[]): number {
+  const days = applications
+    .map(application => getDaysToResponse(application, stages))
+    .filter((value): value is number => value !== null);
+  if (days.length === 0) return 0;
+  return days.reduce((sum, value) => sum + value, 0) / days.length;
+}
@@ -0,0 +1,31 @@
+// lib/tags.ts
+// Free-form labels on applications, e.g. "referral" or "dream company"
+import { TagDefinition } from './domain';
+
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+// Trim and collapse whitespace; tags compare case-insensitively
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+// Comma-separated input such as "referral, remote ok"
+export function parseTagInput(input: string): string[] {
+  return mergeTags([], input.split(',').map(normalizeTag));
+}
+
+// Existing tags plus any new ones, keeping the first spelling of duplicates
+export function mergeTags(existing: string[], added: string[]): string[] {
+  const merged = [...existing];
+  added.forEach((tag) => {
+    if (tag && !merged.some(other => other.toLowerCase() === tag.toLowerCase())) merged.push(tag);
+  });
+  return merged.slice(0, MAX_TAGS);
+}
+
+// The definition (and so the color) for a tag name, if the user defined one
+export function findTagDefinition(definitions: TagDefinition[], name: string): TagDefinition | undefined {
+  return definitions.find(definition => definition.name.toLowerCase() === name.toLowerCase());
+}
+
+export const hasTag = (tags: string[] | undefined, name: string) =>
+  (tags || []).some(tag => tag.toLowerCase() === name.toLowerCase());
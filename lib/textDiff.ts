@@ -0,0 +1,87 @@
+// lib/textDiff.ts
+// Line-based diff between two versions of a text, using the longest common
+// subsequence of lines. Shared leading and trailing lines are trimmed first
+// so small edits to long texts stay cheap.
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+}
+
+// Beyond this many changed lines on both sides the middle is shown as
+// removed then added rather than aligned
+const MAX_ALIGNED_CELLS = 4_000_000;
+
+const toLines = (text: string) => (text ? text.replace(/\r\n?/g, '\n').split('\n') : []);
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_ALIGNED_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...tail
+    ];
+  }
+
+  // lengths[i * width + j]: longest common subsequence of midA[i..] and midB[j..]
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  return {
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length
+  };
+}
@@ -1,8 +1,20 @@
 import '../styles/globals.css'
+import 'leaflet/dist/leaflet.css'
 import type { AppProps } from 'next/app'
+import AuthProvider from '../components/AuthProvider'
+import PipelineProvider from '../components/PipelineProvider'
+import FieldSettingsProvider from '../components/FieldSettingsProvider'
 
 function MyApp({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />
+  return (
+    <AuthProvider>
+      <PipelineProvider>
+        <FieldSettingsProvider>
+          <Component {...pageProps} />
+        </FieldSettingsProvider>
+      </PipelineProvider>
+    </AuthProvider>
+  )
 }
 
 export default MyApp
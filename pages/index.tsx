@@ -1,6 +1,7 @@
 import { useEffect, useState, useMemo } from "react";
-import { db } from "../lib/firebase";
-import { collection, onSnapshot, query, orderBy, doc, updateDoc, deleteDoc } from "firebase/firestore";
+import dynamic from "next/dynamic";
+import { useRouter } from "next/router";
+import { useAuth } from "../components/AuthProvider";
 import ApplicationForm from "../components/ApplicationForm";
 import ResumeUpload from "../components/ResumeUpload";
 import ResumesDisplay from "../components/ResumesDisplay";
@@ -8,155 +9,205 @@ import ResumeInsights from "../components/ResumeInsights";
 import TabNavigation, { TabContent } from "../components/TabNavigation";
 import ViewSwitcher from "../components/ViewSwitcher";
 import KanbanBoard from "../components/KanbanBoard";
+import ApplicationTable from "../components/ApplicationTable";
 import AddHiringManagerForm from "../components/AddHiringManagerForm";
 import HiringManagerCard from "../components/HiringManagerCard";
-
-// TypeScript interfaces
-interface Application {
-  id: string;
-  jobTitle: string;
-  company: string;
-  location?: string;
-  jobLink?: string;
-  status: 'saved' | 'applied' | 'phone-screen' | 'interview' | 'offer' | 'rejected';
-  notes?: string;
-  resumeId?: string; // Optional reference to resume
-  hiringManagerId?: string; // Optional reference to hiring manager
-  createdAt: any; // Firebase Timestamp
-  updatedAt: any; // Firebase Timestamp
-}
-
-interface HiringManager {
-  id: string;
-  name: string;
-  role: string;
-  email?: string;
-  linkedinProfile?: string;
-  company: string;
-  notes?: string;
-  lastContactDate?: any; // Firebase Timestamp
-  nextFollowUpDate?: any; // Firebase Timestamp
-  createdAt: any; // Firebase Timestamp
-  updatedAt: any; // Firebase Timestamp
-}
-
-interface FollowUpReminder {
-  id: string;
-  hiringManagerId: string;
-  applicationId?: string;
-  reminderDate: any; // Firebase Timestamp
-  message: string;
-  completed: boolean;
-  createdAt: any; // Firebase Timestamp
-}
-
-interface FilterState {
-  company: string;
-  status: string;
-  sortBy: string;
-}
-
-type StatusOption = {
-  value: string;
-  label: string;
-  bgColor: string;
-  textColor: string;
-  dotColor: string;
-};
-
-interface Resume {
-  id: string;
-  name: string;
-}
+import StatusTimeline from "../components/StatusTimeline";
+import PipelineAnalytics from "../components/PipelineAnalytics";
+import PipelineSettings from "../components/PipelineSettings";
+import FieldSettings from "../components/FieldSettings";
+import GlobalSearch from "../components/GlobalSearch";
+import SavedViewsSidebar from "../components/SavedViewsSidebar";
+import BulkActionBar from "../components/BulkActionBar";
+import CustomFieldInputs from "../components/CustomFieldInputs";
+import InterviewsPanel from "../components/InterviewsPanel";
+import UpcomingInterviews from "../components/UpcomingInterviews";
+import OfferPanel from "../components/OfferPanel";
+import OfferComparison from "../components/OfferComparison";
+import DuplicateReview from "../components/DuplicateReview";
+import JobDescriptionPanel from "../components/JobDescriptionPanel";
+import ResumeMatch from "../components/ResumeMatch";
+import PdfViewerModal from "../components/PdfViewerModal";
+import { usePipeline } from "../components/PipelineProvider";
+import { useFieldSettings } from "../components/FieldSettingsProvider";
+import {
+  Application,
+  ApplicationInput,
+  ApplicationStatus,
+  ApplicationsView,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  DeadlineFilter,
+  DescriptionSnapshot,
+  FollowUpReminder,
+  HiringManager,
+  Interview,
+  Offer,
+  Resume,
+  ResumeVersion,
+  SavedView
+} from "../lib/domain";
+import {
+  applicationRepository,
+  descriptionSnapshotRepository,
+  followUpReminderRepository,
+  hiringManagerRepository,
+  interviewRepository,
+  offerRepository,
+  resumeRepository,
+  resumeVersionRepository,
+  savedViewRepository
+} from "../lib/repositories";
+import { getAverageTimeToResponse } from "../lib/statusHistory";
+import { cleanCustomFieldValues, describeFieldFilter } from "../lib/customFields";
+import { formatDeadlineCountdown, getDaysUntilDeadline, isPastDeadline } from "../lib/deadlines";
+import { getNextInterviews, getUpcomingInterviews } from "../lib/interviews";
+import { getDuplicateClusters } from "../lib/duplicates";
+import { getApplicationSnapshots } from "../lib/jobDescriptions";
+import { formatVersionLabel, getApplicationVersion, getResumeAssignment } from "../lib/resumeVersions";
+import { StoredResumeFile } from "../lib/resumeText";
+import {
+  DEADLINE_OPTIONS,
+  DEFAULT_FILTERS,
+  FilterState,
+  SORT_OPTIONS,
+  STALE_OPTIONS,
+  applyFilters,
+  hasActiveFilters
+} from "../lib/applicationFilters";
+import { DashboardState, parseDashboardQuery, toDashboardQuery } from "../lib/dashboardUrl";
+
+// Leaflet touches window on import, so the map only renders client-side
+const ApplicationMap = dynamic(() => import("../components/ApplicationMap"), { ssr: false });
 
 export default function Dashboard() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { stages, statusOptions, getStatusOption } = usePipeline();
+  const { tags: tagDefinitions, customFields } = useFieldSettings();
   const [applications, setApplications] = useState<Application[]>([]);
   const [resumes, setResumes] = useState<Resume[]>([]);
+  const [resumeVersions, setResumeVersions] = useState<ResumeVersion[]>([]);
   const [hiringManagers, setHiringManagers] = useState<HiringManager[]>([]);
   const [followUpReminders, setFollowUpReminders] = useState<FollowUpReminder[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [descriptionSnapshots, setDescriptionSnapshots] = useState<DescriptionSnapshot[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<FilterState>({
-    company: '',
-    status: '',
-    sortBy: 'newest'
-  });
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
   const [editingApplication, setEditingApplication] = useState<Application | null>(null);
   const [deletingApplication, setDeletingApplication] = useState<Application | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [activeTab, setActiveTab] = useState('applications');
+  // Applications selected on the board or list for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Overdue applications the banner was dismissed for; a newly overdue one brings it back
+  const [dismissedOverdueIds, setDismissedOverdueIds] = useState<string[]>([]);
+  const [isReviewingDuplicates, setIsReviewingDuplicates] = useState(false);
+  const [resumePreview, setResumePreview] = useState<{ file: StoredResumeFile; title: string } | null>(null);
   
   // View management for Applications section
-  const [currentView, setCurrentView] = useState<'board' | 'list' | 'map' | 'analytics'>('board');
+  const [currentView, setCurrentView] = useState<ApplicationsView>('board');
   const [editFormData, setEditFormData] = useState<{
     jobTitle: string;
     company: string;
     location: string;
     jobLink: string;
-    status: 'saved' | 'applied' | 'phone-screen' | 'interview' | 'offer' | 'rejected';
+    status: ApplicationStatus;
     notes: string;
     resumeId: string;
     hiringManagerId: string;
+    deadline: string;
+    tags: string[];
+    customFields: Record<string, CustomFieldValue>;
   }>({
     jobTitle: '',
     company: '',
     location: '',
     jobLink: '',
-    status: 'saved',
+    status: '',
     notes: '',
     resumeId: '',
-    hiringManagerId: ''
+    hiringManagerId: '',
+    deadline: '',
+    tags: [],
+    customFields: {}
   });
 
-  // Industry-standard status pipeline following Huntr/Teal patterns
-  const statusOptions: StatusOption[] = [
-    { value: '', label: 'All Status', bgColor: '', textColor: '', dotColor: '' },
-    { value: 'saved', label: 'Saved', bgColor: 'bg-slate-50', textColor: 'text-slate-700', dotColor: 'bg-slate-400' },
-    { value: 'applied', label: 'Applied', bgColor: 'bg-blue-50', textColor: 'text-blue-700', dotColor: 'bg-blue-500' },
-    { value: 'phone-screen', label: 'Phone Screen', bgColor: 'bg-purple-50', textColor: 'text-purple-700', dotColor: 'bg-purple-500' },
-    { value: 'interview', label: 'Interview', bgColor: 'bg-amber-50', textColor: 'text-amber-700', dotColor: 'bg-amber-500' },
-    { value: 'offer', label: 'Offer', bgColor: 'bg-emerald-50', textColor: 'text-emerald-700', dotColor: 'bg-emerald-500' },
-    { value: 'rejected', label: 'Rejected', bgColor: 'bg-red-50', textColor: 'text-red-700', dotColor: 'bg-red-500' }
+  // Status filter choices - the pipeline plus an "All" option
+  const statusFilterOptions = [
+    { value: '', label: 'All Status' },
+    ...statusOptions.map(option => ({ value: option.value, label: option.label }))
   ];
 
-  const sortOptions = [
-    { value: 'newest', label: 'Newest First' },
-    { value: 'oldest', label: 'Oldest First' },
-    { value: 'company-asc', label: 'Company A-Z' },
-    { value: 'company-desc', label: 'Company Z-A' },
-    { value: 'status', label: 'Status' }
-  ];
+  // Tab, view and filters mirror the query string. Restore them on load and
+  // whenever back/forward lands on another entry.
+  useEffect(() => {
+    const restoreFromUrl = () => {
+      const restored = parseDashboardQuery(window.location.search);
+      setActiveTab(restored.tab);
+      setCurrentView(restored.view);
+      setFilters(restored.filters);
+    };
+
+    restoreFromUrl();
+    window.addEventListener('popstate', restoreFromUrl);
+    return () => window.removeEventListener('popstate', restoreFromUrl);
+  }, []);
+
+  const dashboardState: DashboardState = { tab: activeTab, view: currentView, filters };
+
+  // Apply a change and record it in the URL. Typing in a text filter replaces
+  // the current history entry instead of adding one per keystroke.
+  const updateDashboard = (changes: Partial<DashboardState>, { replace = false } = {}) => {
+    const next = { ...dashboardState, ...changes };
+    setActiveTab(next.tab);
+    setCurrentView(next.view);
+    setFilters(next.filters);
+
+    const url = { pathname: router.pathname, query: toDashboardQuery(next) };
+    if (replace) {
+      router.replace(url, undefined, { shallow: true, scroll: false });
+    } else {
+      router.push(url, undefined, { shallow: true, scroll: false });
+    }
+  };
+
+  const handleTabChange = (tab: string) => updateDashboard({ tab });
+
+  const handleViewChange = (view: ApplicationsView) => updateDashboard({ view });
+
+  // Open a saved view on the Applications tab
+  const handleApplySavedView = (savedView: SavedView) => {
+    updateDashboard({
+      tab: 'applications',
+      view: savedView.view,
+      filters: { ...DEFAULT_FILTERS, ...savedView.filters }
+    });
+  };
+
+  // Time-in-stage choices, keeping a value from a hand-edited URL selectable
+  const staleFilterOptions = filters.staleDays && !STALE_OPTIONS.some(option => option.value === String(filters.staleDays))
+    ? [...STALE_OPTIONS, { value: String(filters.staleDays), label: `In stage over ${filters.staleDays} days` }]
+    : STALE_OPTIONS;
 
   // Real-time Firebase listener
   useEffect(() => {
+    if (!user) return;
+
     setLoading(true);
     setError(null);
 
-    const q = query(collection(db, 'applications'), orderBy('createdAt', 'desc'));
-
-    const unsubscribe = onSnapshot(
-      q,
-      (querySnapshot) => {
-        try {
-          const apps: Application[] = [];
-          querySnapshot.forEach((doc) => {
-            apps.push({
-              id: doc.id,
-              ...doc.data()
-            } as Application);
-          });
-          setApplications(apps);
-          setLoading(false);
-        } catch (err) {
-          console.error('Error processing applications:', err);
-          setError('Failed to load applications');
-          setLoading(false);
-        }
+    const unsubscribe = applicationRepository.subscribe(
+      user.uid,
+      (apps) => {
+        setApplications(apps);
+        setLoading(false);
       },
       (err) => {
-        console.error('Error fetching applications:', err);
-        
         // Check for specific Firebase connection errors
         if (err.code === 'unavailable' || err.message?.includes('transport errored')) {
           setError('Connection lost. Your applications will load when connection is restored. Any changes will be saved automatically.');
@@ -171,67 +222,32 @@ export default function Dashboard() {
     );
 
     return () => unsubscribe();
-  }, []);
-
-  // Fetch resumes from Firebase
-  useEffect(() => {
-    const q = query(collection(db, 'resumes'), orderBy('uploadDate', 'desc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const resumeData: Resume[] = [];
-      snapshot.forEach((doc) => {
-        resumeData.push({
-          id: doc.id,
-          name: doc.data().name
-        });
-      });
-      setResumes(resumeData);
-    }, (error) => {
-      console.error('Error fetching resumes:', error);
-    });
-
-    return () => unsubscribe();
-  }, []);
+  }, [user]);
 
-  // Fetch hiring managers from Firebase
+  // Fetch resumes and their versions, hiring managers, follow-up reminders, saved views, interviews, offers and job description snapshots from Firebase
   useEffect(() => {
-    const q = query(collection(db, 'hiringManagers'), orderBy('createdAt', 'desc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const managersData: HiringManager[] = [];
-      snapshot.forEach((doc) => {
-        managersData.push({
-          id: doc.id,
-          ...doc.data()
-        } as HiringManager);
-      });
-      setHiringManagers(managersData);
-    }, (error) => {
-      console.error('Error fetching hiring managers:', error);
-    });
-
-    return () => unsubscribe();
-  }, []);
-
-  // Fetch follow-up reminders from Firebase
-  useEffect(() => {
-    const q = query(collection(db, 'followUpReminders'), orderBy('reminderDate', 'asc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const remindersData: FollowUpReminder[] = [];
-      snapshot.forEach((doc) => {
-        remindersData.push({
-          id: doc.id,
-          ...doc.data()
-        } as FollowUpReminder);
-      });
-      setFollowUpReminders(remindersData);
-    }, (error) => {
-      console.error('Error fetching follow-up reminders:', error);
-    });
-
-    return () => unsubscribe();
-  }, []);
+    if (!user) return;
+
+    const unsubscribeResumes = resumeRepository.subscribe(user.uid, setResumes);
+    const unsubscribeVersions = resumeVersionRepository.subscribe(user.uid, setResumeVersions);
+    const unsubscribeManagers = hiringManagerRepository.subscribe(user.uid, setHiringManagers);
+    const unsubscribeReminders = followUpReminderRepository.subscribe(user.uid, setFollowUpReminders);
+    const unsubscribeSavedViews = savedViewRepository.subscribe(user.uid, setSavedViews);
+    const unsubscribeInterviews = interviewRepository.subscribe(user.uid, setInterviews);
+    const unsubscribeOffers = offerRepository.subscribe(user.uid, setOffers);
+    const unsubscribeSnapshots = descriptionSnapshotRepository.subscribe(user.uid, setDescriptionSnapshots);
+
+    return () => {
+      unsubscribeResumes();
+      unsubscribeVersions();
+      unsubscribeManagers();
+      unsubscribeReminders();
+      unsubscribeSavedViews();
+      unsubscribeInterviews();
+      unsubscribeOffers();
+      unsubscribeSnapshots();
+    };
+  }, [user]);
 
   // Helper function to get resume name by ID
   const getResumeName = (resumeId: string): string | null => {
@@ -250,73 +266,117 @@ export default function Dashboard() {
     return hiringManagers.find(m => m.id === managerId) || null;
   };
 
-  // Filtered and sorted applications
-  const filteredAndSortedApplications = useMemo(() => {
-    let filtered = applications;
+  // Filtered and sorted applications - every view renders from this list
+  const filteredAndSortedApplications = useMemo(
+    () => applyFilters(applications, filters, stages, customFields),
+    [applications, filters, stages, customFields]
+  );
 
-    // Filter by company
-    if (filters.company) {
-      filtered = filtered.filter(app =>
-        app.company.toLowerCase().includes(filters.company.toLowerCase())
-      );
-    }
+  // Drop selections for applications that were deleted or filtered out
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visibleIds = new Set(filteredAndSortedApplications.map(app => app.id));
+      const next = new Set(Array.from(prev).filter(id => visibleIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filteredAndSortedApplications]);
 
-    // Filter by status
-    if (filters.status) {
-      filtered = filtered.filter(app => app.status === filters.status);
-    }
+  const selectedApplications = useMemo(
+    () => filteredAndSortedApplications.filter(app => selectedIds.has(app.id)),
+    [filteredAndSortedApplications, selectedIds]
+  );
 
-    // Sort applications
-    const sorted = [...filtered].sort((a, b) => {
-      switch (filters.sortBy) {
-        case 'oldest':
-          return a.createdAt?.seconds - b.createdAt?.seconds || 0;
-        case 'company-asc':
-          return a.company.localeCompare(b.company);
-        case 'company-desc':
-          return b.company.localeCompare(a.company);
-        case 'status':
-          return a.status.localeCompare(b.status);
-        case 'newest':
-        default:
-          return (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0);
-      }
-    });
+  const archivedCount = useMemo(() => applications.filter(app => app.archived).length, [applications]);
+
+  // Unsubmitted applications whose posting has already closed
+  const overdueApplications = useMemo(
+    () => applications.filter(app => !app.archived && isPastDeadline(app, stages)),
+    [applications, stages]
+  );
+  const showOverdueBanner = overdueApplications.some(app => !dismissedOverdueIds.includes(app.id));
+
+  // Interviews left behind by a deleted application stay hidden, so undo can restore them
+  const activeInterviews = useMemo(
+    () => {
+      const activeIds = new Set(applications.filter(app => !app.archived).map(app => app.id));
+      return interviews.filter(interview => activeIds.has(interview.applicationId));
+    },
+    [applications, interviews]
+  );
+  const upcomingInterviews = useMemo(() => getUpcomingInterviews(activeInterviews), [activeInterviews]);
+  const nextInterviews = useMemo(() => getNextInterviews(activeInterviews), [activeInterviews]);
+
+  // Groups of applications that look like the same job
+  const duplicateClusters = useMemo(() => getDuplicateClusters(applications), [applications]);
 
-    return sorted;
-  }, [applications, filters]);
+  // Offers still being decided on, for the tab count
+  const pendingOfferCount = useMemo(
+    () => offers.filter(offer => offer.decision === 'pending' && applications.some(app => app.id === offer.applicationId)).length,
+    [applications, offers]
+  );
+
+  // Tag filter choices - defined tags first, then any others in use
+  const tagFilterOptions = useMemo(
+    () => {
+      const options = tagDefinitions.map(definition => definition.name);
+      applications.forEach(app => (app.tags || []).forEach((tag) => {
+        if (!options.some(option => option.toLowerCase() === tag.toLowerCase())) options.push(tag);
+      }));
+      return options;
+    },
+    [tagDefinitions, applications]
+  );
+  // Days from Applied to first response, across every application with a status history
+  const averageTimeToResponse = useMemo(
+    () => getAverageTimeToResponse(applications, stages),
+    [applications, stages]
+  );
 
   // Handle filter changes
-  const handleFilterChange = (key: keyof FilterState, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+  const handleFilterChange = (key: 'company' | 'status' | 'sortBy', value: string) => {
+    updateDashboard({ filters: { ...filters, [key]: value } }, { replace: key === 'company' });
   };
 
-  // Clear all filters
-  const clearFilters = () => {
-    setFilters({
-      company: '',
-      status: '',
-      sortBy: 'newest'
-    });
+  const handleStaleDaysChange = (value: string) => {
+    updateDashboard({ filters: { ...filters, staleDays: value ? Number(value) : null } });
   };
 
-  // Format date
-  const formatDate = (timestamp: any) => {
-    if (!timestamp) return 'Unknown';
-    const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric', 
-      year: 'numeric' 
-    });
+  const handleDeadlineFilterChange = (deadline: DeadlineFilter) => {
+    updateDashboard({ filters: { ...filters, deadline } });
   };
 
-  // Get status display info
-  const getStatusInfo = (status: string) => {
-    const statusOption = statusOptions.find(opt => opt.value === status);
-    return statusOption || { label: status, bgColor: 'bg-slate-50', textColor: 'text-slate-700', dotColor: 'bg-slate-400' };
+  const handleTagFilterChange = (tag: string) => {
+    updateDashboard({ filters: { ...filters, tag } });
+  };
+
+  // Typing into text and number filters replaces the history entry, like the company search
+  const handleFieldFilterChange = (field: CustomFieldDefinition, value: string) => {
+    const { [field.id]: _previous, ...fieldFilters } = filters.fieldFilters;
+    if (value) fieldFilters[field.id] = value;
+    updateDashboard({ filters: { ...filters, fieldFilters } }, { replace: field.type === 'text' || field.type === 'number' });
+  };
+
+  const handleShowArchivedChange = (showArchived: boolean) => {
+    updateDashboard({ filters: { ...filters, showArchived } });
+  };
+
+  // Narrow the dashboard to an explicit set, e.g. a clicked map cluster
+  const handleSelectApplications = (ids: string[], label: string) => {
+    updateDashboard({ filters: { ...filters, applicationIds: ids, selectionLabel: label } });
+  };
+
+  const clearSelection = () => {
+    updateDashboard({ filters: { ...filters, applicationIds: [], selectionLabel: '' } });
   };
 
+  // Clear all filters
+  const clearFilters = () => {
+    updateDashboard({ filters: DEFAULT_FILTERS });
+  };
+
+  // Get status display info
+  const getStatusInfo = (status: string) => getStatusOption(status);
+
   // Truncate text
   const truncateText = (text: string, maxLength: number = 100) => {
     if (!text || text.length <= maxLength) return text;
@@ -328,6 +388,17 @@ export default function Dashboard() {
     console.log('Application added - list will update automatically');
   };
 
+  // Preview the resume version an application was sent with
+  const handlePreviewResume = (application: Application) => {
+    const resume = resumes.find(r => r.id === application.resumeId);
+    if (!resume) return;
+    const sentVersion = getApplicationVersion(application, resumeVersions);
+    setResumePreview({
+      file: sentVersion || resume,
+      title: `${resume.name} · ${formatVersionLabel(sentVersion?.version ?? 1)}`
+    });
+  };
+
   // Edit application handler
   const handleEditApplication = (application: Application) => {
     setEditingApplication(application);
@@ -339,7 +410,10 @@ export default function Dashboard() {
       status: application.status,
       notes: application.notes || '',
       resumeId: application.resumeId || '',
-      hiringManagerId: application.hiringManagerId || ''
+      hiringManagerId: application.hiringManagerId || '',
+      deadline: application.deadline || '',
+      tags: application.tags || [],
+      customFields: application.customFields || {}
     });
   };
 
@@ -354,19 +428,22 @@ export default function Dashboard() {
   // Handle edit form submission
   const handleEditFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await handleUpdateApplication(editFormData);
+    await handleUpdateApplication({
+      ...editFormData,
+      // Choosing another resume pins its current version; keeping the resume keeps the version that was sent
+      ...(editFormData.resumeId !== (editingApplication?.resumeId || '') && getResumeAssignment(resumes, editFormData.resumeId || null)),
+      deadline: editFormData.deadline || null,
+      customFields: cleanCustomFieldValues(editFormData.customFields)
+    });
   };
 
   // Update application handler
-  const handleUpdateApplication = async (updatedData: Omit<Application, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleUpdateApplication = async (updatedData: ApplicationInput) => {
     if (!editingApplication) return;
 
     setIsUpdating(true);
     try {
-      await updateDoc(doc(db, 'applications', editingApplication.id), {
-        ...updatedData,
-        updatedAt: new Date()
-      });
+      await applicationRepository.updateWithHistory(editingApplication, updatedData, 'edit');
       setEditingApplication(null);
       console.log('Application updated successfully');
     } catch (error: any) {
@@ -396,7 +473,11 @@ export default function Dashboard() {
 
     setIsDeleting(true);
     try {
-      await deleteDoc(doc(db, 'applications', deletingApplication.id));
+      await applicationRepository.removeWithRelated(deletingApplication, {
+        interviews: interviews.filter(interview => interview.applicationId === deletingApplication.id),
+        descriptionSnapshots: getApplicationSnapshots(descriptionSnapshots, deletingApplication.id),
+        offers: offers.filter(offer => offer.applicationId === deletingApplication.id)
+      });
       setDeletingApplication(null);
       console.log('Application deleted successfully');
     } catch (error: any) {
@@ -456,6 +537,16 @@ export default function Dashboard() {
       ),
       count: hiringManagers.length
     },
+    {
+      id: 'offers',
+      label: 'Offers',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ),
+      count: pendingOfferCount
+    },
     {
       id: 'analytics',
       label: 'Analytics',
@@ -483,285 +574,560 @@ export default function Dashboard() {
       <TabNavigation 
         tabs={tabs}
         activeTab={activeTab}
-        onTabChange={setActiveTab}
+        onTabChange={handleTabChange}
+        search={
+          <GlobalSearch
+            applications={applications}
+            hiringManagers={hiringManagers}
+            resumes={resumes}
+            descriptionSnapshots={descriptionSnapshots}
+            onOpenApplication={handleEditApplication}
+            onOpenContact={() => handleTabChange('networking')}
+            onOpenResume={() => handleTabChange('resumes')}
+          />
+        }
       />
 
       {/* Main Content Area */}
       <div className="flex-1 bg-slate-50">
         {/* Applications Tab */}
       <TabContent activeTab={activeTab} tabId="applications">
-        {/* Applications Header */}
-        <div className="bg-white rounded-xl p-6 mb-6 border border-slate-200 shadow-sm">
-          <div className="flex justify-between items-center">
-            <div>
-              <h2 className="text-2xl font-bold text-slate-900">
-                Job Applications
-              </h2>
-              <p className="text-slate-600 mt-1">
-                Track and manage your {applications.length} job applications
-              </p>
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Saved Views Sidebar */}
+          <aside className="lg:w-64 flex-shrink-0">
+            <SavedViewsSidebar
+              savedViews={savedViews}
+              dashboardState={dashboardState}
+              onApplyView={handleApplySavedView}
+            />
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            {/* Applications Header */}
+            <div className="bg-white rounded-xl p-6 mb-6 border border-slate-200 shadow-sm">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h2 className="text-2xl font-bold text-slate-900">
+                    Job Applications
+                  </h2>
+                  <p className="text-slate-600 mt-1">
+                    Track and manage your {applications.length} job applications
+                  </p>
+                </div>
+                <ApplicationForm
+                  onApplicationAdded={handleApplicationAdded}
+                  applications={applications}
+                  onOpenApplication={handleEditApplication}
+                />
+              </div>
             </div>
-            <ApplicationForm onApplicationAdded={handleApplicationAdded} />
-          </div>
-        </div>
-
-        {/* View Switcher */}
-        {!loading && !error && (
-          <ViewSwitcher
-            currentView={currentView}
-            onViewChange={setCurrentView}
-            applicationCount={applications.length}
-          />
-        )}
 
-        {/* Modern Loading State */}
-        {loading && (
-          <div className="flex justify-center items-center py-20">
-            <div className="flex items-center space-x-4">
-              <div className="w-6 h-6 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
-              <span className="text-lg font-medium text-slate-600">
-                Loading applications...
-              </span>
-            </div>
-          </div>
-        )}
+            {/* Upcoming Interviews */}
+            {!loading && !error && (
+              <UpcomingInterviews
+                interviews={upcomingInterviews}
+                applications={applications}
+                onApplicationOpen={handleEditApplication}
+              />
+            )}
 
-        {/* Enhanced Error State */}
-        {error && (
-          <div className="bg-red-50 border-2 border-red-200 rounded-xl p-6 mb-8">
-            <div className="flex items-center">
-              <div className="text-red-500 text-2xl mr-4">⚠️</div>
-              <div>
-                <p className="text-red-700 font-semibold text-lg">{error}</p>
-                <button 
-                  onClick={() => window.location.reload()} 
-                  className="mt-3 text-red-600 hover:text-red-800 underline font-medium"
+            {/* Overdue Deadlines Banner */}
+            {!loading && !error && showOverdueBanner && (
+              <div className="bg-red-50 rounded-xl p-4 mb-6 border border-red-200 flex flex-wrap items-center gap-4" role="alert">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-red-800">
+                    {overdueApplications.length} saved application{overdueApplications.length === 1 ? ' is' : 's are'} past the deadline
+                  </p>
+                  <p className="text-sm text-red-700 truncate">
+                    {overdueApplications.slice(0, 3).map(app =>
+                      `${app.jobTitle} at ${app.company} (${formatDeadlineCountdown(getDaysUntilDeadline(app.deadline)).toLowerCase()})`
+                    ).join(' · ')}
+                    {overdueApplications.length > 3 && ` · and ${overdueApplications.length - 3} more`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeadlineFilterChange('overdue')}
+                  className="btn-secondary px-4 py-2 text-sm font-medium"
+                >
+                  Review
+                </button>
+                <button
+                  onClick={() => setDismissedOverdueIds(overdueApplications.map(app => app.id))}
+                  className="text-red-400 hover:text-red-600 text-xl leading-none"
+                  aria-label="Dismiss overdue deadlines"
                 >
-                  Try again
+                  ×
                 </button>
               </div>
-            </div>
-          </div>
-        )}
-
-        {/* Enhanced Empty State */}
-        {!loading && !error && filteredAndSortedApplications.length === 0 && applications.length === 0 && (
-          <div className="flex items-center justify-center min-h-[calc(100vh-200px)]">
-            <div className="text-center max-w-lg">
-              <div className="text-8xl mb-8">📝</div>
-              <h2 className="text-4xl font-bold mb-6 text-slate-900">
-                No applications yet
-              </h2>
-              <p className="text-xl mb-10 text-slate-600 leading-relaxed">
-                Get started by adding your first job application and begin tracking your career journey!
-              </p>
-              <ApplicationForm onApplicationAdded={handleApplicationAdded} />
-            </div>
-          </div>
-        )}
+            )}
 
-        {/* Enhanced No Results State */}
-        {!loading && !error && currentView !== 'board' && filteredAndSortedApplications.length === 0 && applications.length > 0 && (
-          <div className="flex items-center justify-center min-h-[calc(100vh-300px)]">
-            <div className="text-center max-w-lg">
-              <div className="text-8xl mb-8">🔍</div>
-              <h2 className="text-4xl font-bold mb-6 text-slate-900">
-                No matching applications
-              </h2>
-              <p className="text-xl mb-10 text-slate-600 leading-relaxed">
-                Try adjusting your filters to see more results.
-              </p>
-              <button
-                onClick={clearFilters}
-                className="btn-primary px-8 py-4 text-lg font-semibold"
-              >
-                Clear all filters
-              </button>
-            </div>
-          </div>
-        )}
+            {/* Duplicates Banner */}
+            {!loading && !error && duplicateClusters.length > 0 && (
+              <div className="bg-amber-50 rounded-xl p-4 mb-6 border border-amber-200 flex flex-wrap items-center gap-4">
+                <p className="flex-1 min-w-0 text-amber-800">
+                  <span className="font-semibold">
+                    {duplicateClusters.length} possible duplicate{duplicateClusters.length === 1 ? '' : 's'}
+                  </span>
+                  {' '}· {duplicateClusters.map(cluster => cluster[0].company).slice(0, 3).join(', ')}
+                </p>
+                <button
+                  onClick={() => setIsReviewingDuplicates(true)}
+                  className="btn-secondary px-4 py-2 text-sm font-medium"
+                >
+                  Review duplicates
+                </button>
+              </div>
+            )}
 
-        {/* View Content */}
-        {!loading && !error && applications.length > 0 && (
-          <>
-            {/* Kanban Board View */}
-            {currentView === 'board' && (
-              <KanbanBoard
-                applications={applications}
-                onApplicationEdit={handleEditApplication}
-                onApplicationDelete={handleDeleteApplication}
-                getResumeName={getResumeName}
+            {/* View Switcher */}
+            {!loading && !error && (
+              <ViewSwitcher
+                currentView={currentView}
+                onViewChange={handleViewChange}
+                applicationCount={applications.length}
+                shownCount={filteredAndSortedApplications.length}
               />
             )}
 
-            {/* List View */}
-            {currentView === 'list' && (
-              <div className="bg-white rounded-xl p-8 border border-slate-200 shadow-sm">
-                <div className="text-center py-20">
-                  <div className="text-6xl mb-4">📋</div>
-                  <h3 className="text-xl font-semibold text-slate-900 mb-2">List View</h3>
-                  <p className="text-slate-600">Detailed table view coming soon</p>
+            {/* Modern Loading State */}
+            {loading && (
+              <div className="flex justify-center items-center py-20">
+                <div className="flex items-center space-x-4">
+                  <div className="w-6 h-6 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+                  <span className="text-lg font-medium text-slate-600">
+                    Loading applications...
+                  </span>
                 </div>
               </div>
             )}
 
-            {/* Map View */}
-            {currentView === 'map' && (
-              <div className="bg-white rounded-xl p-8 border border-slate-200 shadow-sm">
-                <div className="text-center py-20">
-                  <div className="text-6xl mb-4">🗺️</div>
-                  <h3 className="text-xl font-semibold text-slate-900 mb-2">Map View</h3>
-                  <p className="text-slate-600">Geographic visualization coming soon</p>
+            {/* Enhanced Error State */}
+            {error && (
+              <div className="bg-red-50 border-2 border-red-200 rounded-xl p-6 mb-8">
+                <div className="flex items-center">
+                  <div className="text-red-500 text-2xl mr-4">⚠️</div>
+                  <div>
+                    <p className="text-red-700 font-semibold text-lg">{error}</p>
+                    <button 
+                      onClick={() => window.location.reload()} 
+                      className="mt-3 text-red-600 hover:text-red-800 underline font-medium"
+                    >
+                      Try again
+                    </button>
+                  </div>
                 </div>
               </div>
             )}
 
-            {/* Analytics View */}
-            {currentView === 'analytics' && (
-              <div className="bg-white rounded-xl p-8 border border-slate-200 shadow-sm">
-                <div className="text-center py-20">
-                  <div className="text-6xl mb-4">📊</div>
-                  <h3 className="text-xl font-semibold text-slate-900 mb-2">Analytics View</h3>
-                  <p className="text-slate-600">Success metrics and insights coming soon</p>
+            {/* Enhanced Empty State */}
+            {!loading && !error && filteredAndSortedApplications.length === 0 && applications.length === 0 && (
+              <div className="flex items-center justify-center min-h-[calc(100vh-200px)]">
+                <div className="text-center max-w-lg">
+                  <div className="text-8xl mb-8">📝</div>
+                  <h2 className="text-4xl font-bold mb-6 text-slate-900">
+                    No applications yet
+                  </h2>
+                  <p className="text-xl mb-10 text-slate-600 leading-relaxed">
+                    Get started by adding your first job application and begin tracking your career journey!
+                  </p>
+                  <ApplicationForm onApplicationAdded={handleApplicationAdded} />
                 </div>
               </div>
             )}
-          </>
-        )}
-
 
-        {/* Enhanced Stats Summary - Moved up for better visibility */}
-        {!loading && !error && applications.length > 0 && (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6 mb-10">
-            {statusOptions.slice(1).map((status) => {
-              const count = applications.filter(app => app.status === status.value).length;
-              return (
-                <div
-                  key={status.value}
-                  className={`card-hover bg-white rounded-xl p-6 text-center border border-slate-100 shadow-md`}
-                >
-                  <div className="flex items-center justify-center mb-4">
-                    <div className={`w-4 h-4 rounded-full ${status.dotColor} mr-3`}></div>
-                    <span className={`inline-flex px-4 py-2 rounded-full text-sm font-semibold ${status.bgColor} ${status.textColor} status-badge`}>
-                      {status.label}
-                    </span>
-                  </div>
-                  <div className="text-3xl font-bold text-slate-900">
-                    {count}
-                  </div>
-                  <div className="text-sm mt-1 text-slate-500">
-                    applications
-                  </div>
+            {/* Enhanced No Results State */}
+            {!loading && !error && filteredAndSortedApplications.length === 0 && applications.length > 0 && (
+              <div className="flex items-center justify-center min-h-[calc(100vh-300px)]">
+                <div className="text-center max-w-lg">
+                  <div className="text-8xl mb-8">🔍</div>
+                  <h2 className="text-4xl font-bold mb-6 text-slate-900">
+                    No matching applications
+                  </h2>
+                  <p className="text-xl mb-10 text-slate-600 leading-relaxed">
+                    Try adjusting your filters to see more results.
+                  </p>
+                  <button
+                    onClick={clearFilters}
+                    className="btn-primary px-8 py-4 text-lg font-semibold"
+                  >
+                    Clear all filters
+                  </button>
                 </div>
-              );
-            })}
-          </div>
-        )}
+              </div>
+            )}
 
-        {/* SECONDARY SECTIONS - Always visible but applications remain the primary focus */}
-        {!loading && !error && (
-          <>
-            {/* Modern Filter Controls */}
-            <div className="bg-white rounded-xl p-8 mb-10 border border-slate-100 shadow-md">
-              <div className="flex flex-col xl:flex-row gap-6 items-start xl:items-end">
-                <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-6">
-                  {/* Company Filter */}
-                  <div>
-                    <label htmlFor="company-filter" className="block text-sm font-semibold mb-3 text-slate-900">
-                      Search Company
-                    </label>
-                    <input
-                      type="text"
-                      id="company-filter"
-                      value={filters.company}
-                      onChange={(e) => handleFilterChange('company', e.target.value)}
-                      placeholder="Type company name..."
-                      className="input-modern w-full px-4 py-3 text-lg focus-ring"
-                    />
-                  </div>
+            {/* Bulk Actions */}
+            {!loading && !error && (currentView === 'board' || currentView === 'list') && (
+              <BulkActionBar
+                selectedApplications={selectedApplications}
+                shownCount={filteredAndSortedApplications.length}
+                resumes={resumes}
+                hiringManagers={hiringManagers}
+                interviews={interviews}
+                descriptionSnapshots={descriptionSnapshots}
+                offers={offers}
+                onSelectAll={() => setSelectedIds(new Set(filteredAndSortedApplications.map(app => app.id)))}
+                onClearSelection={() => setSelectedIds(new Set())}
+              />
+            )}
 
-                  {/* Status Filter */}
-                  <div>
-                    <label htmlFor="status-filter" className="block text-sm font-semibold mb-3 text-slate-900">
-                      Filter by Status
-                    </label>
-                    <select
-                      id="status-filter"
-                      value={filters.status}
-                      onChange={(e) => handleFilterChange('status', e.target.value)}
-                      className="input-modern w-full px-4 py-3 text-lg focus-ring"
+            {/* View Content */}
+            {!loading && !error && filteredAndSortedApplications.length > 0 && (
+              <>
+                {/* Kanban Board View */}
+                {currentView === 'board' && (
+                  <KanbanBoard
+                    applications={filteredAndSortedApplications}
+                    sortBy={filters.sortBy}
+                    highlightQuery={filters.company}
+                    onApplicationEdit={handleEditApplication}
+                    onApplicationDelete={handleDeleteApplication}
+                    getResumeName={getResumeName}
+                    onPreviewResume={handlePreviewResume}
+                    nextInterviews={nextInterviews}
+                    selectedIds={selectedIds}
+                    onSelectedIdsChange={setSelectedIds}
+                  />
+                )}
+
+                {/* List View */}
+                {currentView === 'list' && (
+                  <ApplicationTable
+                    applications={filteredAndSortedApplications}
+                    resumes={resumes}
+                    hiringManagers={hiringManagers}
+                    onApplicationEdit={handleEditApplication}
+                    onApplicationDelete={handleDeleteApplication}
+                    highlightQuery={filters.company}
+                    selectedIds={selectedIds}
+                    onSelectedIdsChange={setSelectedIds}
+                  />
+                )}
+
+                {/* Map View */}
+                {currentView === 'map' && (
+                  <ApplicationMap
+                    applications={filteredAndSortedApplications}
+                    onSelectApplications={handleSelectApplications}
+                  />
+                )}
+
+                {/* Analytics View */}
+                {currentView === 'analytics' && (
+                  <PipelineAnalytics
+                    applications={filteredAndSortedApplications}
+                    scopeLabel={hasActiveFilters(filters) ? 'filtered' : undefined}
+                  />
+                )}
+              </>
+            )}
+
+
+            {/* Enhanced Stats Summary - Moved up for better visibility */}
+            {!loading && !error && applications.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6 mb-10">
+                {statusOptions.map((status) => {
+                  const count = applications.filter(app => app.status === status.value).length;
+                  return (
+                    <div
+                      key={status.value}
+                      className={`card-hover bg-white rounded-xl p-6 text-center border border-slate-100 shadow-md`}
                     >
-                      {statusOptions.map((option) => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+                      <div className="flex items-center justify-center mb-4">
+                        <div className={`w-4 h-4 rounded-full ${status.dotColor} mr-3`}></div>
+                        <span className={`inline-flex px-4 py-2 rounded-full text-sm font-semibold ${status.bgColor} ${status.textColor} status-badge`}>
+                          {status.label}
+                        </span>
+                      </div>
+                      <div className="text-3xl font-bold text-slate-900">
+                        {count}
+                      </div>
+                      <div className="text-sm mt-1 text-slate-500">
+                        applications
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
 
-                  {/* Sort */}
-                  <div>
-                    <label htmlFor="sort-filter" className="block text-sm font-semibold mb-3 text-slate-900">
-                      Sort by
+            {/* SECONDARY SECTIONS - Always visible but applications remain the primary focus */}
+            {!loading && !error && (
+              <>
+                {/* Modern Filter Controls */}
+                <div className="bg-white rounded-xl p-8 mb-10 border border-slate-100 shadow-md">
+                  <div className="flex flex-col xl:flex-row gap-6 items-start xl:items-end">
+                    <div className="flex-1 grid grid-cols-1 md:grid-cols-3 2xl:grid-cols-6 gap-6">
+                      {/* Company Filter */}
+                      <div>
+                        <label htmlFor="company-filter" className="block text-sm font-semibold mb-3 text-slate-900">
+                          Search Company
+                        </label>
+                        <input
+                          type="text"
+                          id="company-filter"
+                          value={filters.company}
+                          onChange={(e) => handleFilterChange('company', e.target.value)}
+                          placeholder="Type company name..."
+                          className="input-modern w-full px-4 py-3 text-lg focus-ring"
+                        />
+                      </div>
+
+                      {/* Status Filter */}
+                      <div>
+                        <label htmlFor="status-filter" className="block text-sm font-semibold mb-3 text-slate-900">
+                          Filter by Status
+                        </label>
+                        <select
+                          id="status-filter"
+                          value={filters.status}
+                          onChange={(e) => handleFilterChange('status', e.target.value)}
+                          className="input-modern w-full px-4 py-3 text-lg focus-ring"
+                        >
+                          {statusFilterOptions.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {/* Time In Stage Filter */}
+                      <div>
+                        <label htmlFor="stale-filter" className="block text-sm font-semibold mb-3 text-slate-900">
+                          Time in Stage
+                        </label>
+                        <select
+                          id="stale-filter"
+                          value={filters.staleDays ? String(filters.staleDays) : ''}
+                          onChange={(e) => handleStaleDaysChange(e.target.value)}
+                          className="input-modern w-full px-4 py-3 text-lg focus-ring"
+                        >
+                          {staleFilterOptions.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {/* Deadline Filter */}
+                      <div>
+                        <label htmlFor="deadline-filter" className="block text-sm font-semibold mb-3 text-slate-900">
+                          Deadline
+                        </label>
+                        <select
+                          id="deadline-filter"
+                          value={filters.deadline}
+                          onChange={(e) => handleDeadlineFilterChange(e.target.value as DeadlineFilter)}
+                          className="input-modern w-full px-4 py-3 text-lg focus-ring"
+                        >
+                          {DEADLINE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {/* Tag Filter */}
+                      <div>
+                        <label htmlFor="tag-filter" className="block text-sm font-semibold mb-3 text-slate-900">
+                          Filter by Tag
+                        </label>
+                        <select
+                          id="tag-filter"
+                          value={filters.tag}
+                          onChange={(e) => handleTagFilterChange(e.target.value)}
+                          className="input-modern w-full px-4 py-3 text-lg focus-ring"
+                        >
+                          <option value="">All Tags</option>
+                          {tagFilterOptions.map((tag) => (
+                            <option key={tag} value={tag}>{tag}</option>
+                          ))}
+                          {/* Keep a tag from a hand-edited URL selectable */}
+                          {filters.tag && !tagFilterOptions.some(tag => tag.toLowerCase() === filters.tag.toLowerCase()) && (
+                            <option value={filters.tag}>{filters.tag}</option>
+                          )}
+                        </select>
+                      </div>
+
+                      {/* Sort */}
+                      <div>
+                        <label htmlFor="sort-filter" className="block text-sm font-semibold mb-3 text-slate-900">
+                          Sort by
+                        </label>
+                        <select
+                          id="sort-filter"
+                          value={filters.sortBy}
+                          onChange={(e) => handleFilterChange('sortBy', e.target.value)}
+                          className="input-modern w-full px-4 py-3 text-lg focus-ring"
+                        >
+                          {SORT_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    {/* Archived Toggle */}
+                    <label className="flex items-center gap-2 py-3 text-sm font-medium text-slate-700 whitespace-nowrap cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={filters.showArchived}
+                        onChange={(e) => handleShowArchivedChange(e.target.checked)}
+                        className="w-4 h-4 accent-blue-600"
+                      />
+                      Show archived ({archivedCount})
                     </label>
-                    <select
-                      id="sort-filter"
-                      value={filters.sortBy}
-                      onChange={(e) => handleFilterChange('sortBy', e.target.value)}
-                      className="input-modern w-full px-4 py-3 text-lg focus-ring"
+
+                    {/* Clear Filters Button */}
+                    <button
+                      onClick={clearFilters}
+                      className="btn-secondary px-6 py-3 text-base font-medium whitespace-nowrap"
                     >
-                      {sortOptions.map((option) => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
+                      Clear Filters
+                    </button>
                   </div>
-                </div>
-
-                {/* Clear Filters Button */}
-                <button
-                  onClick={clearFilters}
-                  className="btn-secondary px-6 py-3 text-base font-medium whitespace-nowrap"
-                >
-                  Clear Filters
-                </button>
-              </div>
 
-              {/* Active Filters Display */}
-              {(filters.company || filters.status) && (
-                <div className="mt-6 flex flex-wrap gap-3">
-                  <span className="text-sm font-medium text-slate-600">
-                    Active filters:
-                  </span>
-                  {filters.company && (
-                    <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
-                      Company: {filters.company}
-                      <button
-                        onClick={() => handleFilterChange('company', '')}
-                        className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
-                      >
-                        ×
-                      </button>
-                    </span>
+                  {/* Custom Field Filters */}
+                  {customFields.length > 0 && (
+                    <div className="mt-6 pt-6 border-t border-slate-100 grid grid-cols-1 md:grid-cols-3 2xl:grid-cols-5 gap-4">
+                      {customFields.map((field) => {
+                        const id = `field-filter-${field.id}`;
+                        const value = filters.fieldFilters[field.id] || '';
+                        return (
+                          <div key={field.id}>
+                            <label htmlFor={id} className="block text-sm font-semibold mb-2 text-slate-900">
+                              {field.name}
+                            </label>
+                            {field.type === 'select' || field.type === 'checkbox' ? (
+                              <select
+                                id={id}
+                                value={value}
+                                onChange={(e) => handleFieldFilterChange(field, e.target.value)}
+                                className="input-modern w-full px-3 py-2 text-base focus-ring"
+                              >
+                                <option value="">Any</option>
+                                {field.type === 'checkbox' ? (
+                                  <>
+                                    <option value="yes">Yes</option>
+                                    <option value="no">No</option>
+                                  </>
+                                ) : (field.options || []).map(option => (
+                                  <option key={option} value={option}>{option}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <input
+                                type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                                id={id}
+                                value={value}
+                                onChange={(e) => handleFieldFilterChange(field, e.target.value)}
+                                placeholder={field.type === 'number' ? 'At least...' : field.type === 'text' ? 'Contains...' : undefined}
+                                title={field.type === 'date' ? 'On or after' : undefined}
+                                className="input-modern w-full px-3 py-2 text-base focus-ring"
+                              />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
                   )}
-                  {filters.status && (
-                    <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
-                      Status: {getStatusInfo(filters.status).label}
-                      <button
-                        onClick={() => handleFilterChange('status', '')}
-                        className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
-                      >
-                        ×
-                      </button>
-                    </span>
+
+                  {/* Active Filters Display */}
+                  {hasActiveFilters(filters) && (
+                    <div className="mt-6 flex flex-wrap gap-3">
+                      <span className="text-sm font-medium text-slate-600">
+                        Active filters:
+                      </span>
+                      {filters.company && (
+                        <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          Company: {filters.company}
+                          <button
+                            onClick={() => handleFilterChange('company', '')}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      )}
+                      {filters.status && (
+                        <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          Status: {getStatusInfo(filters.status).label}
+                          <button
+                            onClick={() => handleFilterChange('status', '')}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      )}
+                      {filters.staleDays > 0 && (
+                        <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          In stage over {filters.staleDays} days
+                          <button
+                            onClick={() => handleStaleDaysChange('')}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      )}
+                      {filters.deadline && (
+                        <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          {DEADLINE_OPTIONS.find(option => option.value === filters.deadline)?.label}
+                          <button
+                            onClick={() => handleDeadlineFilterChange('')}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      )}
+                      {filters.tag && (
+                        <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          Tag: {filters.tag}
+                          <button
+                            onClick={() => handleTagFilterChange('')}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      )}
+                      {customFields.filter(field => filters.fieldFilters[field.id]).map(field => (
+                        <span key={field.id} className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          {describeFieldFilter(field, filters.fieldFilters[field.id])}
+                          <button
+                            onClick={() => handleFieldFilterChange(field, '')}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                      {filters.applicationIds.length > 0 && (
+                        <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          Map: {filters.selectionLabel} ({filters.applicationIds.length})
+                          <button
+                            onClick={clearSelection}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-bold text-lg leading-none"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      )}
+                    </div>
                   )}
                 </div>
-              )}
-            </div>
 
-          </>
-        )}
+              </>
+            )}
+          </div>
+        </div>
       </TabContent>
 
       {/* Resumes Tab */}
@@ -780,7 +1146,7 @@ export default function Dashboard() {
             <ResumeUpload />
           </div>
           
-          <ResumesDisplay applications={applications} />
+          <ResumesDisplay applications={applications} versions={resumeVersions} />
         </div>
 
       </TabContent>
@@ -865,9 +1231,7 @@ export default function Dashboard() {
                     {hiringManagers.filter(m => {
                       if (!m.nextFollowUpDate) return false;
                       const today = new Date();
-                      const followUpDate = m.nextFollowUpDate.toDate ? 
-                        m.nextFollowUpDate.toDate() : 
-                        new Date(m.nextFollowUpDate);
+                      const followUpDate = m.nextFollowUpDate.toDate();
                       return followUpDate <= today;
                     }).length}
                   </p>
@@ -927,6 +1291,15 @@ export default function Dashboard() {
         )}
       </TabContent>
 
+      {/* Offers Tab */}
+      <TabContent activeTab={activeTab} tabId="offers">
+        <OfferComparison
+          offers={offers}
+          applications={applications}
+          onApplicationOpen={handleEditApplication}
+        />
+      </TabContent>
+
       {/* Analytics Tab */}
       <TabContent activeTab={activeTab} tabId="analytics">
         {/* Advanced Analytics Dashboard */}
@@ -1005,13 +1378,25 @@ export default function Dashboard() {
               </h3>
             </div>
             <div className="text-center py-8">
-              <div className="text-slate-400 mb-3">
-                <svg className="w-12 h-12 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </div>
-              <p className="text-sm font-medium text-slate-600">Coming Soon</p>
-              <p className="text-xs text-slate-500 mt-1">Track average response times</p>
+              {averageTimeToResponse > 0 ? (
+                <>
+                  <p className="text-4xl font-bold text-orange-600">
+                    {averageTimeToResponse.toFixed(1)}
+                  </p>
+                  <p className="text-sm font-medium text-slate-600 mt-1">days on average</p>
+                  <p className="text-xs text-slate-500 mt-1">From Applied to the first response (screen, interview, offer or rejection)</p>
+                </>
+              ) : (
+                <>
+                  <div className="text-slate-400 mb-3">
+                    <svg className="w-12 h-12 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                  </div>
+                  <p className="text-sm font-medium text-slate-600">No responses yet</p>
+                  <p className="text-xs text-slate-500 mt-1">Move applications past Applied to track response times</p>
+                </>
+              )}
             </div>
           </div>
 
@@ -1057,6 +1442,12 @@ export default function Dashboard() {
 
           {/* Settings Sections */}
           <div className="space-y-6">
+            {/* Pipeline Stages */}
+            <PipelineSettings applications={applications} />
+
+            {/* Tags & Custom Fields */}
+            <FieldSettings applications={applications} />
+
             {/* Profile Settings */}
             <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
               <div className="flex items-center gap-3 mb-4">
@@ -1218,6 +1609,21 @@ export default function Dashboard() {
                   </div>
                 </div>
 
+                {/* Application Deadline */}
+                <div>
+                  <label htmlFor="edit-deadline" className="block text-sm font-semibold mb-3 text-slate-900">
+                    Application Deadline <span className="text-sm font-normal text-slate-500">(Optional)</span>
+                  </label>
+                  <input
+                    type="date"
+                    id="edit-deadline"
+                    name="deadline"
+                    value={editFormData.deadline}
+                    onChange={handleEditInputChange}
+                    className="input-modern w-full md:w-1/2 px-4 py-3 text-lg focus-ring"
+                  />
+                </div>
+
                 {/* Enhanced Status */}
                 <div>
                   <label htmlFor="edit-status" className="block text-sm font-semibold mb-3 text-slate-900">
@@ -1230,7 +1636,7 @@ export default function Dashboard() {
                     onChange={handleEditInputChange}
                     className="input-modern w-full px-4 py-3 text-lg focus-ring"
                   >
-                    {statusOptions.slice(1).map((option) => (
+                    {statusOptions.map((option) => (
                       <option key={option.value} value={option.value}>
                         {option.label}
                       </option>
@@ -1244,7 +1650,7 @@ export default function Dashboard() {
                     </span>
                     <div className="mt-2">
                       {(() => {
-                        const selectedStatus = statusOptions.find(opt => opt.value === editFormData.status);
+                        const selectedStatus = getStatusOption(editFormData.status);
                         return selectedStatus ? (
                           <span className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-semibold ${selectedStatus.bgColor} ${selectedStatus.textColor} status-badge`}>
                             <div className={`w-2 h-2 rounded-full ${selectedStatus.dotColor} mr-2`}></div>
@@ -1285,18 +1691,65 @@ export default function Dashboard() {
                       <div className="mt-2">
                         {(() => {
                           const selectedResume = resumes.find(resume => resume.id === editFormData.resumeId);
-                          return selectedResume ? (
-                            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
-                              <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 24 24">
-                                <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
-                              </svg>
-                              {selectedResume.name}
+                          if (!selectedResume) return null;
+                          // The version this application was sent with, or the current one a new choice pins
+                          const isSentResume = editFormData.resumeId === editingApplication.resumeId;
+                          const sentVersion = isSentResume ? getApplicationVersion(editingApplication, resumeVersions) : null;
+                          const currentNumber = selectedResume.versionCount || 1;
+                          const versionNumber = isSentResume ? sentVersion?.version ?? 1 : currentNumber;
+                          return (
+                            <span className="inline-flex flex-wrap items-center gap-3">
+                              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                                <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 24 24">
+                                  <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
+                                </svg>
+                                {selectedResume.name} · {formatVersionLabel(versionNumber)}
+                              </span>
+                              {versionNumber < currentNumber && (
+                                <span className="text-xs text-slate-500">
+                                  Sent before the latest update ({formatVersionLabel(currentNumber)})
+                                </span>
+                              )}
+                              <a
+                                href={(sentVersion || selectedResume).downloadURL}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs font-medium text-blue-700 hover:text-blue-800"
+                              >
+                                Open {formatVersionLabel(versionNumber)}
+                              </a>
                             </span>
-                          ) : null;
+                          );
                         })()}
                       </div>
                     </div>
                   )}
+
+                  <ResumeMatch
+                    resumes={resumes}
+                    description={editingApplication.description || ''}
+                    selectedResumeId={editFormData.resumeId}
+                    onSelectResume={(resumeId) => setEditFormData({ ...editFormData, resumeId })}
+                  />
+                </div>
+
+                <CustomFieldInputs
+                  idPrefix="edit"
+                  tags={editFormData.tags}
+                  customFields={editFormData.customFields}
+                  onTagsChange={(tags) => setEditFormData({ ...editFormData, tags })}
+                  onCustomFieldsChange={(customFields) => setEditFormData({ ...editFormData, customFields })}
+                />
+
+                {/* Job Description */}
+                <div>
+                  <h3 className="block text-sm font-semibold mb-4 text-slate-900">
+                    Job Description
+                  </h3>
+                  <JobDescriptionPanel
+                    application={editingApplication}
+                    snapshots={getApplicationSnapshots(descriptionSnapshots, editingApplication.id)}
+                  />
                 </div>
 
                 {/* Enhanced Notes */}
@@ -1318,6 +1771,39 @@ export default function Dashboard() {
                   </div>
                 </div>
 
+                {/* Offer - once the application reaches an offer stage */}
+                {(getStatusOption(editFormData.status).kind === 'positive' || offers.some(offer => offer.applicationId === editingApplication.id)) && (
+                  <div>
+                    <h3 className="block text-sm font-semibold mb-4 text-slate-900">
+                      Offer
+                    </h3>
+                    <OfferPanel
+                      application={editingApplication}
+                      offer={offers.find(offer => offer.applicationId === editingApplication.id) || null}
+                    />
+                  </div>
+                )}
+
+                {/* Interviews */}
+                <div>
+                  <h3 className="block text-sm font-semibold mb-4 text-slate-900">
+                    Interviews
+                  </h3>
+                  <InterviewsPanel
+                    application={editingApplication}
+                    interviews={interviews.filter(interview => interview.applicationId === editingApplication.id)}
+                    hiringManagers={hiringManagers}
+                  />
+                </div>
+
+                {/* Status History */}
+                <div>
+                  <h3 className="block text-sm font-semibold mb-4 text-slate-900">
+                    Status History
+                  </h3>
+                  <StatusTimeline application={editingApplication} />
+                </div>
+
                 {/* Enhanced Form Footer */}
                 <div className="flex justify-end gap-4 pt-6 border-t border-slate-200">
                   <button
@@ -1348,6 +1834,20 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* Duplicate Review Modal */}
+        {isReviewingDuplicates && (
+          <DuplicateReview
+            clusters={duplicateClusters}
+            interviews={interviews}
+            descriptionSnapshots={descriptionSnapshots}
+            offers={offers}
+            reminders={followUpReminders}
+            resumes={resumes}
+            hiringManagers={hiringManagers}
+            onClose={() => setIsReviewingDuplicates(false)}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         {deletingApplication && (
           <div 
@@ -1383,7 +1883,7 @@ export default function Dashboard() {
 
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
                   <p className="text-sm text-red-700">
-                    <strong>Warning:</strong> This action cannot be undone. The application and all its details will be permanently deleted.
+                    <strong>Warning:</strong> This action cannot be undone. The application and all its details, including its interviews, description history and offers, will be permanently deleted.
                   </p>
                 </div>
 
@@ -1414,6 +1914,15 @@ export default function Dashboard() {
             </div>
           </div>
         )}
+
+        {/* Resume Preview */}
+        {resumePreview && (
+          <PdfViewerModal
+            file={resumePreview.file}
+            title={resumePreview.title}
+            onClose={() => setResumePreview(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,17 @@
+// scripts/copyPdfWorker.mjs
+// Copies the pdf.js worker from the installed pdfjs-dist into public/, where
+// lib/pdf.ts loads it from - Next can't bundle the worker's ESM build. Runs
+// after every install, so the copy always matches the installed version.
+// Plain JavaScript because it runs before tsx or any other dev dependency
+// can be relied on.
+import { copyFileSync, mkdirSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+
+const require = createRequire(import.meta.url);
+const source = join(dirname(require.resolve('pdfjs-dist/package.json')), 'build', 'pdf.worker.min.mjs');
+const target = join('public', 'pdf.worker.min.mjs');
+
+mkdirSync(dirname(target), { recursive: true });
+copyFileSync(source, target);
+console.log(`Copied the pdf.js worker to ${target}`);
@@ -0,0 +1,78 @@
+// scripts/migrate.ts
+// Applies pending Firestore schema migrations with the Admin SDK.
+//
+//   npm run migrate -- --dry-run            report what would change
+//   npm run migrate -- --owner <uid>        apply, assigning ownerless docs to <uid>
+//   npm run migrate -- --only 002-backfill-updated-at
+//
+// Credentials come from GOOGLE_APPLICATION_CREDENTIALS (a service account key),
+// or from FIRESTORE_EMULATOR_HOST (and FIREBASE_STORAGE_EMULATOR_HOST) when
+// running against the emulators.
+import { applicationDefault, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { migrations } from './migrations';
+import { runMigrations } from './migrations/runner';
+import { MigrationOptions } from './migrations/types';
+
+interface CliArgs extends MigrationOptions {
+  only?: string;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      case '--owner':
+        args.ownerId = argv[++i];
+        break;
+      case '--only':
+        args.only = argv[++i];
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  return args;
+}
+
+async function main() {
+  const { only, ...options } = parseArgs(process.argv.slice(2));
+
+  const selected = only ? migrations.filter(migration => migration.id === only) : migrations;
+  if (selected.length === 0) {
+    throw new Error(`No migration with id "${only}"`);
+  }
+
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const storageBucket = process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+  const app = process.env.FIRESTORE_EMULATOR_HOST
+    ? initializeApp({ projectId, storageBucket })
+    : initializeApp({ credential: applicationDefault(), projectId, storageBucket });
+  const db = getFirestore(app);
+  const bucket = getStorage(app).bucket();
+
+  console.log(`Running ${selected.length} migration(s)${options.dryRun ? ' (dry run - nothing will be written)' : ''}`);
+
+  const reports = await runMigrations(selected, db, bucket, options);
+
+  reports.forEach((report) => {
+    const details = report.reason
+      ? report.reason
+      : `${report.documentsUpdated}/${report.documentsScanned} documents ${options.dryRun ? 'would change' : 'updated'}`;
+    console.log(`  ${report.id}: ${report.status} - ${details}`);
+    Object.entries(report.updatesByCollection).forEach(([collectionName, count]) => {
+      console.log(`      ${collectionName}: ${count}`);
+    });
+  });
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,18 @@
+// scripts/migrations/001-normalize-application-statuses.ts
+import { isLegacyStatus, normalizeStatus } from '../../lib/domain';
+import { Migration } from './types';
+
+// Rewrites legacy values such as 'to-apply' and 'interviewing' to the default
+// pipeline so the security rules accept later updates to these documents.
+// Any other string is a stage id from a user's own pipeline and is left alone.
+const migration: Migration = {
+  id: '001-normalize-application-statuses',
+  description: "Map legacy application statuses ('to-apply', 'interviewing', missing values) onto the default pipeline",
+  collections: ['applications'],
+  transform(data) {
+    if (typeof data.status === 'string' && data.status && !isLegacyStatus(data.status)) return null;
+    return { status: normalizeStatus(data.status) };
+  }
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+// scripts/migrations/002-backfill-updated-at.ts
+import { Timestamp } from 'firebase-admin/firestore';
+import { Migration } from './types';
+
+// Resumes were stamped with uploadDate instead of createdAt, so fall back to it
+const CREATION_FIELDS = ['createdAt', 'uploadDate'];
+
+const migration: Migration = {
+  id: '002-backfill-updated-at',
+  description: 'Backfill missing updatedAt from createdAt (or uploadDate for resumes)',
+  collections: ['applications', 'resumes', 'hiringManagers', 'followUpReminders'],
+  transform(data) {
+    if (data.updatedAt instanceof Timestamp) return null;
+
+    const createdField = CREATION_FIELDS.find(field => data[field] instanceof Timestamp);
+    return { updatedAt: createdField ? data[createdField] : Timestamp.now() };
+  }
+};
+
+export default migration;
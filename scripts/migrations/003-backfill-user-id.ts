@@ -0,0 +1,19 @@
+// scripts/migrations/003-backfill-user-id.ts
+import { Migration } from './types';
+
+// Documents created before sign-in existed have no owner and are invisible to
+// every user. They all belonged to a single person, passed in with --owner.
+const migration: Migration = {
+  id: '003-backfill-user-id',
+  description: 'Assign documents without a userId to the account given by --owner',
+  collections: ['applications', 'resumes', 'hiringManagers', 'followUpReminders'],
+  skipReason({ options }) {
+    return options.ownerId ? null : 'pass --owner <uid> to choose the account that owns legacy documents';
+  },
+  transform(data, { options }) {
+    if (typeof data.userId === 'string' && data.userId.length > 0) return null;
+    return { userId: options.ownerId };
+  }
+};
+
+export default migration;
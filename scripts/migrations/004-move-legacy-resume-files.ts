@@ -0,0 +1,36 @@
+// scripts/migrations/004-move-legacy-resume-files.ts
+import { getDownloadURL } from 'firebase-admin/storage';
+import { Migration } from './types';
+
+// Resumes uploaded before per-user folders sit at resumes/{fileName}, which the
+// storage rules no longer open to anyone, so their owners can neither read nor
+// delete them. Each file moves to resumes/{userId}/{fileName} and the document
+// (a resume, or the version 1 recorded from it) gets its storagePath and new
+// download URL. The file a resume and its version 1 share moves once.
+const migration: Migration = {
+  id: '004-move-legacy-resume-files',
+  description: 'Move resume files from the flat resumes/ layout into their owner\'s folder and record storagePath',
+  collections: ['resumes'],
+  collectionGroups: ['versions'],
+  dependsOn: ['003-backfill-user-id'],
+  transform(data) {
+    if (data.storagePath || typeof data.fileName !== 'string' || typeof data.userId !== 'string') return null;
+    return { storagePath: `resumes/${data.userId}/${data.fileName}` };
+  },
+  async beforeUpdate(data, patch, { bucket }) {
+    const target = bucket.file(patch.storagePath as string);
+    const [moved] = await target.exists();
+    if (!moved) {
+      const legacy = bucket.file(`resumes/${data.fileName}`);
+      const [exists] = await legacy.exists();
+      if (!exists) {
+        console.warn(`  resumes/${data.fileName} is missing; recording the new path anyway`);
+        return {};
+      }
+      await legacy.move(target);
+    }
+    return { downloadURL: await getDownloadURL(target) };
+  }
+};
+
+export default migration;
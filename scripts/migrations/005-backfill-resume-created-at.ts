@@ -0,0 +1,19 @@
+// scripts/migrations/005-backfill-resume-created-at.ts
+import { Timestamp } from 'firebase-admin/firestore';
+import { Migration } from './types';
+
+// Resumes were only stamped with uploadDate, while every other collection
+// records createdAt. Newer resumes get both; this gives older ones createdAt
+// too. uploadDate stays: the resume list is ordered by it, and a query
+// ordered by createdAt would hide any resume this hasn't reached yet.
+const migration: Migration = {
+  id: '005-backfill-resume-created-at',
+  description: 'Backfill missing resume createdAt from uploadDate',
+  collections: ['resumes'],
+  transform(data) {
+    if (data.createdAt instanceof Timestamp) return null;
+    return { createdAt: data.uploadDate instanceof Timestamp ? data.uploadDate : Timestamp.now() };
+  }
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+// scripts/migrations/index.ts
+// Every migration, in the order it must run. Never renumber or remove an entry
+// once it has been applied anywhere - add a new migration instead.
+import normalizeApplicationStatuses from './001-normalize-application-statuses';
+import backfillUpdatedAt from './002-backfill-updated-at';
+import backfillUserId from './003-backfill-user-id';
+import moveLegacyResumeFiles from './004-move-legacy-resume-files';
+import backfillResumeCreatedAt from './005-backfill-resume-created-at';
+import { Migration } from './types';
+
+export const migrations: Migration[] = [
+  normalizeApplicationStatuses,
+  backfillUpdatedAt,
+  backfillUserId,
+  moveLegacyResumeFiles,
+  backfillResumeCreatedAt
+];
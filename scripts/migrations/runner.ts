@@ -0,0 +1,153 @@
+// scripts/migrations/runner.ts
+// Applies pending migrations in id order and records each one in _migrations
+import { DocumentSnapshot, FieldPath, FieldValue, Firestore, Query } from 'firebase-admin/firestore';
+import { Bucket, Migration, MigrationContext, MigrationOptions, MigrationReport } from './types';
+
+export const MIGRATIONS_COLLECTION = '_migrations';
+
+// Firestore caps a batched write at 500 operations
+const BATCH_SIZE = 500;
+
+async function isApplied(db: Firestore, migrationId: string): Promise<boolean> {
+  const snapshot = await db.collection(MIGRATIONS_COLLECTION).doc(migrationId).get();
+  return snapshot.exists;
+}
+
+// Page through a collection (or collection group) by document id, updating
+// each page in one batch
+async function migrateCollection(
+  source: Query,
+  migration: Migration,
+  context: MigrationContext
+): Promise<{ scanned: number; updated: number }> {
+  const { db, options } = context;
+  let scanned = 0;
+  let updated = 0;
+  let lastDoc: DocumentSnapshot | null = null;
+
+  while (true) {
+    let page = source.orderBy(FieldPath.documentId()).limit(BATCH_SIZE);
+    if (lastDoc) {
+      page = page.startAfter(lastDoc);
+    }
+
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let batchUpdates = 0;
+
+    for (const docSnapshot of snapshot.docs) {
+      scanned++;
+      const data = docSnapshot.data();
+      const patch = migration.transform(data, context);
+      if (!patch) continue;
+
+      updated++;
+      batchUpdates++;
+      if (!options.dryRun) {
+        const extra = migration.beforeUpdate ? await migration.beforeUpdate(data, patch, context) : {};
+        batch.update(docSnapshot.ref, { ...patch, ...extra });
+      }
+    }
+
+    if (!options.dryRun && batchUpdates > 0) {
+      await batch.commit();
+    }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.size < BATCH_SIZE) break;
+  }
+
+  return { scanned, updated };
+}
+
+export async function runMigration(
+  migration: Migration,
+  db: Firestore,
+  bucket: Bucket,
+  options: MigrationOptions
+): Promise<MigrationReport> {
+  const startedAt = Date.now();
+  const context: MigrationContext = { db, bucket, options };
+  const report: MigrationReport = {
+    id: migration.id,
+    status: options.dryRun ? 'dry-run' : 'applied',
+    documentsScanned: 0,
+    documentsUpdated: 0,
+    updatesByCollection: {},
+    durationMs: 0
+  };
+
+  if (await isApplied(db, migration.id)) {
+    return { ...report, status: 'already-applied' };
+  }
+
+  const skipReason = migration.skipReason?.(context);
+  if (skipReason) {
+    return { ...report, status: 'skipped', reason: skipReason };
+  }
+
+  const sources: [string, Query][] = [
+    ...migration.collections.map((name): [string, Query] => [name, db.collection(name)]),
+    ...(migration.collectionGroups || []).map((name): [string, Query] => [name, db.collectionGroup(name)])
+  ];
+  for (const [collectionName, source] of sources) {
+    const { scanned, updated } = await migrateCollection(source, migration, context);
+    report.documentsScanned += scanned;
+    report.documentsUpdated += updated;
+    report.updatesByCollection[collectionName] = updated;
+  }
+
+  report.durationMs = Date.now() - startedAt;
+
+  if (!options.dryRun) {
+    await db.collection(MIGRATIONS_COLLECTION).doc(migration.id).set({
+      id: migration.id,
+      description: migration.description,
+      appliedAt: FieldValue.serverTimestamp(),
+      documentsScanned: report.documentsScanned,
+      documentsUpdated: report.documentsUpdated,
+      updatesByCollection: report.updatesByCollection,
+      durationMs: report.durationMs
+    });
+  }
+
+  return report;
+}
+
+export async function runMigrations(
+  migrations: Migration[],
+  db: Firestore,
+  bucket: Bucket,
+  options: MigrationOptions
+): Promise<MigrationReport[]> {
+  const reports: MigrationReport[] = [];
+  const ordered = [...migrations].sort((a, b) => a.id.localeCompare(b.id));
+  // Done in this run; a dry run counts so later migrations are reported too
+  const completed = new Set<string>();
+
+  // Run sequentially - later migrations may depend on earlier ones
+  for (const migration of ordered) {
+    const waitingFor: string[] = [];
+    for (const dependency of migration.dependsOn || []) {
+      if (!completed.has(dependency) && !(await isApplied(db, dependency))) waitingFor.push(dependency);
+    }
+
+    const report = waitingFor.length > 0
+      ? {
+          id: migration.id,
+          status: 'skipped' as const,
+          reason: `waiting for ${waitingFor.join(', ')}`,
+          documentsScanned: 0,
+          documentsUpdated: 0,
+          updatesByCollection: {},
+          durationMs: 0
+        }
+      : await runMigration(migration, db, bucket, options);
+    if (report.status !== 'skipped') completed.add(migration.id);
+    reports.push(report);
+  }
+
+  return reports;
+}
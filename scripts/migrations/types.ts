@@ -0,0 +1,48 @@
+// scripts/migrations/types.ts
+import type { DocumentData, Firestore } from 'firebase-admin/firestore';
+import type { Storage } from 'firebase-admin/storage';
+
+export type Bucket = ReturnType<Storage['bucket']>;
+
+export interface MigrationOptions {
+  dryRun: boolean;
+  // uid that legacy documents without an owner are assigned to
+  ownerId?: string;
+}
+
+export interface MigrationContext {
+  db: Firestore;
+  bucket: Bucket;
+  options: MigrationOptions;
+}
+
+export interface Migration {
+  // Sortable, never reused - also the document id in the _migrations collection
+  id: string;
+  description: string;
+  collections: string[];
+  // Subcollections migrated under every parent, e.g. 'versions' for resumes/{id}/versions
+  collectionGroups?: string[];
+  // Migrations that must be applied first; until they are this one stays pending
+  dependsOn?: string[];
+  // Return a reason to skip when required options are missing; the migration
+  // stays pending and runs on a later invocation
+  skipReason?: (context: MigrationContext) => string | null;
+  // Return the fields to update, or null when the document is already migrated.
+  // Must be idempotent: running it on its own output has to return null.
+  transform: (data: DocumentData, context: MigrationContext) => Record<string, unknown> | null;
+  // Work outside Firestore that has to happen before a document's update is
+  // written, such as moving a Storage file. Never called in a dry run. Returns
+  // any extra fields to write along with the transform's.
+  beforeUpdate?: (data: DocumentData, patch: Record<string, unknown>, context: MigrationContext) => Promise<Record<string, unknown>>;
+}
+
+export interface MigrationReport {
+  id: string;
+  status: 'applied' | 'already-applied' | 'skipped' | 'dry-run';
+  reason?: string;
+  documentsScanned: number;
+  documentsUpdated: number;
+  updatesByCollection: Record<string, number>;
+  durationMs: number;
+}
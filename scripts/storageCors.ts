@@ -0,0 +1,51 @@
+// scripts/storageCors.ts
+// Writes storage.cors.json, allowing the app's own origins to download files
+// from the Storage bucket. The origins are the REPLIT_DOMAINS that
+// next.config.ts serves, plus any passed with --origin.
+//
+//   npm run cors
+//   npm run cors -- --origin http://localhost:3000
+//
+// Then apply it with `gsutil cors set storage.cors.json gs://<your-bucket>`.
+import { writeFileSync } from 'fs';
+
+const OUTPUT_FILE = 'storage.cors.json';
+
+function parseOrigins(argv: string[]): string[] {
+  const origins: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] !== '--origin' || !argv[i + 1]) {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+    origins.push(argv[++i]);
+  }
+
+  return origins;
+}
+
+function main() {
+  const domains = (process.env.REPLIT_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim())
+    .filter(Boolean);
+  const origins = Array.from(new Set([
+    ...domains.map(domain => `https://${domain}`),
+    ...parseOrigins(process.argv.slice(2))
+  ]));
+
+  if (origins.length === 0) {
+    throw new Error('No origins: set REPLIT_DOMAINS or pass --origin <url>');
+  }
+
+  const config = [{ origin: origins, method: ['GET'], maxAgeSeconds: 3600 }];
+  writeFileSync(OUTPUT_FILE, `${JSON.stringify(config, null, 2)}\n`);
+  console.log(`Wrote ${OUTPUT_FILE} for ${origins.join(', ')}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Writing the CORS config failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,725 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createTestEnvironment } from './testEnvironment';
+
+let testEnv: RulesTestEnvironment;
+
+const ALICE = 'alice';
+const BOB = 'bob';
+
+const application = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  jobTitle: 'Frontend Developer',
+  company: 'Google',
+  location: 'Remote',
+  jobLink: 'https://careers.google.com/jobs/123',
+  status: 'applied',
+  notes: '',
+  resumeId: null,
+  hiringManagerId: '',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const resume = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  name: 'SWE v2',
+  fileName: '1757000000000_resume.pdf',
+  storagePath: `resumes/${ALICE}/1757000000000_resume.pdf`,
+  originalFileName: 'resume.pdf',
+  downloadURL: 'https://firebasestorage.googleapis.com/v0/b/demo/o/resume.pdf',
+  fileSize: 120000,
+  uploadDate: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const resumeVersion = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  resumeId: 'resume-1',
+  version: 2,
+  fileName: '1758000000000_resume.pdf',
+  storagePath: `resumes/${ALICE}/1758000000000_resume.pdf`,
+  originalFileName: 'resume.pdf',
+  downloadURL: 'https://firebasestorage.googleapis.com/v0/b/demo/o/resume-v2.pdf',
+  fileSize: 125000,
+  uploadDate: new Date(),
+  ...overrides
+});
+
+const hiringManager = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  name: 'Sarah Johnson',
+  role: 'Engineering Manager',
+  email: 'sarah@example.com',
+  linkedinProfile: null,
+  company: 'Google',
+  notes: null,
+  lastContactDate: null,
+  nextFollowUpDate: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const pipeline = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  stages: [
+    { id: 'saved', name: 'Saved', color: 'slate', kind: 'active' },
+    { id: 'online-assessment', name: 'Online Assessment', color: 'cyan', kind: 'active' },
+    { id: 'rejected', name: 'Rejected', color: 'red', kind: 'negative' }
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const savedView = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  name: 'Active interviews',
+  view: 'board',
+  filters: { company: '', status: 'interview', sortBy: 'manual', staleDays: null, tag: '', fieldFilters: {}, deadline: '' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const fieldSettings = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  tags: [{ id: 'referral', name: 'Referral', color: 'emerald' }],
+  customFields: [{ id: 'salary', name: 'Salary', type: 'number', options: [], showOnCard: false }],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const interview = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  applicationId: 'app-1',
+  round: 'Technical round 1',
+  type: 'technical',
+  scheduledAt: new Date(),
+  timeZone: 'America/New_York',
+  durationMinutes: 60,
+  interviewerIds: ['manager-1'],
+  otherInterviewers: '',
+  location: 'https://meet.example.com/abc',
+  prepNotes: 'Review graphs',
+  outcome: 'pending',
+  selfAssessment: null,
+  reflection: '',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const descriptionSnapshot = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  applicationId: 'app-1',
+  content: '<p>Build <strong>internal tools</strong> in TypeScript.</p>',
+  format: 'html',
+  createdAt: new Date(),
+  ...overrides
+});
+
+const offer = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  applicationId: 'app-1',
+  currency: 'USD',
+  baseSalary: 135000,
+  payPeriod: 'year',
+  annualBonus: 13500,
+  signOnBonus: 20000,
+  equityValue: 120000,
+  vestingSchedule: [25, 25, 25, 25],
+  benefitsNotes: '401k match 4%',
+  startDate: '2026-07-13',
+  workMode: 'hybrid',
+  location: 'Seattle, WA',
+  responseDeadline: '2026-05-01',
+  decision: 'pending',
+  factorScores: { growth: 4, team: 5 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const offerSettings = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  factorWeights: { growth: 5, workLife: 3 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const followUpReminder = (overrides: Record<string, unknown> = {}) => ({
+  userId: ALICE,
+  hiringManagerId: 'manager-1',
+  applicationId: 'app-1',
+  reminderDate: new Date(),
+  message: 'Send a thank-you note',
+  completed: false,
+  createdAt: new Date(),
+  ...overrides
+});
+
+// Write a document directly, bypassing the rules under test
+const seed = async (path: string, data: Record<string, unknown>) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await context.firestore().doc(path).set(data);
+  });
+};
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+describe('applications', () => {
+  it('lets a user create an application they own', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('applications').add(application()));
+  });
+
+  it('rejects unauthenticated access', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.unauthenticatedContext().firestore();
+    await assertFails(db.doc('applications/app-1').get());
+    await assertFails(db.collection('applications').add(application()));
+  });
+
+  it('rejects creating an application for another user', async () => {
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.collection('applications').add(application()));
+  });
+
+  it("hides another user's applications", async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc('applications/app-1').get());
+    await assertFails(db.doc('applications/app-1').update({ notes: 'mine now' }));
+    await assertFails(db.doc('applications/app-1').delete());
+  });
+
+  it('only allows queries scoped to the current user', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('applications').where('userId', '==', ALICE).get());
+    await assertFails(db.collection('applications').get());
+  });
+
+  it('lets the owner update and delete', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({ status: 'interview', updatedAt: new Date() }));
+    await assertSucceeds(db.doc('applications/app-1').delete());
+  });
+
+  it('prevents transferring ownership', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.doc('applications/app-1').update({ userId: BOB }));
+  });
+
+  it('limits status to stage id slugs', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    for (const status of ['saved', 'applied', 'phone-screen', 'interview', 'offer', 'rejected', 'online-assessment-2']) {
+      await assertSucceeds(db.collection('applications').add(application({ status })));
+    }
+    await assertFails(db.collection('applications').add(application({ status: '' })));
+    await assertFails(db.collection('applications').add(application({ status: 'Final Round' })));
+    await assertFails(db.collection('applications').add(application({ status: 'x'.repeat(65) })));
+    await assertFails(db.collection('applications').add(application({ status: 3 })));
+  });
+
+  it('requires job title and company', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('applications').add(application({ jobTitle: '' })));
+    await assertFails(db.collection('applications').add(application({ company: 42 })));
+  });
+
+  it('enforces field sizes and timestamp types', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('applications').add(application({ notes: 'x'.repeat(5001) })));
+    await assertFails(db.collection('applications').add(application({ createdAt: 'yesterday' })));
+  });
+
+  it('accepts a status history list alongside a status change', async () => {
+    await seed('applications/app-1', application({
+      statusHistory: [{ from: null, to: 'applied', changedAt: new Date(), source: 'created' }]
+    }));
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({
+      status: 'phone-screen',
+      statusHistory: [
+        { from: null, to: 'applied', changedAt: new Date(), source: 'created' },
+        { from: 'applied', to: 'phone-screen', changedAt: new Date(), source: 'board' }
+      ],
+      updatedAt: new Date()
+    }));
+  });
+
+  it('accepts a numeric board order', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({ boardOrder: -1757000000000.5, updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ boardOrder: 'top', updatedAt: new Date() }));
+  });
+
+  it('accepts a gazetteer location override and clearing it', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({ locationOverride: 'austin-tx', updatedAt: new Date() }));
+    await assertSucceeds(db.doc('applications/app-1').update({ locationOverride: null, updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ locationOverride: 'x'.repeat(65), updatedAt: new Date() }));
+  });
+
+  it('accepts tags and an archived flag', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({ tags: ['referral', 'remote ok'], archived: true, updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ tags: 'referral', updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ tags: Array.from({ length: 21 }, (_, index) => `tag-${index}`), updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ archived: 'yes', updatedAt: new Date() }));
+  });
+
+  it('accepts a bounded map of custom field values', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({
+      customFields: { salary: 120000, sponsorship: true, deadline: '2025-10-01' },
+      updatedAt: new Date()
+    }));
+    await assertFails(db.doc('applications/app-1').update({ customFields: ['salary'], updatedAt: new Date() }));
+    const tooMany = Object.fromEntries(Array.from({ length: 31 }, (_, index) => [`field-${index}`, index]));
+    await assertFails(db.doc('applications/app-1').update({ customFields: tooMany, updatedAt: new Date() }));
+  });
+
+  it('accepts a YYYY-MM-DD deadline and clearing it', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({ deadline: '2025-10-31', updatedAt: new Date() }));
+    await assertSucceeds(db.doc('applications/app-1').update({ deadline: null, updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ deadline: 'next friday', updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ deadline: new Date(), updatedAt: new Date() }));
+  });
+
+  it('accepts a job description up to 20,000 characters', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({ description: 'x'.repeat(20000), updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ description: 'x'.repeat(20001), updatedAt: new Date() }));
+  });
+
+  it('accepts a bounded list of applications confirmed as different jobs', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').update({ notDuplicateOf: ['app-2'], updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1').update({ notDuplicateOf: 'app-2', updatedAt: new Date() }));
+    const tooMany = Array.from({ length: 51 }, (_, index) => `app-${index}`);
+    await assertFails(db.doc('applications/app-1').update({ notDuplicateOf: tooMany, updatedAt: new Date() }));
+  });
+
+  it('lets the owner restore a deleted application under its old id', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1').set(application()));
+    await assertSucceeds(db.doc('applications/app-1').delete());
+    await assertSucceeds(db.doc('applications/app-1').set(application({ tags: ['referral'] })));
+  });
+
+  it('lets the owner delete and restore an application with its interviews, snapshots and offers in one batch', async () => {
+    await seed('applications/app-1', application());
+    await seed('applications/app-1/interviews/int-1', interview());
+    await seed('applications/app-1/descriptionSnapshots/snap-1', descriptionSnapshot());
+    await seed('offers/offer-1', offer());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+
+    const remove = db.batch();
+    remove.delete(db.doc('applications/app-1/interviews/int-1'));
+    remove.delete(db.doc('applications/app-1/descriptionSnapshots/snap-1'));
+    remove.delete(db.doc('offers/offer-1'));
+    remove.delete(db.doc('applications/app-1'));
+    await assertSucceeds(remove.commit());
+
+    const restore = db.batch();
+    restore.set(db.doc('applications/app-1'), application());
+    restore.set(db.doc('applications/app-1/interviews/int-1'), interview());
+    restore.set(db.doc('applications/app-1/descriptionSnapshots/snap-1'), descriptionSnapshot());
+    restore.set(db.doc('offers/offer-1'), offer());
+    await assertSucceeds(restore.commit());
+  });
+
+  it('requires status history to be a bounded list', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('applications').add(application({ statusHistory: 'applied' })));
+    await assertFails(db.collection('applications').add(application({
+      statusHistory: Array.from({ length: 501 }, () => ({ from: 'saved', to: 'applied' }))
+    })));
+  });
+});
+
+describe('resumes', () => {
+  it('lets a user create a resume they own', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('resumes').add(resume()));
+  });
+
+  it("hides another user's resumes", async () => {
+    await seed('resumes/resume-1', resume());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc('resumes/resume-1').get());
+    await assertFails(db.doc('resumes/resume-1').delete());
+  });
+
+  it('rejects resumes over 10MB', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('resumes').add(resume({ fileSize: 10 * 1024 * 1024 })));
+    await assertFails(db.collection('resumes').add(resume({ fileSize: 10 * 1024 * 1024 + 1 })));
+  });
+
+  it('lets the owner rename a resume', async () => {
+    await seed('resumes/resume-1', resume());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('resumes/resume-1').update({ name: 'SWE v3', updatedAt: new Date() }));
+    await assertFails(db.doc('resumes/resume-1').update({ name: '' }));
+  });
+
+  it('lets the owner point a resume at its current version', async () => {
+    await seed('resumes/resume-1', resume());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('resumes/resume-1').update({ currentVersionId: 'version-2', versionCount: 2, updatedAt: new Date() }));
+    await assertFails(db.doc('resumes/resume-1').update({ versionCount: 'two' }));
+  });
+
+  it('validates the stored PDF analysis', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    const analysis = {
+      text: 'Jane Doe\njane@example.com\nEducation',
+      pageCount: 1,
+      pagesWithoutText: [],
+      fonts: ['Calibri'],
+      multiColumnPages: [],
+      tablePages: [],
+      analyzedAt: new Date()
+    };
+    await assertSucceeds(db.collection('resumes').add(resume({ analysis })));
+    await assertSucceeds(db.collection('resumes').add(resume({ analysis: null })));
+    await assertFails(db.collection('resumes').add(resume({ analysis: { ...analysis, pageCount: '1' } })));
+    await assertFails(db.collection('resumes').add(resume({ analysis: { ...analysis, text: 'x'.repeat(100001) } })));
+    const { analyzedAt, ...undated } = analysis;
+    await assertFails(db.collection('resumes').add(resume({ analysis: undated })));
+  });
+});
+
+describe('resume versions', () => {
+  it('lets a user add versions to their own resume', async () => {
+    await seed('resumes/resume-1', resume());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('resumes/resume-1/versions').add(resumeVersion()));
+  });
+
+  it("rejects versions on another user's resume or with the wrong resume id", async () => {
+    await seed('resumes/resume-1', resume({ userId: BOB }));
+    await seed('resumes/resume-2', resume());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('resumes/resume-1/versions').add(resumeVersion()));
+    await assertFails(db.collection('resumes/resume-2/versions').add(resumeVersion()));
+  });
+
+  it('never lets a version be edited, only deleted', async () => {
+    await seed('resumes/resume-1/versions/version-1', resumeVersion());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.doc('resumes/resume-1/versions/version-1').update({ fileSize: 1 }));
+    await assertSucceeds(db.doc('resumes/resume-1/versions/version-1').delete());
+  });
+
+  it('lists only the current user versions across resumes', async () => {
+    await seed('resumes/resume-1/versions/version-1', resumeVersion());
+    await seed('resumes/resume-2/versions/version-2', resumeVersion({ userId: BOB, resumeId: 'resume-2' }));
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collectionGroup('versions').where('userId', '==', ALICE).get());
+    await assertFails(db.collectionGroup('versions').get());
+    await assertFails(db.doc('resumes/resume-2/versions/version-2').get());
+  });
+
+  it('validates version numbers and file fields', async () => {
+    await seed('resumes/resume-1', resume());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    const versions = db.collection('resumes/resume-1/versions');
+    await assertFails(versions.add(resumeVersion({ version: 0 })));
+    await assertFails(versions.add(resumeVersion({ version: '2' })));
+    await assertFails(versions.add(resumeVersion({ fileSize: 10 * 1024 * 1024 + 1 })));
+    await assertFails(versions.add(resumeVersion({ downloadURL: '' })));
+  });
+});
+
+describe('hiringManagers', () => {
+  it('lets a user create a contact they own', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('hiringManagers').add(hiringManager()));
+  });
+
+  it("hides another user's contacts", async () => {
+    await seed('hiringManagers/manager-1', hiringManager());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc('hiringManagers/manager-1').get());
+  });
+
+  it('validates contact fields', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('hiringManagers').add(hiringManager({ name: '' })));
+    await assertFails(db.collection('hiringManagers').add(hiringManager({ nextFollowUpDate: 'soon' })));
+  });
+});
+
+describe('followUpReminders', () => {
+  it('lets a user create a reminder they own', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('followUpReminders').add(followUpReminder()));
+  });
+
+  it("hides another user's reminders", async () => {
+    await seed('followUpReminders/reminder-1', followUpReminder());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc('followUpReminders/reminder-1').get());
+  });
+
+  it('requires completed to be a boolean', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('followUpReminders').add(followUpReminder({ completed: 'no' })));
+  });
+});
+
+describe('pipelines', () => {
+  it('lets a user read their pipeline before saving one', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc(`pipelines/${ALICE}`).get());
+  });
+
+  it('lets a user save and update their own pipeline', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc(`pipelines/${ALICE}`).set(pipeline()));
+    await assertSucceeds(db.doc(`pipelines/${ALICE}`).set(pipeline({ stages: pipeline().stages.slice(0, 2) })));
+  });
+
+  it("hides and protects another user's pipeline", async () => {
+    await seed(`pipelines/${ALICE}`, pipeline());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc(`pipelines/${ALICE}`).get());
+    await assertFails(db.doc(`pipelines/${ALICE}`).set(pipeline({ userId: BOB })));
+    await assertFails(db.doc(`pipelines/${BOB}`).set(pipeline({ userId: ALICE })));
+  });
+
+  it('requires between one and thirty stages', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.doc(`pipelines/${ALICE}`).set(pipeline({ stages: [] })));
+    await assertFails(db.doc(`pipelines/${ALICE}`).set(pipeline({ stages: 'saved' })));
+    const tooMany = Array.from({ length: 31 }, (_, index) => ({ id: `stage-${index}`, name: `Stage ${index}`, color: 'slate', kind: 'active' }));
+    await assertFails(db.doc(`pipelines/${ALICE}`).set(pipeline({ stages: tooMany })));
+  });
+});
+
+describe('savedViews', () => {
+  it('lets a user create and delete a saved view they own', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    const ref = await assertSucceeds(db.collection('savedViews').add(savedView()));
+    await assertSucceeds(ref.delete());
+  });
+
+  it("hides another user's saved views", async () => {
+    await seed('savedViews/view-1', savedView());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc('savedViews/view-1').get());
+    await assertFails(db.doc('savedViews/view-1').delete());
+  });
+
+  it('validates the name, view and filters', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('savedViews').add(savedView({ name: '' })));
+    await assertFails(db.collection('savedViews').add(savedView({ view: 'calendar' })));
+    await assertFails(db.collection('savedViews').add(savedView({ filters: 'status:interview' })));
+    await assertFails(db.collection('savedViews').add(savedView({
+      filters: { company: '', status: 'applied', sortBy: 'manual', staleDays: '14' }
+    })));
+    await assertFails(db.collection('savedViews').add(savedView({
+      filters: { company: '', status: '', sortBy: 'manual', staleDays: null, tag: '', fieldFilters: 'salary' }
+    })));
+  });
+});
+
+describe('fieldSettings', () => {
+  it('lets a user save and read their own tags and custom fields', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc(`fieldSettings/${ALICE}`).get());
+    await assertSucceeds(db.doc(`fieldSettings/${ALICE}`).set(fieldSettings()));
+    await assertSucceeds(db.doc(`fieldSettings/${ALICE}`).set(fieldSettings({ tags: [], customFields: [] })));
+  });
+
+  it("hides and protects another user's settings", async () => {
+    await seed(`fieldSettings/${ALICE}`, fieldSettings());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc(`fieldSettings/${ALICE}`).get());
+    await assertFails(db.doc(`fieldSettings/${BOB}`).set(fieldSettings()));
+  });
+
+  it('requires tag and field lists', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.doc(`fieldSettings/${ALICE}`).set(fieldSettings({ tags: 'referral' })));
+    const tooMany = Array.from({ length: 31 }, (_, index) => ({ id: `field-${index}`, name: `Field ${index}`, type: 'text' }));
+    await assertFails(db.doc(`fieldSettings/${ALICE}`).set(fieldSettings({ customFields: tooMany })));
+  });
+});
+
+describe('interviews', () => {
+  it('lets a user add interviews to their own application', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('applications/app-1/interviews').add(interview()));
+  });
+
+  it("rejects interviews on another user's application", async () => {
+    await seed('applications/app-1', application({ userId: BOB }));
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('applications/app-1/interviews').add(interview()));
+  });
+
+  it('requires the application id to match the parent document', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('applications/app-1/interviews').add(interview({ applicationId: 'app-2' })));
+  });
+
+  it('lists only the current user interviews across applications', async () => {
+    await seed('applications/app-1/interviews/int-1', interview());
+    await seed('applications/app-2/interviews/int-2', interview({ userId: BOB, applicationId: 'app-2' }));
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collectionGroup('interviews').where('userId', '==', ALICE).get());
+    await assertFails(db.collectionGroup('interviews').get());
+    await assertFails(db.doc('applications/app-2/interviews/int-2').get());
+  });
+
+  it('lets the owner record an outcome and delete', async () => {
+    await seed('applications/app-1/interviews/int-1', interview());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc('applications/app-1/interviews/int-1').update({ outcome: 'passed', selfAssessment: 4, updatedAt: new Date() }));
+    await assertFails(db.doc('applications/app-1/interviews/int-1').update({ userId: BOB, updatedAt: new Date() }));
+    await assertSucceeds(db.doc('applications/app-1/interviews/int-1').delete());
+  });
+
+  it('validates type, outcome, time and interviewers', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    const interviews = db.collection('applications/app-1/interviews');
+    await assertFails(interviews.add(interview({ type: 'lunch' })));
+    await assertFails(interviews.add(interview({ outcome: 'maybe' })));
+    await assertFails(interviews.add(interview({ scheduledAt: '2025-10-01T10:00' })));
+    await assertFails(interviews.add(interview({ round: '' })));
+    await assertFails(interviews.add(interview({ interviewerIds: 'manager-1' })));
+  });
+});
+
+describe('descriptionSnapshots', () => {
+  it('lets a user add snapshots to their own application', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collection('applications/app-1/descriptionSnapshots').add(descriptionSnapshot()));
+    await assertSucceeds(db.collection('applications/app-1/descriptionSnapshots').add(descriptionSnapshot({ content: 'Plain text', format: 'text' })));
+  });
+
+  it("rejects snapshots on another user's application or with the wrong application id", async () => {
+    await seed('applications/app-1', application({ userId: BOB }));
+    await seed('applications/app-2', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('applications/app-1/descriptionSnapshots').add(descriptionSnapshot()));
+    await assertFails(db.collection('applications/app-2/descriptionSnapshots').add(descriptionSnapshot()));
+  });
+
+  it('never lets a snapshot be edited, only deleted', async () => {
+    await seed('applications/app-1/descriptionSnapshots/snap-1', descriptionSnapshot());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.doc('applications/app-1/descriptionSnapshots/snap-1').update({ content: 'Rewritten' }));
+    await assertSucceeds(db.doc('applications/app-1/descriptionSnapshots/snap-1').delete());
+  });
+
+  it('lists only the current user snapshots across applications', async () => {
+    await seed('applications/app-1/descriptionSnapshots/snap-1', descriptionSnapshot());
+    await seed('applications/app-2/descriptionSnapshots/snap-2', descriptionSnapshot({ userId: BOB, applicationId: 'app-2' }));
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.collectionGroup('descriptionSnapshots').where('userId', '==', ALICE).get());
+    await assertFails(db.collectionGroup('descriptionSnapshots').get());
+    await assertFails(db.doc('applications/app-2/descriptionSnapshots/snap-2').get());
+  });
+
+  it('validates content and format', async () => {
+    await seed('applications/app-1', application());
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    const snapshots = db.collection('applications/app-1/descriptionSnapshots');
+    await assertFails(snapshots.add(descriptionSnapshot({ content: '' })));
+    await assertFails(snapshots.add(descriptionSnapshot({ content: 'x'.repeat(50001) })));
+    await assertFails(snapshots.add(descriptionSnapshot({ format: 'markdown' })));
+  });
+});
+
+describe('offers', () => {
+  it('lets a user create and update an offer they own', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    const ref = await assertSucceeds(db.collection('offers').add(offer()));
+    await assertSucceeds(ref.update({ decision: 'accepted', factorScores: { growth: 5 }, updatedAt: new Date() }));
+  });
+
+  it("hides another user's offers", async () => {
+    await seed('offers/offer-1', offer());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc('offers/offer-1').get());
+    await assertFails(db.doc('offers/offer-1').delete());
+  });
+
+  it('validates amounts, currency and choices', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('offers').add(offer({ baseSalary: '135k' })));
+    await assertFails(db.collection('offers').add(offer({ signOnBonus: -5000 })));
+    await assertFails(db.collection('offers').add(offer({ currency: 'dollars' })));
+    await assertFails(db.collection('offers').add(offer({ payPeriod: 'week' })));
+    await assertFails(db.collection('offers').add(offer({ workMode: 'anywhere' })));
+    await assertFails(db.collection('offers').add(offer({ vestingSchedule: '25/25/25/25' })));
+    await assertFails(db.collection('offers').add(offer({ responseDeadline: 'Friday' })));
+  });
+});
+
+describe('offerSettings', () => {
+  it('lets a user save and read their own weights', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertSucceeds(db.doc(`offerSettings/${ALICE}`).get());
+    await assertSucceeds(db.doc(`offerSettings/${ALICE}`).set(offerSettings()));
+  });
+
+  it("hides and protects another user's weights", async () => {
+    await seed(`offerSettings/${ALICE}`, offerSettings());
+    const db = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(db.doc(`offerSettings/${ALICE}`).get());
+    await assertFails(db.doc(`offerSettings/${BOB}`).set(offerSettings()));
+    await assertFails(db.doc(`offerSettings/${BOB}`).set(offerSettings({ userId: BOB, factorWeights: 'growth' })));
+  });
+});
+
+describe('unknown collections', () => {
+  it('are closed to everyone', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('users').add({ userId: ALICE }));
+  });
+
+  it('keep the migration log admin-only', async () => {
+    const db = testEnv.authenticatedContext(ALICE).firestore();
+    await assertFails(db.collection('_migrations').doc('001-normalize-application-statuses').get());
+    await assertFails(db.collection('_migrations').doc('999-fake').set({ id: '999-fake' }));
+  });
+});
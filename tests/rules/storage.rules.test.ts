@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createTestEnvironment } from './testEnvironment';
+
+let testEnv: RulesTestEnvironment;
+
+const ALICE = 'alice';
+const BOB = 'bob';
+
+const pdf = (size = 1024) => new Uint8Array(size);
+
+type Storage = ReturnType<ReturnType<RulesTestEnvironment['unauthenticatedContext']>['storage']>;
+
+// UploadTask is only thenable, so settle it into a real promise for the assertions
+const upload = (storage: Storage, path: string, data: Uint8Array, contentType: string) =>
+  storage.ref(path).put(data, { contentType }).then();
+
+// Upload a file directly, bypassing the rules under test
+const seed = async (path: string) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await upload(context.storage(), path, pdf(), 'application/pdf');
+  });
+};
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearStorage();
+});
+
+describe('resumes/{userId}/{fileName}', () => {
+  it('lets a user upload a PDF into their own folder', async () => {
+    const storage = testEnv.authenticatedContext(ALICE).storage();
+    await assertSucceeds(upload(storage, `resumes/${ALICE}/resume.pdf`, pdf(), 'application/pdf'));
+  });
+
+  it("rejects uploads into another user's folder", async () => {
+    const storage = testEnv.authenticatedContext(BOB).storage();
+    await assertFails(upload(storage, `resumes/${ALICE}/resume.pdf`, pdf(), 'application/pdf'));
+  });
+
+  it('rejects unauthenticated uploads', async () => {
+    const storage = testEnv.unauthenticatedContext().storage();
+    await assertFails(upload(storage, `resumes/${ALICE}/resume.pdf`, pdf(), 'application/pdf'));
+  });
+
+  it('only accepts PDFs', async () => {
+    const storage = testEnv.authenticatedContext(ALICE).storage();
+    await assertFails(upload(storage, `resumes/${ALICE}/resume.docx`, pdf(), 'application/msword'));
+  });
+
+  it('enforces the 10MB size cap', async () => {
+    const storage = testEnv.authenticatedContext(ALICE).storage();
+    await assertFails(upload(storage, `resumes/${ALICE}/huge.pdf`, pdf(10 * 1024 * 1024 + 1), 'application/pdf'));
+  });
+
+  it("keeps other users from reading or deleting a user's files", async () => {
+    await seed(`resumes/${ALICE}/resume.pdf`);
+    const storage = testEnv.authenticatedContext(BOB).storage();
+    await assertFails(storage.ref(`resumes/${ALICE}/resume.pdf`).getDownloadURL());
+    await assertFails(storage.ref(`resumes/${ALICE}/resume.pdf`).delete());
+  });
+
+  it('lets the owner read and delete their files', async () => {
+    await seed(`resumes/${ALICE}/resume.pdf`);
+    const storage = testEnv.authenticatedContext(ALICE).storage();
+    await assertSucceeds(storage.ref(`resumes/${ALICE}/resume.pdf`).getDownloadURL());
+    await assertSucceeds(storage.ref(`resumes/${ALICE}/resume.pdf`).delete());
+  });
+
+  it('does not allow overwriting an existing file', async () => {
+    await seed(`resumes/${ALICE}/resume.pdf`);
+    const storage = testEnv.authenticatedContext(ALICE).storage();
+    await assertFails(upload(storage, `resumes/${ALICE}/resume.pdf`, pdf(), 'application/pdf'));
+  });
+});
+
+describe('legacy and unknown paths', () => {
+  it('are closed to everyone', async () => {
+    await seed('resumes/legacy.pdf');
+    const storage = testEnv.authenticatedContext(ALICE).storage();
+    await assertFails(storage.ref('resumes/legacy.pdf').getDownloadURL());
+    await assertFails(upload(storage, 'avatars/alice.png', pdf(), 'image/png'));
+  });
+});
@@ -0,0 +1,19 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+
+// The emulators are started by `firebase emulators:exec`, which exports their
+// host/port through FIRESTORE_EMULATOR_HOST and FIREBASE_STORAGE_EMULATOR_HOST
+export const PROJECT_ID = 'demo-gradtracker';
+
+export function createTestEnvironment(): Promise<RulesTestEnvironment> {
+  return initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8')
+    },
+    storage: {
+      rules: readFileSync(resolve(__dirname, '../../storage.rules'), 'utf8')
+    }
+  });
+}
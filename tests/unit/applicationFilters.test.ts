@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Application, CustomFieldDefinition, DEFAULT_PIPELINE_STAGES } from '../../lib/domain';
+import {
+  DEFAULT_FILTERS,
+  FilterState,
+  applyFilters,
+  filterApplications,
+  getBoardOrder,
+  hasActiveFilters,
+  sortApplications,
+  toSavedViewFilters
+} from '../../lib/applicationFilters';
+
+const NOW = new Date(2025, 8, 10, 15, 30).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+const STAGE_ORDER = DEFAULT_PIPELINE_STAGES.map(stage => stage.id);
+
+const application = (id: string, overrides: Partial<Application> = {}) => ({
+  id,
+  company: 'Acme',
+  jobTitle: 'Engineer',
+  status: 'saved',
+  statusHistory: [],
+  tags: [],
+  createdAt: Timestamp.fromMillis(NOW - 30 * DAY),
+  ...overrides
+} as Application);
+
+const filters = (overrides: Partial<FilterState>): FilterState => ({ ...DEFAULT_FILTERS, ...overrides });
+const ids = (applications: Application[]) => applications.map(app => app.id);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('filterApplications', () => {
+  const filter = (applications: Application[], overrides: Partial<FilterState>, customFields: CustomFieldDefinition[] = []) =>
+    ids(filterApplications(applications, filters(overrides), DEFAULT_PIPELINE_STAGES, customFields));
+
+  it('hides archived applications unless asked to show them', () => {
+    const apps = [application('a'), application('b', { archived: true })];
+    expect(filter(apps, {})).toEqual(['a']);
+    expect(filter(apps, { showArchived: true })).toEqual(['a', 'b']);
+  });
+
+  it('matches part of the company name, ignoring case, and the exact status', () => {
+    const apps = [application('a', { company: 'Google' }), application('b', { company: 'Acme', status: 'applied' })];
+    expect(filter(apps, { company: 'goo' })).toEqual(['a']);
+    expect(filter(apps, { status: 'applied' })).toEqual(['b']);
+  });
+
+  it('keeps applications that have been in their stage longer than staleDays', () => {
+    const moved = (daysAgo: number) => [{ from: null, to: 'saved', changedAt: Timestamp.fromMillis(NOW - daysAgo * DAY), source: 'created' as const }];
+    const apps = [application('fresh', { statusHistory: moved(3) }), application('stale', { statusHistory: moved(20) })];
+    expect(filter(apps, { staleDays: 14 })).toEqual(['stale']);
+  });
+
+  it('filters unsubmitted applications by deadline', () => {
+    const apps = [
+      application('soon', { deadline: '2025-09-12' }),
+      application('late', { deadline: '2025-09-01' }),
+      application('submitted', { deadline: '2025-09-01', status: 'applied' }),
+      application('none')
+    ];
+    expect(filter(apps, { deadline: 'this-week' })).toEqual(['soon']);
+    expect(filter(apps, { deadline: 'overdue' })).toEqual(['late']);
+  });
+
+  it('matches tags ignoring case', () => {
+    const apps = [application('a', { tags: ['Referral'] }), application('b', { tags: ['remote'] })];
+    expect(filter(apps, { tag: 'referral' })).toEqual(['a']);
+  });
+
+  it('applies custom field filters and ignores ones on deleted fields', () => {
+    const salary: CustomFieldDefinition = { id: 'salary', name: 'Salary', type: 'number' };
+    const apps = [application('low', { customFields: { salary: 90000 } }), application('high', { customFields: { salary: 150000 } })];
+    expect(filter(apps, { fieldFilters: { salary: '100000' } }, [salary])).toEqual(['high']);
+    expect(filter(apps, { fieldFilters: { deleted: 'x' } }, [salary])).toEqual(['low', 'high']);
+  });
+
+  it('narrows to an explicit selection', () => {
+    expect(filter([application('a'), application('b')], { applicationIds: ['b'] })).toEqual(['b']);
+  });
+});
+
+describe('sortApplications', () => {
+  const created = (daysAgo: number) => Timestamp.fromMillis(NOW - daysAgo * DAY);
+  const apps = [
+    application('old', { company: 'beta', status: 'interview', createdAt: created(10), deadline: '2025-10-01' }),
+    application('new', { company: 'Alpha', status: 'applied', createdAt: created(1) }),
+    application('mid', { company: 'Gamma', status: 'applied', createdAt: created(5), deadline: '2025-09-20' }),
+    application('custom', { company: 'Delta', status: 'take-home', createdAt: created(3) })
+  ];
+  const sort = (sortBy: string) => ids(sortApplications(apps, sortBy, STAGE_ORDER));
+
+  it('sorts by creation date and company name', () => {
+    expect(sort('newest')).toEqual(['new', 'custom', 'mid', 'old']);
+    expect(sort('oldest')).toEqual(['old', 'mid', 'custom', 'new']);
+    expect(sort('company-asc')).toEqual(['new', 'old', 'custom', 'mid']);
+    expect(sort('company-desc')).toEqual(['mid', 'custom', 'old', 'new']);
+  });
+
+  it('sorts by pipeline stage, newest first within a stage, with unknown stages last', () => {
+    expect(sort('status')).toEqual(['new', 'mid', 'old', 'custom']);
+  });
+
+  it('sorts by soonest deadline, then newest', () => {
+    expect(sort('deadline')).toEqual(['mid', 'old', 'new', 'custom']);
+  });
+
+  it('uses boardOrder for the manual order, placing cards without one newest first', () => {
+    const board = [
+      application('second', { boardOrder: 2 }),
+      application('first', { boardOrder: 1 }),
+      application('unplaced-old', { createdAt: created(9) }),
+      application('unplaced-new', { createdAt: created(2) })
+    ];
+    expect(ids(sortApplications(board, 'manual', STAGE_ORDER))).toEqual(['unplaced-new', 'unplaced-old', 'first', 'second']);
+    expect(getBoardOrder(board[0])).toBe(2);
+    expect(getBoardOrder(board[3])).toBe(-(NOW - 2 * DAY));
+  });
+
+  it('does not reorder the array it was given', () => {
+    sortApplications(apps, 'company-asc', STAGE_ORDER);
+    expect(ids(apps)).toEqual(['old', 'new', 'mid', 'custom']);
+  });
+});
+
+describe('applyFilters', () => {
+  it('filters, then sorts by the chosen order', () => {
+    const apps = [
+      application('b', { company: 'Acme B', createdAt: Timestamp.fromMillis(NOW - DAY) }),
+      application('other', { company: 'Initech' }),
+      application('a', { company: 'Acme A', createdAt: Timestamp.fromMillis(NOW - 2 * DAY) })
+    ];
+    expect(ids(applyFilters(apps, filters({ company: 'acme', sortBy: 'oldest' }), DEFAULT_PIPELINE_STAGES))).toEqual(['a', 'b']);
+  });
+});
+
+describe('filter state', () => {
+  it('knows when any filter is active', () => {
+    expect(hasActiveFilters(DEFAULT_FILTERS)).toBe(false);
+    expect(hasActiveFilters(filters({ sortBy: 'oldest', showArchived: true }))).toBe(false);
+    expect(hasActiveFilters(filters({ tag: 'remote' }))).toBe(true);
+    expect(hasActiveFilters(filters({ fieldFilters: { salary: '1' } }))).toBe(true);
+  });
+
+  it('leaves explicit selections out of saved views', () => {
+    const saved = toSavedViewFilters(filters({ company: 'Acme', applicationIds: ['a'], selectionLabel: 'Austin' }));
+    expect(saved).toEqual({ ...toSavedViewFilters(DEFAULT_FILTERS), company: 'Acme' });
+    expect(saved).not.toHaveProperty('applicationIds');
+  });
+});
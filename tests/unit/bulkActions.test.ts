@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Application, DescriptionSnapshot, Interview, Offer } from '../../lib/domain';
+import { describeBulkAction, planBulkAction } from '../../lib/bulkActions';
+import { MAX_TAGS } from '../../lib/tags';
+
+const application = (id: string, overrides: Partial<Application> = {}) => ({
+  id,
+  userId: 'alice',
+  jobTitle: 'Engineer',
+  company: 'Acme',
+  status: 'applied',
+  statusHistory: [],
+  tags: [],
+  ...overrides
+} as Application);
+
+const noRelated = { interviews: [], descriptionSnapshots: [], offers: [] };
+
+const tags = (count: number) => Array.from({ length: count }, (_, index) => `tag ${index}`);
+
+describe('planBulkAction', () => {
+  it('moves applications, records the transition and restores the old history on undo', () => {
+    const history = [{ from: null, to: 'applied', changedAt: null, source: 'created' as const }];
+    const plan = planBulkAction([application('a', { statusHistory: history })], { type: 'status', status: 'interview' }, noRelated);
+
+    expect(plan.writes).toHaveLength(1);
+    const [write] = plan.writes;
+    expect(write.type === 'update' && write.data.status).toBe('interview');
+    expect(write.type === 'update' && (write.data.statusHistory as unknown[]).slice(-1)[0])
+      .toMatchObject({ from: 'applied', to: 'interview', source: 'bulk' });
+    expect(plan.undo).toEqual([{ type: 'update', id: 'a', data: { status: 'applied', statusHistory: history } }]);
+  });
+
+  it('leaves out applications that already have the value', () => {
+    const plan = planBulkAction(
+      [application('a', { archived: true }), application('b')],
+      { type: 'archive', archived: true },
+      noRelated
+    );
+    expect(plan.writes.map(write => write.type === 'update' && write.id)).toEqual(['b']);
+    expect(plan.undo).toEqual([{ type: 'update', id: 'b', data: { archived: false } }]);
+  });
+
+  it('pins the resume version and undoes back to the previous resume', () => {
+    const plan = planBulkAction(
+      [application('a', { resumeId: 'old', resumeVersionId: 'v1' })],
+      { type: 'resume', resumeId: 'new', resumeVersionId: 'v3' },
+      noRelated
+    );
+    expect(plan.writes).toEqual([{ type: 'update', id: 'a', data: { resumeId: 'new', resumeVersionId: 'v3' } }]);
+    expect(plan.undo).toEqual([{ type: 'update', id: 'a', data: { resumeId: 'old', resumeVersionId: 'v1' } }]);
+  });
+
+  it('adds tags without duplicating them, ignoring case', () => {
+    const plan = planBulkAction([application('a', { tags: ['Referral'] })], { type: 'addTags', tags: ['referral', 'remote'] }, noRelated);
+    expect(plan.writes).toEqual([{ type: 'update', id: 'a', data: { tags: ['Referral', 'remote'] } }]);
+    expect(plan.undo).toEqual([{ type: 'update', id: 'a', data: { tags: ['Referral'] } }]);
+  });
+
+  it('skips applications that the new tags would push past the limit', () => {
+    const plan = planBulkAction(
+      [application('full', { tags: tags(MAX_TAGS - 1) }), application('room')],
+      { type: 'addTags', tags: ['new one', 'new two'] },
+      noRelated
+    );
+    expect(plan.writes.map(write => write.type === 'update' && write.id)).toEqual(['room']);
+    expect(plan.skipped).toBe(1);
+  });
+
+  it('deletes applications with their related documents and restores them whole on undo', () => {
+    const app = application('a', { notes: 'Keep me' });
+    const interviews = [{ id: 'i1', applicationId: 'a' }, { id: 'i2', applicationId: 'b' }] as Interview[];
+    const descriptionSnapshots = [{ id: 's1', applicationId: 'a' }] as DescriptionSnapshot[];
+    const offers = [{ id: 'o1', applicationId: 'b' }, { id: 'o2', applicationId: 'a' }] as Offer[];
+    const plan = planBulkAction([app], { type: 'delete' }, { interviews, descriptionSnapshots, offers });
+
+    const related = { interviews: [interviews[0]], descriptionSnapshots, offers: [offers[1]] };
+    expect(plan.writes).toEqual([{ type: 'delete', id: 'a', related }]);
+    expect(plan.undo).toEqual([{ type: 'restore', application: app, related }]);
+  });
+});
+
+describe('describeBulkAction', () => {
+  it('summarizes the action for the undo toast', () => {
+    expect(describeBulkAction({ type: 'status', status: 'offer' }, 3, 'Offer')).toBe('Moved 3 applications to Offer');
+    expect(describeBulkAction({ type: 'archive', archived: false }, 1)).toBe('Unarchived 1 application');
+    expect(describeBulkAction({ type: 'resume', resumeId: null, resumeVersionId: null }, 2)).toBe('Removed the resume from 2 applications');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { CustomFieldDefinition, TagDefinition } from '../../lib/domain';
+import {
+  cleanCustomFieldValues,
+  describeFieldFilter,
+  formatCustomFieldValue,
+  getFieldGroup,
+  isEmptyFieldValue,
+  matchesFieldFilter,
+  validateFieldSettings
+} from '../../lib/customFields';
+
+const field = (type: CustomFieldDefinition['type'], overrides: Partial<CustomFieldDefinition> = {}): CustomFieldDefinition => ({
+  id: `f-${type}`,
+  name: type === 'number' ? 'Salary' : 'Field',
+  type,
+  ...overrides
+});
+
+const tag = (id: string, name: string): TagDefinition => ({ id, name, color: 'slate' });
+
+describe('isEmptyFieldValue and cleanCustomFieldValues', () => {
+  it('treats null, undefined, empty strings and NaN as empty but keeps false and 0', () => {
+    expect([null, undefined, '', NaN].every(isEmptyFieldValue)).toBe(true);
+    expect([false, 0, 'x'].some(isEmptyFieldValue)).toBe(false);
+    expect(cleanCustomFieldValues({ a: '', b: null, c: NaN, d: false, e: 0, f: 'x' })).toEqual({ d: false, e: 0, f: 'x' });
+  });
+});
+
+describe('formatCustomFieldValue', () => {
+  it('formats each field type', () => {
+    expect(formatCustomFieldValue(field('checkbox'), false)).toBe('No');
+    expect(formatCustomFieldValue(field('number'), 120000)).toBe('120,000');
+    expect(formatCustomFieldValue(field('date'), '2025-03-07')).toBe('Mar 7, 2025');
+    expect(formatCustomFieldValue(field('text'), 'Hybrid')).toBe('Hybrid');
+    expect(formatCustomFieldValue(field('number'), undefined)).toBe('');
+  });
+});
+
+describe('matchesFieldFilter and describeFieldFilter', () => {
+  it('applies each type of filter', () => {
+    expect(matchesFieldFilter(field('number'), 120000, '100000')).toBe(true);
+    expect(matchesFieldFilter(field('number'), undefined, '0')).toBe(false);
+    expect(matchesFieldFilter(field('date'), '2025-03-07', '2025-03-01')).toBe(true);
+    expect(matchesFieldFilter(field('checkbox'), undefined, 'no')).toBe(true);
+    expect(matchesFieldFilter(field('select'), 'Remote', 'Hybrid')).toBe(false);
+    expect(matchesFieldFilter(field('text'), 'Fully Remote', 'remote')).toBe(true);
+  });
+
+  it('describes the active filter', () => {
+    expect(describeFieldFilter(field('number'), '100000')).toBe('Salary ≥ 100,000');
+    expect(describeFieldFilter(field('text'), 'remote')).toBe('Field contains "remote"');
+  });
+});
+
+describe('getFieldGroup', () => {
+  it('groups checkboxes as yes or no and missing values together', () => {
+    expect(getFieldGroup(field('checkbox'), undefined)).toBe('No');
+    expect(getFieldGroup(field('select'), 'Remote')).toBe('Remote');
+    expect(getFieldGroup(field('select'), '')).toBe('No value');
+  });
+});
+
+describe('validateFieldSettings', () => {
+  it('accepts named, unique tags and fields', () => {
+    expect(validateFieldSettings([tag('t1', 'Referral')], [field('select', { options: ['Remote'] })])).toBeNull();
+  });
+
+  it('requires tag names that are unique after normalizing', () => {
+    expect(validateFieldSettings([tag('t1', '   ')], [])).toBe('Every tag needs a name.');
+    expect(validateFieldSettings([tag('t1', 'Dream company'), tag('t2', ' dream  COMPANY')], [])).toBe('Tag names must be unique.');
+  });
+
+  it('requires field names that are unique regardless of case', () => {
+    expect(validateFieldSettings([], [field('text', { name: ' ' })])).toBe('Every field needs a name.');
+    expect(validateFieldSettings([], [field('text', { id: 'a', name: 'Salary' }), field('number', { id: 'b' })]))
+      .toBe('Field names must be unique.');
+  });
+
+  it('requires at least one option for select fields', () => {
+    expect(validateFieldSettings([], [field('select')])).toBe('Single select fields need at least one option.');
+    expect(validateFieldSettings([], [field('select', { options: [] })])).toBe('Single select fields need at least one option.');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERS } from '../../lib/applicationFilters';
+import { SavedView } from '../../lib/domain';
+import { DEFAULT_DASHBOARD_STATE, isSavedViewActive, parseDashboardQuery, toDashboardQuery } from '../../lib/dashboardUrl';
+
+describe('parseDashboardQuery', () => {
+  it('reads the tab, view and filters', () => {
+    const state = parseDashboardQuery('?tab=applications&view=list&status=interview&sort=oldest&stale=14&tag=referral&deadline=overdue&archived=1');
+    expect(state.view).toBe('list');
+    expect(state.filters).toMatchObject({
+      status: 'interview',
+      sortBy: 'oldest',
+      staleDays: 14,
+      tag: 'referral',
+      deadline: 'overdue',
+      showArchived: true
+    });
+  });
+
+  it('collects custom field filters from field.* parameters', () => {
+    expect(parseDashboardQuery('?field.salary=100000&field.remote=yes&field.empty=').filters.fieldFilters)
+      .toEqual({ salary: '100000', remote: 'yes' });
+  });
+
+  it('falls back to defaults for unknown or malformed values', () => {
+    const state = parseDashboardQuery('?tab=admin&view=calendar&sort=random&stale=-3&deadline=someday');
+    expect(state.tab).toBe(DEFAULT_DASHBOARD_STATE.tab);
+    expect(state.view).toBe(DEFAULT_DASHBOARD_STATE.view);
+    expect(state.filters.sortBy).toBe(DEFAULT_FILTERS.sortBy);
+    expect(state.filters.staleDays).toBeNull();
+    expect(state.filters.deadline).toBe('');
+  });
+
+  it('labels an explicit selection', () => {
+    const { filters } = parseDashboardQuery('?ids=a,b');
+    expect(filters.applicationIds).toEqual(['a', 'b']);
+    expect(filters.selectionLabel).toBe('Selection');
+  });
+});
+
+describe('toDashboardQuery', () => {
+  it('leaves out everything at its default', () => {
+    expect(toDashboardQuery(DEFAULT_DASHBOARD_STATE)).toEqual({});
+  });
+
+  it('round-trips through parseDashboardQuery', () => {
+    const state = parseDashboardQuery('?tab=applications&view=map&company=Stripe&field.salary=100000&ids=a,b&selection=Seattle');
+    const query = new URLSearchParams(toDashboardQuery(state)).toString();
+    expect(parseDashboardQuery(`?${query}`)).toEqual(state);
+  });
+});
+
+describe('isSavedViewActive', () => {
+  const savedView: SavedView = {
+    id: 'view',
+    userId: 'alice',
+    name: 'Interviews',
+    view: 'list',
+    filters: { ...DEFAULT_FILTERS, status: 'interview', fieldFilters: { remote: 'yes' } },
+    createdAt: null,
+    updatedAt: null
+  };
+
+  it('matches only the exact view and filters', () => {
+    const state = parseDashboardQuery('?view=list&status=interview&field.remote=yes');
+    expect(isSavedViewActive(savedView, state)).toBe(true);
+    expect(isSavedViewActive(savedView, { ...state, view: 'board' })).toBe(false);
+    expect(isSavedViewActive(savedView, { ...state, filters: { ...state.filters, fieldFilters: {} } })).toBe(false);
+  });
+
+  it('is not active while an explicit selection is shown', () => {
+    expect(isSavedViewActive(savedView, parseDashboardQuery('?view=list&status=interview&field.remote=yes&ids=a'))).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { DATE_TIME_FORMAT, formatDate } from '../../lib/dates';
+
+describe('formatDate', () => {
+  const timestamp = Timestamp.fromDate(new Date(2025, 9, 3, 16, 5));
+
+  it('formats a timestamp as a short date by default', () => {
+    expect(formatDate(timestamp)).toBe('Oct 3, 2025');
+    expect(formatDate(timestamp, { month: 'short', day: 'numeric' })).toBe('Oct 3');
+  });
+
+  it('includes the time when asked', () => {
+    expect(formatDate(timestamp, DATE_TIME_FORMAT)).toMatch(/^Oct 3, 2025,? 4:05\sPM$/);
+  });
+
+  it('returns an empty string for a missing timestamp', () => {
+    expect(formatDate(null)).toBe('');
+    expect(formatDate(undefined)).toBe('');
+  });
+});
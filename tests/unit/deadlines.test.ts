@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Application, DEFAULT_PIPELINE_STAGES } from '../../lib/domain';
+import {
+  formatDeadlineCountdown,
+  getDaysUntilDeadline,
+  getDeadlineUrgency,
+  getOpenDeadlineDays,
+  isClosingThisWeek,
+  isPastDeadline
+} from '../../lib/deadlines';
+
+// Mid-afternoon, so the day boundaries are clearly on either side
+const NOW = new Date(2025, 8, 10, 15, 30).getTime();
+
+const application = (status: string, deadline: string | null) => ({ id: 'app', status, deadline } as Application);
+
+describe('getDaysUntilDeadline', () => {
+  it('counts calendar days from today regardless of the time', () => {
+    expect(getDaysUntilDeadline('2025-09-10', NOW)).toBe(0);
+    expect(getDaysUntilDeadline('2025-09-11', NOW)).toBe(1);
+    expect(getDaysUntilDeadline('2025-09-03', NOW)).toBe(-7);
+    expect(getDaysUntilDeadline('2025-10-01', NOW)).toBe(21);
+  });
+});
+
+describe('getOpenDeadlineDays', () => {
+  it('only applies before the application is submitted', () => {
+    expect(getOpenDeadlineDays(application('saved', '2025-09-12'), DEFAULT_PIPELINE_STAGES, NOW)).toBe(2);
+    expect(getOpenDeadlineDays(application('applied', '2025-09-12'), DEFAULT_PIPELINE_STAGES, NOW)).toBeNull();
+    expect(getOpenDeadlineDays(application('saved', null), DEFAULT_PIPELINE_STAGES, NOW)).toBeNull();
+  });
+});
+
+describe('deadline filters', () => {
+  it('treats today through the next seven days as closing this week', () => {
+    expect(isClosingThisWeek(application('saved', '2025-09-10'), DEFAULT_PIPELINE_STAGES, NOW)).toBe(true);
+    expect(isClosingThisWeek(application('saved', '2025-09-17'), DEFAULT_PIPELINE_STAGES, NOW)).toBe(true);
+    expect(isClosingThisWeek(application('saved', '2025-09-18'), DEFAULT_PIPELINE_STAGES, NOW)).toBe(false);
+    expect(isClosingThisWeek(application('saved', '2025-09-09'), DEFAULT_PIPELINE_STAGES, NOW)).toBe(false);
+  });
+
+  it('flags passed deadlines only while still unsubmitted', () => {
+    expect(isPastDeadline(application('saved', '2025-09-09'), DEFAULT_PIPELINE_STAGES, NOW)).toBe(true);
+    expect(isPastDeadline(application('interview', '2025-09-09'), DEFAULT_PIPELINE_STAGES, NOW)).toBe(false);
+  });
+});
+
+describe('countdown text', () => {
+  it('describes the days left or passed', () => {
+    expect([-3, -1, 0, 1, 5].map(formatDeadlineCountdown)).toEqual([
+      'Closed 3 days ago',
+      'Closed yesterday',
+      'Closes today',
+      'Closes tomorrow',
+      'Closes in 5 days'
+    ]);
+  });
+
+  it('grades urgency', () => {
+    expect([-1, 0, 7, 8].map(getDeadlineUrgency)).toEqual(['overdue', 'today', 'soon', 'later']);
+  });
+});
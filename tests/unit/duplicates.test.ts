@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Application, DEFAULT_PIPELINE_STAGES } from '../../lib/domain';
+import {
+  findDuplicates,
+  getDefaultPrimary,
+  getDuplicateClusters,
+  getMergedFields,
+  getTitleSimilarity,
+  normalizeCompany,
+  normalizeJobUrl
+} from '../../lib/duplicates';
+import { MAX_TAGS } from '../../lib/tags';
+
+const application = (id: string, overrides: Partial<Application> = {}) => ({
+  id,
+  userId: 'alice',
+  jobTitle: 'Software Engineer',
+  company: 'Acme',
+  location: '',
+  jobLink: '',
+  status: 'applied',
+  notes: '',
+  createdAt: Timestamp.fromMillis(Number(id.replace(/\D/g, '')) || 0),
+  ...overrides
+} as Application);
+
+describe('normalizeJobUrl', () => {
+  it('ignores the scheme, www, trailing slashes and tracking parameters', () => {
+    expect(normalizeJobUrl('https://www.Example.com/jobs/123/?utm_source=linkedin&gh_src=abc'))
+      .toBe('example.com/jobs/123');
+    expect(normalizeJobUrl('example.com/jobs/123')).toBe('example.com/jobs/123');
+  });
+
+  it('keeps the parameters that identify the job, sorted', () => {
+    expect(normalizeJobUrl('https://jobs.example.com/view?ref=feed&jobId=42&board=eng'))
+      .toBe('jobs.example.com/view?board=eng&jobId=42');
+  });
+
+  it('returns an empty string for blanks and non-URLs', () => {
+    expect(normalizeJobUrl('')).toBe('');
+    expect(normalizeJobUrl('   ')).toBe('');
+    expect(normalizeJobUrl('http://')).toBe('');
+  });
+});
+
+describe('normalizeCompany', () => {
+  it('drops legal suffixes, punctuation and accents', () => {
+    expect(normalizeCompany('Acme, Inc.')).toBe('acme');
+    expect(normalizeCompany('The Acme Company')).toBe('acme');
+    expect(normalizeCompany('Société Générale S.A.')).toBe('societe generale');
+    expect(normalizeCompany('AT&T')).toBe('at and t');
+  });
+});
+
+describe('getTitleSimilarity', () => {
+  it('expands abbreviations and ignores word order', () => {
+    expect(getTitleSimilarity('Sr. SWE', 'Senior Software Engineer')).toBe(1);
+    expect(getTitleSimilarity('Front-end Developer', 'Developer, Frontend')).toBe(1);
+    expect(getTitleSimilarity('Data Analyst', 'Software Engineer')).toBe(0);
+  });
+});
+
+describe('findDuplicates', () => {
+  const existing = [
+    application('a1', { company: 'Acme Inc', jobTitle: 'Senior Software Engineer' }),
+    application('a2', { company: 'Other', jobTitle: 'Designer', jobLink: 'https://jobs.acme.com/42?utm_medium=email' }),
+    application('a3', { company: 'Acme', jobTitle: 'Product Designer' })
+  ];
+
+  it('matches on the link or on company and a similar title, strongest first', () => {
+    const matches = findDuplicates(
+      { company: 'ACME', jobTitle: 'Sr SWE', jobLink: 'jobs.acme.com/42' },
+      existing
+    );
+    expect(matches.map(match => [match.application.id, match.reasons])).toEqual([
+      ['a1', ['title']],
+      ['a2', ['link']]
+    ]);
+  });
+
+  it('skips the application being edited', () => {
+    expect(findDuplicates({ company: 'Acme', jobTitle: 'Senior Software Engineer' }, existing, 'a1')).toEqual([]);
+  });
+});
+
+describe('getDuplicateClusters', () => {
+  it('groups matching applications oldest first and respects pairs marked distinct', () => {
+    const clusters = getDuplicateClusters([
+      application('a3'),
+      application('a1'),
+      application('a2', { notDuplicateOf: ['a1', 'a3'] }),
+      application('a4', { company: 'Elsewhere' })
+    ]);
+    expect(clusters.map(cluster => cluster.map(app => app.id))).toEqual([['a1', 'a3']]);
+  });
+});
+
+describe('merging', () => {
+  it('defaults to the application furthest along the pipeline', () => {
+    const cluster = [application('a1'), application('a2', { status: 'interview' }), application('a3', { status: 'saved' })];
+    expect(getDefaultPrimary(cluster, DEFAULT_PIPELINE_STAGES).id).toBe('a2');
+  });
+
+  it('keeps the primary\'s values and status history and fills gaps from the others', () => {
+    const history = [{ from: null, to: 'interview', changedAt: Timestamp.fromMillis(2), source: 'created' as const }];
+    const primary = application('a2', { status: 'interview', statusHistory: history, notes: 'Mine' });
+    const other = application('a1', {
+      location: 'Remote',
+      notes: 'Theirs',
+      resumeId: 'r',
+      resumeVersionId: 'v2',
+      statusHistory: [{ from: null, to: 'applied', changedAt: Timestamp.fromMillis(1), source: 'created' }]
+    });
+
+    const merged = getMergedFields(primary, [other]);
+    expect(merged.statusHistory).toBeUndefined();
+    expect(merged.location).toBe('Remote');
+    expect(merged.notes).toBe('Mine\n\n[Merged from Software Engineer at Acme]\nTheirs');
+    expect(merged).toMatchObject({ resumeId: 'r', resumeVersionId: 'v2' });
+  });
+
+  it('caps tags and custom fields at the rule limits, keeping the primary\'s first', () => {
+    const fields = (prefix: string, count: number) =>
+      Object.fromEntries(Array.from({ length: count }, (_, index) => [`${prefix}${index}`, index]));
+    const primary = application('a1', {
+      tags: Array.from({ length: 15 }, (_, index) => `mine ${index}`),
+      customFields: fields('mine', 20)
+    });
+    const other = application('a2', {
+      tags: Array.from({ length: 15 }, (_, index) => `theirs ${index}`),
+      customFields: { ...fields('theirs', 20), mine0: 'overridden' }
+    });
+
+    const merged = getMergedFields(primary, [other]);
+    const tags = merged.tags as string[];
+    const customFields = merged.customFields as Record<string, unknown>;
+    expect(tags).toHaveLength(MAX_TAGS);
+    expect(tags.slice(0, 15)).toEqual(primary.tags);
+    expect(Object.keys(customFields)).toHaveLength(30);
+    expect(customFields.mine0).toBe(0);
+    expect(customFields.mine19).toBe(19);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Application } from '../../lib/domain';
+import { REMOTE_OVERRIDE, geocodeLocation, resolveApplicationLocation } from '../../lib/geocoding';
+
+const cityId = (location: string) => {
+  const result = geocodeLocation(location);
+  return result.kind === 'city' ? result.city.id : result.kind;
+};
+
+describe('geocodeLocation', () => {
+  it('matches cities by name and alias', () => {
+    expect(cityId('San Francisco, CA')).toBe('san-francisco-ca');
+    expect(cityId('NYC')).toBe('new-york-ny');
+    expect(cityId('SF Bay Area')).toBe('san-francisco-ca');
+    expect(cityId('Greater Boston Area (Hybrid)')).toBe('boston-ma');
+  });
+
+  it('uses the state or country to pick between cities with the same name', () => {
+    expect(cityId('Portland')).toBe('portland-or');
+    expect(cityId('Portland, ME')).toBe('portland-me');
+    expect(cityId('Cambridge, Massachusetts')).toBe('cambridge-ma');
+    expect(cityId('Cambridge, UK')).toBe('cambridge-gb');
+    expect(cityId('Toronto, ON, Canada')).toBe('toronto-on');
+  });
+
+  it('leaves a city unresolved when its state or country matches none of the candidates', () => {
+    expect(cityId('London, ON')).toBe('unresolved');
+    expect(cityId('Paris, TX')).toBe('unresolved');
+    expect(cityId('Paris, France')).toBe('paris-fr');
+  });
+
+  it('prefers a city over a remote marker', () => {
+    expect(cityId('New York, NY / Remote')).toBe('new-york-ny');
+    expect(cityId('London, ON / Remote')).toBe('remote');
+    expect(cityId('Remote - US')).toBe('remote');
+  });
+
+  it('leaves empty and unknown locations unresolved', () => {
+    expect(cityId('')).toBe('unresolved');
+    expect(cityId('Atlantis')).toBe('unresolved');
+    expect(geocodeLocation(undefined)).toEqual({ kind: 'unresolved' });
+  });
+});
+
+describe('resolveApplicationLocation', () => {
+  const application = (overrides: Partial<Application>) => ({ id: 'a', location: 'Austin, TX', ...overrides } as Application);
+
+  it('reads the location text when there is no override', () => {
+    expect(resolveApplicationLocation(application({}))).toMatchObject({ kind: 'city', city: { id: 'austin-tx' }, manual: false });
+  });
+
+  it('lets a manual override win over the text', () => {
+    expect(resolveApplicationLocation(application({ locationOverride: 'seattle-wa' })))
+      .toMatchObject({ kind: 'city', city: { id: 'seattle-wa' }, manual: true });
+    expect(resolveApplicationLocation(application({ locationOverride: REMOTE_OVERRIDE }))).toEqual({ kind: 'remote', manual: true });
+  });
+
+  it('falls back to the text when the override names an unknown city', () => {
+    expect(resolveApplicationLocation(application({ locationOverride: 'gone-city' })))
+      .toMatchObject({ kind: 'city', city: { id: 'austin-tx' }, manual: false });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Interview } from '../../lib/domain';
+import {
+  formatInterviewDay,
+  getNextInterviews,
+  getUpcomingInterviews,
+  isUpcoming,
+  toZonedInputValue,
+  zonedTimeToDate
+} from '../../lib/interviews';
+
+const interview = (id: string, applicationId: string, scheduledAt: string, overrides: Partial<Interview> = {}) => ({
+  id,
+  applicationId,
+  scheduledAt: Timestamp.fromDate(new Date(scheduledAt)),
+  durationMinutes: 60,
+  timeZone: 'UTC',
+  ...overrides
+} as Interview);
+
+describe('zoned times', () => {
+  it('reads wall-clock time in the interview zone', () => {
+    expect(zonedTimeToDate('2025-10-14T14:00', 'America/New_York').toISOString()).toBe('2025-10-14T18:00:00.000Z');
+    expect(zonedTimeToDate('2025-01-14T14:00', 'America/New_York').toISOString()).toBe('2025-01-14T19:00:00.000Z');
+    expect(zonedTimeToDate('2025-10-14T09:30', 'Asia/Kolkata').toISOString()).toBe('2025-10-14T04:00:00.000Z');
+  });
+
+  it('resolves times right after a DST switch', () => {
+    // Clocks in New York jumped from 2:00 to 3:00 EDT on March 9, 2025
+    expect(zonedTimeToDate('2025-03-09T03:30', 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('round-trips through the input value', () => {
+    const date = zonedTimeToDate('2025-11-02T08:15', 'Europe/London');
+    expect(toZonedInputValue(date, 'Europe/London')).toBe('2025-11-02T08:15');
+  });
+});
+
+describe('upcoming interviews', () => {
+  const now = new Date('2025-10-14T12:00:00Z').getTime();
+
+  it('keeps interviews until they end, but never cancelled ones', () => {
+    expect(isUpcoming(interview('a', 'x', '2025-10-14T11:30:00Z'), now)).toBe(true);
+    expect(isUpcoming(interview('b', 'x', '2025-10-14T10:30:00Z'), now)).toBe(false);
+    expect(isUpcoming(interview('c', 'x', '2025-10-15T10:00:00Z', { outcome: 'cancelled' }), now)).toBe(false);
+  });
+
+  it('sorts soonest first and picks each application\'s next one', () => {
+    const interviews = [
+      interview('late', 'x', '2025-10-20T10:00:00Z'),
+      interview('soon', 'x', '2025-10-15T10:00:00Z'),
+      interview('other', 'y', '2025-10-16T10:00:00Z'),
+      interview('past', 'y', '2025-10-01T10:00:00Z')
+    ];
+    expect(getUpcomingInterviews(interviews, now).map(item => item.id)).toEqual(['soon', 'other', 'late']);
+    const next = getNextInterviews(interviews, now);
+    expect(next.get('x').id).toBe('soon');
+    expect(next.get('y').id).toBe('other');
+  });
+
+  it('names the day in the interview zone', () => {
+    const evening = new Date('2025-10-14T23:30:00Z');
+    expect(formatInterviewDay(evening, 'UTC', now)).toBe('Today');
+    expect(formatInterviewDay(evening, 'Asia/Tokyo', now)).toBe('Tomorrow');
+    expect(formatInterviewDay(new Date('2025-10-17T12:00:00Z'), 'UTC', now)).toBe('In 3 days');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEntities, findDeadlineInText, htmlToText, parseDeadline, parseJobPosting } from '../../lib/jobPosting';
+
+describe('decodeEntities', () => {
+  it('decodes named, decimal and hex entities', () => {
+    expect(decodeEntities('R&amp;D &lt;team&gt; &#8211; caf&#xE9; &rsquo;')).toBe('R&D <team> – café ’');
+  });
+
+  it('leaves unknown and out-of-range entities as they are', () => {
+    expect(decodeEntities('&bogus; &#0; &#99999999; &#x110000;')).toBe('&bogus; &#0; &#99999999; &#x110000;');
+    expect(decodeEntities('&#x10FFFF;')).toBe(String.fromCodePoint(0x10ffff));
+  });
+});
+
+describe('htmlToText', () => {
+  it('turns blocks into lines and list items into bullets', () => {
+    expect(htmlToText('<h2>About</h2><p>We build&nbsp;tools.</p><ul><li>React</li><li>Go</li></ul><script>track()</script>'))
+      .toBe('About\nWe build tools.\n\n• React\n• Go');
+  });
+});
+
+describe('deadlines', () => {
+  it('parses the common date formats', () => {
+    expect(parseDeadline('2025-10-31T23:59:00-07:00')).toBe('2025-10-31');
+    expect(parseDeadline('October 31st, 2025')).toBe('2025-10-31');
+    expect(parseDeadline('31 Oct 2025')).toBe('2025-10-31');
+    expect(parseDeadline('10/31/2025')).toBe('2025-10-31');
+    expect(parseDeadline('soon')).toBe('');
+  });
+
+  it('finds a closing date mentioned in the text', () => {
+    expect(findDeadlineInText('Great team.\nApply by: Friday, November 14, 2025\nThanks')).toBe('2025-11-14');
+    expect(findDeadlineInText('No dates here')).toBe('');
+  });
+});
+
+describe('parseJobPosting', () => {
+  const jsonLd = (posting: Record<string, unknown>) =>
+    `<script type="application/ld+json">${JSON.stringify({ '@context': 'https://schema.org', '@graph': [{ '@type': 'WebPage' }, posting] })}</script>`;
+
+  it('reads a JSON-LD JobPosting, including inside @graph', () => {
+    const posting = parseJobPosting(jsonLd({
+      '@type': 'JobPosting',
+      title: 'Data Analyst &amp; Engineer',
+      hiringOrganization: { name: 'Acme' },
+      jobLocation: [{ address: { addressLocality: 'Austin', addressRegion: 'TX' } }],
+      jobLocationType: 'TELECOMMUTE',
+      url: 'https://jobs.acme.com/1',
+      description: '&lt;p&gt;Analyze things.&lt;/p&gt;',
+      validThrough: '2025-12-01T00:00'
+    }));
+
+    expect(posting).toEqual({
+      jobTitle: 'Data Analyst & Engineer',
+      company: 'Acme',
+      location: 'Austin, TX / Remote',
+      jobLink: 'https://jobs.acme.com/1',
+      description: 'Analyze things.',
+      deadline: '2025-12-01',
+      source: 'json-ld'
+    });
+  });
+
+  it('survives out-of-range entities in pasted JSON-LD', () => {
+    const posting = parseJobPosting(jsonLd({ '@type': 'JobPosting', title: 'Engineer &#99999999;', hiringOrganization: 'Acme' }));
+    expect(posting.jobTitle).toBe('Engineer &#99999999;');
+  });
+
+  it('drops links that are not http or https', () => {
+    expect(parseJobPosting(jsonLd({ '@type': 'JobPosting', title: 'Engineer', url: 'javascript:alert(1)' })).jobLink).toBe('');
+    expect(parseJobPosting(jsonLd({ '@type': 'JobPosting', title: 'Engineer', url: ' JavaScript:alert(1)' })).jobLink).toBe('');
+    expect(parseJobPosting(jsonLd({ '@type': 'JobPosting', title: 'Engineer', url: 'HTTPS://jobs.acme.com/2' })).jobLink).toBe('HTTPS://jobs.acme.com/2');
+  });
+
+  it('reads the company and location from nested JSON-LD objects', () => {
+    const posting = parseJobPosting(jsonLd({
+      '@type': ['JobPosting'],
+      title: 'Engineer',
+      hiringOrganization: { '@type': 'Organization', name: 'Acme' },
+      jobLocation: { address: { addressLocality: 'Toronto', addressCountry: { name: 'Canada' } } }
+    }));
+    expect(posting).toMatchObject({ company: 'Acme', location: 'Toronto, Canada' });
+  });
+
+  it('skips invalid JSON-LD blocks', () => {
+    const input = `<script type="application/ld+json">{ not json</script>${jsonLd({ '@type': 'JobPosting', title: 'Designer' })}`;
+    expect(parseJobPosting(input).jobTitle).toBe('Designer');
+  });
+
+  it('reads labelled lines from plain text', () => {
+    const posting = parseJobPosting('Position: Backend Engineer\nCompany: Initech\nLocation: Remote\nApply at https://initech.example/jobs/7\nDeadline: 2026-01-15');
+    expect(posting).toMatchObject({
+      jobTitle: 'Backend Engineer',
+      company: 'Initech',
+      location: 'Remote',
+      jobLink: 'https://initech.example/jobs/7',
+      deadline: '2026-01-15',
+      source: 'text'
+    });
+  });
+
+  it('falls back to the first line as the title', () => {
+    expect(parseJobPosting('Senior Designer\nWe are hiring.').jobTitle).toBe('Senior Designer');
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import normalizeApplicationStatuses from '../../scripts/migrations/001-normalize-application-statuses';
+import backfillUpdatedAt from '../../scripts/migrations/002-backfill-updated-at';
+import backfillUserId from '../../scripts/migrations/003-backfill-user-id';
+import moveLegacyResumeFiles from '../../scripts/migrations/004-move-legacy-resume-files';
+import backfillResumeCreatedAt from '../../scripts/migrations/005-backfill-resume-created-at';
+import { MIGRATIONS_COLLECTION, runMigrations } from '../../scripts/migrations/runner';
+import { Bucket, Migration, MigrationContext } from '../../scripts/migrations/types';
+
+// An in-memory stand-in for the parts of the Admin SDK the runner uses,
+// keyed by document path
+function createFakeFirestore(seed: Record<string, Record<string, unknown>> = {}) {
+  const docs = new Map(Object.entries(seed).map(([path, data]) => [path, { ...data }]));
+  let commits = 0;
+
+  const docRef = (path: string) => ({
+    path,
+    async get() {
+      return { exists: docs.has(path), data: () => docs.get(path) };
+    },
+    async set(data: Record<string, unknown>) {
+      docs.set(path, data);
+    }
+  });
+
+  const query = (matches: (path: string) => boolean, after = '', max = Infinity) => ({
+    orderBy: () => query(matches, after, max),
+    limit: (count: number) => query(matches, after, count),
+    startAfter: (last: { ref: { path: string } }) => query(matches, last.ref.path, max),
+    async get() {
+      const page = Array.from(docs.keys())
+        .filter(path => matches(path) && path > after)
+        .sort()
+        .slice(0, max)
+        .map(path => ({ ref: docRef(path), data: () => ({ ...docs.get(path) }) }));
+      return { empty: page.length === 0, size: page.length, docs: page };
+    }
+  });
+
+  const db = {
+    collection: (name: string) => Object.assign(
+      query(path => path.startsWith(`${name}/`) && path.split('/').length === 2),
+      { doc: (id: string) => docRef(`${name}/${id}`) }
+    ),
+    collectionGroup: (name: string) => query((path) => {
+      const segments = path.split('/');
+      return segments.length % 2 === 0 && segments[segments.length - 2] === name;
+    }),
+    batch() {
+      const updates: [string, Record<string, unknown>][] = [];
+      return {
+        update: (ref: { path: string }, patch: Record<string, unknown>) => updates.push([ref.path, patch]),
+        async commit() {
+          commits++;
+          updates.forEach(([path, patch]) => docs.set(path, { ...docs.get(path), ...patch }));
+        }
+      };
+    }
+  };
+
+  return { db: db as unknown as Firestore, docs, commitCount: () => commits };
+}
+
+const bucket = {} as Bucket;
+const context = { options: { dryRun: false, ownerId: 'alice' } } as MigrationContext;
+
+// Marks every document it sees, leaving marked ones alone
+const markMigration = (overrides: Partial<Migration> = {}): Migration => ({
+  id: '100-mark',
+  description: 'Mark every document',
+  collections: ['items'],
+  transform: data => (data.marked ? null : { marked: true }),
+  ...overrides
+});
+
+describe('migration transforms', () => {
+  const uploaded = Timestamp.fromMillis(1_700_000_000_000);
+
+  it('maps legacy statuses and keeps custom stage ids', () => {
+    expect(normalizeApplicationStatuses.transform({ status: 'to-apply' }, context)).toEqual({ status: 'saved' });
+    expect(normalizeApplicationStatuses.transform({ status: 'interviewing' }, context)).toEqual({ status: 'interview' });
+    expect(normalizeApplicationStatuses.transform({}, context)).toEqual({ status: 'saved' });
+    expect(normalizeApplicationStatuses.transform({ status: 'take-home' }, context)).toBeNull();
+  });
+
+  it('backfills updatedAt from createdAt, then uploadDate', () => {
+    expect(backfillUpdatedAt.transform({ createdAt: uploaded }, context)).toEqual({ updatedAt: uploaded });
+    expect(backfillUpdatedAt.transform({ uploadDate: uploaded }, context)).toEqual({ updatedAt: uploaded });
+    expect(backfillUpdatedAt.transform({ updatedAt: uploaded }, context)).toBeNull();
+  });
+
+  it('assigns ownerless documents to --owner and skips without it', () => {
+    expect(backfillUserId.transform({}, context)).toEqual({ userId: 'alice' });
+    expect(backfillUserId.transform({ userId: 'bob' }, context)).toBeNull();
+    expect(backfillUserId.skipReason({ ...context, options: { dryRun: false } })).toMatch(/--owner/);
+  });
+
+  it('moves legacy resume files into the owner folder', () => {
+    expect(moveLegacyResumeFiles.transform({ userId: 'alice', fileName: '1_cv.pdf' }, context))
+      .toEqual({ storagePath: 'resumes/alice/1_cv.pdf' });
+    expect(moveLegacyResumeFiles.transform({ userId: 'alice', fileName: '1_cv.pdf', storagePath: 'resumes/alice/1_cv.pdf' }, context)).toBeNull();
+    expect(moveLegacyResumeFiles.transform({ fileName: '1_cv.pdf' }, context)).toBeNull();
+  });
+
+  it('backfills resume createdAt from uploadDate', () => {
+    expect(backfillResumeCreatedAt.transform({ uploadDate: uploaded }, context)).toEqual({ createdAt: uploaded });
+    expect(backfillResumeCreatedAt.transform({ uploadDate: uploaded, createdAt: uploaded }, context)).toBeNull();
+  });
+
+  it('return null on their own output', () => {
+    const data = { status: 'to-apply', uploadDate: uploaded, fileName: '1_cv.pdf' };
+    [normalizeApplicationStatuses, backfillUpdatedAt, backfillUserId, moveLegacyResumeFiles, backfillResumeCreatedAt].reduce((current, migration) => {
+      const migrated = { ...current, ...migration.transform(current, context) };
+      expect(migration.transform(migrated, context)).toBeNull();
+      return migrated;
+    }, data as Record<string, unknown>);
+  });
+});
+
+describe('runMigrations', () => {
+  const items = (count: number) => Object.fromEntries(
+    Array.from({ length: count }, (_, index) => [`items/${String(index).padStart(4, '0')}`, {}])
+  );
+
+  it('pages through every document and records the migration', async () => {
+    const { db, docs, commitCount } = createFakeFirestore(items(1201));
+    const [report] = await runMigrations([markMigration()], db, bucket, { dryRun: false });
+
+    expect(report).toMatchObject({ status: 'applied', documentsScanned: 1201, documentsUpdated: 1201, updatesByCollection: { items: 1201 } });
+    expect(commitCount()).toBe(3);
+    expect(Array.from(docs.values()).filter(data => data.marked)).toHaveLength(1201);
+    expect(docs.get(`${MIGRATIONS_COLLECTION}/100-mark`)).toMatchObject({ id: '100-mark', documentsUpdated: 1201 });
+  });
+
+  it('never runs an applied migration twice', async () => {
+    const { db, commitCount } = createFakeFirestore(items(3));
+    await runMigrations([markMigration()], db, bucket, { dryRun: false });
+    const [report] = await runMigrations([markMigration()], db, bucket, { dryRun: false });
+
+    expect(report.status).toBe('already-applied');
+    expect(commitCount()).toBe(1);
+  });
+
+  it('only counts documents the transform changes', async () => {
+    const { db } = createFakeFirestore({ 'items/a': { marked: true }, 'items/b': {} });
+    const [report] = await runMigrations([markMigration()], db, bucket, { dryRun: false });
+    expect(report).toMatchObject({ documentsScanned: 2, documentsUpdated: 1 });
+  });
+
+  it('reports a dry run without writing or recording anything', async () => {
+    const beforeUpdate = vi.fn(async () => ({}));
+    const { db, docs } = createFakeFirestore(items(2));
+    const [report] = await runMigrations([markMigration({ beforeUpdate })], db, bucket, { dryRun: true });
+
+    expect(report).toMatchObject({ status: 'dry-run', documentsUpdated: 2 });
+    expect(Array.from(docs.values()).some(data => data.marked)).toBe(false);
+    expect(docs.has(`${MIGRATIONS_COLLECTION}/100-mark`)).toBe(false);
+    expect(beforeUpdate).not.toHaveBeenCalled();
+  });
+
+  it('leaves a skipped migration pending', async () => {
+    const { db, docs } = createFakeFirestore(items(1));
+    const [report] = await runMigrations([markMigration({ skipReason: () => 'needs --owner' })], db, bucket, { dryRun: false });
+
+    expect(report).toMatchObject({ status: 'skipped', reason: 'needs --owner' });
+    expect(docs.has(`${MIGRATIONS_COLLECTION}/100-mark`)).toBe(false);
+  });
+
+  it('runs in id order and waits for dependencies', async () => {
+    const { db } = createFakeFirestore(items(1));
+    const first = markMigration({ id: '101-first', skipReason: () => 'not yet' });
+    const second = markMigration({ id: '102-second', dependsOn: ['101-first'] });
+
+    const reports = await runMigrations([second, first], db, bucket, { dryRun: false });
+    expect(reports.map(report => [report.id, report.status, report.reason])).toEqual([
+      ['101-first', 'skipped', 'not yet'],
+      ['102-second', 'skipped', 'waiting for 101-first']
+    ]);
+
+    const afterFirst = await runMigrations([markMigration({ id: '101-first' }), second], db, bucket, { dryRun: true });
+    expect(afterFirst.map(report => report.status)).toEqual(['dry-run', 'dry-run']);
+  });
+
+  it('migrates collection groups and writes the fields beforeUpdate adds', async () => {
+    const { db, docs } = createFakeFirestore({ 'resumes/r1': {}, 'resumes/r1/versions/v1': {}, 'resumes/r2/versions/v2': { marked: true } });
+    const migration = markMigration({
+      collections: [],
+      collectionGroups: ['versions'],
+      beforeUpdate: async () => ({ movedAt: 'now' })
+    });
+    const [report] = await runMigrations([migration], db, bucket, { dryRun: false });
+
+    expect(report.updatesByCollection).toEqual({ versions: 1 });
+    expect(docs.get('resumes/r1/versions/v1')).toEqual({ marked: true, movedAt: 'now' });
+    expect(docs.get('resumes/r1')).toEqual({});
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Offer, OfferSettings } from '../../lib/domain';
+import {
+  DEFAULT_FACTOR_WEIGHT,
+  formatMoney,
+  getAnnualBase,
+  getFactorScore,
+  getFactorWeights,
+  getFirstYearCompensation,
+  getFourYearCompensation,
+  parseVestingSchedule
+} from '../../lib/offers';
+
+const offer = (overrides: Partial<Offer> = {}) => ({
+  id: 'offer',
+  currency: 'USD',
+  baseSalary: 100000,
+  payPeriod: 'year',
+  annualBonus: 10000,
+  signOnBonus: 20000,
+  equityValue: 200000,
+  vestingSchedule: [25, 25, 25, 25],
+  decision: 'pending',
+  factorScores: {},
+  ...overrides
+} as Offer);
+
+describe('compensation', () => {
+  it('annualizes hourly and monthly pay', () => {
+    expect(getAnnualBase(offer({ baseSalary: 50, payPeriod: 'hour' }))).toBe(104000);
+    expect(getAnnualBase(offer({ baseSalary: 8000, payPeriod: 'month' }))).toBe(96000);
+  });
+
+  it('counts the sign-on bonus in the first year only', () => {
+    expect(getFirstYearCompensation(offer())).toBe(100000 + 10000 + 50000 + 20000);
+    expect(getFourYearCompensation(offer())).toBe(4 * 110000 + 200000 + 20000);
+  });
+
+  it('follows the vesting schedule and stops when it ends', () => {
+    const backLoaded = offer({ signOnBonus: null, annualBonus: null, vestingSchedule: [5, 15, 40, 40] });
+    expect(getFirstYearCompensation(backLoaded)).toBe(110000);
+    const threeYears = offer({ signOnBonus: null, annualBonus: null, vestingSchedule: [34, 33, 33] });
+    expect(getFourYearCompensation(threeYears)).toBe(400000 + 200000);
+  });
+});
+
+describe('parseVestingSchedule', () => {
+  it('accepts slashes, commas and spaces', () => {
+    expect(parseVestingSchedule('25/25/25/25')).toEqual([25, 25, 25, 25]);
+    expect(parseVestingSchedule('5, 15, 40 40')).toEqual([5, 15, 40, 40]);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseVestingSchedule('')).toBeNull();
+    expect(parseVestingSchedule('25/abc')).toBeNull();
+    expect(parseVestingSchedule('-5/105')).toBeNull();
+  });
+});
+
+describe('factor scores', () => {
+  it('defaults weights the user has not set', () => {
+    const settings: OfferSettings = { id: 'alice', userId: 'alice', factorWeights: { growth: 5, team: 0 }, createdAt: null, updatedAt: null };
+    expect(getFactorWeights(settings)).toMatchObject({ growth: 5, team: 0, stability: DEFAULT_FACTOR_WEIGHT });
+  });
+
+  it('averages scored factors by weight on a 0-100 scale', () => {
+    const weights = getFactorWeights(null);
+    expect(getFactorScore(offer(), weights)).toBeNull();
+    expect(getFactorScore(offer({ factorScores: { growth: 5, team: 1 } }), weights)).toBe(50);
+    expect(getFactorScore(offer({ factorScores: { growth: 5, team: 1 } }), { ...weights, team: 0 })).toBe(100);
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats known currencies and still shows unknown ones', () => {
+    expect(formatMoney(123456.7, 'USD')).toBe('$123,457');
+    expect(formatMoney(1000, 'ZZZZ')).toBe('ZZZZ 1,000');
+  });
+});
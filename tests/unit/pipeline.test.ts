@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PIPELINE_STAGES, PipelineStage } from '../../lib/domain';
+import { createStageId, getResponseStatuses, getSubmittedStageIndex } from '../../lib/pipeline';
+
+// firestore.rules only accepts statuses that match this pattern
+const RULES_STATUS_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+const stage = (id: string): PipelineStage => ({ id, name: id, color: 'slate', kind: 'active' });
+
+describe('createStageId', () => {
+  it('slugs the stage name', () => {
+    expect(createStageId('Phone Screen', [])).toBe('phone-screen');
+    expect(createStageId('  Take-home / Tech test! ', [])).toBe('take-home-tech-test');
+    expect(createStageId('Entrevista técnica', [])).toBe('entrevista-tecnica');
+  });
+
+  it('falls back to "stage" when nothing of the name is left', () => {
+    expect(createStageId('', [])).toBe('stage');
+    expect(createStageId('🎉 !!', [])).toBe('stage');
+    expect(createStageId('面接', [])).toBe('stage');
+  });
+
+  it('adds a numeric suffix until the id is unused', () => {
+    expect(createStageId('Interview', ['interview'])).toBe('interview-2');
+    expect(createStageId('Interview', ['interview', 'interview-2', 'interview-3'])).toBe('interview-4');
+  });
+
+  it('never produces an id the Firestore rules reject', () => {
+    const names = [
+      '', ' ', '---', '🎉', '面接', 'Ünïcödé stage', 'İstanbul office', 'ß', 'a'.repeat(200),
+      `${'word '.repeat(30)}end`, 'Offer 🎉 (final)', 'tab\tand\nnewline', 'UPPER_snake_case', '123'
+    ];
+    for (const name of names) {
+      const existing: string[] = [];
+      // Plenty of duplicates so long names also get multi-digit suffixes
+      for (let i = 0; i < 120; i++) {
+        const id = createStageId(name, existing);
+        expect(id, JSON.stringify(name)).toMatch(RULES_STATUS_PATTERN);
+        expect(existing).not.toContain(id);
+        existing.push(id);
+      }
+    }
+  });
+});
+
+describe('getSubmittedStageIndex', () => {
+  it('finds the built-in Applied stage', () => {
+    expect(getSubmittedStageIndex(DEFAULT_PIPELINE_STAGES)).toBe(1);
+    expect(getSubmittedStageIndex([stage('wishlist'), stage('researching'), stage('applied')])).toBe(2);
+  });
+
+  it('uses the second stage of custom pipelines without Applied', () => {
+    expect(getSubmittedStageIndex([stage('wishlist'), stage('sent'), stage('call')])).toBe(1);
+  });
+
+  it('stays in range for a single-stage pipeline', () => {
+    expect(getSubmittedStageIndex([stage('only')])).toBe(0);
+  });
+});
+
+describe('getResponseStatuses', () => {
+  it('lists every stage after the submitted one', () => {
+    expect(getResponseStatuses(DEFAULT_PIPELINE_STAGES)).toEqual(['phone-screen', 'interview', 'offer', 'rejected']);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Application, DEFAULT_PIPELINE_STAGES, StatusChange } from '../../lib/domain';
+import { getGroupSummaries, getOfferCount, getPipelineSummary, getProgressPath } from '../../lib/pipelineAnalytics';
+
+const PROGRESS_IDS = ['saved', 'applied', 'phone-screen', 'interview', 'offer'];
+
+// An application that moved through the given statuses, one day apart
+const application = (id: string, statuses: string[], overrides: Partial<Application> = {}) => {
+  const statusHistory = statuses.map((to, index): StatusChange => ({
+    from: index === 0 ? null : statuses[index - 1],
+    to,
+    changedAt: Timestamp.fromMillis(Date.UTC(2025, 8, 1 + index)),
+    source: index === 0 ? 'created' : 'edit'
+  }));
+  return {
+    id,
+    status: statuses[statuses.length - 1],
+    statusHistory,
+    createdAt: Timestamp.fromMillis(Date.UTC(2025, 8, 1)),
+    ...overrides
+  } as Application;
+};
+
+describe('getProgressPath', () => {
+  it('keeps only forward moves through the progress stages', () => {
+    const app = application('a', ['saved', 'applied', 'phone-screen', 'applied', 'interview']);
+    expect(getProgressPath(app, PROGRESS_IDS)).toEqual(['saved', 'applied', 'phone-screen', 'interview']);
+  });
+
+  it('ends at the furthest progress stage before a closing stage', () => {
+    expect(getProgressPath(application('a', ['saved', 'applied', 'rejected']), PROGRESS_IDS)).toEqual(['saved', 'applied']);
+  });
+
+  it('attributes applications added straight to a closing stage to the first stage', () => {
+    expect(getProgressPath(application('a', ['rejected']), PROGRESS_IDS)).toEqual(['saved']);
+  });
+});
+
+describe('getPipelineSummary', () => {
+  const applications = [
+    application('skipped', ['saved', 'applied', 'interview']),
+    application('rejected', ['saved', 'applied', 'rejected']),
+    application('waiting', ['saved'])
+  ];
+  const summary = getPipelineSummary(applications, DEFAULT_PIPELINE_STAGES);
+
+  it('counts every stage up to the furthest one reached, including skipped stages', () => {
+    expect(summary.total).toBe(3);
+    expect(summary.stages.map(stage => [stage.status, stage.reached])).toEqual([
+      ['saved', 3], ['applied', 2], ['phone-screen', 1], ['interview', 1], ['offer', 0]
+    ]);
+  });
+
+  it('computes conversion from the previous stage and where applications dropped off', () => {
+    expect(summary.stages.map(stage => stage.conversion)).toEqual([1, 2 / 3, 0.5, 1, 0]);
+    expect(summary.stages.find(stage => stage.status === 'applied')?.droppedHere).toBe(1);
+    expect(summary.closed).toEqual([{ status: 'rejected', count: 1 }]);
+  });
+
+  it('records stage-to-stage flows, including into closing stages', () => {
+    expect(summary.flows).toEqual([
+      { from: 'saved', to: 'applied', count: 2 },
+      { from: 'applied', to: 'interview', count: 1 },
+      { from: 'applied', to: 'rejected', count: 1 }
+    ]);
+  });
+
+  it('counts offers from the first positive stage', () => {
+    const withOffer = getPipelineSummary([...applications, application('offer', ['saved', 'applied', 'offer'])], DEFAULT_PIPELINE_STAGES);
+    expect(getOfferCount(summary, DEFAULT_PIPELINE_STAGES)).toBe(0);
+    expect(getOfferCount(withOffer, DEFAULT_PIPELINE_STAGES)).toBe(1);
+  });
+});
+
+describe('getGroupSummaries', () => {
+  it('summarizes each group, largest first, with applications in several groups or none', () => {
+    const applications = [
+      application('a', ['saved'], { tags: ['remote', 'referral'] }),
+      application('b', ['saved', 'applied'], { tags: ['remote'] }),
+      application('c', ['saved'], { tags: [] })
+    ];
+    const groups = getGroupSummaries(applications, DEFAULT_PIPELINE_STAGES, app => app.tags || []);
+
+    expect(groups.map(({ group, summary }) => [group, summary.total])).toEqual([['remote', 2], ['referral', 1]]);
+    expect(groups[0].summary.stages[1]).toMatchObject({ status: 'applied', reached: 1 });
+  });
+});
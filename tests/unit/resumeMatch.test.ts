@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Resume } from '../../lib/domain';
+import { extractSkills, getMatchReport, rankResumes } from '../../lib/resumeMatch';
+
+const mentions = (text: string) =>
+  Object.fromEntries(Array.from(extractSkills(text).values()).map(({ skill, mentions: count }) => [skill.id, count]));
+
+describe('extractSkills', () => {
+  it('matches whole words only', () => {
+    expect(mentions('JavaScript and TypeScript')).toEqual({ javascript: 1, typescript: 1 });
+    expect(mentions('C++ and C#')).toEqual({ cpp: 1, csharp: 1 });
+  });
+
+  it('claims the longest alias first', () => {
+    expect(mentions('React Native apps')).toEqual({ 'react-native': 1 });
+    expect(mentions('React and React Native')).toEqual({ react: 1, 'react-native': 1 });
+  });
+
+  it('counts aliases towards their skill', () => {
+    expect(mentions('Postgres, PostgreSQL and k8s')).toEqual({ postgresql: 2, kubernetes: 1 });
+  });
+
+  it('only matches case-sensitive names as written', () => {
+    expect(mentions('Experience with R and Go')).toEqual({ r: 1, go: 1 });
+    expect(mentions('we go to r&d')).toEqual({});
+  });
+});
+
+describe('getMatchReport', () => {
+  const description = extractSkills('React React React React Docker. Python preferred.');
+
+  it('weighs skills by mentions, capped', () => {
+    // React weighs 3 (capped), Docker 1, Python 1
+    expect(getMatchReport(extractSkills('React and Python'), description).score).toBe(80);
+    expect(getMatchReport(extractSkills('Docker'), description).score).toBe(20);
+  });
+
+  it('lists matched and missing skills, most mentioned first', () => {
+    const report = getMatchReport(extractSkills('Docker'), description);
+    expect(report.matched.map(mention => mention.skill.id)).toEqual(['docker']);
+    expect(report.missing.map(mention => mention.skill.id)).toEqual(['react', 'python']);
+  });
+
+  it('has no score when the description names no known skills', () => {
+    expect(getMatchReport(extractSkills('React'), extractSkills('Great culture')).score).toBeNull();
+  });
+});
+
+describe('rankResumes', () => {
+  const resume = (id: string) => ({ id, name: id } as Resume);
+
+  it('ranks resumes with known text, best first', () => {
+    const texts = new Map([['frontend', 'React, TypeScript'], ['backend', 'Python, Docker']]);
+    const ranked = rankResumes([resume('backend'), resume('frontend'), resume('unread')], texts, extractSkills('React and TypeScript'));
+    expect(ranked.map(entry => [entry.resume.id, entry.report.score])).toEqual([['frontend', 100], ['backend', 0]]);
+  });
+});
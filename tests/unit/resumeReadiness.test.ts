@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { ResumeAnalysis } from '../../lib/domain';
+import { ReadinessCheck, getReadinessChecks, getReadinessStatus } from '../../lib/resumeReadiness';
+
+const READABLE_TEXT = [
+  'Jane Doe',
+  'jane.doe@example.com | (555) 123-4567',
+  'Education',
+  'BSc Computer Science, 2025',
+  'Work Experience',
+  'Intern, Example Co',
+  'Technical Skills:',
+  'TypeScript, React'
+].join('\n');
+
+const analysis = (overrides: Partial<ResumeAnalysis> = {}): ResumeAnalysis => ({
+  text: READABLE_TEXT,
+  pageCount: 1,
+  pagesWithoutText: [],
+  fonts: ['Helvetica'],
+  multiColumnPages: [],
+  tablePages: [],
+  analyzedAt: Timestamp.fromMillis(Date.UTC(2025, 8, 1)),
+  ...overrides
+});
+
+const check = (checks: ReadinessCheck[], id: string) => checks.find(candidate => candidate.id === id);
+
+describe('getReadinessChecks', () => {
+  it('passes a one-page, single-column resume with contact info and standard headings', () => {
+    const checks = getReadinessChecks(analysis());
+    expect(checks.map(({ id, status }) => [id, status])).toEqual([
+      ['text-layer', 'pass'],
+      ['contact', 'pass'],
+      ['headings', 'pass'],
+      ['columns', 'pass'],
+      ['tables', 'pass'],
+      ['length', 'pass']
+    ]);
+    expect(getReadinessStatus(checks)).toBe('pass');
+  });
+
+  describe('image-only pages', () => {
+    it('fails a resume without any selectable text and skips the checks that read it', () => {
+      const checks = getReadinessChecks(analysis({ text: '', pageCount: 2, pagesWithoutText: [1, 2] }));
+      expect(checks.map(({ id, status }) => [id, status])).toEqual([['text-layer', 'fail'], ['length', 'warn']]);
+    });
+
+    it('warns about the pages without text when others have it', () => {
+      const checks = getReadinessChecks(analysis({ pageCount: 3, pagesWithoutText: [2, 3] }));
+      expect(check(checks, 'text-layer')).toMatchObject({ status: 'warn', detail: expect.stringContaining('Pages 2, 3 have') });
+    });
+  });
+
+  describe('contact info', () => {
+    it('fails without an email address', () => {
+      const text = READABLE_TEXT.replace('jane.doe@example.com | ', '');
+      expect(check(getReadinessChecks(analysis({ text })), 'contact')).toMatchObject({
+        status: 'fail',
+        detail: expect.stringContaining("Couldn't find an email address.")
+      });
+    });
+
+    it('mentions the phone number too when both are missing', () => {
+      const text = READABLE_TEXT.replace('jane.doe@example.com | (555) 123-4567', 'Jane Doe');
+      expect(check(getReadinessChecks(analysis({ text })), 'contact')?.detail).toContain('an email address or phone number');
+    });
+
+    it('only warns without a phone number and accepts international numbers', () => {
+      const withoutPhone = READABLE_TEXT.replace(' | (555) 123-4567', '');
+      const international = READABLE_TEXT.replace('(555) 123-4567', '+44 20 7946 0958');
+      expect(check(getReadinessChecks(analysis({ text: withoutPhone })), 'contact')?.status).toBe('warn');
+      expect(check(getReadinessChecks(analysis({ text: international })), 'contact')?.status).toBe('pass');
+    });
+  });
+
+  describe('columns and tables', () => {
+    it('warns about the pages with columns or tables', () => {
+      const checks = getReadinessChecks(analysis({ pageCount: 2, multiColumnPages: [1], tablePages: [1, 2] }));
+      expect(check(checks, 'columns')).toMatchObject({ status: 'warn', detail: expect.stringContaining('Page 1 looks like multiple columns') });
+      expect(check(checks, 'tables')).toMatchObject({ status: 'warn', detail: expect.stringContaining('Pages 1, 2 seem to use a table') });
+    });
+  });
+
+  describe('length', () => {
+    it.each([
+      [1, 'pass'],
+      [2, 'warn'],
+      [3, 'fail'],
+      [5, 'fail']
+    ])('%i pages is a %s', (pageCount, status) => {
+      expect(check(getReadinessChecks(analysis({ pageCount })), 'length')?.status).toBe(status);
+    });
+  });
+
+  describe('section headings', () => {
+    it('warns when one standard heading is missing', () => {
+      const text = READABLE_TEXT.replace('Technical Skills:', 'Things I know');
+      expect(check(getReadinessChecks(analysis({ text })), 'headings')).toMatchObject({
+        status: 'warn',
+        detail: expect.stringContaining('No Skills heading found.')
+      });
+    });
+
+    it('fails when several are missing', () => {
+      const text = 'jane.doe@example.com (555) 123-4567\nProjects\nAwards';
+      expect(check(getReadinessChecks(analysis({ text })), 'headings')).toMatchObject({
+        status: 'fail',
+        detail: expect.stringContaining('No Education or Experience or Skills heading found.')
+      });
+    });
+
+    it('ignores heading words inside longer lines', () => {
+      const text = READABLE_TEXT.replace('Education', 'Education at a university I attended for four years in total');
+      expect(check(getReadinessChecks(analysis({ text })), 'headings')?.detail).toContain('No Education heading found.');
+    });
+  });
+});
+
+describe('getReadinessStatus', () => {
+  it('reports the worst result', () => {
+    const result = (status: ReadinessCheck['status']): ReadinessCheck => ({ id: status, label: status, status, detail: '' });
+    expect(getReadinessStatus([])).toBe('pass');
+    expect(getReadinessStatus([result('pass'), result('warn')])).toBe('warn');
+    expect(getReadinessStatus([result('warn'), result('fail'), result('pass')])).toBe('fail');
+  });
+});
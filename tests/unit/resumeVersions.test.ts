@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Resume, ResumeVersion } from '../../lib/domain';
+import {
+  formatVersionDate,
+  formatVersionLabel,
+  getApplicationVersion,
+  getApplicationVersionNumber,
+  getResumeAssignment,
+  getVersionsOfResume
+} from '../../lib/resumeVersions';
+
+const version = (id: string, resumeId: string, number: number): ResumeVersion => ({
+  id,
+  userId: 'user-1',
+  resumeId,
+  version: number,
+  fileName: `${id}.pdf`,
+  originalFileName: 'resume.pdf',
+  downloadURL: `https://example.com/${id}.pdf`,
+  fileSize: 1000,
+  uploadDate: Timestamp.fromMillis(Date.UTC(2025, 8, number))
+});
+
+// The documents resumeRepository.addVersion leaves behind after a resume is
+// replaced for the first time: the original upload copied into version 1 and
+// the new file as version 2, which becomes the current version
+const firstReplacement = (resumeId: string) => ({
+  resume: { id: resumeId, currentVersionId: `${resumeId}-v2`, versionCount: 2 } as Resume,
+  versions: [version(`${resumeId}-v1`, resumeId, 1), version(`${resumeId}-v2`, resumeId, 2)]
+});
+
+describe('getVersionsOfResume', () => {
+  it("returns only that resume's versions, newest first", () => {
+    const versions = [version('a1', 'a', 1), version('b1', 'b', 1), version('a3', 'a', 3), version('a2', 'a', 2)];
+    expect(getVersionsOfResume(versions, 'a').map(({ id }) => id)).toEqual(['a3', 'a2', 'a1']);
+    expect(getVersionsOfResume(versions, 'missing')).toEqual([]);
+  });
+
+  it('does not reorder the list it was given', () => {
+    const versions = [version('a1', 'a', 1), version('a2', 'a', 2)];
+    getVersionsOfResume(versions, 'a');
+    expect(versions.map(({ id }) => id)).toEqual(['a1', 'a2']);
+  });
+});
+
+describe('formatVersionLabel and formatVersionDate', () => {
+  it('labels versions and shows pending uploads', () => {
+    expect(formatVersionLabel(1)).toBe('v1');
+    expect(formatVersionLabel(12)).toBe('v12');
+    expect(formatVersionDate(version('a1', 'a', 1))).toBe('Sep 1, 2025');
+    expect(formatVersionDate({ uploadDate: null })).toBe('Uploading...');
+  });
+});
+
+describe('the version an application was sent with', () => {
+  it('is version 1 of a resume that was never replaced', () => {
+    const resume = { id: 'a' } as Resume;
+    const application = getResumeAssignment([resume], 'a');
+
+    expect(application).toEqual({ resumeId: 'a', resumeVersionId: null });
+    expect(getApplicationVersion(application, [])).toBeNull();
+    expect(getApplicationVersionNumber(application, [])).toBe(1);
+  });
+
+  it('stays version 1 once addVersion stores the original upload', () => {
+    const { versions } = firstReplacement('a');
+    const sentBeforeReplacing = { resumeId: 'a', resumeVersionId: null };
+
+    expect(getApplicationVersion(sentBeforeReplacing, versions)?.id).toBe('a-v1');
+    expect(getApplicationVersionNumber(sentBeforeReplacing, versions)).toBe(1);
+  });
+
+  it('pins new applications to the current version', () => {
+    const { resume, versions } = firstReplacement('a');
+    const application = getResumeAssignment([resume], 'a');
+
+    expect(application.resumeVersionId).toBe('a-v2');
+    expect(getApplicationVersionNumber(application, versions)).toBe(2);
+  });
+
+  it("ignores other resumes' versions and applications without a resume", () => {
+    const versions = [...firstReplacement('a').versions, ...firstReplacement('b').versions];
+
+    expect(getApplicationVersion({ resumeId: 'b', resumeVersionId: null }, versions)?.id).toBe('b-v1');
+    expect(getApplicationVersionNumber({ resumeId: null, resumeVersionId: null }, versions)).toBeNull();
+    expect(getResumeAssignment([], null)).toEqual({ resumeId: null, resumeVersionId: null });
+  });
+});
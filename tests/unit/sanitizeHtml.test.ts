@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, isHtmlFragment, sanitizeHtml } from '../../lib/sanitizeHtml';
+
+describe('sanitizeHtml', () => {
+  it('keeps formatting tags without their attributes', () => {
+    expect(sanitizeHtml('<p class="x" style="color:red" onclick="alert(1)">Hi <strong id="s">there</strong></p>'))
+      .toBe('<p>Hi <strong>there</strong></p>');
+  });
+
+  it('drops scripts, styles, frames and forms with their contents', () => {
+    expect(sanitizeHtml('<p>Keep</p><script>alert(1)</script><style>p{}</style><iframe src="x"></iframe><form><input></form>'))
+      .toBe('<p>Keep</p>');
+  });
+
+  it('unwraps unknown tags and keeps their text', () => {
+    expect(sanitizeHtml('<section><custom-tag>Text</custom-tag><img src=x onerror="alert(1)"></section>')).toBe('Text');
+  });
+
+  it('keeps only http(s) links and opens them safely', () => {
+    expect(sanitizeHtml('<a href="https://example.com/jobs?a=1&b=2" target="_self">Apply</a>'))
+      .toBe('<a href="https://example.com/jobs?a=1&amp;b=2" target="_blank" rel="noopener noreferrer nofollow">Apply</a>');
+    expect(sanitizeHtml('<a href="javascript:alert(1)">Click</a> <a href=" data:text/html,x">Data</a>')).toBe('Click Data');
+  });
+
+  it('escapes text so it cannot become markup', () => {
+    expect(sanitizeHtml('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>')).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+  });
+
+  it('writes void tags without closing tags', () => {
+    expect(sanitizeHtml('<p>a<br/>b</p><hr>')).toBe('<p>a<br>b</p><hr>');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes every character that matters in HTML', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
+
+describe('isHtmlFragment', () => {
+  it('tells HTML from text with the odd angle bracket', () => {
+    expect(isHtmlFragment('<p>Hello</p>')).toBe(true);
+    expect(isHtmlFragment('Line one<br/>line two')).toBe(true);
+    expect(isHtmlFragment('Salary < $100k, 3+ years > required')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Application, HiringManager, Resume } from '../../lib/domain';
+import { findStatusOption } from '../../lib/pipeline';
+import { SearchContext, createSearchIndex, tokenize } from '../../lib/searchIndex';
+import { parseSearchQuery } from '../../lib/searchQuery';
+
+const application = (overrides: Partial<Application>): Application => ({
+  id: 'app',
+  userId: 'alice',
+  jobTitle: 'Frontend Developer',
+  company: 'Google',
+  location: 'Remote',
+  jobLink: '',
+  status: 'applied',
+  notes: '',
+  createdAt: Timestamp.fromDate(new Date(2025, 8, 1)),
+  updatedAt: Timestamp.fromDate(new Date(2025, 8, 1)),
+  ...overrides
+} as Application);
+
+const context: SearchContext = {
+  // Stage colors don't matter here, so every status gets the fallback option
+  getStatusOption: status => ({ ...findStatusOption([], status), label: status === 'interview' ? 'Interviewing' : 'Applied' }),
+  getResumeName: id => (id === 'swe' ? 'SWE v2' : ''),
+  getContactName: () => '',
+  getDescriptionText: () => ''
+};
+
+const search = (index: ReturnType<typeof createSearchIndex>, input: string) =>
+  index.search(parseSearchQuery(input), context);
+
+describe('tokenize', () => {
+  it('splits on anything but letters and digits', () => {
+    expect(tokenize('Full-Stack Dev (C++/Node.js)')).toEqual(['full', 'stack', 'dev', 'c', 'node', 'js']);
+  });
+});
+
+describe('createSearchIndex', () => {
+  const index = createSearchIndex();
+  index.sync('application', [
+    application({ id: 'google', company: 'Google', jobTitle: 'Frontend Developer', resumeId: 'swe' }),
+    application({
+      id: 'stripe',
+      company: 'Stripe',
+      jobTitle: 'Backend Engineer',
+      status: 'interview',
+      createdAt: Timestamp.fromDate(new Date(2025, 9, 1))
+    })
+  ]);
+  index.sync('contact', [{ id: 'jane', name: 'Jane Doe', role: 'Recruiter', company: 'Stripe' } as HiringManager]);
+  index.sync('resume', [{ id: 'swe', name: 'SWE v2', originalFileName: 'resume.pdf' } as Resume]);
+
+  it('matches words by prefix across entity types', () => {
+    const results = search(index, 'strip');
+    expect(results.applications.map(app => app.id)).toEqual(['stripe']);
+    expect(results.contacts.map(contact => contact.id)).toEqual(['jane']);
+    expect(results.total).toBe(2);
+  });
+
+  it('requires phrases in order', () => {
+    expect(search(index, '"frontend developer"').total).toBe(1);
+    expect(search(index, '"developer frontend"').total).toBe(0);
+  });
+
+  it('applies qualifiers and negation', () => {
+    expect(search(index, 'status:interviewing').applications.map(app => app.id)).toEqual(['stripe']);
+    expect(search(index, '-status:interview type:app').applications.map(app => app.id)).toEqual(['google']);
+    expect(search(index, 'resume:"swe v2"').applications.map(app => app.id)).toEqual(['google']);
+    expect(search(index, 'created:>2025-09-15').applications.map(app => app.id)).toEqual(['stripe']);
+  });
+
+  it('drops documents missing from a later snapshot and re-indexes changed ones', () => {
+    const local = createSearchIndex();
+    local.sync('application', [application({ id: 'a', company: 'Google' }), application({ id: 'b', company: 'Meta' })]);
+    local.sync('application', [application({ id: 'a', company: 'Alphabet' })]);
+
+    expect(search(local, 'meta').total).toBe(0);
+    expect(search(local, 'google').total).toBe(0);
+    expect(search(local, 'alphabet').applications.map(app => app.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { isEmptyQuery, matchesDate, normalizeSearchText, parseSearchQuery } from '../../lib/searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('splits free text into lowercase terms', () => {
+    expect(parseSearchQuery('Frontend  Remote').terms).toEqual([
+      { text: 'frontend', negated: false },
+      { text: 'remote', negated: false }
+    ]);
+  });
+
+  it('keeps quoted phrases together', () => {
+    expect(parseSearchQuery('"Product Designer" intern').terms).toEqual([
+      { text: 'product designer', negated: false },
+      { text: 'intern', negated: false }
+    ]);
+  });
+
+  it('reads qualifiers, including quoted values and aliases', () => {
+    const query = parseSearchQuery('status:interview company:"Capital One" jd:kubernetes');
+    expect(query.qualifiers).toEqual([
+      { field: 'status', value: 'interview', negated: false },
+      { field: 'company', value: 'capital one', negated: false },
+      { field: 'description', value: 'kubernetes', negated: false }
+    ]);
+    expect(query.terms).toEqual([]);
+  });
+
+  it('negates terms and qualifiers with a leading minus', () => {
+    const query = parseSearchQuery('-status:rejected -intern');
+    expect(query.qualifiers).toEqual([{ field: 'status', value: 'rejected', negated: true }]);
+    expect(query.terms).toEqual([{ text: 'intern', negated: true }]);
+  });
+
+  it('searches unknown prefixes as plain text', () => {
+    expect(parseSearchQuery('https://jobs.example.com').terms).toEqual([
+      { text: 'https://jobs.example.com', negated: false }
+    ]);
+  });
+
+  it('parses date qualifiers into the period they name', () => {
+    const [qualifier] = parseSearchQuery('created:>=2025-09').qualifiers;
+    expect(qualifier.field).toBe('created');
+    expect(qualifier.operator).toBe('>=');
+    expect(qualifier.range).toEqual({
+      start: new Date(2025, 8, 1).getTime(),
+      end: new Date(2025, 9, 1).getTime() - 1
+    });
+  });
+
+  it('reports dates it cannot read instead of matching them', () => {
+    const query = parseSearchQuery('created:yesterday updated:2025-13');
+    expect(query.qualifiers).toEqual([]);
+    expect(query.errors).toHaveLength(2);
+  });
+
+  it('treats blank input and empty quotes as empty', () => {
+    expect(isEmptyQuery(parseSearchQuery('   '))).toBe(true);
+    expect(isEmptyQuery(parseSearchQuery('company:""'))).toBe(true);
+    expect(isEmptyQuery(parseSearchQuery('google'))).toBe(false);
+  });
+});
+
+describe('matchesDate', () => {
+  const [day] = parseSearchQuery('created:2025-09-01').qualifiers;
+  const start = new Date(2025, 8, 1).getTime();
+  const nextDay = new Date(2025, 8, 2).getTime();
+
+  it('matches the whole period for =', () => {
+    expect(matchesDate(start, day)).toBe(true);
+    expect(matchesDate(nextDay - 1, day)).toBe(true);
+    expect(matchesDate(nextDay, day)).toBe(false);
+  });
+
+  it('compares against the end of the period for > and the start for <', () => {
+    const [after] = parseSearchQuery('created:>2025-09-01').qualifiers;
+    const [before] = parseSearchQuery('created:<2025-09-01').qualifiers;
+    expect(matchesDate(nextDay - 1, after)).toBe(false);
+    expect(matchesDate(nextDay, after)).toBe(true);
+    expect(matchesDate(start - 1, before)).toBe(true);
+    expect(matchesDate(start, before)).toBe(false);
+  });
+
+  it('never matches a missing timestamp', () => {
+    expect(matchesDate(null, day)).toBe(false);
+  });
+});
+
+describe('normalizeSearchText', () => {
+  it('lowercases and strips accents', () => {
+    expect(normalizeSearchText('Société Générale')).toBe('societe generale');
+  });
+});
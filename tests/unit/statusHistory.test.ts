@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Application, DEFAULT_PIPELINE_STAGES, StatusChange } from '../../lib/domain';
+import { getAverageTimeToResponse, getDaysInStage, getDaysToResponse, getStatusTimeline } from '../../lib/statusHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 8, 1);
+const day = (offset: number) => Timestamp.fromMillis(START + offset * DAY);
+
+const change = (from: string | null, to: string, offset: number): StatusChange =>
+  ({ from, to, changedAt: day(offset), source: 'edit' });
+
+const application = (statusHistory: StatusChange[], overrides: Partial<Application> = {}) => ({
+  id: 'a',
+  status: statusHistory[statusHistory.length - 1]?.to || 'saved',
+  statusHistory,
+  createdAt: day(0),
+  ...overrides
+} as Application);
+
+describe('getStatusTimeline', () => {
+  it('returns a history that starts with the creation entry as is', () => {
+    const history = [change(null, 'saved', 0), change('saved', 'applied', 2)];
+    expect(getStatusTimeline(application(history))).toEqual(history);
+  });
+
+  it('adds a starting entry for applications created before history was tracked', () => {
+    const history = [change('applied', 'interview', 5)];
+    expect(getStatusTimeline(application(history))).toEqual([
+      { from: null, to: 'applied', changedAt: day(0), source: 'created' },
+      ...history
+    ]);
+    expect(getStatusTimeline(application([], { status: 'offer' }))[0]).toMatchObject({ from: null, to: 'offer' });
+  });
+});
+
+describe('getDaysInStage', () => {
+  it('counts days since the last transition', () => {
+    const app = application([change(null, 'saved', 0), change('saved', 'applied', 3)]);
+    expect(getDaysInStage(app, START + 10 * DAY)).toBe(7);
+  });
+
+  it('falls back to createdAt and never goes negative', () => {
+    expect(getDaysInStage(application([]), START + 2 * DAY)).toBe(2);
+    expect(getDaysInStage(application([change(null, 'saved', 5)]), START)).toBe(0);
+    expect(getDaysInStage(application([], { createdAt: null }), START)).toBe(0);
+  });
+});
+
+describe('getDaysToResponse', () => {
+  const stages = DEFAULT_PIPELINE_STAGES;
+
+  it('measures from first applying to the first response after it', () => {
+    const app = application([
+      change(null, 'saved', 0),
+      change('saved', 'applied', 2),
+      change('applied', 'phone-screen', 9),
+      change('phone-screen', 'rejected', 20)
+    ]);
+    expect(getDaysToResponse(app, stages)).toBe(7);
+  });
+
+  it('is null until the application is submitted and answered', () => {
+    expect(getDaysToResponse(application([change(null, 'saved', 0)]), stages)).toBeNull();
+    expect(getDaysToResponse(application([change(null, 'applied', 0)]), stages)).toBeNull();
+  });
+
+  it('uses the second stage as "submitted" in pipelines without Applied', () => {
+    const custom = [
+      { id: 'wishlist', name: 'Wishlist', color: 'slate', kind: 'active' as const },
+      { id: 'sent', name: 'Sent', color: 'blue', kind: 'active' as const },
+      { id: 'call', name: 'Call', color: 'purple', kind: 'active' as const }
+    ];
+    const app = application([change(null, 'wishlist', 0), change('wishlist', 'sent', 1), change('sent', 'call', 4)]);
+    expect(getDaysToResponse(app, custom)).toBe(3);
+  });
+});
+
+describe('getAverageTimeToResponse', () => {
+  it('averages only the applications that got a response', () => {
+    const answered = (days: number) => application([change(null, 'applied', 0), change('applied', 'interview', days)]);
+    const waiting = application([change(null, 'applied', 0)]);
+    expect(getAverageTimeToResponse([answered(4), answered(10), waiting], DEFAULT_PIPELINE_STAGES)).toBe(7);
+    expect(getAverageTimeToResponse([waiting], DEFAULT_PIPELINE_STAGES)).toBe(0);
+  });
+});
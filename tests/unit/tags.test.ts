@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TAGS, MAX_TAG_LENGTH, findTagDefinition, hasTag, mergeTags, normalizeTag, parseTagInput } from '../../lib/tags';
+
+const tags = (count: number) => Array.from({ length: count }, (_, index) => `tag ${index}`);
+
+describe('MAX_TAGS', () => {
+  it('matches the tags list limit in firestore.rules', () => {
+    expect(MAX_TAGS).toBe(20);
+  });
+});
+
+describe('normalizeTag', () => {
+  it('trims, collapses whitespace and caps the length', () => {
+    expect(normalizeTag('  dream   company ')).toBe('dream company');
+    expect(normalizeTag('x'.repeat(60))).toHaveLength(MAX_TAG_LENGTH);
+  });
+});
+
+describe('parseTagInput', () => {
+  it('splits on commas and drops blanks and duplicates', () => {
+    expect(parseTagInput('referral, remote  ok,,Referral, ')).toEqual(['referral', 'remote ok']);
+  });
+});
+
+describe('mergeTags', () => {
+  it('appends new tags and keeps the first spelling of case-insensitive duplicates', () => {
+    expect(mergeTags(['Referral'], ['referral', 'remote', 'REMOTE', ''])).toEqual(['Referral', 'remote']);
+  });
+
+  it('never returns more than MAX_TAGS tags', () => {
+    expect(mergeTags(tags(MAX_TAGS - 1), ['one', 'two'])).toEqual([...tags(MAX_TAGS - 1), 'one']);
+    expect(mergeTags([], tags(MAX_TAGS + 5))).toHaveLength(MAX_TAGS);
+  });
+
+  it('does not change the existing list', () => {
+    const existing = ['referral'];
+    mergeTags(existing, ['remote']);
+    expect(existing).toEqual(['referral']);
+  });
+});
+
+describe('hasTag', () => {
+  it('matches case-insensitively and handles applications without tags', () => {
+    expect(hasTag(['Referral'], 'referral')).toBe(true);
+    expect(hasTag(['Referral'], 'remote')).toBe(false);
+    expect(hasTag(undefined, 'referral')).toBe(false);
+  });
+});
+
+describe('findTagDefinition', () => {
+  it('finds the definition regardless of case', () => {
+    const definitions = [{ id: 't1', name: 'Referral', color: 'green' }];
+    expect(findTagDefinition(definitions, 'REFERRAL')).toBe(definitions[0]);
+    expect(findTagDefinition(definitions, 'remote')).toBeUndefined();
+  });
+});
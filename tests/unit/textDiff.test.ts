@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, summarizeDiff } from '../../lib/textDiff';
+
+describe('diffLines', () => {
+  it('marks every line the same for identical texts', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' }
+    ]);
+  });
+
+  it('aligns changes on the longest common subsequence', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'd' }
+    ]);
+  });
+
+  it('lists a replaced line as removed, then added', () => {
+    expect(diffLines('title\nold\nend', 'title\nnew\nend')).toEqual([
+      { type: 'same', text: 'title' },
+      { type: 'removed', text: 'old' },
+      { type: 'added', text: 'new' },
+      { type: 'same', text: 'end' }
+    ]);
+  });
+
+  it('handles empty texts and Windows line endings', () => {
+    expect(diffLines('', 'a')).toEqual([{ type: 'added', text: 'a' }]);
+    expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }]);
+    expect(diffLines('a\r\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' }
+    ]);
+  });
+
+  it('keeps every line of both sides in order', () => {
+    const before = 'one\ntwo\nthree\nfour\nfive';
+    const after = 'zero\none\nthree\nfour\n4.5\nfive';
+    const lines = diffLines(before, after);
+    expect(lines.filter(line => line.type !== 'added').map(line => line.text).join('\n')).toBe(before);
+    expect(lines.filter(line => line.type !== 'removed').map(line => line.text).join('\n')).toBe(after);
+    expect(summarizeDiff(lines)).toEqual({ added: 2, removed: 1 });
+  });
+});
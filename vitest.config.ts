@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Every rules test file talks to the same emulator instance
+    fileParallelism: false,
+    testTimeout: 20000,
+    hookTimeout: 30000
+  }
+});